@@ -5,8 +5,11 @@ import AppHeader from '@/components/AppHeader';
 import BotManager from '@/components/BotManager';
 import GlobalBotControls from '@/components/GlobalBotControls';
 import WalletCreationManager from '@/components/WalletCreationManager';
+import BacktestPanel from '@/components/BacktestPanel';
+import TradeLedgerPanel from '@/components/TradeLedgerPanel';
 import { saveBotWallets, loadBotWallets, clearBotWallets } from '@/utils/botWalletManager';
-import { Keypair, LAMPORTS_PER_SOL, SystemProgram, Transaction, sendAndConfirmTransaction, SendTransactionError } from '@solana/web3.js';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction, SendTransactionError } from '@solana/web3.js';
+import { TransactionSendError, signAndSendTransactionWithRetry } from '@/utils/transactionUtils';
 import { useToken } from '@/context/TokenContext';
 import { useBotLogic } from '@/context/BotLogicContext';
 import { useNetwork } from '@/context/NetworkContext';
@@ -19,15 +22,54 @@ import { useChartData } from '@/context/ChartDataContext';
 // Import other hooks and utilities you use for fetching LP data
 import { useWallet } from '@solana/wallet-adapter-react';
 
+// Funding transfers are re-signed with a fresh blockhash if they expire unconfirmed
+const sendTransfer = async (
+    connection: Connection,
+    transaction: Transaction,
+    feePayer: PublicKey,
+    sign: (transaction: Transaction) => Promise<Transaction>,
+): Promise<string> => {
+    const result = await signAndSendTransactionWithRetry(connection, ({ blockhash, lastValidBlockHeight }: { blockhash: string; lastValidBlockHeight: number }) => {
+        transaction.recentBlockhash = blockhash;
+        transaction.lastValidBlockHeight = lastValidBlockHeight;
+        transaction.feePayer = feePayer;
+        return sign(transaction);
+    });
+    return result.signature;
+};
+
+// Program logs of a failed transfer, when the error carries them
+const transferErrorLogs = async (err: any, connection: Connection): Promise<string | undefined> => {
+    let logs: string[] | undefined;
+    if (err instanceof TransactionSendError) {
+        logs = (err as any).result?.logs;
+    } else if (err instanceof SendTransactionError) {
+        logs = err.logs;
+        if (!logs && typeof err.getLogs === 'function') {
+            try {
+                logs = await err.getLogs(connection);
+            } catch (_) {
+                // ignore errors when fetching logs
+            }
+        }
+    }
+    return logs?.length ? logs.join('\n') : undefined;
+};
+
 export default function TradingBotsPage() {
-    const { publicKey, sendTransaction } = useWallet();
+    const { publicKey, signTransaction } = useWallet();
     const {
         isLogicEnabled,
         setIsLogicEnabled,
         userStrategies,
         handleSaveCurrentStrategy,
+        handleSaveRevision,
+        handleRestoreRevision,
+        handleRenameStrategy,
+        handleDuplicateStrategy,
         handleLoadStrategy,
         handleDeleteStrategy,
+        handleUpdateStrategyParams,
     } = useBotLogic();
     const { logs, append } = useGlobalLogs();
     const { network, rpcUrl, connection } = useNetwork();
@@ -42,6 +84,7 @@ export default function TradingBotsPage() {
         setIsAdvancedMode,
         isTradingActive,
         setIsTradingActive,
+        setActiveStrategyId,
     } = useBotContext();
     const [creationState, setCreationState] = useState<'idle' | 'processing'>('idle');
     const { reloadWallets } = useBotWalletReload();
@@ -60,7 +103,9 @@ export default function TradingBotsPage() {
     const handleSelectPreset = (preset: string) => {
         setBotCode(preset);
         setIsAdvancedMode(false);
-        const logMessage = preset.includes('market maker')
+        const isMarketMaker = /market maker/i.test(preset);
+        setActiveStrategyId(isMarketMaker ? 'preset:market-maker' : 'preset:default');
+        const logMessage = isMarketMaker
             ? 'Market Maker preset selected; bots can access market mid-price and LP stats.'
             : 'Default preset selected; bots run basic logic without extra market data.';
         addLog(logMessage);
@@ -115,8 +160,8 @@ export default function TradingBotsPage() {
 
     const { removeBot } = useBotService();
 
-    const handleClearAll = () => {
-        const wallets = loadBotWallets(network);
+    const handleClearAll = async () => {
+        const wallets = await loadBotWallets(network);
         wallets.forEach(w => removeBot(w.publicKey.toBase58()));
         clearBotWallets(network);
         reloadWallets();
@@ -130,6 +175,11 @@ export default function TradingBotsPage() {
         useIntermediate: boolean = false,
     ) => {
         console.log('[TradingBotsPage] distributeFunds started');
+        if (!publicKey || !signTransaction) {
+            addLog('Connect a wallet that can sign transactions to fund trading wallets.');
+            setCreationState('idle');
+            return;
+        }
         const baseAmount = totalSol / wallets.length;
         const amounts = wallets.map(() => baseAmount * (0.9 + Math.random() * 0.2));
         const diff = totalSol - amounts.reduce((a, b) => a + b, 0);
@@ -144,7 +194,7 @@ export default function TradingBotsPage() {
         if (!useIntermediate) {
             // Save wallets immediately when no intermediate wallet is used so
             // any failures during funding don't lose the generated keypairs.
-            saveBotWallets(network, wallets);
+            await saveBotWallets(network, wallets);
             reloadWallets();
         }
 
@@ -162,36 +212,23 @@ export default function TradingBotsPage() {
                 const feeBufferLamports = 10000 * wallets.length; 
                 const fundTx = new Transaction().add(
                     SystemProgram.transfer({
-                        fromPubkey: publicKey!,
+                        fromPubkey: publicKey,
                         toPubkey: intermediateWallet.publicKey,
                        lamports: Math.round(totalSol * LAMPORTS_PER_SOL) + feeBufferLamports,
                     }),
                 );
-                const sig = await sendTransaction(fundTx, connection);
-                await connection.confirmTransaction(sig, 'confirmed');
+                await sendTransfer(connection, fundTx, publicKey, signTransaction);
                 addLog(`Funded intermediate wallet ${intermediateWallet.publicKey.toBase58()}`);
                  // Save wallets immediately after staging funds to avoid losing them
                 // if any subsequent transfer fails. They will be saved again at the end
                 // once all transfers complete.
-                saveBotWallets(network, wallets);
+                await saveBotWallets(network, wallets);
                 reloadWallets();
             } catch (err: any) {
-                if (err instanceof SendTransactionError) {
-                    let logs = err.logs;
-                    if (!logs && typeof err.getLogs === 'function') {
-                        try {
-                            logs = await err.getLogs(connection);
-                        } catch (_) {
-                            // ignore errors when fetching logs
-                        }
-                    }
-                    const logStr = logs?.join('\n');
-                    addLog(
-                        `Error funding intermediate wallet: ${err.message}${logStr ? `\n${logStr}` : ''}`,
-                    );
-                } else {
-                    addLog(`Error funding intermediate wallet: ${err.message}`);
-                }
+                const logStr = await transferErrorLogs(err, connection);
+                addLog(
+                    `Error funding intermediate wallet: ${err.message}${logStr ? `\n${logStr}` : ''}`,
+                );
                 setCreationState('idle');
                 return;
             }
@@ -202,7 +239,7 @@ export default function TradingBotsPage() {
             const lamports = Math.round(amount * LAMPORTS_PER_SOL);
             try {
                  if (!useIntermediate) {
-                    const balance = await connection.getBalance(publicKey!);
+                    const balance = await connection.getBalance(publicKey);
                     const required = totalSol * LAMPORTS_PER_SOL;
                     if (balance < required) {
                         addLog('Insufficient balance to fund wallets.');
@@ -220,17 +257,20 @@ export default function TradingBotsPage() {
                             lamports,
                         })
                     );
-                    sig = await sendAndConfirmTransaction(connection, tx, [intermediateWallet]);
+                    const stagingWallet = intermediateWallet;
+                    sig = await sendTransfer(connection, tx, stagingWallet.publicKey, async (t) => {
+                        t.sign(stagingWallet);
+                        return t;
+                    });
                 } else {
                     const tx = new Transaction().add(
                         SystemProgram.transfer({
-                            fromPubkey: publicKey!,
+                            fromPubkey: publicKey,
                             toPubkey: wallets[i].publicKey,
                             lamports,
                         })
                     );
-                    sig = await sendTransaction(tx, connection);
-                    await connection.confirmTransaction(sig, 'confirmed');
+                    sig = await sendTransfer(connection, tx, publicKey, signTransaction);
                 }
                 addLog(
                     `Transferred ${amount.toFixed(4)} SOL to trading wallet ${wallets[i].publicKey.toBase58()}`,
@@ -240,29 +280,17 @@ export default function TradingBotsPage() {
                 reloadWallets();
 
                 if (i === wallets.length - 1) {
-                    saveBotWallets(network, wallets);
+                    await saveBotWallets(network, wallets);
                     reloadWallets();
                     addLog(`Saved ${wallets.length} trading wallets`);
                     setCreationState('idle');
                     console.log('[TradingBotsPage] distributeFunds completed'); 
                 }
             } catch (err: any) {
-                 if (err instanceof SendTransactionError) {
-                    let logs = err.logs;
-                    if (!logs && typeof err.getLogs === 'function') {
-                        try {
-                            logs = await err.getLogs(connection);
-                        } catch (_) {
-                            // ignore errors when fetching logs
-                        }
-                    }
-                    const logStr = logs?.join('\n');
-                    addLog(
-                        `Error funding wallet ${i + 1}: ${err.message}${logStr ? `\n${logStr}` : ''}`,
-                    );
-                } else {
-                    addLog(`Error funding wallet ${i + 1}: ${err.message}`);
-                }
+                const logStr = await transferErrorLogs(err, connection);
+                addLog(
+                    `Error funding wallet ${i + 1}: ${err.message}${logStr ? `\n${logStr}` : ''}`,
+                );
                 setCreationState('idle');
             }
         };
@@ -290,8 +318,13 @@ export default function TradingBotsPage() {
                         onToggleAdvancedMode={handleToggleAdvancedMode}
                         userStrategies={userStrategies}
                         onSaveCurrentStrategy={handleSaveCurrentStrategy}
+                        onSaveRevision={handleSaveRevision}
+                        onRestoreRevision={handleRestoreRevision}
+                        onRenameStrategy={handleRenameStrategy}
+                        onDuplicateStrategy={handleDuplicateStrategy}
                         onLoadStrategy={handleLoadStrategy}
                         onDeleteStrategy={handleDeleteStrategy}
+                        onStrategyParamsChange={handleUpdateStrategyParams}
                     />
                     <WalletCreationManager
                          distributeFunds={handleStartCreation}
@@ -300,6 +333,10 @@ export default function TradingBotsPage() {
                     />
                 </div>
 
+                <TradeLedgerPanel />
+
+                <BacktestPanel />
+
                 <div>
                     <h3 className="text-lg font-bold text-white mb-2">Global Action Logs</h3>
                     <div className="bg-black p-3 rounded-lg h-32 overflow-y-auto font-mono text-xs text-gray-400 space-y-1 custom-scrollbar">
@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { useBotContext } from '@/context/BotContext';
+import { useChartData } from '@/context/ChartDataContext';
+import { useToken } from '@/context/TokenContext';
+import { useNetwork } from '@/context/NetworkContext';
+import { NumberInputStepper } from '@/components/NumberInputStepper';
+import {
+    BacktestConfig,
+    BacktestReport,
+    DEFAULT_BACKTEST_CONFIG,
+    ReserveTick,
+    parseReserveHistory,
+    reserveTicksFromPriceHistory,
+} from '@/utils/backtester';
+
+const formatSol = (v: number) => `${v.toFixed(6)} SOL`;
+const formatPct = (v: number) => `${(v * 100).toFixed(2)}%`;
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function BacktestPanel() {
+    const { botCode, executionMode, minTradeAmount, indicatorConfig, strategyParams } = useBotContext();
+    const { rawPriceHistory } = useChartData();
+    const { tokenDecimals } = useToken();
+    const { network } = useNetwork();
+
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [source, setSource] = useState<'live' | 'file'>('live');
+    const [importedTicks, setImportedTicks] = useState<ReserveTick[] | null>(null);
+    const [importedName, setImportedName] = useState('');
+    const [botCount, setBotCount] = useState('1');
+    const [initialSol, setInitialSol] = useState('1');
+    const [fallbackLiquidity, setFallbackLiquidity] = useState('50');
+    const [tradeAmount, setTradeAmount] = useState('0.01');
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [report, setReport] = useState<BacktestReport | null>(null);
+    const [error, setError] = useState('');
+    const workerRef = useRef<Worker | null>(null);
+
+    useEffect(() => {
+        if (minTradeAmount !== null) setTradeAmount(minTradeAmount.toString());
+    }, [minTradeAmount]);
+
+    useEffect(() => () => workerRef.current?.terminate(), []);
+
+    const stopWorker = () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        setProgress(null);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const ticks = parseReserveHistory(await file.text(), parseFloat(fallbackLiquidity) || 50);
+            setImportedTicks(ticks);
+            setImportedName(`${file.name} (${ticks.length} ticks)`);
+            setSource('file');
+            setError('');
+        } catch (err: any) {
+            setError(err?.message || 'Failed to parse history file.');
+        }
+    };
+
+    const handleRun = () => {
+        const ticks =
+            source === 'file'
+                ? importedTicks
+                : reserveTicksFromPriceHistory(rawPriceHistory, parseFloat(fallbackLiquidity) || 50);
+        if (!ticks || ticks.length === 0) {
+            setError(source === 'file' ? 'Import a history file first.' : 'No recorded price history yet.');
+            return;
+        }
+        const count = parseInt(botCount, 10);
+        const sol = parseFloat(initialSol);
+        if (isNaN(count) || count < 1 || isNaN(sol) || sol <= 0) {
+            setError('Enter a valid bot count and starting SOL.');
+            return;
+        }
+        const config: BacktestConfig = {
+            ...DEFAULT_BACKTEST_CONFIG,
+            code: botCode,
+            mode: executionMode,
+            botCount: count,
+            initialSolPerBot: sol,
+            tokenDecimals: tokenDecimals ?? DEFAULT_BACKTEST_CONFIG.tokenDecimals,
+            network,
+            minTradeAmount: parseFloat(tradeAmount) || null,
+            indicatorConfig,
+            params: strategyParams,
+        };
+
+        stopWorker();
+        setError('');
+        setReport(null);
+        setProgress({ done: 0, total: ticks.length });
+        const worker = new Worker(new URL('../workers/backtest-worker.js', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        worker.onmessage = (ev) => {
+            const { progress: p, report: r, error: err } = ev.data || {};
+            if (p) setProgress(p);
+            if (r) {
+                setReport(r);
+                stopWorker();
+            }
+            if (err) {
+                setError(err);
+                stopWorker();
+            }
+        };
+        worker.onerror = (e) => {
+            setError(e.message);
+            stopWorker();
+        };
+        worker.postMessage({ ticks, config });
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+            <div
+                className="p-4 cursor-pointer flex justify-between items-center"
+                onClick={() => setIsExpanded(!isExpanded)}
+            >
+                <h2 className="text-xl font-bold text-white">Backtester</h2>
+                <span className={`transition-transform transform text-white ${isExpanded ? 'rotate-180' : ''}`}>
+                    ▼
+                </span>
+            </div>
+
+            {isExpanded && (
+                <div className="p-4 border-t border-gray-600 space-y-4">
+                    <p className="text-xs text-gray-400">
+                        Replays price history through the strategy in the editor ({executionMode} mode) against a
+                        simulated constant-product pool. No transactions are sent.
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-200">
+                        <label className="flex items-center gap-1">
+                            <input type="radio" checked={source === 'live'} onChange={() => setSource('live')} />
+                            Recorded history ({rawPriceHistory.length} ticks)
+                        </label>
+                        <label className="flex items-center gap-1">
+                            <input
+                                type="radio"
+                                checked={source === 'file'}
+                                disabled={!importedTicks}
+                                onChange={() => setSource('file')}
+                            />
+                            {importedName || 'Imported file'}
+                        </label>
+                        <label className="px-2 py-1 text-xs bg-gray-700 rounded-md cursor-pointer">
+                            Import CSV/JSON
+                            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+                        </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <NumberInputStepper label="Bots" value={botCount} onChange={setBotCount} step={1} min={1} />
+                        <NumberInputStepper label="Starting SOL per Bot" value={initialSol} onChange={setInitialSol} step={0.1} min={0.1} />
+                        <NumberInputStepper label="minTradeAmount" value={tradeAmount} onChange={setTradeAmount} step={0.01} min={0} />
+                        <NumberInputStepper label="SOL Liquidity (price-only rows)" value={fallbackLiquidity} onChange={setFallbackLiquidity} step={10} min={1} />
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleRun}
+                            disabled={!!progress}
+                            className="flex-1 py-2 bg-purple-600 hover:bg-purple-500 rounded-lg transition text-white font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed"
+                        >
+                            {progress ? `Running... ${progress.done}/${progress.total}` : 'Run Backtest'}
+                        </button>
+                        {progress && (
+                            <button onClick={stopWorker} className="px-4 py-2 bg-red-700 rounded-lg text-white text-sm font-semibold">
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+
+                    {report && (
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                                {[
+                                    ['PnL', `${formatSol(report.pnl)} (${formatPct(report.pnlPercent)})`],
+                                    ['End Equity', formatSol(report.endEquity)],
+                                    ['Max Drawdown', `${formatSol(report.maxDrawdown)} (${formatPct(report.maxDrawdownPercent)})`],
+                                    ['Fills / Rejected', `${report.fills.length} / ${report.rejectedOrders}`],
+                                    ['Pool Fees', formatSol(report.totalPoolFees)],
+                                    ['Network Fees', formatSol(report.totalNetworkFees)],
+                                    ['Ticks', report.ticks.toString()],
+                                    ['Errors', report.errors.length.toString()],
+                                ].map(([label, value]) => (
+                                    <div key={label} className="bg-gray-900 rounded-md p-2">
+                                        <div className="text-gray-400">{label}</div>
+                                        <div className="text-white font-mono">{value}</div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="h-48 bg-gray-900 rounded-md p-2">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={report.equityCurve}>
+                                        <XAxis dataKey="timestamp" tickFormatter={formatTime} tick={{ fill: '#aaa', fontSize: 10 }} />
+                                        <YAxis domain={['auto', 'auto']} tick={{ fill: '#aaa', fontSize: 10 }} width={60} />
+                                        <Tooltip
+                                            labelFormatter={(ts) => formatTime(Number(ts))}
+                                            formatter={(v: number) => [formatSol(v), 'Equity']}
+                                            contentStyle={{ backgroundColor: '#111827', border: 'none' }}
+                                        />
+                                        <Line type="monotone" dataKey="equity" stroke="#a78bfa" dot={false} isAnimationActive={false} />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                            {report.errors.length > 0 && (
+                                <div className="bg-black p-2 rounded-md max-h-24 overflow-y-auto font-mono text-xs text-red-400">
+                                    {report.errors.slice(0, 50).map((e, i) => <p key={i}>{e}</p>)}
+                                </div>
+                            )}
+                            <div className="max-h-48 overflow-y-auto custom-scrollbar">
+                                <table className="w-full text-xs text-gray-300">
+                                    <thead className="text-gray-400">
+                                        <tr>
+                                            <th className="text-left">Time</th>
+                                            <th className="text-left">Bot</th>
+                                            <th className="text-left">Side</th>
+                                            <th className="text-right">In</th>
+                                            <th className="text-right">Out</th>
+                                            <th className="text-right">Price</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.fills.slice(-200).map((f, i) => (
+                                            <tr key={i}>
+                                                <td>{formatTime(f.timestamp)}</td>
+                                                <td className="font-mono">{f.bot.slice(0, 4)}...{f.bot.slice(-4)}</td>
+                                                <td className={f.side === 'buy' ? 'text-green-400' : 'text-red-400'}>{f.side}</td>
+                                                <td className="text-right">{f.amountIn.toFixed(6)}</td>
+                                                <td className="text-right">{f.amountOut.toFixed(6)}</td>
+                                                <td className="text-right">{f.price.toExponential(4)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,15 +1,15 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { Keypair, SystemProgram, Transaction, LAMPORTS_PER_SOL, PublicKey, sendAndConfirmTransaction } from '@solana/web3.js';
+import { Connection, Keypair, SystemProgram, Transaction, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { useNetwork } from '@/context/NetworkContext';
 import { getOrCreateAssociatedTokenAccount, createTransferInstruction, TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import TradingBot from './TradingBot';
+import BotStrategyAssignments from './BotStrategyAssignments';
 import {
     generateBotWallet,
     saveBotWallets,
-    loadBotWallets,
     loadBotWalletsWithRetry,
     clearBotWallets,
 } from '@/utils/botWalletManager';
@@ -18,6 +18,7 @@ import { useBotLogic } from '@/context/BotLogicContext';
 import { useBotWalletReload } from '@/context/BotWalletReloadContext';
 import { useBotContext, BotInstance } from '@/context/BotContext';
 import { useChartData } from '@/context/ChartDataContext';
+import { signAndSendTransactionWithRetry } from '@/utils/transactionUtils';
 
 
 // Define the props the BotManager will accept from the page
@@ -29,9 +30,20 @@ interface BotManagerProps {
     bots: BotInstance[];
 }
 
+// Bot wallets hold their own keypair, so their transfers can be re-signed
+// whenever the shared sender needs a fresh blockhash.
+const sendSignedByBot = (connection: Connection, transaction: Transaction, wallet: Keypair) =>
+    signAndSendTransactionWithRetry(connection, async ({ blockhash, lastValidBlockHeight }: { blockhash: string; lastValidBlockHeight: number }) => {
+        transaction.recentBlockhash = blockhash;
+        transaction.lastValidBlockHeight = lastValidBlockHeight;
+        transaction.feePayer = wallet.publicKey;
+        transaction.sign(wallet);
+        return transaction;
+    });
+
 export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpActive, bots }: BotManagerProps) {
    const { connection, network, rpcUrl } = useNetwork();
-    const { publicKey: userPublicKey, sendTransaction } = useWallet();
+    const { publicKey: userPublicKey, signTransaction } = useWallet();
     const { addBot, removeBot } = useBotService();
     const { isLogicEnabled } = useBotLogic();
     const { registerReloader } = useBotWalletReload();
@@ -42,27 +54,31 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
     const [showConfirmModal, setShowConfirmModal] = useState(false);
 
     useEffect(() => {
+        let cancelled = false;
         setIsLoading(true);
-        try {
-            const loaded = loadBotWalletsWithRetry(network);
-            setBotWallets(loaded);
-            // sync loaded wallets with global context
-            setAllBotsByNetwork(prev => ({
-                ...prev,
-                [network]: loaded.map(w => ({ id: w.publicKey.toBase58(), secretKey: Array.from(w.secretKey) }))
+        (async () => {
+            try {
+                const loaded = await loadBotWalletsWithRetry(network);
+                if (cancelled) return;
+                setBotWallets(loaded);
+                // sync loaded wallets with global context
+                setAllBotsByNetwork(prev => ({
+                    ...prev,
+                    [network]: loaded.map(w => ({ id: w.publicKey.toBase58(), secretKey: Array.from(w.secretKey) }))
 
-            }));
-        } catch (error: any) {
-            console.error(error);
-            alert(error?.message || 'Failed to load bot wallets.');
-            // keep existing wallets/state on error so user can retry with correct password
-        } finally {
-            setIsLoading(false);
-        }
+                }));
+            } catch (error: any) {
+                console.error(error);
+                alert(error?.message || 'Failed to load bot wallets.');
+                // keep existing wallets/state on error so user can retry with correct password
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        })();
 
-        registerReloader(() => {
+        registerReloader(async () => {
             try {
-                const refreshed = loadBotWalletsWithRetry(network);
+                const refreshed = await loadBotWalletsWithRetry(network);
                 setBotWallets(refreshed);
                 setAllBotsByNetwork(prev => ({
                     ...prev,
@@ -73,6 +89,9 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
                 alert(error?.message || 'Failed to load bot wallets.');
             } 
         });
+        return () => {
+            cancelled = true;
+        };
     }, [network, registerReloader, setAllBotsByNetwork]);
 
     useEffect(() => {
@@ -128,7 +147,7 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
             await connection.confirmTransaction(sig, 'confirmed');
             return sig;
         }
-        if (!userPublicKey || !sendTransaction) throw new Error('User wallet not connected.');
+        if (!userPublicKey || !signTransaction) throw new Error('User wallet not connected.');
         const lamports = Math.round(amount * LAMPORTS_PER_SOL);
         const transaction = new Transaction().add(
             SystemProgram.transfer({
@@ -137,10 +156,14 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
                 lamports,
             })
         );
-        const sig = await sendTransaction(transaction, connection);
-        await connection.confirmTransaction(sig, 'confirmed');
-        return sig;
-    }, [userPublicKey, sendTransaction, connection, network]);
+        const result = await signAndSendTransactionWithRetry(connection, ({ blockhash, lastValidBlockHeight }: { blockhash: string; lastValidBlockHeight: number }) => {
+            transaction.recentBlockhash = blockhash;
+            transaction.lastValidBlockHeight = lastValidBlockHeight;
+            transaction.feePayer = userPublicKey;
+            return signTransaction(transaction);
+        });
+        return result.signature;
+    }, [userPublicKey, signTransaction, connection, network]);
 
     const createWithdrawHandler = useCallback((wallet: Keypair) => async (recipientAddress: string, amount: number): Promise<string> => {
         const recipientPublicKey = new PublicKey(recipientAddress);
@@ -152,7 +175,7 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
                 lamports,
             })
         );
-        return await sendAndConfirmTransaction(connection, transaction, [wallet]);
+        return (await sendSignedByBot(connection, transaction, wallet)).signature;
     }, [connection]);
 
     const createWithdrawTokenHandler = useCallback((wallet: Keypair) => async (recipientAddress: string, amount: number, mintAddress: string): Promise<string> => {
@@ -170,7 +193,7 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
         const transaction = new Transaction().add(
             createTransferInstruction(fromAta.address, toAta.address, wallet.publicKey, amount * Math.pow(10, decimals))
         );
-        return await sendAndConfirmTransaction(connection, transaction, [wallet]);
+        return (await sendSignedByBot(connection, transaction, wallet)).signature;
     }, [connection]);
 
 
@@ -224,11 +247,7 @@ export default function BotManager({ selectedTokenAddress, tokenDecimals, isLpAc
                         </button>
                     </div>
                     {bots.length > 0 ? (
-                        <ul className="list-disc list-inside text-gray-300 text-xs space-y-1">
-                            {bots.map(b => (
-                                <li key={b.id} className="font-mono break-all">{b.id}</li>
-                            ))}
-                        </ul>
+                        <BotStrategyAssignments bots={bots} />
                     ) : (
                         <p className="text-gray-400 text-sm">No bots created for this network.</p>
                     )}
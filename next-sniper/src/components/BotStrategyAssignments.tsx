@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useBotContext, BotInstance, TradeIntervalConfig } from '@/context/BotContext';
+import { useBotLogic } from '@/context/BotLogicContext';
+import { useNetwork } from '@/context/NetworkContext';
+import StrategyParamForm from './StrategyParamForm';
+import type { StrategyAssignment } from '@/utils/botAssignments';
+import {
+    StrategyParamDeclaration,
+    StrategyParamValues,
+    loadStrategyParams,
+    resolveStrategyParams,
+    validateStrategyParam,
+} from '@/utils/strategyParams';
+
+interface BotStrategyAssignmentsProps {
+    bots: BotInstance[];
+}
+
+const describeInterval = (cfg: TradeIntervalConfig | null) =>
+    cfg === null ? 'global interval' : cfg.mode === 'fixed' ? `every ${cfg.fixed}s` : `every ${cfg.min}-${cfg.max}s`;
+
+// Blank means the global interval
+const parseInterval = (value: string): TradeIntervalConfig | null => {
+    if (!value.trim()) return null;
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds <= 0) throw new Error('Interval must be a positive number of seconds.');
+    return { mode: 'fixed', fixed: seconds, min: seconds, max: seconds };
+};
+
+// Overrides must still match the strategy's declaration when the group is saved
+const checkParams = (declaration: StrategyParamDeclaration, values: StrategyParamValues): StrategyParamValues => {
+    for (const [name, value] of Object.entries(values)) {
+        const spec = declaration.schema[name];
+        if (!spec) throw new Error(`The strategy declares no parameter ${name}.`);
+        const problem = validateStrategyParam(spec, value);
+        if (problem) throw new Error(`${spec.label ?? name} ${problem}.`);
+    }
+    return values;
+};
+
+const emptyDeclaration: StrategyParamDeclaration = { schema: {}, errors: [] };
+
+/** Which strategy each bot runs, named bot groups and bulk reassignment. */
+export default function BotStrategyAssignments({ bots }: BotStrategyAssignmentsProps) {
+    const { botAssignments, assignBotsTo, saveBotGroup, deleteBotGroup, activeStrategyId, describeStrategyParams } =
+        useBotContext();
+    const { userStrategies } = useBotLogic();
+    const { network } = useNetwork();
+    const [selected, setSelected] = useState<string[]>([]);
+    // '' = editor strategy, 'group:<name>' or 'strategy:<id>'
+    const [target, setTarget] = useState('');
+    const [targetInterval, setTargetInterval] = useState('');
+    const [groupName, setGroupName] = useState('');
+    const [groupStrategyId, setGroupStrategyId] = useState('');
+    const [groupInterval, setGroupInterval] = useState('');
+    // Null runs the strategy's saved parameter values
+    const [groupParams, setGroupParams] = useState<StrategyParamValues | null>(null);
+    const [groupDeclaration, setGroupDeclaration] = useState<StrategyParamDeclaration>(emptyDeclaration);
+    const [error, setError] = useState('');
+
+    // Declared parameters of the group's strategy, read in the worker
+    const groupStrategy = userStrategies.find((s) => s.id === groupStrategyId);
+    React.useEffect(() => {
+        let stale = false;
+        setGroupDeclaration(emptyDeclaration);
+        if (groupStrategy) {
+            describeStrategyParams(groupStrategy.code).then((declaration) => {
+                if (!stale) setGroupDeclaration(declaration);
+            });
+        }
+        return () => {
+            stale = true;
+        };
+    }, [groupStrategy?.code, describeStrategyParams]);
+    const savedParams = (strategyId: string) => ({
+        ...userStrategies.find((s) => s.id === strategyId)?.params?.[network],
+        ...loadStrategyParams(network, strategyId),
+    });
+
+    const strategyName = (id: string) => userStrategies.find((s) => s.id === id)?.name ?? `missing (${id.slice(0, 8)})`;
+    const groupNames = Object.keys(botAssignments.groups);
+
+    const describeBot = (botId: string) => {
+        const assigned = botAssignments.bots[botId];
+        if (typeof assigned === 'string' && botAssignments.groups[assigned]) {
+            const group = botAssignments.groups[assigned];
+            return { strategy: strategyName(group.strategyId), via: `group ${assigned}`, interval: describeInterval(group.interval) };
+        }
+        if (assigned && typeof assigned === 'object') {
+            return { strategy: strategyName(assigned.strategyId), via: 'own', interval: describeInterval(assigned.interval) };
+        }
+        const editorName = userStrategies.find((s) => s.id === activeStrategyId)?.name ?? activeStrategyId;
+        return { strategy: `Editor (${editorName})`, via: '-', interval: describeInterval(null) };
+    };
+
+    const toggle = (botId: string) =>
+        setSelected((prev) => (prev.includes(botId) ? prev.filter((id) => id !== botId) : [...prev, botId]));
+    const allSelected = bots.length > 0 && bots.every((b) => selected.includes(b.id));
+
+    const handleAssign = () => {
+        try {
+            let next: string | StrategyAssignment | null = null;
+            if (target.startsWith('group:')) {
+                next = target.slice('group:'.length);
+            } else if (target.startsWith('strategy:')) {
+                next = { strategyId: target.slice('strategy:'.length), params: null, interval: parseInterval(targetInterval) };
+            }
+            assignBotsTo(selected, next);
+            setSelected([]);
+            setError('');
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        }
+    };
+
+    const handleSaveGroup = () => {
+        try {
+            saveBotGroup(groupName, {
+                strategyId: groupStrategyId,
+                params: groupParams && checkParams(groupDeclaration, groupParams),
+                interval: parseInterval(groupInterval),
+            });
+            setGroupName('');
+            setGroupParams(null);
+            setGroupInterval('');
+            setError('');
+        } catch (e: any) {
+            setError(e?.message || String(e));
+        }
+    };
+
+    const handleEditGroup = (name: string) => {
+        const group = botAssignments.groups[name];
+        setGroupName(name);
+        setGroupStrategyId(group.strategyId);
+        setGroupInterval(group.interval ? String(group.interval.fixed) : '');
+        setGroupParams(group.params);
+    };
+
+    return (
+        <div className="space-y-3 text-xs">
+            <table className="w-full text-left text-gray-300">
+                <thead className="text-gray-400">
+                    <tr>
+                        <th className="pr-2">
+                            <input
+                                type="checkbox"
+                                checked={allSelected}
+                                onChange={() => setSelected(allSelected ? [] : bots.map((b) => b.id))}
+                            />
+                        </th>
+                        <th className="pr-2">Bot</th>
+                        <th className="pr-2">Strategy</th>
+                        <th className="pr-2">Via</th>
+                        <th>Runs</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {bots.map((b) => {
+                        const info = describeBot(b.id);
+                        return (
+                            <tr key={b.id}>
+                                <td className="pr-2">
+                                    <input type="checkbox" checked={selected.includes(b.id)} onChange={() => toggle(b.id)} />
+                                </td>
+                                <td className="pr-2 font-mono break-all">{b.id}</td>
+                                <td className="pr-2 text-white">{info.strategy}</td>
+                                <td className="pr-2">{info.via}</td>
+                                <td>{info.interval}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-gray-400">Assign {selected.length} selected to</label>
+                <select className="bg-gray-700 text-white rounded" value={target} onChange={(e) => setTarget(e.target.value)}>
+                    <option value="">Editor strategy</option>
+                    {groupNames.map((name) => (
+                        <option key={name} value={`group:${name}`}>Group: {name}</option>
+                    ))}
+                    {userStrategies.map((s) => (
+                        <option key={s.id} value={`strategy:${s.id}`}>Strategy: {s.name}</option>
+                    ))}
+                </select>
+                {target.startsWith('strategy:') && (
+                    <input
+                        type="number"
+                        min={0}
+                        placeholder="every s (blank = global)"
+                        value={targetInterval}
+                        onChange={(e) => setTargetInterval(e.target.value)}
+                        className="w-36 bg-gray-700 text-white px-1 rounded"
+                    />
+                )}
+                <button
+                    className="px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+                    disabled={selected.length === 0}
+                    onClick={handleAssign}
+                >
+                    Apply
+                </button>
+            </div>
+
+            <div className="space-y-1">
+                <h4 className="font-semibold text-gray-200">Bot Groups</h4>
+                {groupNames.length > 0 ? (
+                    <ul className="space-y-1 text-gray-300">
+                        {groupNames.map((name) => {
+                            const group = botAssignments.groups[name];
+                            const members = Object.values(botAssignments.bots).filter((t) => t === name).length;
+                            return (
+                                <li key={name} className="flex flex-wrap items-center gap-2">
+                                    <span className="text-white">{name}</span>
+                                    <span>
+                                        {strategyName(group.strategyId)}, {describeInterval(group.interval)}, {members} bot(s)
+                                        {group.params ? `, params ${JSON.stringify(group.params)}` : ''}
+                                    </span>
+                                    <button className="px-1 py-0.5 bg-gray-700 rounded" onClick={() => handleEditGroup(name)}>
+                                        Edit
+                                    </button>
+                                    <button className="px-1 py-0.5 bg-red-800 rounded" onClick={() => deleteBotGroup(name)}>
+                                        Delete
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                ) : (
+                    <p className="text-gray-500">No groups yet. Bots without an assignment run the editor strategy.</p>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        placeholder="Group name"
+                        value={groupName}
+                        onChange={(e) => setGroupName(e.target.value)}
+                        className="w-28 bg-gray-700 text-white px-1 rounded"
+                    />
+                    <select
+                        className="bg-gray-700 text-white rounded"
+                        value={groupStrategyId}
+                        onChange={(e) => {
+                            setGroupStrategyId(e.target.value);
+                            setGroupParams(null);
+                        }}
+                    >
+                        <option value="">Saved strategy...</option>
+                        {userStrategies.map((s) => (
+                            <option key={s.id} value={s.id}>{s.name}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        min={0}
+                        placeholder="every s (blank = global)"
+                        value={groupInterval}
+                        onChange={(e) => setGroupInterval(e.target.value)}
+                        className="w-36 bg-gray-700 text-white px-1 rounded"
+                    />
+                    <label className="flex items-center gap-1 text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={groupParams !== null}
+                            disabled={Object.keys(groupDeclaration.schema).length === 0}
+                            onChange={(e) =>
+                                setGroupParams(
+                                    e.target.checked ? resolveStrategyParams(groupDeclaration.schema, savedParams(groupStrategyId)) : null
+                                )
+                            }
+                        />
+                        Override params
+                    </label>
+                    <button className="px-2 py-0.5 bg-blue-600 hover:bg-blue-700 text-white rounded" onClick={handleSaveGroup}>
+                        Save Group
+                    </button>
+                </div>
+                {groupParams !== null && (
+                    <StrategyParamForm
+                        schema={groupDeclaration.schema}
+                        values={groupParams}
+                        onChange={setGroupParams}
+                        declarationErrors={groupDeclaration.errors}
+                    />
+                )}
+            </div>
+            {error && <p className="text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -1,10 +1,16 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import AdvancedModeModal from './AdvancedModeModal';
 import { useGlobalLogs } from '@/context/GlobalLogContext';
 import { useBotContext } from '@/context/BotContext';
+import { useNetwork } from '@/context/NetworkContext';
 import { UserStrategy } from '@/context/BotLogicContext';
+import StrategyRevisionHistory from './StrategyRevisionHistory';
+import { latestRevision, revisionOfCode } from '@/utils/strategyRevisions';
+import type { RiskLimits } from '@/utils/riskPolicy';
+import StrategyParamForm from './StrategyParamForm';
+import { StrategyParamDeclaration, StrategyParamValues, resolveStrategyParams } from '@/utils/strategyParams';
 
 const DEFAULT_PRESET = `
 // On devnet, context.minTradeAmount is set automatically by the app
@@ -57,16 +63,24 @@ const MARKET_MAKER_PRESET = `
 // Smart users may randomize or modify minTradeAmount for their custom logic. See documentation for advanced usage.
 /**
  * Market Maker Strategy (Per-Bot Mode)
- * Buys below and sells above a price spread.
+ * Buys below and sells above a spread around the rolling average price.
  * Context:
  * - market: { lastPrice, avgPrice }
+ * - params: the values set under Strategy Parameters
  * - buy/sell/log as above.
  */
+exports.params = {
+  spread: { type: 'number', default: 0.05, min: 0, max: 0.5, step: 0.01, label: 'Spread' },
+  tradeSizeSol: { type: 'number', default: 0.01, min: 0, step: 0.01, label: 'Trade size (mainnet SOL)' },
+  slippage: { type: 'number', default: 0.3, min: 0, max: 50, step: 0.1, label: 'Slippage %' },
+};
+
 exports.strategy = async (wallet, log, context) => {
 log('[strategy] Market maker per-bot strategy start for ' + wallet.publicKey.toBase58());
   log('[strategy] Market state: ' + JSON.stringify(context.market));
-  const spread = 0.05;
-  const { lastPrice, avgPrice = lastPrice } = context.market;
+  const { spread, tradeSizeSol, slippage } = context.params;
+  const { lastPrice } = context.market;
+  const avgPrice = context.market.avgPrice ?? lastPrice;
   if (lastPrice < avgPrice * (1 - spread)) {
   log('[strategy] Maker buy');
     if (context.network === 'devnet') {
@@ -74,10 +88,10 @@ log('[strategy] Market maker per-bot strategy start for ' + wallet.publicKey.toB
         log('Cannot trade: minTradeAmount not set');
         return;
       }
-      await context.buy(context.minTradeAmount, { slippage: 0.3 });
+      await context.buy(context.minTradeAmount, { slippage });
       log(\`Market maker buy at \${lastPrice}\`);
     } else {
-      await context.buy(0.01, { slippage: 0.3 });
+      await context.buy(tradeSizeSol, { slippage });
       log(\`Market maker buy at \${lastPrice}\`);
     }
   } else if (lastPrice > avgPrice * (1 + spread)) {
@@ -87,10 +101,10 @@ log('[strategy] Market maker per-bot strategy start for ' + wallet.publicKey.toB
         log('Cannot trade: minTradeAmount not set');
         return;
       }
-      await context.sell(context.minTradeAmount, { slippage: 0.3 });
+      await context.sell(context.minTradeAmount, { slippage });
       log(\`Market maker sell at \${lastPrice}\`);
     } else {
-      await context.sell(0.01, { slippage: 0.3 });
+      await context.sell(tradeSizeSol, { slippage });
       log(\`Market maker sell at \${lastPrice}\`);
     }
   } else {
@@ -145,16 +159,25 @@ const GROUP_MARKET_MAKER_PRESET = `
 // Smart users may randomize or modify minTradeAmount for their custom logic. See documentation for advanced usage.
 /**
  * Market Maker Strategy (Group Mode)
- * Loops through all bots, buys below and sells above spread.
+ * Loops through all bots, buys below and sells above a spread around the
+ * rolling average price.
  * Context:
  * - bots: see above.
+ * - market: { lastPrice, avgPrice }
+ * - params: the values set under Strategy Parameters
  */
+exports.params = {
+  spread: { type: 'number', default: 0.05, min: 0, max: 0.5, step: 0.01, label: 'Spread' },
+  tradeSizeSol: { type: 'number', default: 0.01, min: 0, step: 0.01, label: 'Trade size (mainnet SOL)' },
+  slippage: { type: 'number', default: 0.3, min: 0, max: 50, step: 0.1, label: 'Slippage %' },
+};
+
 exports.strategy = async (log, context) => {
   log('[strategy] Group market maker strategy running');
-  const spread = 0.05;
+  const { spread, tradeSizeSol, slippage } = context.params;
+  const lastPrice = context.market.lastPrice;
+  const avgPrice = context.market.avgPrice ?? lastPrice;
   for (const bot of context.bots) {
-    const lastPrice = bot.market.lastPrice;
-    const avgPrice = bot.market.avgPrice || lastPrice;
     log('[strategy] Bot ' + bot.publicKey.toBase58() + ' lastPrice=' + lastPrice);
     if (lastPrice < avgPrice * (1 - spread)) {
       log('[strategy] Bot ' + bot.publicKey.toBase58() + ' maker BUY');
@@ -163,10 +186,10 @@ exports.strategy = async (log, context) => {
           log('Cannot trade: minTradeAmount not set');
           return;
         }
-        await bot.buy(context.minTradeAmount, { slippage: 0.3 });
+        await bot.buy(context.minTradeAmount, { slippage });
         bot.log('Market maker buy at ' + lastPrice);
       } else {
-        await bot.buy(0.01, { slippage: 0.3 });
+        await bot.buy(tradeSizeSol, { slippage });
         bot.log('Market maker buy at ' + lastPrice);
       }
     } else if (lastPrice > avgPrice * (1 + spread)) {
@@ -176,10 +199,10 @@ exports.strategy = async (log, context) => {
           log('Cannot trade: minTradeAmount not set');
           return;
         }
-        await bot.sell(context.minTradeAmount, { slippage: 0.3 });
+        await bot.sell(context.minTradeAmount, { slippage });
         bot.log('Market maker sell at ' + lastPrice);
       } else {
-        await bot.sell(0.01, { slippage: 0.3 });
+        await bot.sell(tradeSizeSol, { slippage });
         bot.log('Market maker sell at ' + lastPrice);
       }
     } else {
@@ -191,6 +214,17 @@ exports.strategy = async (log, context) => {
 
 
 // Define the props for the component
+// Optional limits shown under Risk Limits; `tradeWindowSec` is edited next to the trade count.
+const RISK_LIMIT_FIELDS: { key: Exclude<keyof RiskLimits, 'tradeWindowSec'>; label: string }[] = [
+    { key: 'maxSolPerTrade', label: 'SOL/trade' },
+    { key: 'maxSolPerBotPerHour', label: 'SOL/bot/hour' },
+    { key: 'maxSolPerBotPerDay', label: 'SOL/bot/day' },
+    { key: 'maxPositionTokens', label: 'Max tokens' },
+    { key: 'maxPriceImpactPercent', label: 'Impact %' },
+    { key: 'maxTradesPerInterval', label: 'Trades' },
+    { key: 'maxDailyLossSol', label: 'Daily loss SOL' },
+];
+
 interface GlobalBotControlsProps {
     isLogicEnabled: boolean;
     onToggleLogic: (isEnabled: boolean) => void;
@@ -202,9 +236,14 @@ interface GlobalBotControlsProps {
     isAdvancedMode: boolean;
     onToggleAdvancedMode: (checked: boolean) => void;
     userStrategies: UserStrategy[];
-    onSaveCurrentStrategy: (name: string) => void;
+    onSaveCurrentStrategy: (name: string, note?: string) => void;
+    onSaveRevision: (note: string) => void;
+    onRestoreRevision: (strategyId: string, revisionId: string) => void;
+    onRenameStrategy: (strategyId: string, name: string) => void;
+    onDuplicateStrategy: (strategyId: string, name: string) => void;
     onLoadStrategy: (id: string) => void;
     onDeleteStrategy: (id: string) => void;
+    onStrategyParamsChange: (values: StrategyParamValues) => void;
 }
 
 export default function GlobalBotControls({
@@ -219,17 +258,88 @@ export default function GlobalBotControls({
     onToggleAdvancedMode,
     userStrategies,
     onSaveCurrentStrategy,
+    onSaveRevision,
+    onRestoreRevision,
+    onRenameStrategy,
+    onDuplicateStrategy,
     onLoadStrategy,
     onDeleteStrategy,
+    onStrategyParamsChange,
 }: GlobalBotControlsProps) {
     const [isExpanded, setIsExpanded] = useState(false);
     const [showAdvancedModal, setShowAdvancedModal] = useState(false);
-    const { startTrading, stopTrading, getSystemState, tradeIntervalConfig, setTradeIntervalConfig, isTradingActive } = useBotContext();
+    const {
+        startTrading,
+        stopTrading,
+        getSystemState,
+        tradeIntervalConfig,
+        setTradeIntervalConfig,
+        isTradingActive,
+        activeStrategyId,
+        strategyState,
+        resetStrategyState,
+        indicatorConfig,
+        setIndicatorConfig,
+        isPaperTrading,
+        setIsPaperTrading,
+        resetPaperBalances,
+        isSimulateOnly,
+        setIsSimulateOnly,
+        isPreflightEnabled,
+        setIsPreflightEnabled,
+        riskLimits,
+        setRiskLimits,
+        selfTradeGuard,
+        setSelfTradeGuard,
+        selfTradeAudit,
+        clearSelfTradeAudit,
+        strategyParams,
+        describeStrategyParams,
+    } = useBotContext();
+    const { network } = useNetwork();
+    const activeSavedStrategy = userStrategies.find((s) => s.id === activeStrategyId);
+    const activeStrategyName = activeSavedStrategy?.name ?? activeStrategyId;
+    // Revision the editor code matches; null when it has unsaved edits
+    const activeRevision = activeSavedStrategy ? revisionOfCode(activeSavedStrategy, botCode) : null;
+    const [historyStrategyId, setHistoryStrategyId] = useState<string | null>(null);
+    const stateBotKeys = strategyState ? Object.keys(strategyState.bots) : [];
+    const hasStrategyState =
+        !!strategyState && (Object.keys(strategyState.strategy).length > 0 || stateBotKeys.length > 0);
     const [intervalMode, setIntervalMode] = useState<'fixed' | 'random'>(tradeIntervalConfig.mode);
     const [fixedValue, setFixedValue] = useState(tradeIntervalConfig.fixed.toString());
     const [minValue, setMinValue] = useState(tradeIntervalConfig.min.toString());
     const [maxValue, setMaxValue] = useState(tradeIntervalConfig.max.toString());
     const [intervalError, setIntervalError] = useState('');
+    const [smaInput, setSmaInput] = useState(indicatorConfig.smaWindows.join(', '));
+    const [emaInput, setEmaInput] = useState(indicatorConfig.emaWindows.join(', '));
+    const [avgWindowInput, setAvgWindowInput] = useState(indicatorConfig.avgPriceWindow.toString());
+    const [indicatorError, setIndicatorError] = useState('');
+    const toRiskInputs = (limits: RiskLimits) =>
+        Object.fromEntries(
+            Object.entries(limits).map(([k, v]) => [k, v === null ? '' : String(v)])
+        ) as Record<keyof RiskLimits, string>;
+    const [riskInputs, setRiskInputs] = useState(() => toRiskInputs(riskLimits));
+    const [riskError, setRiskError] = useState('');
+    const [selfTradeWindowInput, setSelfTradeWindowInput] = useState(selfTradeGuard.windowSec.toString());
+    const [selfTradeError, setSelfTradeError] = useState('');
+    // Declared `exports.params` of the code in the editor, re-read by the worker once typing pauses
+    const [paramSchema, setParamSchema] = useState<StrategyParamDeclaration>({ schema: {}, errors: [] });
+    React.useEffect(() => {
+        let stale = false;
+        const timer = setTimeout(() => {
+            describeStrategyParams(botCode).then((declaration) => {
+                if (!stale) setParamSchema(declaration);
+            });
+        }, 300);
+        return () => {
+            stale = true;
+            clearTimeout(timer);
+        };
+    }, [botCode, describeStrategyParams]);
+    const paramValues = useMemo(
+        () => resolveStrategyParams(paramSchema.schema, strategyParams),
+        [paramSchema, strategyParams]
+    );
 
     React.useEffect(() => {
         setIntervalMode(tradeIntervalConfig.mode);
@@ -291,6 +401,54 @@ export default function GlobalBotControls({
         applyIntervalUpdate('random', parseInt(fixedValue), parseInt(minValue), parseInt(val));
     };
 
+    const parseWindows = (val: string) =>
+        val.split(',').map((v) => v.trim()).filter(Boolean).map((v) => parseInt(v, 10));
+
+    const applyIndicatorUpdate = (sma: string, ema: string, avg: string) => {
+        const smaWindows = parseWindows(sma);
+        const emaWindows = parseWindows(ema);
+        const avgPriceWindow = parseInt(avg, 10);
+        const valid = (n: number) => Number.isInteger(n) && n >= 1 && n <= 500;
+        if (![...smaWindows, ...emaWindows, avgPriceWindow].every(valid)) {
+            setIndicatorError('Indicator windows must be whole numbers of ticks between 1 and 500');
+            return;
+        }
+        setIndicatorError('');
+        setIndicatorConfig({ ...indicatorConfig, smaWindows, emaWindows, avgPriceWindow });
+    };
+
+    // Blank risk fields turn the limit off; the trade window always needs a value.
+    const applyRiskUpdate = (inputs: Record<keyof RiskLimits, string>) => {
+        const next = { ...riskLimits };
+        for (const { key } of RISK_LIMIT_FIELDS) {
+            const raw = inputs[key].trim();
+            const value = raw === '' ? null : Number(raw);
+            if (value !== null && !(Number.isFinite(value) && value > 0)) {
+                setRiskError('Risk limits must be positive numbers (leave blank for no limit)');
+                return;
+            }
+            (next as Record<string, number | null>)[key] = value;
+        }
+        const windowSec = parseInt(inputs.tradeWindowSec, 10);
+        if (!(windowSec >= 1 && windowSec <= 86400)) {
+            setRiskError('Trade window must be between 1 and 86400 seconds');
+            return;
+        }
+        next.tradeWindowSec = windowSec;
+        setRiskError('');
+        setRiskLimits(next);
+    };
+
+    const applySelfTradeWindow = (val: string) => {
+        const windowSec = parseInt(val, 10);
+        if (!(windowSec >= 1 && windowSec <= 86400)) {
+            setSelfTradeError('Self-trade window must be between 1 and 86400 seconds');
+            return;
+        }
+        setSelfTradeError('');
+        if (windowSec !== selfTradeGuard.windowSec) setSelfTradeGuard({ ...selfTradeGuard, windowSec });
+    };
+
     const applyIntervalUpdate = (mode: 'fixed' | 'random', fixed: number, min: number, max: number) => {
         if (mode === 'fixed') {
             if (fixed < 1 || fixed > 300 || isNaN(fixed)) {
@@ -356,6 +514,25 @@ export default function GlobalBotControls({
                             value={botCode}
                             onChange={(e) => setBotCode(e.target.value)}
                         />
+                        {activeSavedStrategy && (
+                            <p className="mt-1 text-xs text-gray-400">
+                                Editing {activeSavedStrategy.name}{' '}
+                                {activeRevision
+                                    ? `${activeRevision.id}${activeRevision.id === latestRevision(activeSavedStrategy).id ? '' : ' (older revision)'}`
+                                    : '(unsaved changes)'}
+                            </p>
+                        )}
+                        {activeSavedStrategy && (
+                            <button
+                                className="mt-2 mr-2 px-2 py-1 text-sm bg-blue-700 rounded-md"
+                                onClick={() => {
+                                    const note = prompt(`Note for the new revision of ${activeSavedStrategy.name}:`);
+                                    if (note !== null) onSaveRevision(note);
+                                }}
+                            >
+                                Save Revision
+                            </button>
+                        )}
                         <button
                             className="mt-2 px-2 py-1 text-sm bg-blue-700 rounded-md"
                             onClick={() => {
@@ -363,7 +540,7 @@ export default function GlobalBotControls({
                                 if (name) onSaveCurrentStrategy(name);
                             }}
                         >
-                            Save Current Strategy
+                            {activeSavedStrategy ? 'Save as New Strategy' : 'Save Current Strategy'}
                         </button>
                     </div>
 
@@ -389,6 +566,28 @@ export default function GlobalBotControls({
                         </button>
                     </div>
 
+                    {(Object.keys(paramSchema.schema).length > 0 || paramSchema.errors.length > 0) && (
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <h4 className="font-semibold text-gray-200">
+                                    Strategy Parameters <span className="text-xs text-gray-400">({activeStrategyName}, {network})</span>
+                                </h4>
+                                <button
+                                    className="px-1 py-0.5 text-xs bg-gray-700 rounded-md"
+                                    onClick={() => onStrategyParamsChange(resolveStrategyParams(paramSchema.schema, {}))}
+                                >
+                                    Reset to Defaults
+                                </button>
+                            </div>
+                            <StrategyParamForm
+                                schema={paramSchema.schema}
+                                values={paramValues}
+                                onChange={onStrategyParamsChange}
+                                declarationErrors={paramSchema.errors}
+                            />
+                        </div>
+                    )}
+
                      <div className="flex flex-wrap items-center gap-2">
                         <input
                             id="advanced-toggle"
@@ -453,6 +652,160 @@ export default function GlobalBotControls({
                         </div>
                     </div>
                     {intervalError && <p className="text-xs text-red-400">{intervalError}</p>}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-gray-200">Indicators (ticks)</span>
+                        <label className="text-xs text-gray-400">SMA</label>
+                        <input
+                            value={smaInput}
+                            onChange={(e) => setSmaInput(e.target.value)}
+                            onBlur={() => applyIndicatorUpdate(smaInput, emaInput, avgWindowInput)}
+                            className="w-20 bg-gray-700 text-white text-xs px-1 rounded"
+                        />
+                        <label className="text-xs text-gray-400">EMA</label>
+                        <input
+                            value={emaInput}
+                            onChange={(e) => setEmaInput(e.target.value)}
+                            onBlur={() => applyIndicatorUpdate(smaInput, emaInput, avgWindowInput)}
+                            className="w-20 bg-gray-700 text-white text-xs px-1 rounded"
+                        />
+                        <label className="text-xs text-gray-400">avgPrice</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={500}
+                            value={avgWindowInput}
+                            onChange={(e) => setAvgWindowInput(e.target.value)}
+                            onBlur={() => applyIndicatorUpdate(smaInput, emaInput, avgWindowInput)}
+                            className="w-14 bg-gray-700 text-white text-xs px-1 rounded"
+                        />
+                    </div>
+                    {indicatorError && <p className="text-xs text-red-400">{indicatorError}</p>}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-gray-200">Risk Limits</span>
+                        {RISK_LIMIT_FIELDS.map(({ key, label }) => (
+                            <React.Fragment key={key}>
+                                <label className="text-xs text-gray-400">{label}</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="any"
+                                    placeholder="off"
+                                    value={riskInputs[key]}
+                                    onChange={(e) => setRiskInputs({ ...riskInputs, [key]: e.target.value })}
+                                    onBlur={() => applyRiskUpdate(riskInputs)}
+                                    className="w-16 bg-gray-700 text-white text-xs px-1 rounded"
+                                />
+                                {key === 'maxTradesPerInterval' && (
+                                    <>
+                                        <label className="text-xs text-gray-400">per (s)</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={86400}
+                                            value={riskInputs.tradeWindowSec}
+                                            onChange={(e) => setRiskInputs({ ...riskInputs, tradeWindowSec: e.target.value })}
+                                            onBlur={() => applyRiskUpdate(riskInputs)}
+                                            className="w-14 bg-gray-700 text-white text-xs px-1 rounded"
+                                        />
+                                    </>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                    {riskError && <p className="text-xs text-red-400">{riskError}</p>}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            id="self-trade-toggle"
+                            type="checkbox"
+                            checked={selfTradeGuard.enabled}
+                            onChange={(e) => setSelfTradeGuard({ ...selfTradeGuard, enabled: e.target.checked })}
+                        />
+                        <label htmlFor="self-trade-toggle" className="text-sm text-gray-200">
+                            Self-Trade Guard
+                        </label>
+                        <label className="text-xs text-gray-400">window (s)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={86400}
+                            value={selfTradeWindowInput}
+                            onChange={(e) => setSelfTradeWindowInput(e.target.value)}
+                            onBlur={() => applySelfTradeWindow(selfTradeWindowInput)}
+                            className="w-14 bg-gray-700 text-white text-xs px-1 rounded"
+                        />
+                    </div>
+                    {selfTradeError && <p className="text-xs text-red-400">{selfTradeError}</p>}
+                    {selfTradeAudit.length > 0 && (
+                        <details className="text-xs text-gray-300">
+                            <summary className="cursor-pointer">
+                                Self-trade audit ({selfTradeAudit.length}) <span className="text-gray-400">({network})</span>
+                            </summary>
+                            <ul className="mt-1 max-h-40 overflow-y-auto space-y-1 font-mono">
+                                {selfTradeAudit.map((e) => (
+                                    <li key={`${e.timestamp}-${e.wallet}-${e.side}`}>
+                                        <span className={e.action === 'blocked' ? 'text-red-400' : 'text-yellow-400'}>
+                                            {e.action}
+                                        </span>{' '}
+                                        {new Date(e.timestamp).toLocaleTimeString()} {e.wallet.slice(0, 4)}… {e.side}{' '}
+                                        {e.amount} vs {e.counterparty.slice(0, 4)}… (
+                                        {((e.timestamp - e.counterpartyAt) / 1000).toFixed(1)}s earlier)
+                                    </li>
+                                ))}
+                            </ul>
+                            <button className="mt-1 px-2 py-1 bg-gray-700 rounded-md" onClick={clearSelfTradeAudit}>
+                                Clear Audit Log
+                            </button>
+                        </details>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            id="paper-toggle"
+                            type="checkbox"
+                            checked={isPaperTrading}
+                            onChange={(e) => setIsPaperTrading(e.target.checked)}
+                        />
+                        <label htmlFor="paper-toggle" className="text-sm text-gray-200">
+                            Paper Trading <span className="text-xs text-gray-400">({network})</span>
+                        </label>
+                        {isPaperTrading && (
+                            <button
+                                className="px-2 py-1 text-xs bg-gray-700 rounded-md"
+                                onClick={resetPaperBalances}
+                            >
+                                Reset Paper Balances
+                            </button>
+                        )}
+                    </div>
+                    {isPaperTrading && (
+                        <p className="text-xs text-yellow-400">
+                            Paper trading: trades fill against a virtual copy of the live pool. No transactions are signed.
+                        </p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            id="simulate-only-toggle"
+                            type="checkbox"
+                            checked={isSimulateOnly}
+                            onChange={(e) => setIsSimulateOnly(e.target.checked)}
+                        />
+                        <label htmlFor="simulate-only-toggle" className="text-sm text-gray-200">
+                            Simulate Only <span className="text-xs text-gray-400">({network})</span>
+                        </label>
+                        <input
+                            id="preflight-toggle"
+                            type="checkbox"
+                            checked={isPreflightEnabled}
+                            onChange={(e) => setIsPreflightEnabled(e.target.checked)}
+                        />
+                        <label htmlFor="preflight-toggle" className="text-sm text-gray-200">
+                            Preflight Check
+                        </label>
+                    </div>
+                    {isSimulateOnly && (
+                        <p className="text-xs text-yellow-400">
+                            Simulate only: bot trades are built and signed but only simulated. Results appear in the logs.
+                        </p>
+                    )}
                     {isAdvancedMode && (
                         <p className="text-xs text-red-400">
                             Advanced mode executes custom code and may have compliance risks.
@@ -465,25 +818,106 @@ export default function GlobalBotControls({
                         ) : (
                             <ul className="space-y-1">
                                 {userStrategies.map((s) => (
-                                    <li key={s.id} className="flex justify-between items-center">
-                                        <span className="text-sm text-gray-200">{s.name}</span>
-                                        <div className="space-x-1">
+                                    <li key={s.id}>
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-sm text-gray-200">
+                                                {s.name} <span className="text-xs text-gray-400">{latestRevision(s).id}</span>
+                                            </span>
+                                            <div className="space-x-1">
+                                                <button
+                                                    className="px-1 py-0.5 text-xs bg-gray-700 rounded-md"
+                                                    onClick={() => onLoadStrategy(s.id)}
+                                                >
+                                                    Load
+                                                </button>
+                                                <button
+                                                    className="px-1 py-0.5 text-xs bg-gray-700 rounded-md"
+                                                    onClick={() => setHistoryStrategyId(historyStrategyId === s.id ? null : s.id)}
+                                                >
+                                                    History
+                                                </button>
+                                                <button
+                                                    className="px-1 py-0.5 text-xs bg-gray-700 rounded-md"
+                                                    onClick={() => {
+                                                        const name = prompt('New name:', s.name);
+                                                        if (name) onRenameStrategy(s.id, name);
+                                                    }}
+                                                >
+                                                    Rename
+                                                </button>
+                                                <button
+                                                    className="px-1 py-0.5 text-xs bg-gray-700 rounded-md"
+                                                    onClick={() => {
+                                                        const name = prompt('Name for the copy:', `${s.name} copy`);
+                                                        if (name) onDuplicateStrategy(s.id, name);
+                                                    }}
+                                                >
+                                                    Duplicate
+                                                </button>
+                                                <button
+                                                    className="px-1 py-0.5 text-xs bg-red-700 rounded-md"
+                                                    onClick={() => onDeleteStrategy(s.id)}
+                                                >
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {historyStrategyId === s.id && (
+                                            <StrategyRevisionHistory
+                                                strategy={s}
+                                                onRestore={(revisionId) => onRestoreRevision(s.id, revisionId)}
+                                            />
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <h4 className="font-semibold text-gray-200">
+                                Strategy State <span className="text-xs text-gray-400">({activeStrategyName})</span>
+                            </h4>
+                            <button
+                                className="px-1 py-0.5 text-xs bg-red-700 rounded-md disabled:opacity-50"
+                                disabled={!hasStrategyState}
+                                onClick={() => {
+                                    if (window.confirm('Reset all stored state for this strategy?')) resetStrategyState();
+                                }}
+                            >
+                                Reset All
+                            </button>
+                        </div>
+                        {strategyState === null ? (
+                            <p className="text-sm text-gray-400">Loading...</p>
+                        ) : !hasStrategyState ? (
+                            <p className="text-sm text-gray-400">No stored state.</p>
+                        ) : (
+                            <div className="space-y-2 max-h-48 overflow-y-auto custom-scrollbar">
+                                {Object.keys(strategyState.strategy).length > 0 && (
+                                    <pre className="bg-gray-900 text-gray-300 p-2 rounded-md text-xs font-mono whitespace-pre-wrap break-all">
+                                        {JSON.stringify(strategyState.strategy, null, 2)}
+                                    </pre>
+                                )}
+                                {stateBotKeys.map((key) => (
+                                    <div key={key}>
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-xs text-gray-400 font-mono">
+                                                {key.slice(0, 4)}...{key.slice(-4)}
+                                            </span>
                                             <button
                                                 className="px-1 py-0.5 text-xs bg-gray-700 rounded-md"
-                                                onClick={() => onLoadStrategy(s.id)}
+                                                onClick={() => resetStrategyState(key)}
                                             >
-                                                Load
-                                            </button>
-                                            <button
-                                                className="px-1 py-0.5 text-xs bg-red-700 rounded-md"
-                                                onClick={() => onDeleteStrategy(s.id)}
-                                            >
-                                                Delete
+                                                Reset
                                             </button>
                                         </div>
-                                    </li>
+                                        <pre className="bg-gray-900 text-gray-300 p-2 rounded-md text-xs font-mono whitespace-pre-wrap break-all">
+                                            {JSON.stringify(strategyState.bots[key], null, 2)}
+                                        </pre>
+                                    </div>
                                 ))}
-                            </ul>
+                            </div>
                         )}
                     </div>
                 </div>
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import type { QuoteComparison } from '@/utils/bestExecution';
+
+const VENUE_LABELS: Record<string, string> = {
+    jupiter: 'Jupiter',
+    raydium: 'Raydium (direct)',
+    simulated: 'Simulated',
+};
+
+interface QuoteComparisonTableProps {
+    comparison: QuoteComparison | null;
+    /** Symbol of the output side, e.g. "SOL" or "Tokens". */
+    outLabel: string;
+}
+
+// Per-venue quotes for one trade, best output highlighted.
+export default function QuoteComparisonTable({ comparison, outLabel }: QuoteComparisonTableProps) {
+    if (!comparison || comparison.venues.length === 0) return null;
+    return (
+        <div className="bg-gray-800 p-2 rounded text-xs">
+            <div className="text-gray-400 mb-1">Best execution</div>
+            <table className="w-full">
+                <thead>
+                    <tr className="text-gray-500 text-left">
+                        <th className="font-normal">Venue</th>
+                        <th className="font-normal text-right">{outLabel} out</th>
+                        <th className="font-normal text-right">Min out</th>
+                        <th className="font-normal text-right">Impact</th>
+                        <th className="font-normal text-right">Fees (SOL)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {comparison.venues.map((v) => {
+                        const isBest = comparison.best === v.route;
+                        return (
+                            <tr key={v.route} className={isBest ? 'text-green-400' : 'text-white'}>
+                                <td>{VENUE_LABELS[v.route] ?? v.route}{isBest ? ' ★' : ''}</td>
+                                {v.error ? (
+                                    <td colSpan={4} className="text-right text-red-400 truncate" title={v.error}>
+                                        {v.error.substring(0, 60)}
+                                    </td>
+                                ) : (
+                                    <>
+                                        <td className="text-right">{v.outAmount.toFixed(6)}</td>
+                                        <td className="text-right">{v.minOut.toFixed(6)}</td>
+                                        <td className="text-right">{v.priceImpactPercent.toFixed(3)}%</td>
+                                        <td className="text-right">{v.feesSol !== null ? v.feesSol.toFixed(6) : '—'}</td>
+                                    </>
+                                )}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+    StrategyParamSchema,
+    StrategyParamSpec,
+    StrategyParamValues,
+    validateStrategyParam,
+} from '@/utils/strategyParams';
+
+interface StrategyParamFormProps {
+    schema: StrategyParamSchema;
+    /** Current values, valid for `schema`. */
+    values: StrategyParamValues;
+    /** Called with every value valid; invalid input is shown and not passed on. */
+    onChange: (values: StrategyParamValues) => void;
+    /** Problems with the declaration itself, listed under the fields. */
+    declarationErrors?: string[];
+}
+
+/** Fields generated from an `exports.params` declaration. */
+export default function StrategyParamForm({ schema, values, onChange, declarationErrors = [] }: StrategyParamFormProps) {
+    const [inputs, setInputs] = useState<Record<string, string>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    React.useEffect(() => {
+        setInputs(Object.fromEntries(Object.entries(values).map(([k, v]) => [k, String(v)])));
+        setErrors({});
+    }, [values]);
+
+    // Text and number fields apply on blur; checkboxes and selects right away.
+    const applyUpdate = (name: string, spec: StrategyParamSpec, raw: string | boolean) => {
+        const value = spec.type === 'number' ? (String(raw).trim() === '' ? NaN : Number(raw)) : raw;
+        const problem = validateStrategyParam(spec, value);
+        if (problem) {
+            setErrors({ ...errors, [name]: `${spec.label ?? name} ${problem}` });
+            return;
+        }
+        setErrors({ ...errors, [name]: '' });
+        if (value !== values[name]) onChange({ ...values, [name]: value });
+    };
+
+    return (
+        <>
+            <div className="flex flex-wrap items-center gap-2">
+                {Object.entries(schema).map(([name, spec]) => (
+                    <React.Fragment key={name}>
+                        <label className="text-xs text-gray-400" title={spec.description}>
+                            {spec.label ?? name}
+                        </label>
+                        {spec.type === 'boolean' ? (
+                            <input
+                                type="checkbox"
+                                checked={values[name] === true}
+                                onChange={(e) => applyUpdate(name, spec, e.target.checked)}
+                            />
+                        ) : spec.type === 'select' ? (
+                            <select
+                                className="bg-gray-700 text-white text-xs rounded"
+                                value={String(values[name])}
+                                onChange={(e) => applyUpdate(name, spec, e.target.value)}
+                            >
+                                {spec.options.map((o) => (
+                                    <option key={o} value={o}>{o}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <input
+                                type={spec.type === 'number' ? 'number' : 'text'}
+                                min={spec.type === 'number' ? spec.min : undefined}
+                                max={spec.type === 'number' ? spec.max : undefined}
+                                step={spec.type === 'number' ? spec.step ?? 'any' : undefined}
+                                value={inputs[name] ?? ''}
+                                onChange={(e) => setInputs({ ...inputs, [name]: e.target.value })}
+                                onBlur={() => applyUpdate(name, spec, inputs[name] ?? '')}
+                                className={`${spec.type === 'number' ? 'w-16' : 'w-28'} bg-gray-700 text-white text-xs px-1 rounded`}
+                            />
+                        )}
+                    </React.Fragment>
+                ))}
+            </div>
+            {[...declarationErrors, ...Object.values(errors).filter(Boolean)].map((e) => (
+                <p key={e} className="text-xs text-red-400">{e}</p>
+            ))}
+        </>
+    );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { UserStrategy } from '@/context/BotLogicContext';
+import { diffLines, latestRevision, withRevisionHistory } from '@/utils/strategyRevisions';
+
+interface StrategyRevisionHistoryProps {
+    strategy: UserStrategy;
+    onRestore: (revisionId: string) => void;
+}
+
+const formatTime = (ts: number | null) => (ts === null ? 'unknown date' : new Date(ts).toLocaleString());
+
+const rowClass = {
+    same: 'text-gray-400',
+    removed: 'bg-red-900/40 text-red-200',
+    added: 'bg-green-900/40 text-green-200',
+    changed: 'bg-yellow-900/30 text-yellow-100',
+};
+
+/** Revisions of a saved strategy, newest first, with restore and a side-by-side diff. */
+export default function StrategyRevisionHistory({ strategy, onRestore }: StrategyRevisionHistoryProps) {
+    const revisions = withRevisionHistory(strategy).revisions!;
+    const current = latestRevision(strategy);
+    const [fromId, setFromId] = useState(revisions.length > 1 ? revisions[revisions.length - 2].id : current.id);
+    const [toId, setToId] = useState(current.id);
+    const [showDiff, setShowDiff] = useState(false);
+
+    const from = revisions.find((r) => r.id === fromId) ?? current;
+    const to = revisions.find((r) => r.id === toId) ?? current;
+    const rows = useMemo(() => (showDiff ? diffLines(from.code, to.code) : []), [showDiff, from.code, to.code]);
+
+    return (
+        <div className="mt-1 ml-2 space-y-2 text-xs">
+            <ul className="space-y-1">
+                {[...revisions].reverse().map((r) => (
+                    <li key={r.id} className="flex justify-between items-center gap-2">
+                        <span className="text-gray-300">
+                            <span className="font-mono text-white">{r.id}</span>
+                            {r.id === current.id ? ' (current)' : ''} · {formatTime(r.createdAt)}
+                            {r.note ? ` · ${r.note}` : ''}
+                        </span>
+                        {r.id !== current.id && (
+                            <button
+                                className="px-1 py-0.5 bg-gray-700 rounded-md"
+                                onClick={() => {
+                                    if (window.confirm(`Restore ${r.id} of ${strategy.name}? It is saved as a new revision and loaded.`)) {
+                                        onRestore(r.id);
+                                    }
+                                }}
+                            >
+                                Restore
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-gray-400">Diff</label>
+                <select className="bg-gray-700 text-white rounded" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                    {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>{r.id}</option>
+                    ))}
+                </select>
+                <label className="text-gray-400">to</label>
+                <select className="bg-gray-700 text-white rounded" value={toId} onChange={(e) => setToId(e.target.value)}>
+                    {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>{r.id}</option>
+                    ))}
+                </select>
+                <button className="px-1 py-0.5 bg-gray-700 rounded-md" onClick={() => setShowDiff(!showDiff)}>
+                    {showDiff ? 'Hide' : 'Show'}
+                </button>
+            </div>
+            {showDiff && (
+                <div className="max-h-64 overflow-auto custom-scrollbar bg-gray-900 rounded-md">
+                    {rows.every((row) => row.kind === 'same') ? (
+                        <p className="p-2 text-gray-500">No differences.</p>
+                    ) : (
+                        <table className="w-full font-mono">
+                            <tbody>
+                                {rows.map((row, i) => (
+                                    <tr key={i} className={rowClass[row.kind]}>
+                                        <td className="pr-1 text-right text-gray-600 select-none">{row.leftLine ?? ''}</td>
+                                        <td className="pr-2 whitespace-pre w-1/2">{row.left ?? ''}</td>
+                                        <td className="pr-1 text-right text-gray-600 select-none">{row.rightLine ?? ''}</td>
+                                        <td className="whitespace-pre w-1/2">{row.right ?? ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useBotContext } from '@/context/BotContext';
+import { useChartData } from '@/context/ChartDataContext';
+import { useToken } from '@/context/TokenContext';
+import { useNetwork } from '@/context/NetworkContext';
+import { useBotLogic } from '@/context/BotLogicContext';
+import { computeLedgerPnlByBot, computeRevisionPerformance, LedgerPnl } from '@/utils/tradeLedger';
+import { buildTradeExportRows, tradesToDetailedCsv, tradesToJson, tradesToTaxCsv } from '@/utils/tradeExport';
+
+const formatSol = (v: number | null) => (v === null ? '-' : `${v >= 0 ? '+' : ''}${v.toFixed(6)} SOL`);
+const formatAmount = (v: number | null) => (v === null ? '-' : v.toFixed(6));
+const formatTime = (ts: number) => new Date(ts).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+const shortKey = (key: string) => `${key.slice(0, 4)}...${key.slice(-4)}`;
+// Local calendar day from a date input, to ms; `endOfDay` makes the bound inclusive.
+const dayBound = (value: string, endOfDay: boolean) =>
+    value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).getTime() : null;
+
+const pnlClass = (v: number | null) => (v === null ? 'text-gray-400' : v >= 0 ? 'text-green-400' : 'text-red-400');
+
+export default function TradeLedgerPanel() {
+    const { tradeLedger, clearTradeLedger } = useBotContext();
+    const { lastPrice, solUsdHistory } = useChartData();
+    const { tokenAddress } = useToken();
+    const { network } = useNetwork();
+    const { userStrategies } = useBotLogic();
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [exportFrom, setExportFrom] = useState('');
+    const [exportTo, setExportTo] = useState('');
+    const [exportBot, setExportBot] = useState('');
+
+    // Unrealized PnL is only priced for the selected token
+    const { byBot, total } = useMemo(
+        () => computeLedgerPnlByBot(tradeLedger, tokenAddress ? { [tokenAddress]: lastPrice } : {}),
+        [tradeLedger, tokenAddress, lastPrice]
+    );
+    const botRows = Object.entries(byBot) as [string, LedgerPnl][];
+    const revisionRows = useMemo(() => computeRevisionPerformance(tradeLedger), [tradeLedger]);
+    const strategyName = (id: string) => userStrategies.find((s) => s.id === id)?.name ?? `deleted (${id.slice(0, 8)})`;
+
+    const handleExport = (format: 'csv' | 'tax' | 'json') => {
+        const rows = buildTradeExportRows(tradeLedger, {
+            from: dayBound(exportFrom, false),
+            to: dayBound(exportTo, true),
+            bot: exportBot || null,
+        }, solUsdHistory);
+        const contents = format === 'json' ? tradesToJson(rows) : format === 'tax' ? tradesToTaxCsv(rows) : tradesToDetailedCsv(rows);
+        const range = `${exportFrom || 'start'}_${exportTo || 'now'}`;
+        const scope = exportBot ? exportBot.slice(0, 8) : 'all-bots';
+        const url = URL.createObjectURL(new Blob([contents], { type: format === 'json' ? 'application/json' : 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `trades-${network}-${scope}-${range}${format === 'tax' ? '-tax' : ''}.${format === 'json' ? 'json' : 'csv'}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+            <div
+                className="p-4 cursor-pointer flex justify-between items-center"
+                onClick={() => setIsExpanded(!isExpanded)}
+            >
+                <h2 className="text-xl font-bold text-white">Trade Ledger</h2>
+                <span className={`transition-transform transform text-white ${isExpanded ? 'rotate-180' : ''}`}>
+                    ▼
+                </span>
+            </div>
+
+            {isExpanded && (
+                <div className="p-4 border-t border-gray-600 space-y-4">
+                    <p className="text-xs text-gray-400">
+                        Real bot trades on {network} with the amounts read back from each landed transaction. PnL uses
+                        FIFO cost basis with fees included; unrealized PnL is priced at the selected token&apos;s last price.
+                    </p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs">
+                        {[
+                            ['Realized', formatSol(total.realizedSol), pnlClass(total.realizedSol)],
+                            ['Unrealized', formatSol(total.unrealizedSol), pnlClass(total.unrealizedSol)],
+                            ['Cost Basis', `${total.costBasisSol.toFixed(6)} SOL`, 'text-white'],
+                            ['Trades', total.trades.toString(), 'text-white'],
+                            ['Network Fees', `${total.feesSol.toFixed(6)} SOL`, 'text-white'],
+                            ['Priority Fees', `${total.priorityFeesSol.toFixed(6)} SOL`, 'text-white'],
+                        ].map(([label, value, color]) => (
+                            <div key={label} className="bg-gray-900 rounded-md p-2">
+                                <div className="text-gray-400">{label}</div>
+                                <div className={`font-mono ${color}`}>{value}</div>
+                            </div>
+                        ))}
+                    </div>
+                    {botRows.length > 0 && (
+                        <table className="w-full text-xs text-gray-300">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="text-left">Bot</th>
+                                    <th className="text-right">Trades</th>
+                                    <th className="text-right">Position</th>
+                                    <th className="text-right">Cost Basis</th>
+                                    <th className="text-right">Realized</th>
+                                    <th className="text-right">Unrealized</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {botRows.map(([bot, pnl]) => (
+                                    <tr key={bot}>
+                                        <td className="font-mono">{shortKey(bot)}</td>
+                                        <td className="text-right">{pnl.trades}</td>
+                                        <td className="text-right">{pnl.positionTokens.toFixed(4)}</td>
+                                        <td className="text-right">{pnl.costBasisSol.toFixed(6)}</td>
+                                        <td className={`text-right ${pnlClass(pnl.realizedSol)}`}>{formatSol(pnl.realizedSol)}</td>
+                                        <td className={`text-right ${pnlClass(pnl.unrealizedSol)}`}>{formatSol(pnl.unrealizedSol)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {revisionRows.length > 0 && (
+                        <table className="w-full text-xs text-gray-300">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="text-left">Strategy Revision</th>
+                                    <th className="text-left">Active</th>
+                                    <th className="text-right">Trades</th>
+                                    <th className="text-right">Realized</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {revisionRows.map((row) => (
+                                    <tr key={`${row.strategyId}:${row.revisionId}`}>
+                                        <td>{strategyName(row.strategyId)} <span className="font-mono">{row.revisionId}</span></td>
+                                        <td>{formatTime(row.firstTrade)} - {formatTime(row.lastTrade)}</td>
+                                        <td className="text-right">{row.trades}</td>
+                                        <td className={`text-right ${pnlClass(row.realizedSol)}`}>{formatSol(row.realizedSol)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <div className="max-h-48 overflow-y-auto custom-scrollbar">
+                        <table className="w-full text-xs text-gray-300">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="text-left">Time</th>
+                                    <th className="text-left">Bot</th>
+                                    <th className="text-left">Side</th>
+                                    <th className="text-right">Requested</th>
+                                    <th className="text-right">In</th>
+                                    <th className="text-right">Out</th>
+                                    <th className="text-right">Fee</th>
+                                    <th className="text-left pl-2">Rev</th>
+                                    <th className="text-left pl-2">Signature</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {tradeLedger.slice(-200).reverse().map((r) => (
+                                    <tr key={r.id}>
+                                        <td>{formatTime(r.timestamp)}</td>
+                                        <td className="font-mono">{shortKey(r.bot)}</td>
+                                        <td className={r.side === 'buy' ? 'text-green-400' : 'text-red-400'}>
+                                            {r.side}{r.source !== 'strategy' ? ` (${r.source})` : ''}
+                                        </td>
+                                        <td className="text-right">{r.requestedIn.toFixed(6)}</td>
+                                        <td className="text-right">{formatAmount(r.actualIn)}</td>
+                                        <td className="text-right">{formatAmount(r.actualOut)}</td>
+                                        <td className="text-right">{formatAmount(r.feeSol)}</td>
+                                        <td className="font-mono pl-2">{r.strategyRevisionId ?? '-'}</td>
+                                        <td className="font-mono pl-2">{shortKey(r.signature)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {tradeLedger.length === 0 && <p className="text-xs text-gray-500">No trades recorded yet.</p>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-gray-200">
+                        <span className="text-sm">Export</span>
+                        <label className="text-gray-400">from</label>
+                        <input
+                            type="date"
+                            value={exportFrom}
+                            onChange={(e) => setExportFrom(e.target.value)}
+                            className="bg-gray-700 text-white px-1 rounded"
+                        />
+                        <label className="text-gray-400">to</label>
+                        <input
+                            type="date"
+                            value={exportTo}
+                            onChange={(e) => setExportTo(e.target.value)}
+                            className="bg-gray-700 text-white px-1 rounded"
+                        />
+                        <select
+                            value={exportBot}
+                            onChange={(e) => setExportBot(e.target.value)}
+                            className="bg-gray-700 text-white px-1 rounded"
+                        >
+                            <option value="">All bots</option>
+                            {botRows.map(([bot]) => (
+                                <option key={bot} value={bot}>{shortKey(bot)}</option>
+                            ))}
+                        </select>
+                        <button onClick={() => handleExport('csv')} className="px-3 py-1 bg-gray-700 rounded-md">CSV</button>
+                        <button onClick={() => handleExport('tax')} className="px-3 py-1 bg-gray-700 rounded-md">Tax CSV</button>
+                        <button onClick={() => handleExport('json')} className="px-3 py-1 bg-gray-700 rounded-md">JSON</button>
+                    </div>
+                    {tradeLedger.length > 0 && (
+                        <button
+                            onClick={() => clearTradeLedger()}
+                            className="px-3 py-1 bg-gray-700 rounded-md text-xs text-gray-200"
+                        >
+                            Clear Ledger ({network})
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
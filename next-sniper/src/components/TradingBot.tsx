@@ -2,22 +2,34 @@
 
 import { useNetwork } from '@/context/NetworkContext';
 import { LAMPORTS_PER_SOL, PublicKey, Keypair, SystemProgram, TransactionMessage } from '@solana/web3.js';
-import { getAssociatedTokenAddress, getAccount, NATIVE_MINT } from '@solana/spl-token';
+import { getAssociatedTokenAddress, getAccount } from '@solana/spl-token';
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import BN from 'bn.js';
 import Decimal from 'decimal.js';
-import { executeJupiterSwap } from '@/utils/jupiterSwapUtil';
 import { toLamports } from '@/utils/solanaUtils';
 import { getOptimalPriorityFee } from '@/utils/priorityFee';
-import { getSimulatedPool, updateSimulatedPoolAfterTrade } from '@/utils/simulatedPoolStore';
-import { calculateStandardAmmSwapQuote } from '@/utils/ammSwapCalculator';
-import { swapRaydiumTokens } from '@/utils/raydiumSdkAdapter';
+import { getSimulatedPool } from '@/utils/simulatedPoolStore';
+import { getSwapRouter, SwapQuote, SwapSide } from '@/utils/swapRouter';
+import { compareSwapQuotes, QuoteComparison } from '@/utils/bestExecution';
+import QuoteComparisonTable from '@/components/QuoteComparisonTable';
 import { createWalletAdapter } from '@/utils/walletAdapter';
 import { useBotService } from '@/context/BotServiceContext';
 import { useWalletBalances } from '@/context/WalletBalanceContext';
+import { useBotContext } from '@/context/BotContext';
+import { useChartData } from '@/context/ChartDataContext';
+import { fetchTradeFill, createTradeRecord, computeLedgerPnl } from '@/utils/tradeLedger';
+import { ExitOrderSpec, ExitOrderType, describeExitOrder } from '@/utils/exitOrders';
+import { BotOrderKind, BotOrderSpec, describeBotOrder, remainingBotOrderAmount } from '@/utils/botOrders';
 
 // Approximate network fee for a simple transfer in SOL
 const ESTIMATED_TX_FEE_SOL = 0.00001;
+// Exit order types and the value each one is placed with
+const EXIT_ORDER_TYPES: { type: ExitOrderType; label: string; valueLabel: string }[] = [
+    { type: 'stopLoss', label: 'Stop-Loss', valueLabel: 'Trigger Price (SOL)' },
+    { type: 'takeProfit', label: 'Take-Profit', valueLabel: 'Trigger Price (SOL)' },
+    { type: 'trailingStop', label: 'Trailing Stop', valueLabel: 'Trail (%)' },
+    { type: 'timeExit', label: 'Time Exit', valueLabel: 'After (minutes)' },
+];
 // The props interface now accepts all properties from the parent.
 interface TradingBotProps {
     botWallet: Keypair;
@@ -63,6 +75,45 @@ export default function TradingBot({
     const [isWithdrawVisible, setIsWithdrawVisible] = useState(false);
     const [isManualOpen, setIsManualOpen] = useState(false);
     const balanceInfo = balances[botPublicKeyString];
+    const {
+        isPaperTrading, paperBalances, tradeLedger, recordTrade,
+        exitOrders, placeExitOrder, cancelExitOrder, rearmExitOrder, botOrders, placeBotOrder, cancelBotOrder, rearmBotOrder,
+    } = useBotContext();
+    const [isExitOpen, setIsExitOpen] = useState(false);
+    const [exitType, setExitType] = useState<ExitOrderType>('stopLoss');
+    const [exitValue, setExitValue] = useState('');
+    const [exitAmount, setExitAmount] = useState('');
+    const [exitError, setExitError] = useState('');
+    // Open orders first, then the most recent finished ones
+    const botExitOrders = exitOrders.filter((o) => o.bot === botPublicKeyString);
+    const openExitOrders = botExitOrders.filter((o) => o.status === 'active' || o.status === 'triggered');
+    const finishedExitOrders = botExitOrders.filter((o) => o.status !== 'active' && o.status !== 'triggered').slice(-5).reverse();
+    const [isOrdersOpen, setIsOrdersOpen] = useState(false);
+    const [orderKind, setOrderKind] = useState<BotOrderKind>('limit');
+    const [orderSide, setOrderSide] = useState<'buy' | 'sell'>('buy');
+    const [orderAmount, setOrderAmount] = useState('');
+    // Sells can be sized in tokens or as a percent of the position
+    const [orderAmountIsPercent, setOrderAmountIsPercent] = useState(false);
+    const [orderLimitPrice, setOrderLimitPrice] = useState('');
+    const [orderSlices, setOrderSlices] = useState('');
+    const [orderIntervalMin, setOrderIntervalMin] = useState('');
+    const [orderError, setOrderError] = useState('');
+    const botOwnOrders = botOrders.filter((o) => o.bot === botPublicKeyString);
+    const openBotOrders = botOwnOrders.filter((o) => o.status === 'active' || o.status === 'executing');
+    const finishedBotOrders = botOwnOrders.filter((o) => o.status !== 'active' && o.status !== 'executing').slice(-5).reverse();
+    const { lastPrice } = useChartData();
+    const ledgerPnl = React.useMemo(
+        () => computeLedgerPnl(
+            tradeLedger.filter((r) => r.bot === botPublicKeyString),
+            tokenMintAddress ? { [tokenMintAddress]: lastPrice } : {}
+        ),
+        [tradeLedger, botPublicKeyString, tokenMintAddress, lastPrice]
+    );
+    const paperBalance = isPaperTrading ? paperBalances[botPublicKeyString] : undefined;
+    // PnL against simply holding the seeded balances at the current price
+    const paperPnl = paperBalance
+        ? paperBalance.sol - paperBalance.startSol + (paperBalance.token - paperBalance.startToken) * lastPrice
+        : 0;
 
     useEffect(() => {
         if (balanceInfo) {
@@ -93,6 +144,8 @@ export default function TradingBot({
     const [recommendedPriorityFee, setRecommendedPriorityFee] = useState<number | null>(null);
     const [buyQuote, setBuyQuote] = useState<any>(null);
     const [sellQuote, setSellQuote] = useState<any>(null);
+    const [buyComparison, setBuyComparison] = useState<QuoteComparison | null>(null);
+    const [sellComparison, setSellComparison] = useState<QuoteComparison | null>(null);
 
     const addLog = useCallback((message: string) => {
         console.log(`[TRADING BOT LOG] ${message}`);
@@ -164,105 +217,78 @@ export default function TradingBot({
         setMaxWithdrawSol(max > 0 ? max : 0);
     }, [solBalance, minRentSol, txFeeSol]);
 
+    // Manual trade quotes: Jupiter on mainnet, the simulated pool store on devnet
+    const fetchManualQuote = useCallback(async (side: SwapSide, amount: number) => {
+        const inDecimals = side === 'buy' ? 9 : tokenDecimals;
+        const outDecimals = side === 'buy' ? tokenDecimals : 9;
+        const quote: SwapQuote = await getSwapRouter(network, { preview: true }).quote({
+            wallet: { publicKey: new PublicKey(botPublicKeyString) },
+            connection,
+            side,
+            tokenMint: tokenMintAddress,
+            tokenDecimals,
+            amount: new BN(new Decimal(amount).mul(new Decimal(10).pow(inDecimals)).toFixed(0)),
+            slippageBps: slippage * 100,
+        });
+        const scale = new Decimal(10).pow(outDecimals);
+        return {
+            outAmount: new Decimal(quote.amountOut.toString()).div(scale).toNumber(),
+            minOut: new Decimal(quote.minAmountOut.toString()).div(scale).toNumber(),
+            priceImpact: quote.priceImpactPercent,
+        };
+    }, [network, connection, botPublicKeyString, tokenMintAddress, tokenDecimals, slippage]);
+
+    // Venue comparison against the tracked pool, when one has been discovered
+    const fetchManualComparison = useCallback(async (side: SwapSide, amount: number) => {
+        const pool = getSimulatedPool();
+        const poolId = pool?.raydiumPoolId || pool?.id;
+        if (!poolId) return null;
+        const inDecimals = side === 'buy' ? 9 : tokenDecimals;
+        return compareSwapQuotes(network, {
+            wallet: { publicKey: new PublicKey(botPublicKeyString) },
+            connection,
+            side,
+            tokenMint: tokenMintAddress,
+            tokenDecimals,
+            amount: new BN(new Decimal(amount).mul(new Decimal(10).pow(inDecimals)).toFixed(0)),
+            slippageBps: slippage * 100,
+            poolId,
+        });
+    }, [network, connection, botPublicKeyString, tokenMintAddress, tokenDecimals, slippage]);
+
     // Quote for manual buy
     useEffect(() => {
         const amount = parseFloat(buyAmount);
-        if (!tokenMintAddress || isNaN(amount) || amount <= 0) { setBuyQuote(null); return; }
+        if (!tokenMintAddress || isNaN(amount) || amount <= 0) { setBuyQuote(null); setBuyComparison(null); return; }
         const handler = setTimeout(async () => {
             try {
-                if (network === 'mainnet-beta') {
-                    const quote = await executeJupiterSwap({
-                        wallet: { publicKey: new PublicKey(botPublicKeyString) },
-                        connection,
-                        inputMint: NATIVE_MINT,
-                        outputMint: new PublicKey(tokenMintAddress),
-                        amount: new BN(new Decimal(amount).mul(1e9).toFixed(0)),
-                        slippageBps: slippage * 100,
-                        onlyGetQuote: true,
-                    });
-                    setBuyQuote({
-                        outAmount: new Decimal(quote.outAmount).div(new Decimal(10).pow(tokenDecimals)).toNumber(),
-                        minOut: new Decimal(quote.otherAmountThreshold).div(new Decimal(10).pow(tokenDecimals)).toNumber(),
-                        priceImpact: quote.priceImpactPct * 100,
-                    });
-                } else {
-                    const pool = getSimulatedPool();
-                    if (!pool) { setBuyQuote(null); return; }
-                    const q = calculateStandardAmmSwapQuote(amount, true, {
-                        priceFromPool: pool.price,
-                        uiSolReserve: pool.solAmount,
-                        uiTokenReserve: pool.tokenAmount,
-                        solMintAddress: NATIVE_MINT.toBase58(),
-                        solDecimals: 9,
-                        pairedTokenMintAddress: pool.tokenAddress,
-                        pairedTokenDecimals: pool.tokenDecimals || 0,
-                    }, slippage);
-                    if (q) {
-                        setBuyQuote({
-                            outAmount: q.estimatedOutputUi.toNumber(),
-                            minOut: new Decimal(q.minAmountOutRaw.toString()).div(new Decimal(10).pow(pool.tokenDecimals || 0)).toNumber(),
-                            priceImpact: q.priceImpactPercent.toNumber(),
-                        });
-                    } else {
-                        setBuyQuote(null);
-                    }
-                }
+                setBuyQuote(await fetchManualQuote('buy', amount));
             } catch (e) {
                 console.error('Buy quote error', e); setBuyQuote(null);
             }
+            fetchManualComparison('buy', amount).then(setBuyComparison).catch((e) => {
+                console.error('Buy venue comparison error', e); setBuyComparison(null);
+            });
         }, 300);
         return () => clearTimeout(handler);
-    }, [buyAmount, slippage, tokenMintAddress, tokenDecimals, network, connection, botPublicKeyString]);
+    }, [buyAmount, tokenMintAddress, fetchManualQuote, fetchManualComparison]);
 
     // Quote for manual sell
     useEffect(() => {
         const amount = parseFloat(sellAmount);
-        if (!tokenMintAddress || isNaN(amount) || amount <= 0) { setSellQuote(null); return; }
+        if (!tokenMintAddress || isNaN(amount) || amount <= 0) { setSellQuote(null); setSellComparison(null); return; }
         const handler = setTimeout(async () => {
             try {
-                if (network === 'mainnet-beta') {
-                    const quote = await executeJupiterSwap({
-                        wallet: { publicKey: new PublicKey(botPublicKeyString) },
-                        connection,
-                        inputMint: new PublicKey(tokenMintAddress),
-                        outputMint: NATIVE_MINT,
-                        amount: new BN(new Decimal(amount).mul(new Decimal(10).pow(tokenDecimals)).toFixed(0)),
-                        slippageBps: slippage * 100,
-                        onlyGetQuote: true,
-                    });
-                    setSellQuote({
-                        outAmount: new Decimal(quote.outAmount).div(1e9).toNumber(),
-                        minOut: new Decimal(quote.otherAmountThreshold).div(1e9).toNumber(),
-                        priceImpact: quote.priceImpactPct * 100,
-                    });
-                } else {
-                    const pool = getSimulatedPool();
-                    if (!pool) { setSellQuote(null); return; }
-                    const q = calculateStandardAmmSwapQuote(amount, false, {
-                        priceFromPool: pool.price,
-                        uiSolReserve: pool.solAmount,
-                        uiTokenReserve: pool.tokenAmount,
-                        solMintAddress: NATIVE_MINT.toBase58(),
-                        solDecimals: 9,
-                        pairedTokenMintAddress: pool.tokenAddress,
-                        pairedTokenDecimals: pool.tokenDecimals || 0,
-                    }, slippage);
-                    if (q) {
-                        setSellQuote({
-                            outAmount: q.estimatedOutputUi.toNumber(),
-                            minOut: new Decimal(q.minAmountOutRaw.toString()).div(new Decimal(10).pow(9)).toNumber(),
-                            priceImpact: q.priceImpactPercent.toNumber(),
-                        });
-                    } else {
-                        setSellQuote(null);
-                    }
-                }
+                setSellQuote(await fetchManualQuote('sell', amount));
             } catch (e) {
                 console.error('Sell quote error', e); setSellQuote(null);
             }
+            fetchManualComparison('sell', amount).then(setSellComparison).catch((e) => {
+                console.error('Sell venue comparison error', e); setSellComparison(null);
+            });
         }, 300);
         return () => clearTimeout(handler);
-    }, [sellAmount, slippage, tokenMintAddress, tokenDecimals, network, connection, botPublicKeyString]);
+    }, [sellAmount, tokenMintAddress, fetchManualQuote, fetchManualComparison]);
     useEffect(() => {
         async function fetchPriority() {
             const fee = await getOptimalPriorityFee(connection);
@@ -271,6 +297,20 @@ export default function TradingBot({
         }
         fetchPriority();
     }, [connection]);
+    // Adds a manual trade to the ledger with the amounts read back from the chain.
+    const recordManualTrade = useCallback(async (side: SwapSide, requestedIn: number, signature: string) => {
+        const fill = await fetchTradeFill(connection, signature, new PublicKey(botPublicKeyString), tokenMintAddress);
+        recordTrade(createTradeRecord({
+            network,
+            bot: botPublicKeyString,
+            token: tokenMintAddress,
+            side,
+            signature,
+            source: 'manual',
+            requestedIn,
+        }, fill));
+    }, [connection, network, botPublicKeyString, tokenMintAddress, recordTrade]);
+
     const handleBuy = async () => {
         const amountSol = parseFloat(buyAmount);
         if (isNaN(amountSol) || amountSol <= 0) return addLog('Invalid buy amount.');
@@ -284,35 +324,19 @@ export default function TradingBot({
              const amountLamports = new BN(toLamports(amountSol, 9).toString());
             const fee = parseInt(priorityFee) || recommendedPriorityFee || 1000;
 
-            let txId: string;
-            if (network === 'mainnet-beta') {
-                txId = await executeJupiterSwap({
-                    wallet: walletAdapter,
-                    connection,
-                    inputMint: NATIVE_MINT,
-                    outputMint: new PublicKey(tokenMintAddress),
-                    amount: amountLamports,
-                    slippageBps: slippage * 100,
-                    priorityFeeMicroLamports: fee,
-                    asLegacyTransaction: true,
-                });
-            } else {
-                const pool = getSimulatedPool();
-                if (!pool || !pool.id) throw new Error('No devnet pool available.');
-                const devPriority = await getOptimalPriorityFee(connection);
-                txId = await swapRaydiumTokens(
-                    walletAdapter,
-                    connection,
-                    pool.id,
-                    NATIVE_MINT.toBase58(),
-                    amountLamports,
-                    slippage / 100,
-                    devPriority
-                );
-                updateSimulatedPoolAfterTrade(0, amountSol);
-            }
+            const txId = await getSwapRouter(network).execute({
+                wallet: walletAdapter,
+                connection,
+                side: 'buy',
+                tokenMint: tokenMintAddress,
+                tokenDecimals,
+                amount: amountLamports,
+                slippageBps: slippage * 100,
+                priority: fee,
+            });
             addLog(`Buy successful. Tx: ${txId}`);
             setBuyAmount('');
+            await recordManualTrade('buy', amountSol, txId);
             await refreshBotBalances();
         } catch (e: any) {
             console.error('Buy error', e);
@@ -335,35 +359,19 @@ export default function TradingBot({
             const amountRaw = new BN(toLamports(amountTokens, tokenDecimals).toString());
             const fee = parseInt(priorityFee) || recommendedPriorityFee || 1000;
 
-            let txId: string;
-            if (network === 'mainnet-beta') {
-                txId = await executeJupiterSwap({
-                    wallet: walletAdapter,
-                    connection,
-                    inputMint: new PublicKey(tokenMintAddress),
-                    outputMint: NATIVE_MINT,
-                    amount: amountRaw,
-                    slippageBps: slippage * 100,
-                    priorityFeeMicroLamports: fee,
-                    asLegacyTransaction: true,
-                });
-            } else {
-                const pool = getSimulatedPool();
-                if (!pool || !pool.id) throw new Error('No devnet pool available.');
-                const devPriority = await getOptimalPriorityFee(connection);
-                txId = await swapRaydiumTokens(
-                    walletAdapter,
-                    connection,
-                    pool.id,
-                    tokenMintAddress,
-                    amountRaw,
-                    slippage / 100,
-                    devPriority
-                );
-                updateSimulatedPoolAfterTrade(amountTokens, 0);
-            }
+            const txId = await getSwapRouter(network).execute({
+                wallet: walletAdapter,
+                connection,
+                side: 'sell',
+                tokenMint: tokenMintAddress,
+                tokenDecimals,
+                amount: amountRaw,
+                slippageBps: slippage * 100,
+                priority: fee,
+            });
             addLog(`Sell successful. Tx: ${txId}`);
             setSellAmount('');
+            await recordManualTrade('sell', amountTokens, txId);
             await refreshBotBalances();
         } catch (e: any) {
             console.error('Sell error', e);
@@ -455,6 +463,46 @@ export default function TradingBot({
         setWithdrawTokenAmount(tokenBalance.toString());
     };
 
+    const handlePlaceExit = () => {
+        const value = parseFloat(exitValue);
+        const spec: ExitOrderSpec = { type: exitType, amount: exitAmount ? parseFloat(exitAmount) : null };
+        if (exitType === 'trailingStop') spec.trailPercent = value;
+        else if (exitType === 'timeExit') spec.afterSec = value * 60;
+        else spec.triggerPrice = value;
+        try {
+            placeExitOrder(botPublicKeyString, spec);
+            setExitValue('');
+            setExitAmount('');
+            setExitError('');
+        } catch (err: any) {
+            setExitError(err.message);
+        }
+    };
+
+    const handlePlaceOrder = () => {
+        const amount = parseFloat(orderAmount);
+        const byPercent = orderSide === 'sell' && orderAmountIsPercent;
+        const spec: BotOrderSpec = {
+            kind: orderKind,
+            side: orderSide,
+            amount: byPercent ? null : amount,
+            percent: byPercent ? amount : null,
+            limitPrice: orderLimitPrice ? parseFloat(orderLimitPrice) : null,
+        };
+        if (orderKind === 'dca') {
+            spec.slices = parseInt(orderSlices, 10);
+            spec.interval = { mode: 'fixed', fixed: parseFloat(orderIntervalMin) * 60, min: 0, max: 0 };
+        }
+        try {
+            placeBotOrder(botPublicKeyString, spec);
+            setOrderAmount('');
+            setOrderLimitPrice('');
+            setOrderError('');
+        } catch (err: any) {
+            setOrderError(err.message);
+        }
+    };
+
     return (
         <div className="bg-gray-900 border border-gray-700 rounded-lg p-6 space-y-6">
             <div className="flex justify-between items-start">
@@ -489,6 +537,46 @@ export default function TradingBot({
                         {isRefreshing ? 'Refreshing...' : 'Refresh Balances'}
                     </button>
                 </div>
+                <div className="bg-gray-800 p-2 rounded-lg col-span-2 md:col-span-1">
+                    <p className="text-sm text-gray-400">Realized / Unrealized ({ledgerPnl.trades} trades)</p>
+                    <p className="text-lg font-bold">
+                        <span className={ledgerPnl.realizedSol >= 0 ? 'text-green-400' : 'text-red-400'}>
+                            {`${ledgerPnl.realizedSol >= 0 ? '+' : ''}${ledgerPnl.realizedSol.toFixed(4)}`}
+                        </span>
+                        <span className="text-gray-500"> / </span>
+                        {ledgerPnl.unrealizedSol === null ? (
+                            <span className="text-gray-400">-</span>
+                        ) : (
+                            <span className={ledgerPnl.unrealizedSol >= 0 ? 'text-green-400' : 'text-red-400'}>
+                                {`${ledgerPnl.unrealizedSol >= 0 ? '+' : ''}${ledgerPnl.unrealizedSol.toFixed(4)}`}
+                            </span>
+                        )}
+                        <span className="text-xs text-gray-400"> SOL</span>
+                    </p>
+                    <p className="text-xs text-gray-400">
+                        Cost basis {ledgerPnl.costBasisSol.toFixed(4)} SOL for {ledgerPnl.positionTokens.toFixed(4)} tokens · fees {ledgerPnl.feesSol.toFixed(5)}
+                    </p>
+                </div>
+                {isPaperTrading && (
+                    <>
+                        <div className="bg-gray-800 p-2 rounded-lg border border-yellow-700">
+                            <p className="text-sm text-yellow-400">Paper SOL</p>
+                            <p className="text-xl font-bold text-white">{paperBalance ? paperBalance.sol.toFixed(4) : '-'}</p>
+                        </div>
+                        <div className="bg-gray-800 p-2 rounded-lg border border-yellow-700">
+                            <p className="text-sm text-yellow-400">Paper Token</p>
+                            <p className="text-xl font-bold text-white">{paperBalance ? paperBalance.token.toFixed(4) : '-'}</p>
+                        </div>
+                        <div className="bg-gray-800 p-2 rounded-lg border border-yellow-700 col-span-2 md:col-span-1">
+                            <p className="text-sm text-yellow-400">
+                                Paper PnL{paperBalance ? ` (${paperBalance.tradeCount} trades)` : ''}
+                            </p>
+                            <p className={`text-xl font-bold ${paperPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                {paperBalance ? `${paperPnl >= 0 ? '+' : ''}${paperPnl.toFixed(4)} SOL` : '-'}
+                            </p>
+                        </div>
+                    </>
+                )}
             </div>
 
             <div className="bg-gray-800 rounded-lg">
@@ -516,6 +604,7 @@ export default function TradingBot({
                                 <div className="flex justify-between"><span className="text-gray-400">Min Tokens Out:</span><span className="text-white">{buyQuote ? buyQuote.minOut.toFixed(6) : '0.000000'}</span></div>
                                 <div className="flex justify-between"><span className="text-gray-400">Price Impact:</span><span className={`font-medium ${buyQuote && buyQuote.priceImpact > 5 ? 'text-red-400' : buyQuote && buyQuote.priceImpact > 1 ? 'text-yellow-400' : 'text-green-400'}`}>{buyQuote ? `${buyQuote.priceImpact.toFixed(4)}%` : '0.00%'}</span></div>
                             </div>
+                            <div className="mt-2"><QuoteComparisonTable comparison={buyComparison} outLabel="Tokens" /></div>
                         </div>
                         <div>
                             <label className="block text-gray-400 text-sm mb-1">Sell Amount (Token)</label>
@@ -525,6 +614,7 @@ export default function TradingBot({
                                 <div className="flex justify-between"><span className="text-gray-400">Min SOL Out:</span><span className="text-white">{sellQuote ? sellQuote.minOut.toFixed(6) : '0.000000'}</span></div>
                                 <div className="flex justify-between"><span className="text-gray-400">Price Impact:</span><span className={`font-medium ${sellQuote && sellQuote.priceImpact > 5 ? 'text-red-400' : sellQuote && sellQuote.priceImpact > 1 ? 'text-yellow-400' : 'text-green-400'}`}>{sellQuote ? `${sellQuote.priceImpact.toFixed(4)}%` : '0.00%'}</span></div>
                             </div>
+                            <div className="mt-2"><QuoteComparisonTable comparison={sellComparison} outLabel="SOL" /></div>
                         </div>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
@@ -546,6 +636,120 @@ export default function TradingBot({
                 )}
             </div>
 
+            <div className="bg-gray-800 p-4 rounded-lg">
+                <button onClick={() => setIsExitOpen(!isExitOpen)} className='w-full text-left font-bold text-gray-200'>
+                    <h4 className='flex justify-between items-center'>
+                        <span>Exit Orders{openExitOrders.length > 0 ? ` (${openExitOrders.length} active)` : ''}</span>
+                        <span className={`transition-transform transform ${isExitOpen ? 'rotate-180' : ''}`}>▼</span>
+                    </h4>
+                </button>
+                {isExitOpen && (
+                    <div className="mt-4 pt-4 border-t border-gray-700 space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                            <select value={exitType} onChange={(e) => setExitType(e.target.value as ExitOrderType)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white">
+                                {EXIT_ORDER_TYPES.map((t) => <option key={t.type} value={t.type}>{t.label}</option>)}
+                            </select>
+                            <input type="number" placeholder={EXIT_ORDER_TYPES.find((t) => t.type === exitType)!.valueLabel} value={exitValue} onChange={(e) => setExitValue(e.target.value)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white" step="any" min="0" />
+                            <input type="number" placeholder="Tokens (blank = all)" value={exitAmount} onChange={(e) => setExitAmount(e.target.value)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white" step="any" min="0" />
+                            <button onClick={handlePlaceExit} disabled={!tokenMintAddress} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded transition text-white font-semibold disabled:bg-gray-500">Place</button>
+                        </div>
+                        <p className="text-gray-500 text-xs">Last price: {lastPrice > 0 ? lastPrice.toPrecision(6) : '-'} SOL. Orders are checked on every price poll and sell through the bot&apos;s normal trade path.</p>
+                        {exitError && <p className="text-red-500 text-xs">{exitError}</p>}
+                        {[...openExitOrders, ...finishedExitOrders].map((o) => (
+                            <div key={o.id} className="flex justify-between items-center text-xs bg-gray-900 rounded p-2">
+                                <span className="text-gray-300">
+                                    {describeExitOrder(o)}
+                                    <span className={`ml-2 ${o.status === 'filled' ? 'text-green-400' : o.status === 'failed' ? 'text-red-400' : o.status === 'cancelled' ? 'text-gray-500' : 'text-yellow-400'}`}>
+                                        {o.status}{o.attempts > 0 && o.status !== 'filled' ? ` (${o.attempts} tries)` : ''}
+                                    </span>
+                                    {o.source === 'strategy' && <span className="ml-2 text-gray-500">strategy</span>}
+                                    {o.error && <span className="ml-2 text-gray-500">{o.error}</span>}
+                                </span>
+                                {o.status === 'active' && (
+                                    <button onClick={() => cancelExitOrder(o.id)} className="text-red-400 hover:underline">Cancel</button>
+                                )}
+                                {o.status === 'failed' && (
+                                    <button onClick={() => rearmExitOrder(o.id)} className="text-blue-400 hover:underline">Re-arm</button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-gray-800 p-4 rounded-lg">
+                <button onClick={() => setIsOrdersOpen(!isOrdersOpen)} className='w-full text-left font-bold text-gray-200'>
+                    <h4 className='flex justify-between items-center'>
+                        <span>Limit / DCA Orders{openBotOrders.length > 0 ? ` (${openBotOrders.length} open)` : ''}</span>
+                        <span className={`transition-transform transform ${isOrdersOpen ? 'rotate-180' : ''}`}>▼</span>
+                    </h4>
+                </button>
+                {isOrdersOpen && (
+                    <div className="mt-4 pt-4 border-t border-gray-700 space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                            <select value={orderKind} onChange={(e) => setOrderKind(e.target.value as BotOrderKind)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white">
+                                <option value="limit">Limit</option>
+                                <option value="dca">DCA / TWAP</option>
+                            </select>
+                            <select value={orderSide} onChange={(e) => setOrderSide(e.target.value as 'buy' | 'sell')} className="p-2 bg-gray-700 border border-gray-600 rounded text-white">
+                                <option value="buy">Buy</option>
+                                <option value="sell">Sell</option>
+                            </select>
+                            <input type="number" placeholder={orderSide === 'buy' ? 'Total SOL' : orderAmountIsPercent ? '% of position' : 'Total tokens'} value={orderAmount} onChange={(e) => setOrderAmount(e.target.value)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white" step="any" min="0" />
+                            <input type="number" placeholder={orderKind === 'limit' ? 'Limit price (SOL)' : 'Price cap (optional)'} value={orderLimitPrice} onChange={(e) => setOrderLimitPrice(e.target.value)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white" step="any" min="0" />
+                            {orderKind === 'dca' && (
+                                <>
+                                    <input type="number" placeholder="Slices" value={orderSlices} onChange={(e) => setOrderSlices(e.target.value)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white" step="1" min="1" />
+                                    <input type="number" placeholder="Every (minutes)" value={orderIntervalMin} onChange={(e) => setOrderIntervalMin(e.target.value)} className="p-2 bg-gray-700 border border-gray-600 rounded text-white" step="any" min="0" />
+                                </>
+                            )}
+                            {orderSide === 'sell' && (
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                    <input type="checkbox" checked={orderAmountIsPercent} onChange={(e) => setOrderAmountIsPercent(e.target.checked)} />
+                                    {orderKind === 'dca' ? '% of position per slice' : '% of position'}
+                                </label>
+                            )}
+                            <button onClick={handlePlaceOrder} disabled={!tokenMintAddress} className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded transition text-white font-semibold disabled:bg-gray-500">Place</button>
+                        </div>
+                        <p className="text-gray-500 text-xs">Limit buys fill at or below the price and limit sells at or above it. DCA splits the total into slices, the first one right away.</p>
+                        {orderError && <p className="text-red-500 text-xs">{orderError}</p>}
+                        {[...openBotOrders, ...finishedBotOrders].map((o) => {
+                            const remaining = remainingBotOrderAmount(o);
+                            return (
+                                <div key={o.id} className="text-xs bg-gray-900 rounded p-2 space-y-1">
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-gray-300">
+                                            {describeBotOrder(o)}
+                                            <span className={`ml-2 ${o.status === 'filled' ? 'text-green-400' : o.status === 'failed' ? 'text-red-400' : o.status === 'cancelled' ? 'text-gray-500' : 'text-yellow-400'}`}>
+                                                {o.status}
+                                            </span>
+                                            {o.error && <span className="ml-2 text-gray-500">{o.error}</span>}
+                                        </span>
+                                        {(o.status === 'active' || o.status === 'executing') && (
+                                            <button onClick={() => cancelBotOrder(o.id)} className="text-red-400 hover:underline">Cancel</button>
+                                        )}
+                                        {o.status === 'failed' && (
+                                            <button onClick={() => rearmBotOrder(o.id)} className="text-blue-400 hover:underline">Re-arm</button>
+                                        )}
+                                    </div>
+                                    <div className="text-gray-400">
+                                        {o.slicesDone}/{o.slices} slices · filled {o.filledAmount.toFixed(6)}
+                                        {remaining !== null && ` · remaining ${remaining.toFixed(6)}`} {o.side === 'buy' ? 'SOL' : 'tokens'}
+                                        {o.status === 'active' && o.kind === 'dca' && ` · next ${new Date(o.nextSliceAt).toLocaleTimeString()}`}
+                                    </div>
+                                    {o.fills.map((f) => (
+                                        <div key={f.timestamp} className="text-gray-500 font-mono">
+                                            {new Date(f.timestamp).toLocaleTimeString()} {o.side} {f.amount.toFixed(6)} @ {f.price > 0 ? f.price.toPrecision(6) : '-'}
+                                            {f.signature && ` ${f.signature.slice(0, 8)}...`}
+                                        </div>
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
             <div className="bg-gray-800 p-4 rounded-lg">
                 <button onClick={() => setIsWithdrawVisible(!isWithdrawVisible)} className='w-full text-left font-bold text-gray-200'>
                     <h4 className='flex justify-between items-center'>
@@ -1,18 +1,18 @@
 // src/components/TradingInterface.tsx
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Connection, PublicKey } from '@solana/web3.js';
+import { Connection } from '@solana/web3.js';
 import BN from 'bn.js';
 import Decimal from 'decimal.js';
 import { NATIVE_MINT } from '@solana/spl-token';
 
-import { getSimulatedPool, updateSimulatedPoolAfterTrade } from '@/utils/simulatedPoolStore';
-import { isRaydiumPool, swapRaydiumTokens } from '@/utils/raydiumSdkAdapter'; 
-import { calculateStandardAmmSwapQuote } from '@/utils/ammSwapCalculator';
+import { getSimulatedPool } from '@/utils/simulatedPoolStore';
+import { isRaydiumPool } from '@/utils/raydiumSdkAdapter'; 
 import { DiscoveredPoolDetailed } from '@/utils/poolFinder';
 import { NetworkType, useNetwork } from '@/context/NetworkContext'; 
-import { executeJupiterSwap } from '@/utils/jupiterSwapUtil';
+import { getSwapRouter, SwapQuote } from '@/utils/swapRouter';
+import { compareSwapQuotes, QuoteComparison } from '@/utils/bestExecution';
+import QuoteComparisonTable from '@/components/QuoteComparisonTable';
 import { toLamports } from '@/utils/solanaUtils';
-import { getOptimalPriorityFee } from '@/utils/priorityFee';
 
 type NotificationType = 'success' | 'error' | 'info' | '';
 
@@ -70,10 +70,22 @@ function TradingInterface({
     const [buyPriceImpact, setBuyPriceImpact] = useState<number>(0);
     const [sellPriceImpact, setSellPriceImpact] = useState<number>(0);
     const [slippage, setSlippage] = useState<number>(1);
+    // Optional CLMM price limit in SOL per token; empty means no limit
+    const [priceLimit, setPriceLimit] = useState<string>('');
+    const isClmmPool = selectedPool?.poolType === 'concentrated';
+    const raydiumSwapOptions = () => {
+        const limit = parseFloat(priceLimit);
+        return {
+            poolId: selectedPool?.id,
+            poolType: selectedPool?.poolType,
+            ...(isClmmPool && limit > 0 ? { priceLimit: limit } : {}),
+        };
+    };
     const [currentPrice, setCurrentPrice] = useState<number>(0);
     const [activeTab, setActiveTab] = useState<'buy' | 'sell'>('buy');
     const [errorMessage, setErrorMessage] = useState<string>('');
-    const [jupiterQuote, setJupiterQuote] = useState<any>(null);
+    const [swapQuote, setSwapQuote] = useState<SwapQuote | null>(null);
+    const [venueComparison, setVenueComparison] = useState<QuoteComparison | null>(null);
     const poolDataForCalculations = useMemo(() => {
         console.log('[MEMO_DEBUG] Recomputing poolDataForCalculations. SelectedPool ID:', selectedPool?.id, 'Price:', selectedPool?.price);
         if (selectedPool && typeof selectedPool.price === 'number' && !isNaN(selectedPool.price)) {
@@ -166,62 +178,29 @@ function TradingInterface({
     useEffect(() => {
         const amountToQuote = activeTab === 'buy' ? buyAmount : sellAmount;
         const amountFloat = parseFloat(amountToQuote);
-        if (isNaN(amountFloat) || amountFloat <= 0) { setJupiterQuote(null); return; }
+        if (isNaN(amountFloat) || amountFloat <= 0) { setSwapQuote(null); return; }
         const handler = setTimeout(async () => {
             try {
                 setIsLoading(true);
                 console.log("[TradingInterface][setIsLoading] set to TRUE (quote fetch)");
 
-                if (network === 'mainnet-beta') {
-                    const inputMint = activeTab === 'buy' ? NATIVE_MINT : new PublicKey(tokenAddress);
-                    const outputMint = activeTab === 'buy' ? new PublicKey(tokenAddress) : NATIVE_MINT;
-                    const amountInSmallestUnit = new BN(
+                // Devnet previews come from the simulated pool store, not on-chain
+                const quote = await getSwapRouter(network, { preview: true }).quote({
+                    wallet,
+                    connection,
+                    side: activeTab,
+                    tokenMint: tokenAddress,
+                    tokenDecimals,
+                    amount: new BN(
                         new Decimal(amountFloat).mul(new Decimal(10).pow(activeTab === 'buy' ? 9 : tokenDecimals)).toFixed(0)
-                    );
-                    const quote = await executeJupiterSwap({
-                        wallet,
-                        connection,
-                        inputMint,
-                        outputMint,
-                        amount: amountInSmallestUnit,
-                        slippageBps: slippage * 100,
-                        onlyGetQuote: true
-                    });
-                    console.log("Received Jupiter Quote:", quote);
-                    setJupiterQuote(quote);
-                } else {
-                    const pool = getSimulatedPool();
-                    if (!pool) { setJupiterQuote(null); return; }
-                    const q = calculateStandardAmmSwapQuote(amountFloat, activeTab === 'buy', {
-                        priceFromPool: pool.price,
-                        uiSolReserve: pool.solAmount,
-                        uiTokenReserve: pool.tokenAmount,
-                        solMintAddress: NATIVE_MINT.toBase58(),
-                        solDecimals: 9,
-                        pairedTokenMintAddress: pool.tokenAddress,
-                        pairedTokenDecimals: pool.tokenDecimals || tokenDecimals,
-                    }, slippage);
-                    if (q) {
-                        const outRaw = activeTab === 'buy'
-                            ? q.estimatedOutputUi.mul(new Decimal(10).pow(tokenDecimals))
-                            : q.estimatedOutputUi.mul(new Decimal(10).pow(9));
-                        const inRaw = activeTab === 'buy'
-                            ? new Decimal(amountFloat).mul(1e9)
-                            : new Decimal(amountFloat).mul(new Decimal(10).pow(tokenDecimals));
-                        setJupiterQuote({
-                            outAmount: outRaw.floor().toString(),
-                            otherAmountThreshold: q.minAmountOutRaw.toString(),
-                            priceImpactPct: q.priceImpactPercent.div(100).toNumber(),
-                            inAmount: inRaw.floor().toString(),
-                        });
-                    } else {
-                        setJupiterQuote(null);
-                    }
-                }
-
+                    ),
+                    slippageBps: slippage * 100,
+                });
+                console.log("Received swap quote:", quote);
+                setSwapQuote(quote);
             } catch (error) {
                 console.error("Failed to get quote:", error);
-                setJupiterQuote(null);
+                setSwapQuote(null);
             } finally {
                 setIsLoading(false);
                 console.log("[TradingInterface][setIsLoading] set to FALSE (quote fetch)");
@@ -230,6 +209,35 @@ function TradingInterface({
         return () => clearTimeout(handler);
     }, [buyAmount, sellAmount, activeTab, network, tokenAddress, tokenDecimals, slippage, connection, wallet]);
 
+    // Compare venues once a pool has been discovered for the token
+    useEffect(() => {
+        const amountFloat = parseFloat(activeTab === 'buy' ? buyAmount : sellAmount);
+        if (!selectedPool?.id || isNaN(amountFloat) || amountFloat <= 0) { setVenueComparison(null); return; }
+        let cancelled = false;
+        const handler = setTimeout(async () => {
+            try {
+                const comparison = await compareSwapQuotes(network, {
+                    wallet,
+                    connection,
+                    side: activeTab,
+                    tokenMint: tokenAddress,
+                    tokenDecimals,
+                    amount: new BN(
+                        new Decimal(amountFloat).mul(new Decimal(10).pow(activeTab === 'buy' ? 9 : tokenDecimals)).toFixed(0)
+                    ),
+                    slippageBps: slippage * 100,
+                    poolId: selectedPool.id,
+                    poolType: selectedPool.poolType,
+                });
+                if (!cancelled) setVenueComparison(comparison);
+            } catch (error) {
+                console.error("Failed to compare venue quotes:", error);
+                if (!cancelled) setVenueComparison(null);
+            }
+        }, 500);
+        return () => { cancelled = true; clearTimeout(handler); };
+    }, [buyAmount, sellAmount, activeTab, network, selectedPool, tokenAddress, tokenDecimals, slippage, connection, wallet]);
+
     useEffect(() => {
         if (poolDataForCalculations && typeof poolDataForCalculations.price === 'number') {
             setCurrentPrice(poolDataForCalculations.price);
@@ -258,49 +266,18 @@ function TradingInterface({
         setNotification({ show: true, message: `Processing buy on ${network}...`, type: 'info' });
 
         try {
-            let txSignature: string;
             const amountInLamports = new BN(toLamports(buyAmountSOLFloat, 9).toString());
 
-            if (network === 'mainnet-beta') {
-                const priorityFee = await getOptimalPriorityFee(connection);
-                txSignature = await executeJupiterSwap({
-                    wallet,
-                    connection,
-                    inputMint: NATIVE_MINT,
-                    outputMint: new PublicKey(tokenAddress),
-                    amount: amountInLamports,
-                    slippageBps: slippage * 100,
-                    priorityFeeMicroLamports: priorityFee,
-                    asLegacyTransaction: true,
-                });
-            } else { // Devnet Logic
-                if (!selectedPool || !selectedPool.id) throw new Error("Devnet pool not selected.");
-                const slippageDecimal = slippage / 100;
-                const devPriority = await getOptimalPriorityFee(connection);
-                txSignature = await swapRaydiumTokens(
-                    wallet,
-                    connection,
-                    selectedPool.id,
-                    NATIVE_MINT.toBase58(),
-                    amountInLamports,
-                    slippageDecimal,
-                    devPriority
-                );
-                let tokensBought = 0;
-                let solSpent = buyAmountSOLFloat;
-                if (jupiterQuote && jupiterQuote.outAmount) {
-                    tokensBought = parseFloat(new Decimal(jupiterQuote.outAmount)
-                        .div(new Decimal(10).pow(tokenDecimals)).toString());
-                    if (jupiterQuote.inAmount) {
-                        solSpent = parseFloat(new Decimal(jupiterQuote.inAmount)
-                            .div(1e9).toString());
-                    }
-                } else if (currentPrice > 0) {
-                    tokensBought = buyAmountSOLFloat / currentPrice;
-                }
-
-                updateSimulatedPoolAfterTrade(-tokensBought, solSpent);
-            }
+            await getSwapRouter(network).execute({
+                wallet,
+                connection,
+                side: 'buy',
+                tokenMint: tokenAddress,
+                tokenDecimals,
+                amount: amountInLamports,
+                slippageBps: slippage * 100,
+                ...raydiumSwapOptions(),
+            });
 
             setNotification({ show: true, message: `Buy successful!`, type: 'success' });
             setBuyAmount('');
@@ -339,48 +316,17 @@ function TradingInterface({
         setNotification({ show: true, message: `Processing sell on ${network}...`, type: 'info' });
 
         try {
-            let txSignature: string;
-
-            if (network === 'mainnet-beta') {
-                const priorityFee = await getOptimalPriorityFee(connection);
-                txSignature = await executeJupiterSwap({
-                    wallet,
-                    connection,
-                    inputMint: new PublicKey(tokenAddress),
-                    outputMint: NATIVE_MINT,
-                    amount: rawTokensToSell,
-                    slippageBps: slippage * 100,
-                    priorityFeeMicroLamports: priorityFee,
-                    asLegacyTransaction: true,
-                });
-            } else { // Devnet Logic
-                if (!selectedPool || !selectedPool.id) throw new Error("Devnet pool not selected.");
-                const slippageDecimal = slippage / 100;
-                const devPriority = await getOptimalPriorityFee(connection);
-                txSignature = await swapRaydiumTokens(
-                    wallet,
-                    connection,
-                    selectedPool.id,
-                    tokenAddress,
-                    rawTokensToSell,
-                    slippageDecimal,
-                    devPriority
-                );
-                let tokensSold = sellAmountTokensFloat;
-                let solReceived = 0;
-                if (jupiterQuote && jupiterQuote.outAmount) {
-                    solReceived = parseFloat(new Decimal(jupiterQuote.outAmount)
-                        .div(1e9).toString());
-                    if (jupiterQuote.inAmount) {
-                        tokensSold = parseFloat(new Decimal(jupiterQuote.inAmount)
-                            .div(new Decimal(10).pow(tokenDecimals)).toString());
-                    }
-                } else {
-                    solReceived = currentPrice * sellAmountTokensFloat;
-                }
 
-                updateSimulatedPoolAfterTrade(tokensSold, -solReceived);
-            }
+            await getSwapRouter(network).execute({
+                wallet,
+                connection,
+                side: 'sell',
+                tokenMint: tokenAddress,
+                tokenDecimals,
+                amount: rawTokensToSell,
+                slippageBps: slippage * 100,
+                ...raydiumSwapOptions(),
+            });
 
             setNotification({ show: true, message: 'Sell successful!', type: 'success' });
             setSellAmount('');
@@ -446,6 +392,26 @@ function TradingInterface({
                 />
             </div>
 
+            {isClmmPool && network === 'devnet' && (
+                <div className="mb-4">
+                    <label htmlFor="price-limit-input" className="block text-gray-400 text-sm mb-1">
+                        Price Limit (SOL/Token, optional)
+                    </label>
+                    <input
+                        id="price-limit-input"
+                        type="number"
+                        value={priceLimit}
+                        onChange={(e) => setPriceLimit(e.target.value)}
+                        placeholder="No limit"
+                        className="w-full p-2 rounded bg-gray-800 text-white border border-gray-700 focus:border-blue-500 focus:outline-none"
+                        min="0"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        Buys stop at this price and sells stop below it; the rest of the order is left unfilled.
+                    </p>
+                </div>
+            )}
+
             {selectedPool && (
                 <div className="p-3 mb-4 bg-blue-900/30 border border-blue-700/50 rounded-lg">
                     <div className="flex">
@@ -482,16 +448,17 @@ function TradingInterface({
                         <div className="flex justify-between">
                             <span className="text-gray-400">Tokens Received:</span>
                             <span className="text-white">
-                                {jupiterQuote ? new Decimal(jupiterQuote.outAmount).div(10 ** tokenDecimals).toFixed(6) : '0.00'}
+                                {swapQuote ? new Decimal(swapQuote.amountOut.toString()).div(10 ** tokenDecimals).toFixed(6) : '0.00'}
                             </span>
                         </div>
                         <div className="flex justify-between">
                             <span className="text-gray-400">Price Impact:</span>
-                            <span className={`font-medium ${jupiterQuote && jupiterQuote.priceImpactPct * 100 > 5 ? 'text-red-400' : jupiterQuote && jupiterQuote.priceImpactPct * 100 > 1 ? 'text-yellow-400' : 'text-green-400'}`}>
-                                {jupiterQuote ? `${(jupiterQuote.priceImpactPct * 100).toFixed(4)}%` : '0.00%'}
+                            <span className={`font-medium ${swapQuote && swapQuote.priceImpactPercent > 5 ? 'text-red-400' : swapQuote && swapQuote.priceImpactPercent > 1 ? 'text-yellow-400' : 'text-green-400'}`}>
+                                {swapQuote ? `${swapQuote.priceImpactPercent.toFixed(4)}%` : '0.00%'}
                             </span>
                         </div>
                     </div>
+                    <QuoteComparisonTable comparison={venueComparison} outLabel="Tokens" />
                     <button
                         onClick={handleBuy}
                         disabled={
@@ -535,16 +502,17 @@ function TradingInterface({
                         <div className="flex justify-between">
                             <span className="text-gray-400">SOL Received:</span>
                             <span className="text-white">
-                                {activeTab === 'sell' && jupiterQuote ? new Decimal(jupiterQuote.outAmount).div(10 ** 9).toFixed(6) : '0.00'}
+                                {activeTab === 'sell' && swapQuote ? new Decimal(swapQuote.amountOut.toString()).div(10 ** 9).toFixed(6) : '0.00'}
                             </span>
                         </div>
                         <div className="flex justify-between">
                             <span className="text-gray-400">Price Impact:</span>
-                            <span className={`font-medium ${activeTab === 'sell' && jupiterQuote && jupiterQuote.priceImpactPct * 100 > 5 ? 'text-red-400' : activeTab === 'sell' && jupiterQuote && jupiterQuote.priceImpactPct * 100 > 1 ? 'text-yellow-400' : 'text-green-400'}`}>
-                                {activeTab === 'sell' && jupiterQuote ? `${(jupiterQuote.priceImpactPct * 100).toFixed(4)}%` : '0.00%'}
+                            <span className={`font-medium ${activeTab === 'sell' && swapQuote && swapQuote.priceImpactPercent > 5 ? 'text-red-400' : activeTab === 'sell' && swapQuote && swapQuote.priceImpactPercent > 1 ? 'text-yellow-400' : 'text-green-400'}`}>
+                                {activeTab === 'sell' && swapQuote ? `${swapQuote.priceImpactPercent.toFixed(4)}%` : '0.00%'}
                             </span>
                         </div>
                     </div>
+                    <QuoteComparisonTable comparison={venueComparison} outLabel="SOL" />
                     <button
                         onClick={handleSell}
                         disabled={
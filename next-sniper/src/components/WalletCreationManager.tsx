@@ -1,15 +1,15 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useGlobalLogs } from '@/context/GlobalLogContext';
 import { useNetwork } from '@/context/NetworkContext';
 import { Keypair } from '@solana/web3.js';
 import {
-   
-    loadBotWallets,
      loadBotWalletsWithRetry,
     changeWalletPassword
 } from '@/utils/botWalletManager';
+import { exportWalletBackup, importWalletBackup, backupFileName } from '@/utils/walletBackup';
+import { useBotWalletReload } from '@/context/BotWalletReloadContext';
 import { NumberInputStepper } from '@/components/NumberInputStepper';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 
@@ -29,9 +29,12 @@ export default function WalletCreationManager({ distributeFunds, onClearWallets,
     const [duration, setDuration] = useState('30');
     const { connection, network } = useNetwork();
     const { append } = useGlobalLogs();
+    const { reloadWallets } = useBotWalletReload();
+    const [isBackupBusy, setIsBackupBusy] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
         const handleClearAllWallets = async () => {
-        const wallets = loadBotWalletsWithRetry(network);
+        const wallets = await loadBotWalletsWithRetry(network);
         let hasBalance = false;
         for (const w of wallets) {
             const sol = await connection.getBalance(w.publicKey);
@@ -54,17 +57,60 @@ export default function WalletCreationManager({ distributeFunds, onClearWallets,
         }
     };
 
-    const handleChangePassword = () => {
+    const handleChangePassword = async () => {
         const newPass = window.prompt('Enter new wallet password:');
         if (!newPass) return;
         try {
-            changeWalletPassword(newPass);
+            await changeWalletPassword(newPass);
             alert('Wallet password updated.');
         } catch (err: any) {
             alert(err?.message || 'Failed to change password.');
         }
     };
 
+    const handleExportBackup = async () => {
+        const backupPass = window.prompt('Choose a password for the backup file:');
+        if (!backupPass) return;
+        if (window.prompt('Confirm the backup password:') !== backupPass) {
+            alert('Passwords do not match.');
+            return;
+        }
+        setIsBackupBusy(true);
+        try {
+            const contents = await exportWalletBackup(backupPass);
+            const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = backupFileName();
+            link.click();
+            URL.revokeObjectURL(url);
+            append('Exported encrypted bot wallet backup');
+        } catch (err: any) {
+            alert(err?.message || 'Failed to export backup.');
+        } finally {
+            setIsBackupBusy(false);
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const backupPass = window.prompt('Enter the backup file password:');
+        if (!backupPass) return;
+        setIsBackupBusy(true);
+        try {
+            const { imported, skipped } = await importWalletBackup(await file.text(), backupPass);
+            append(`Imported ${imported} bot wallet(s) from backup (${skipped} already present)`);
+            alert(`Imported ${imported} wallet(s). Skipped ${skipped} duplicate(s).`);
+            reloadWallets();
+        } catch (err: any) {
+            alert(err?.message || 'Failed to import backup.');
+        } finally {
+            setIsBackupBusy(false);
+        }
+    };
+
     const handleCreateClick = () => {
         const solAmount = parseFloat(totalSol);
         const durationMinutes = parseInt(duration, 10);
@@ -97,7 +143,7 @@ export default function WalletCreationManager({ distributeFunds, onClearWallets,
                     </span>
                 </div>
                 
-                <div className={`transition-all duration-500 ease-in-out ${isExpanded ? 'max-h-96 opacity-100' : 'max-h-0 opacity-0'}`}>
+                <div className={`transition-all duration-500 ease-in-out ${isExpanded ? 'max-h-[32rem] opacity-100' : 'max-h-0 opacity-0'}`}>
                     <div className="p-4 border-t border-gray-700/50 space-y-4">
                         <div className="grid grid-cols-2 gap-4">
                            <div>
@@ -149,6 +195,29 @@ export default function WalletCreationManager({ distributeFunds, onClearWallets,
                         >
                             Change Wallet Password
                         </button>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={handleExportBackup}
+                                disabled={isProcessing || isBackupBusy}
+                                className="py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition text-white text-sm font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed"
+                            >
+                                Export Encrypted Backup
+                            </button>
+                            <button
+                                onClick={() => importInputRef.current?.click()}
+                                disabled={isProcessing || isBackupBusy}
+                                className="py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition text-white text-sm font-semibold disabled:bg-gray-500 disabled:cursor-not-allowed"
+                            >
+                                Import Backup
+                            </button>
+                        </div>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={handleImportFile}
+                        />
                     </div>
                 </div>
             </div>
@@ -7,6 +7,7 @@ import React, {
   useRef,
   useCallback,
   useEffect,
+  useMemo,
 } from 'react';
 import { useGlobalLogs } from './GlobalLogContext';
 import type { NetworkType } from './NetworkContext';
@@ -14,10 +15,78 @@ import { useNetwork } from './NetworkContext';
 import { useChartData } from './ChartDataContext';
 import { useToken } from './TokenContext';
 import { useWalletBalances } from './WalletBalanceContext';
-import { Buffer } from 'buffer';
-import { PublicKey } from '@solana/web3.js';
+import { Keypair, PublicKey } from '@solana/web3.js';
 import { getSimulatedPool } from '../utils/simulatedPoolStore';
 import { calculateMinTradeAmount } from '../utils/minTradeAmount';
+import {
+  StrategyStateSnapshot,
+  loadStrategyState,
+  saveStrategyState,
+  clearStrategyState,
+} from '../utils/strategyStateStore';
+import {
+  IndicatorConfig,
+  DEFAULT_INDICATOR_CONFIG,
+  computeMarketIndicators,
+} from '../utils/marketIndicators';
+import {
+  RiskLimits,
+  RiskTrade,
+  DEFAULT_RISK_LIMITS,
+  pruneRiskTrades,
+  riskDayOf,
+  equitySol,
+  tradingPnlSol,
+} from '../utils/riskPolicy';
+import {
+  SelfTradeGuardConfig,
+  SelfTradeFill,
+  SelfTradeAuditEntry,
+  DEFAULT_SELF_TRADE_GUARD,
+  MAX_SELF_TRADE_AUDIT_ENTRIES,
+  pruneSelfTradeFills,
+} from '../utils/selfTradeGuard';
+import { TradeRecord, loadTradeRecords, saveTradeRecord, clearTradeRecords } from '../utils/tradeLedger';
+import {
+  ExitOrder,
+  ExitOrderSpec,
+  MAX_EXIT_ATTEMPTS,
+  MAX_FINISHED_EXIT_ORDERS,
+  createExitOrder,
+  describeExitOrder,
+  evaluateExitOrder,
+} from '../utils/exitOrders';
+import {
+  BotOrder,
+  BotOrderSpec,
+  MAX_BOT_ORDER_ATTEMPTS,
+  MAX_FINISHED_BOT_ORDERS,
+  createBotOrder,
+  describeBotOrder,
+  isBotOrderDue,
+  nextSliceAmount,
+  recordBotOrderFill,
+} from '../utils/botOrders';
+import {
+  StrategyParamDeclaration,
+  StrategyParamValues,
+  loadStrategyParams,
+  saveStrategyParams,
+} from '../utils/strategyParams';
+import {
+  BotAssignments,
+  StrategyAssignment,
+  StrategyRunUnit,
+  DEFAULT_RUN_UNIT,
+  assignBots,
+  groupBotsByAssignment,
+  loadBotAssignments,
+  putBotGroup,
+  removeBotGroup,
+  saveBotAssignments,
+} from '../utils/botAssignments';
+import { loadStrategiesFromLocalStorage } from '../utils/strategyManager';
+import { revisionOfCode } from '../utils/strategyRevisions';
 
 // Template used when initializing new bot code in the editor
 export const DEFAULT_BOT_CODE = `
@@ -108,6 +177,30 @@ export interface BotInstance {
 // network value throughout the app.
 export type BotsByNetwork = Record<NetworkType, BotInstance[]>;
 
+// Wall-clock budget for a single strategy run inside the worker. A run that has
+// not reported back this long after its deadline is treated as hung.
+export const STRATEGY_RUN_TIMEOUT_MS = 30_000;
+const STRATEGY_RUN_GRACE_MS = 5_000;
+// Reading `exports.params` only runs the strategy's top level; longer means it never returns.
+const STRATEGY_DESCRIBE_TIMEOUT_MS = 2_000;
+
+// Strategy ID used for code typed into the editor that was not loaded from a
+// saved strategy or preset. Strategy state is scoped by this ID.
+export const CUSTOM_STRATEGY_ID = 'custom';
+
+// Virtual SOL given to a bot with no known real balance when paper trading
+// seeds its balances.
+export const DEFAULT_PAPER_SOL = 1;
+
+export interface PaperBalance {
+  sol: number;
+  token: number;
+  /** Balances the bot was seeded with, used as the PnL baseline. */
+  startSol: number;
+  startToken: number;
+  tradeCount: number;
+}
+
 export interface TradeIntervalConfig {
   mode: 'fixed' | 'random';
   fixed: number; // seconds
@@ -115,6 +208,27 @@ export interface TradeIntervalConfig {
   max: number; // seconds
 }
 
+// Time until the next tick of an interval; drives strategy runs and DCA slices.
+const intervalDelayMs = (cfg: TradeIntervalConfig) =>
+  (cfg.mode === 'fixed' ? cfg.fixed : cfg.min + Math.random() * (cfg.max - cfg.min)) * 1000;
+
+// Outcome of an exit order or limit/DCA slice traded by the order worker.
+// `unknown` when the worker died with the trade in flight or the send could not
+// be confirmed: it may have landed, so it is not retried.
+interface OrderTradeResult {
+  id: string;
+  status: 'filled' | 'rejected' | 'failed' | 'unknown';
+  signature?: string | null;
+  /** SOL per token the trade executed at, when the worker could read it. */
+  price?: number | null;
+  error?: string | null;
+}
+
+// A failed limit/DCA slice is retried after this long
+const ORDER_RETRY_DELAY_MS = 5_000;
+// Error on an order whose trade was in flight when the page closed.
+const UNKNOWN_ON_RELOAD = 'page closed with the trade in flight; outcome unknown, check the wallet before re-arming';
+
 
 interface BotContextState {
   allBotsByNetwork: BotsByNetwork;
@@ -134,6 +248,68 @@ interface BotContextState {
   tradeIntervalConfig: TradeIntervalConfig;
   setTradeIntervalConfig: (cfg: TradeIntervalConfig) => void;
   getSystemState: () => { allBots: BotInstance[]; tradeCounts: Record<string, number> };
+  activeStrategyId: string;
+  setActiveStrategyId: (id: string) => void;
+  /** Persisted `context.state` of the active strategy, or null while loading. */
+  strategyState: StrategyStateSnapshot | null;
+  /** Reset the active strategy's state, or only one bot's scope when given. */
+  resetStrategyState: (botPublicKey?: string) => Promise<void>;
+  /** Saved `exports.params` values of the active strategy on the current network, passed as `context.params`. */
+  strategyParams: StrategyParamValues;
+  /** Save parameter values for the active strategy, or for `strategyId` when given. */
+  setStrategyParams: (values: StrategyParamValues, strategyId?: string) => void;
+  /** Read the `exports.params` declaration of strategy code in a worker; load errors come back as declaration errors. */
+  describeStrategyParams: (code: string) => Promise<StrategyParamDeclaration>;
+  /** Saved strategies assigned to the current network's bots and bot groups. */
+  botAssignments: BotAssignments;
+  /** Point bots at a group or their own assignment; null returns them to the editor's strategy. Throws on an unknown group. */
+  assignBotsTo: (botIds: string[], target: string | StrategyAssignment | null) => void;
+  /** Create or replace a named bot group; throws without a name or strategy. */
+  saveBotGroup: (name: string, assignment: StrategyAssignment) => void;
+  deleteBotGroup: (name: string) => void;
+  indicatorConfig: IndicatorConfig;
+  setIndicatorConfig: (cfg: IndicatorConfig) => void;
+  /** When on, trades on the current network fill against a virtual pool. */
+  isPaperTrading: boolean;
+  setIsPaperTrading: (enabled: boolean) => void;
+  /** Virtual balances of the current network's bots, keyed by address. */
+  paperBalances: Record<string, PaperBalance>;
+  /** Drop all paper balances of the current network so they are reseeded. */
+  resetPaperBalances: () => void;
+  /** When on, bot trades on the current network are simulated instead of sent. */
+  isSimulateOnly: boolean;
+  setIsSimulateOnly: (enabled: boolean) => void;
+  /** When on, every real bot trade is simulated first and refused below the quote's minimum output. */
+  isPreflightEnabled: boolean;
+  setIsPreflightEnabled: (enabled: boolean) => void;
+  /** Limits the worker checks before every bot trade; the daily loss limit stops trading. */
+  riskLimits: RiskLimits;
+  setRiskLimits: (limits: RiskLimits) => void;
+  /** Blocks opposing trades between managed bot wallets on the same token within a window. */
+  selfTradeGuard: SelfTradeGuardConfig;
+  setSelfTradeGuard: (config: SelfTradeGuardConfig) => void;
+  /** Blocked and overridden self-trades on the current network, newest first. */
+  selfTradeAudit: SelfTradeAuditEntry[];
+  clearSelfTradeAudit: () => void;
+  /** Real bot trades on the current network from the persisted ledger, oldest first. */
+  tradeLedger: TradeRecord[];
+  /** Persist a trade (strategy or manual) to the ledger. */
+  recordTrade: (record: TradeRecord) => void;
+  clearTradeLedger: () => Promise<void>;
+  /** Exit orders on the current network, active ones first. */
+  exitOrders: ExitOrder[];
+  /** Place an exit order for a bot on the selected token; throws on an invalid spec. */
+  placeExitOrder: (bot: string, spec: ExitOrderSpec) => ExitOrder;
+  cancelExitOrder: (id: string) => void;
+  /** Set a failed exit order active again, e.g. after checking an unknown outcome. */
+  rearmExitOrder: (id: string) => void;
+  /** Limit and DCA orders on the current network, open ones first. */
+  botOrders: BotOrder[];
+  /** Place a limit or DCA order for a bot on the selected token; throws on an invalid spec. */
+  placeBotOrder: (bot: string, spec: BotOrderSpec) => BotOrder;
+  cancelBotOrder: (id: string) => void;
+  /** Set a failed limit/DCA order active again; its next slice is due right away. */
+  rearmBotOrder: (id: string) => void;
 }
 
 export const BotContext = createContext<BotContextState | undefined>(undefined);
@@ -144,10 +320,11 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
     'mainnet-beta': [],
   });
   const { network, rpcUrl, connection } = useNetwork();
-  const { lastPrice, currentMarketCap, currentLpValue, solUsdPrice } =
+  const { lastPrice, currentMarketCap, currentLpValue, solUsdPrice, rawPriceHistory } =
     useChartData();
   const { tokenAddress, tokenDecimals, setTokenDecimals, isLpActive, setTokenAddress } = useToken();
   const { balances: walletBalances, updateAfterTrade } = useWalletBalances();
+  const { append } = useGlobalLogs();
 
   const loadBotCode = (net: NetworkType) => {
     if (typeof window !== 'undefined') {
@@ -176,6 +353,575 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
     },
     [network]
   );
+  const loadActiveStrategyId = (net: NetworkType) => {
+    if (typeof window !== 'undefined') {
+      const saved = window.localStorage.getItem(`activeStrategy-${net}`);
+      if (saved) return saved;
+    }
+    return CUSTOM_STRATEGY_ID;
+  };
+
+  const [activeStrategyIdByNetwork, setActiveStrategyIdByNetwork] = useState<Record<NetworkType, string>>({
+    devnet: loadActiveStrategyId('devnet'),
+    'mainnet-beta': loadActiveStrategyId('mainnet-beta'),
+  });
+
+  const activeStrategyId = activeStrategyIdByNetwork[network];
+  const setActiveStrategyId = useCallback(
+    (id: string) => {
+      setActiveStrategyIdByNetwork((prev) => {
+        if (typeof window !== 'undefined') {
+          window.localStorage.setItem(`activeStrategy-${network}`, id);
+        }
+        return { ...prev, [network]: id };
+      });
+    },
+    [network]
+  );
+
+  const [strategyState, setStrategyState] = useState<StrategyStateSnapshot | null>(null);
+  const strategyStateRef = useRef<StrategyStateSnapshot | null>(null);
+  // Which strategy `strategyStateRef` belongs to, for updates from in-flight runs.
+  const strategyStateKeyRef = useRef({ network, strategyId: activeStrategyId });
+
+  useEffect(() => {
+    let cancelled = false;
+    strategyStateKeyRef.current = { network, strategyId: activeStrategyId };
+    strategyStateRef.current = null;
+    setStrategyState(null);
+    loadStrategyState(network, activeStrategyId).then((loaded) => {
+      if (cancelled) return;
+      strategyStateRef.current = loaded;
+      setStrategyState(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [network, activeStrategyId]);
+
+  const resetStrategyState = useCallback(
+    async (botPublicKey?: string) => {
+      const current = strategyStateRef.current;
+      if (botPublicKey && current) {
+        const { [botPublicKey]: _removed, ...bots } = current.bots;
+        const next = { ...current, bots };
+        strategyStateRef.current = next;
+        setStrategyState(next);
+        await saveStrategyState(network, activeStrategyId, next);
+        append(`[app] Cleared state of bot ${botPublicKey} for strategy ${activeStrategyId}`);
+        return;
+      }
+      const next = { strategy: {}, bots: {} };
+      strategyStateRef.current = next;
+      setStrategyState(next);
+      await clearStrategyState(network, activeStrategyId);
+      append(`[app] Cleared state for strategy ${activeStrategyId}`);
+    },
+    [network, activeStrategyId]
+  );
+
+  // Bumped on save so `strategyParams` is re-read from storage
+  const [strategyParamsVersion, setStrategyParamsVersion] = useState(0);
+  const strategyParams = useMemo(
+    () => loadStrategyParams(network, activeStrategyId),
+    [network, activeStrategyId, strategyParamsVersion]
+  );
+  const setStrategyParams = useCallback(
+    (values: StrategyParamValues, strategyId = activeStrategyId) => {
+      saveStrategyParams(network, strategyId, values);
+      setStrategyParamsVersion((v) => v + 1);
+    },
+    [network, activeStrategyId]
+  );
+
+  // Declarations are read in a worker of their own, so strategy code never runs on
+  // this thread and a top level that never returns does not hold up trading runs.
+  const describeWorkerRef = useRef<Worker | null>(null);
+  const describeIdRef = useRef(0);
+  const describeCallbacksRef = useRef(new Map<number, (result: StrategyParamDeclaration) => void>());
+  const failPendingDescribes = useCallback((error: string) => {
+    describeWorkerRef.current?.terminate();
+    describeWorkerRef.current = null;
+    const pending = [...describeCallbacksRef.current.values()];
+    describeCallbacksRef.current.clear();
+    pending.forEach((callback) => callback({ schema: {}, errors: [error] }));
+  }, []);
+  const describeStrategyParams = useCallback(
+    (code: string) =>
+      new Promise<StrategyParamDeclaration>((resolve) => {
+        if (!describeWorkerRef.current) {
+          const worker = new Worker(new URL('../workers/bot-worker.js', import.meta.url), { type: 'module' });
+          worker.onmessage = (ev) => {
+            const { runId, describe } = ev.data || {};
+            if (!describe) return;
+            const callback = describeCallbacksRef.current.get(runId);
+            describeCallbacksRef.current.delete(runId);
+            callback?.(describe);
+          };
+          worker.onerror = (e) => failPendingDescribes(`Could not load strategy: ${e.message}`);
+          describeWorkerRef.current = worker;
+        }
+        const id = ++describeIdRef.current;
+        const timer = setTimeout(
+          () => failPendingDescribes(`Strategy did not finish loading within ${STRATEGY_DESCRIBE_TIMEOUT_MS / 1000}s`),
+          STRATEGY_DESCRIBE_TIMEOUT_MS
+        );
+        describeCallbacksRef.current.set(id, (result) => {
+          clearTimeout(timer);
+          resolve(result);
+        });
+        describeWorkerRef.current.postMessage({ type: 'describe', runId: id, code });
+      }),
+    [failPendingDescribes]
+  );
+  useEffect(() => () => describeWorkerRef.current?.terminate(), []);
+
+  const [botAssignmentsByNetwork, setBotAssignmentsByNetwork] = useState<Record<NetworkType, BotAssignments>>({
+    devnet: loadBotAssignments('devnet'),
+    'mainnet-beta': loadBotAssignments('mainnet-beta'),
+  });
+  const botAssignmentsRef = useRef(botAssignmentsByNetwork);
+  const botAssignments = botAssignmentsByNetwork[network];
+  const updateBotAssignments = useCallback(
+    (update: (prev: BotAssignments) => BotAssignments) => {
+      const next = { ...botAssignmentsRef.current, [network]: update(botAssignmentsRef.current[network]) };
+      botAssignmentsRef.current = next;
+      setBotAssignmentsByNetwork(next);
+      saveBotAssignments(network, next[network]);
+    },
+    [network]
+  );
+  const assignBotsTo = useCallback(
+    (botIds: string[], target: string | StrategyAssignment | null) => {
+      updateBotAssignments((prev) => assignBots(prev, botIds, target));
+      const to = target === null
+        ? 'the editor strategy'
+        : typeof target === 'string' ? `group ${target}` : `strategy ${target.strategyId}`;
+      append(`[app] Assigned ${botIds.length} bot(s) to ${to}`);
+    },
+    [updateBotAssignments, append]
+  );
+  const saveBotGroup = useCallback(
+    (name: string, assignment: StrategyAssignment) => {
+      updateBotAssignments((prev) => putBotGroup(prev, name, assignment));
+      append(`[app] Bot group ${name.trim()} saved`);
+    },
+    [updateBotAssignments, append]
+  );
+  const deleteBotGroup = useCallback(
+    (name: string) => {
+      updateBotAssignments((prev) => removeBotGroup(prev, name));
+      append(`[app] Bot group ${name} deleted; its bots run the editor strategy`);
+    },
+    [updateBotAssignments, append]
+  );
+
+  const [tradeLedger, setTradeLedger] = useState<TradeRecord[]>([]);
+  const ledgerNetworkRef = useRef(network);
+  // Whether `tradeLedger` holds the current network's records yet
+  const ledgerLoadedRef = useRef(false);
+  useEffect(() => {
+    let cancelled = false;
+    ledgerNetworkRef.current = network;
+    ledgerLoadedRef.current = false;
+    setTradeLedger([]);
+    loadTradeRecords(network).then((records) => {
+      if (cancelled) return;
+      ledgerLoadedRef.current = true;
+      setTradeLedger(records);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [network]);
+  const solUsdPriceRef = useRef(solUsdPrice);
+  solUsdPriceRef.current = solUsdPrice;
+  const recordTrade = useCallback((trade: TradeRecord) => {
+    const record = { ...trade, solUsdPrice: trade.solUsdPrice ?? solUsdPriceRef.current };
+    saveTradeRecord(record);
+    if (record.network === ledgerNetworkRef.current) {
+      setTradeLedger((prev) => [...prev.filter((r) => r.id !== record.id), record]);
+    }
+  }, []);
+  const clearTradeLedger = useCallback(async () => {
+    await clearTradeRecords(network);
+    setTradeLedger([]);
+    append(`[app] Trade ledger cleared on ${network}`);
+  }, [network, append]);
+
+  const [indicatorConfig, setIndicatorConfigState] = useState<IndicatorConfig>(() => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem('indicatorConfig');
+      if (stored) {
+        try {
+          return { ...DEFAULT_INDICATOR_CONFIG, ...JSON.parse(stored) };
+        } catch {}
+      }
+    }
+    return DEFAULT_INDICATOR_CONFIG;
+  });
+  const setIndicatorConfig = useCallback((cfg: IndicatorConfig) => {
+    setIndicatorConfigState(cfg);
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem('indicatorConfig', JSON.stringify(cfg));
+    }
+  }, []);
+
+  const [riskLimits, setRiskLimitsState] = useState<RiskLimits>(() => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem('riskLimits');
+      if (stored) {
+        try {
+          return { ...DEFAULT_RISK_LIMITS, ...JSON.parse(stored) };
+        } catch {}
+      }
+    }
+    return DEFAULT_RISK_LIMITS;
+  });
+  const setRiskLimits = useCallback((limits: RiskLimits) => {
+    setRiskLimitsState(limits);
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem('riskLimits', JSON.stringify(limits));
+    }
+  }, []);
+
+  // Recent bot trades per network, for the per-hour/day spend and trade-rate limits.
+  const loadRiskTrades = (net: NetworkType): RiskTrade[] => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem(`riskTrades-${net}`);
+      if (stored) {
+        try {
+          return pruneRiskTrades(JSON.parse(stored), Date.now());
+        } catch {}
+      }
+    }
+    return [];
+  };
+  const riskTradesRef = useRef<Record<NetworkType, RiskTrade[]>>({
+    devnet: loadRiskTrades('devnet'),
+    'mainnet-beta': loadRiskTrades('mainnet-beta'),
+  });
+  const recordRiskTrade = useCallback((net: NetworkType, trade: RiskTrade) => {
+    const trades = pruneRiskTrades([...riskTradesRef.current[net], trade], Date.now());
+    riskTradesRef.current = { ...riskTradesRef.current, [net]: trades };
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(`riskTrades-${net}`, JSON.stringify(trades));
+    }
+  }, []);
+
+  // How far `value` fell since the first run of the UTC day. Live runs pass the
+  // ledger's trading PnL, so transfers in and out of the bots do not count;
+  // paper runs pass paper equity. Each keeps its own baseline.
+  const dailyLossSol = (net: NetworkType, paper: boolean, value: number): number | null => {
+    if (typeof window === 'undefined') return null;
+    const key = `riskDayStart-${net}-${paper ? 'paper' : 'live'}`;
+    const today = riskDayOf(Date.now());
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(key) || 'null');
+      if (stored && stored.day === today && typeof stored.valueSol === 'number') return stored.valueSol - value;
+    } catch {}
+    window.localStorage.setItem(key, JSON.stringify({ day: today, valueSol: value }));
+    return 0;
+  };
+
+  const [selfTradeGuard, setSelfTradeGuardState] = useState<SelfTradeGuardConfig>(() => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem('selfTradeGuard');
+      if (stored) {
+        try {
+          return { ...DEFAULT_SELF_TRADE_GUARD, ...JSON.parse(stored) };
+        } catch {}
+      }
+    }
+    return DEFAULT_SELF_TRADE_GUARD;
+  });
+  const setSelfTradeGuard = useCallback(
+    (config: SelfTradeGuardConfig) => {
+      setSelfTradeGuardState(config);
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem('selfTradeGuard', JSON.stringify(config));
+      }
+      append(`[app] Self-trade guard ${config.enabled ? `on (${config.windowSec}s window)` : 'off'}`);
+    },
+    [append]
+  );
+
+  // Recent bot fills per network, shared by every run so the guard spans runs.
+  const loadSelfTradeFills = (net: NetworkType): SelfTradeFill[] => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem(`selfTradeFills-${net}`);
+      if (stored) {
+        try {
+          return JSON.parse(stored);
+        } catch {}
+      }
+    }
+    return [];
+  };
+  const selfTradeFillsRef = useRef<Record<NetworkType, SelfTradeFill[]>>({
+    devnet: loadSelfTradeFills('devnet'),
+    'mainnet-beta': loadSelfTradeFills('mainnet-beta'),
+  });
+  const selfTradeWindowRef = useRef(selfTradeGuard.windowSec);
+  selfTradeWindowRef.current = selfTradeGuard.windowSec;
+  const recordSelfTradeFill = useCallback((net: NetworkType, fill: SelfTradeFill) => {
+    const fills = pruneSelfTradeFills([...selfTradeFillsRef.current[net], fill], Date.now(), selfTradeWindowRef.current);
+    selfTradeFillsRef.current = { ...selfTradeFillsRef.current, [net]: fills };
+    if (typeof window !== 'undefined') {
+      window.localStorage.setItem(`selfTradeFills-${net}`, JSON.stringify(fills));
+    }
+  }, []);
+
+  const loadSelfTradeAudit = (net: NetworkType): SelfTradeAuditEntry[] => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem(`selfTradeAudit-${net}`);
+      if (stored) {
+        try {
+          return JSON.parse(stored);
+        } catch {}
+      }
+    }
+    return [];
+  };
+  const [selfTradeAuditByNetwork, setSelfTradeAuditByNetwork] = useState<Record<NetworkType, SelfTradeAuditEntry[]>>({
+    devnet: loadSelfTradeAudit('devnet'),
+    'mainnet-beta': loadSelfTradeAudit('mainnet-beta'),
+  });
+  const selfTradeAudit = selfTradeAuditByNetwork[network];
+  const updateSelfTradeAudit = useCallback(
+    (net: NetworkType, update: (prev: SelfTradeAuditEntry[]) => SelfTradeAuditEntry[]) => {
+      setSelfTradeAuditByNetwork((prev) => {
+        const entries = update(prev[net]);
+        if (typeof window !== 'undefined') {
+          window.localStorage.setItem(`selfTradeAudit-${net}`, JSON.stringify(entries));
+        }
+        return { ...prev, [net]: entries };
+      });
+    },
+    []
+  );
+  const clearSelfTradeAudit = useCallback(() => {
+    updateSelfTradeAudit(network, () => []);
+    append(`[app] Self-trade audit log cleared on ${network}`);
+  }, [network, updateSelfTradeAudit, append]);
+
+  const loadPaperTrading = (net: NetworkType) =>
+    typeof window !== 'undefined' && window.localStorage.getItem(`paperTrading-${net}`) === 'true';
+  const [paperTradingByNetwork, setPaperTradingByNetwork] = useState<Record<NetworkType, boolean>>({
+    devnet: loadPaperTrading('devnet'),
+    'mainnet-beta': loadPaperTrading('mainnet-beta'),
+  });
+  const isPaperTrading = paperTradingByNetwork[network];
+  const setIsPaperTrading = useCallback(
+    (enabled: boolean) => {
+      setPaperTradingByNetwork((prev) => ({ ...prev, [network]: enabled }));
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem(`paperTrading-${network}`, String(enabled));
+      }
+      append(`[app] Paper trading ${enabled ? 'enabled' : 'disabled'} on ${network}`);
+    },
+    [network, append]
+  );
+
+  const loadNetworkFlag = (key: string, net: NetworkType) =>
+    typeof window !== 'undefined' && window.localStorage.getItem(`${key}-${net}`) === 'true';
+  const [simulateOnlyByNetwork, setSimulateOnlyByNetwork] = useState<Record<NetworkType, boolean>>({
+    devnet: loadNetworkFlag('simulateOnly', 'devnet'),
+    'mainnet-beta': loadNetworkFlag('simulateOnly', 'mainnet-beta'),
+  });
+  const isSimulateOnly = simulateOnlyByNetwork[network];
+  const setIsSimulateOnly = useCallback(
+    (enabled: boolean) => {
+      setSimulateOnlyByNetwork((prev) => ({ ...prev, [network]: enabled }));
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem(`simulateOnly-${network}`, String(enabled));
+      }
+      append(`[app] Simulate-only mode ${enabled ? 'enabled' : 'disabled'} on ${network}`);
+    },
+    [network, append]
+  );
+  const [preflightByNetwork, setPreflightByNetwork] = useState<Record<NetworkType, boolean>>({
+    devnet: loadNetworkFlag('preflightCheck', 'devnet'),
+    'mainnet-beta': loadNetworkFlag('preflightCheck', 'mainnet-beta'),
+  });
+  const isPreflightEnabled = preflightByNetwork[network];
+  const setIsPreflightEnabled = useCallback(
+    (enabled: boolean) => {
+      setPreflightByNetwork((prev) => ({ ...prev, [network]: enabled }));
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem(`preflightCheck-${network}`, String(enabled));
+      }
+      append(`[app] Preflight simulation ${enabled ? 'enabled' : 'disabled'} on ${network}`);
+    },
+    [network, append]
+  );
+
+  const loadPaperBalances = (net: NetworkType): Record<string, PaperBalance> => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem(`paperBalances-${net}`);
+      if (stored) {
+        try {
+          return JSON.parse(stored);
+        } catch {}
+      }
+    }
+    return {};
+  };
+  const [paperBalancesByNetwork, setPaperBalancesByNetwork] = useState<
+    Record<NetworkType, Record<string, PaperBalance>>
+  >({
+    devnet: loadPaperBalances('devnet'),
+    'mainnet-beta': loadPaperBalances('mainnet-beta'),
+  });
+  const paperBalancesRef = useRef(paperBalancesByNetwork);
+  const paperBalances = paperBalancesByNetwork[network];
+  const updatePaperBalances = useCallback(
+    (net: NetworkType, update: (prev: Record<string, PaperBalance>) => Record<string, PaperBalance>) => {
+      const next = { ...paperBalancesRef.current, [net]: update(paperBalancesRef.current[net]) };
+      paperBalancesRef.current = next;
+      setPaperBalancesByNetwork(next);
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem(`paperBalances-${net}`, JSON.stringify(next[net]));
+      }
+    },
+    []
+  );
+  const resetPaperBalances = useCallback(() => {
+    updatePaperBalances(network, () => ({}));
+    // The reseeded balances are not a loss or gain for the day
+    if (typeof window !== 'undefined') window.localStorage.removeItem(`riskDayStart-${network}-paper`);
+    append(`[app] Paper balances reset on ${network}`);
+  }, [network, updatePaperBalances, append]);
+
+  // A sell still in flight when the page closed may have landed, so it is
+  // failed rather than retried; the user re-arms it after checking the wallet.
+  const loadExitOrders = (net: NetworkType): ExitOrder[] => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem(`exitOrders-${net}`);
+      if (stored) {
+        try {
+          return (JSON.parse(stored) as ExitOrder[]).map((o) =>
+            o.status === 'triggered' ? { ...o, status: 'failed', error: UNKNOWN_ON_RELOAD } : o
+          );
+        } catch {}
+      }
+    }
+    return [];
+  };
+  const [exitOrdersByNetwork, setExitOrdersByNetwork] = useState<Record<NetworkType, ExitOrder[]>>({
+    devnet: loadExitOrders('devnet'),
+    'mainnet-beta': loadExitOrders('mainnet-beta'),
+  });
+  const exitOrdersRef = useRef(exitOrdersByNetwork);
+  const exitOrders = exitOrdersByNetwork[network];
+  const updateExitOrders = useCallback(
+    (net: NetworkType, update: (prev: ExitOrder[]) => ExitOrder[]) => {
+      const updated = update(exitOrdersRef.current[net]);
+      const open = updated.filter((o) => o.status === 'active' || o.status === 'triggered');
+      const finished = updated.filter((o) => o.status !== 'active' && o.status !== 'triggered');
+      const next = { ...exitOrdersRef.current, [net]: [...open, ...finished.slice(-MAX_FINISHED_EXIT_ORDERS)] };
+      exitOrdersRef.current = next;
+      setExitOrdersByNetwork(next);
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem(`exitOrders-${net}`, JSON.stringify(next[net]));
+      }
+    },
+    []
+  );
+  const placeExitOrder = useCallback(
+    (bot: string, spec: ExitOrderSpec) => {
+      const order = createExitOrder(spec, { network, bot, token: tokenAddress, source: 'manual' });
+      updateExitOrders(network, (prev) => [...prev, order]);
+      append(`[app] Exit order placed for ${bot}: ${describeExitOrder(order)}`);
+      return order;
+    },
+    [network, tokenAddress, updateExitOrders, append]
+  );
+  const cancelExitOrder = useCallback(
+    (id: string) => {
+      updateExitOrders(network, (prev) =>
+        prev.map((o) => (o.id === id && o.status === 'active' ? { ...o, status: 'cancelled' } : o))
+      );
+      append(`[app] Exit order ${id} cancelled`);
+    },
+    [network, updateExitOrders, append]
+  );
+  const rearmExitOrder = useCallback(
+    (id: string) => {
+      updateExitOrders(network, (prev) =>
+        prev.map((o) => (o.id === id && o.status === 'failed' ? { ...o, status: 'active', attempts: 0, error: null } : o))
+      );
+      append(`[app] Exit order ${id} re-armed`);
+    },
+    [network, updateExitOrders, append]
+  );
+
+  // A slice still in flight when the page closed may have filled, so the order
+  // is failed rather than re-sending it; the user re-arms it after checking the wallet.
+  const loadBotOrders = (net: NetworkType): BotOrder[] => {
+    if (typeof window !== 'undefined') {
+      const stored = window.localStorage.getItem(`botOrders-${net}`);
+      if (stored) {
+        try {
+          return (JSON.parse(stored) as BotOrder[]).map((o) =>
+            o.status === 'executing' ? { ...o, status: 'failed', error: UNKNOWN_ON_RELOAD } : o
+          );
+        } catch {}
+      }
+    }
+    return [];
+  };
+  const [botOrdersByNetwork, setBotOrdersByNetwork] = useState<Record<NetworkType, BotOrder[]>>({
+    devnet: loadBotOrders('devnet'),
+    'mainnet-beta': loadBotOrders('mainnet-beta'),
+  });
+  const botOrdersRef = useRef(botOrdersByNetwork);
+  const botOrders = botOrdersByNetwork[network];
+  const updateBotOrders = useCallback(
+    (net: NetworkType, update: (prev: BotOrder[]) => BotOrder[]) => {
+      const updated = update(botOrdersRef.current[net]);
+      const open = updated.filter((o) => o.status === 'active' || o.status === 'executing');
+      const finished = updated.filter((o) => o.status !== 'active' && o.status !== 'executing');
+      const next = { ...botOrdersRef.current, [net]: [...open, ...finished.slice(-MAX_FINISHED_BOT_ORDERS)] };
+      botOrdersRef.current = next;
+      setBotOrdersByNetwork(next);
+      if (typeof window !== 'undefined') {
+        window.localStorage.setItem(`botOrders-${net}`, JSON.stringify(next[net]));
+      }
+    },
+    []
+  );
+  const placeBotOrder = useCallback(
+    (bot: string, spec: BotOrderSpec) => {
+      const order = createBotOrder(spec, { network, bot, token: tokenAddress });
+      updateBotOrders(network, (prev) => [...prev, order]);
+      append(`[app] Order placed for ${bot}: ${describeBotOrder(order)}`);
+      return order;
+    },
+    [network, tokenAddress, updateBotOrders, append]
+  );
+  // A slice already in flight still lands; the order just takes no more.
+  const cancelBotOrder = useCallback(
+    (id: string) => {
+      updateBotOrders(network, (prev) =>
+        prev.map((o) => (o.id === id && (o.status === 'active' || o.status === 'executing') ? { ...o, status: 'cancelled' } : o))
+      );
+      append(`[app] Order ${id} cancelled`);
+    },
+    [network, updateBotOrders, append]
+  );
+  const rearmBotOrder = useCallback(
+    (id: string) => {
+      updateBotOrders(network, (prev) =>
+        prev.map((o) => (o.id === id && o.status === 'failed'
+          ? { ...o, status: 'active', attempts: 0, nextSliceAt: Date.now(), error: null }
+          : o))
+      );
+      append(`[app] Order ${id} re-armed`);
+    },
+    [network, updateBotOrders, append]
+  );
+
   const [executionMode, setExecutionMode] = useState<'per-bot' | 'group'>('per-bot');
   const [isAdvancedMode, setIsAdvancedMode] = useState(false);
   const [isTradingActive, setIsTradingActive] = useState(false);
@@ -217,8 +963,24 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
   const tradeCountsRef = useRef<Record<string, number>>({});
   const workerRef = useRef<Worker | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const runBotLogicRef = useRef<(() => void) | null>(null);
-  const { append } = useGlobalLogs();
+  // Runs the given units, or every unit on the global interval when omitted.
+  const runBotLogicRef = useRef<((unitKeys?: string[]) => void) | null>(null);
+  const runIdRef = useRef(0);
+  // Runs posted to the worker that have not reported `done`, by run id, including
+  // cancelled ones until the worker acknowledges them. `strategyId` is the id the
+  // run's state is saved under.
+  const runsRef = useRef(new Map<number, {
+    id: number;
+    unitKey: string;
+    startedAt: number;
+    network: NetworkType;
+    strategyId: string;
+    cancelled: boolean;
+  }>());
+  // Strategy state of assigned units, keyed `${network}:${stateId}`; the default unit uses strategyStateRef.
+  const unitStatesRef = useRef(new Map<string, StrategyStateSnapshot>());
+  // Units with their own interval that already ran since trading started
+  const startedUnitsRef = useRef(new Set<string>());
 
   const lastLpValueRef = useRef<number>(0);
 
@@ -265,51 +1027,82 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
     };
   }, [allBotsByNetwork]);
 
-  const runBotLogic = useCallback(() => {
-    if (!workerRef.current) {
-      // Load the worker via a static URL so Turbopack can bundle it
-      workerRef.current = new Worker(
-        new URL('../workers/bot-worker.js', import.meta.url),
-        { type: 'module' }
+  // Effects of trades reported by the worker: balances, paper fills, the
+  // ledger, risk and self-trade records, and exit orders placed by strategies.
+  const applyTradeEffectsRef = useRef<(data: any) => void>(() => {});
+  applyTradeEffectsRef.current = (data) => {
+    const {
+      balanceUpdate, paperFill, ledgerTrade, riskTrade, riskHalt, selfTradeFill,
+      selfTradeAudit: auditEntry, exitOrderPlace, exitOrderCancel,
+    } = data;
+    if (balanceUpdate) {
+      const { wallet, solChange = 0, tokenChange = 0 } = balanceUpdate;
+      try {
+        updateAfterTrade(network, connection, new PublicKey(wallet), solChange, tokenChange, tokenAddress);
+      } catch (e) {
+        console.error('balance update failed', e);
+      }
+    }
+    if (paperFill) {
+      const { network: fillNetwork, wallet, side, amountIn, amountOut, networkFeeSol = 0 } = paperFill;
+      updatePaperBalances(fillNetwork, (prev) => {
+        const existing = prev[wallet];
+        if (!existing) return prev;
+        const solChange = (side === 'buy' ? -amountIn : amountOut) - networkFeeSol;
+        const tokenChange = side === 'buy' ? amountOut : -amountIn;
+        return {
+          ...prev,
+          [wallet]: {
+            ...existing,
+            sol: existing.sol + solChange,
+            token: existing.token + tokenChange,
+            tradeCount: existing.tradeCount + 1,
+          },
+        };
+      });
+    }
+    if (ledgerTrade) {
+      recordTrade(ledgerTrade);
+    }
+    if (riskTrade) {
+      recordRiskTrade(riskTrade.network, riskTrade.trade);
+    }
+    if (selfTradeFill) {
+      recordSelfTradeFill(selfTradeFill.network, selfTradeFill.fill);
+    }
+    if (auditEntry) {
+      updateSelfTradeAudit(auditEntry.network, (prev) =>
+        [auditEntry.entry, ...prev].slice(0, MAX_SELF_TRADE_AUDIT_ENTRIES)
       );
-      workerRef.current.onmessage = (ev) => {
-        const { log, error, balanceUpdate } = ev.data || {};
-        if (log) append(log);
-        if (error) append(`error: ${error}`);
-         if (balanceUpdate) {
-          const { wallet, solChange = 0, tokenChange = 0 } = balanceUpdate;
-          try {
-            updateAfterTrade(network, connection, new PublicKey(wallet), solChange, tokenChange, tokenAddress);
-          } catch (e) {
-            console.error('balance update failed', e);
-          }
-        }
-      };
-      workerRef.current.onerror = (e) => {
-        append(`error: ${e.message}`);
-      };
-      append('[app] Worker created');
     }
-    const bots = allBotsByNetwork[network] || [];
-    const botSecrets = bots.map((b) =>
-      b.secretKey instanceof Uint8Array ? b.secretKey : Uint8Array.from(b.secretKey)
-    );
-    if (bots.length === 0) {
-      append('[app] Warning: no bots configured');
+    if (riskHalt && isTradingActiveRef.current) {
+      isTradingActiveRef.current = false;
+      setIsTradingActive(false);
+      append(`[app] Trading stopped by risk limit ${riskHalt.rule}: ${riskHalt.message}`);
     }
-    if (!tokenAddress) {
-      append('[app] Warning: no token selected');
+    if (exitOrderPlace) {
+      updateExitOrders(exitOrderPlace.network, (prev) => [...prev, exitOrderPlace]);
     }
-    bots.forEach((b) => {
-      tradeCountsRef.current[b.id] = (tradeCountsRef.current[b.id] || 0) + 1;
-    });
-    const systemState = getSystemState();
+    if (exitOrderCancel) {
+      const { network: orderNetwork, bot, id } = exitOrderCancel;
+      updateExitOrders(orderNetwork, (prev) =>
+        prev.map((o) => (o.id === id && o.bot === bot && o.status === 'active' ? { ...o, status: 'cancelled' } : o))
+      );
+    }
+  };
+
+  // Trade API context for the current network's bots, shared by strategy runs
+  // and exit order sells.
+  const buildTradeContext = () => {
+    const bots = allBotsByNetwork[network] || [];
+    const botSecrets = bots.map((b) => Uint8Array.from(b.secretKey));
     const context: any = {
       rpcUrl,
       network,
       token: { address: tokenAddress, decimals: tokenDecimals ?? undefined },
       isLpActive,
       market: {
+        ...computeMarketIndicators(rawPriceHistory, indicatorConfig),
         lastPrice,
         currentMarketCap,
         currentLpValue,
@@ -318,6 +1111,8 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
       isAdvancedMode,
       minTradeAmount,
       walletBalances,
+      simulateOnly: isSimulateOnly,
+      preflight: isPreflightEnabled,
     };
 
    if (network === 'devnet') {
@@ -329,20 +1124,239 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
         }
       }
     } 
+    if (isPaperTrading) {
+      // Seed bots without paper balances from their last known real balances
+      const addresses = botSecrets.map((sk) => Keypair.fromSecretKey(sk).publicKey.toBase58());
+      const missing = addresses.filter((pk) => !paperBalancesRef.current[network][pk]);
+      if (missing.length > 0) {
+        updatePaperBalances(network, (prev) => {
+          const next = { ...prev };
+          for (const pk of missing) {
+            const real = walletBalances[pk];
+            const sol = real ? real.sol : DEFAULT_PAPER_SOL;
+            const token = real ? real.token : 0;
+            next[pk] = { sol, token, startSol: sol, startToken: token, tradeCount: 0 };
+          }
+          return next;
+        });
+      }
+      const balances = paperBalancesRef.current[network];
+      const lastReserves = [...rawPriceHistory].reverse().find((t) => t.solReserve && t.tokenReserve);
+      if (!lastReserves) {
+        append('[app] Paper trading: no pool reserves tracked yet, trades will be skipped');
+      }
+      context.paper = {
+        pool: lastReserves ? { sol: lastReserves.solReserve, token: lastReserves.tokenReserve } : null,
+        balances: Object.fromEntries(
+          addresses.map((pk) => [pk, { sol: balances[pk].sol, token: balances[pk].token }])
+        ),
+      };
+    }
+    let dailyLoss: number | null = null;
+    if (lastPrice > 0 && botSecrets.length > 0) {
+      if (context.paper) {
+        const paperEquity = equitySol(Object.values(context.paper.balances as Record<string, PaperBalance>), lastPrice);
+        dailyLoss = dailyLossSol(network, true, paperEquity);
+      } else if (ledgerLoadedRef.current) {
+        const botKeys = new Set(botSecrets.map((sk) => Keypair.fromSecretKey(sk).publicKey.toBase58()));
+        const botTrades = tradeLedger.filter((r) => r.token === tokenAddress && botKeys.has(r.bot));
+        dailyLoss = dailyLossSol(network, false, tradingPnlSol(botTrades, lastPrice));
+      }
+    }
+    context.risk = {
+      limits: riskLimits,
+      trades: riskTradesRef.current[network],
+      dailyLossSol: dailyLoss,
+    };
+    context.selfTrade = {
+      config: selfTradeGuard,
+      fills: pruneSelfTradeFills(selfTradeFillsRef.current[network], Date.now(), selfTradeGuard.windowSec),
+      managedWallets: bots.map((b) => Keypair.fromSecretKey(Uint8Array.from(b.secretKey)).publicKey.toBase58()),
+    };
+    return context;
+  };
+
+  // One worker runs strategies and order trades, so the risk trades and
+  // self-trade fills it keeps are shared by all of them. It outlives trading
+  // being stopped and is only replaced when a run stops responding.
+  const orderCallbacksRef = useRef(new Map<string, (result: OrderTradeResult) => void>());
+  const ensureWorker = useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+    // Load the worker via a static URL so Turbopack can bundle it
+    const worker = new Worker(
+      new URL('../workers/bot-worker.js', import.meta.url),
+      { type: 'module' }
+    );
+    worker.onmessage = (ev) => {
+      const { runId, log, error, stateUpdate, done, orderResult } = ev.data || {};
+      // Trades of a cancelled run may still land, so their effects are always applied.
+      applyTradeEffectsRef.current(ev.data || {});
+      // Order trades report under their order's id, strategy runs under a number
+      if (typeof runId === 'string') {
+        if (log) append(log);
+        if (orderResult) {
+          const callback = orderCallbacksRef.current.get(orderResult.id);
+          orderCallbacksRef.current.delete(orderResult.id);
+          callback?.(orderResult);
+        }
+        return;
+      }
+      const run = runsRef.current.get(runId);
+      if (!run) return;
+      if (done) runsRef.current.delete(runId);
+      // A cancelled run still reports what it wrote to context.state before stopping
+      if (stateUpdate) {
+        saveStrategyState(run.network, run.strategyId, stateUpdate);
+        if (run.unitKey !== DEFAULT_RUN_UNIT) {
+          unitStatesRef.current.set(`${run.network}:${run.strategyId}`, stateUpdate);
+        }
+        const key = strategyStateKeyRef.current;
+        if (key.network === run.network && key.strategyId === run.strategyId && strategyStateRef.current) {
+          strategyStateRef.current = stateUpdate;
+          setStrategyState(stateUpdate);
+        }
+      }
+      // Late output of a cancelled run is ignored
+      if (run.cancelled) return;
+      if (log) append(log);
+      if (error) append(`error: ${error}`);
+      if (done && done.status !== 'completed') {
+        append(`[app] Run #${runId} finished with status ${done.status} after ${done.durationMs}ms`);
+      }
+    };
+    worker.onerror = (e) => {
+      append(`error: ${e.message}`);
+    };
+    workerRef.current = worker;
+    append('[app] Worker created');
+    return worker;
+  }, [append]);
+
+  // A run that has not acknowledged its cancel keeps its start time, so a
+  // worker stuck in a synchronous loop is replaced however short the interval.
+  const replaceStuckWorker = useCallback(() => {
+    const oldestRun = [...runsRef.current.values()].reduce<{ id: number; startedAt: number } | null>(
+      (oldest, r) => (!oldest || r.startedAt < oldest.startedAt ? r : oldest),
+      null
+    );
+    if (!workerRef.current || !oldestRun || Date.now() - oldestRun.startedAt <= STRATEGY_RUN_TIMEOUT_MS + STRATEGY_RUN_GRACE_MS) {
+      return;
+    }
+    // The worker ignored its own timeout; replace it. Every run and order trade goes with it.
+    workerRef.current.terminate();
+    workerRef.current = null;
+    runsRef.current.clear();
+    const pending = [...orderCallbacksRef.current.entries()];
+    orderCallbacksRef.current.clear();
+    pending.forEach(([id, callback]) =>
+      callback({ id, status: 'unknown', error: 'worker restarted with the trade in flight; check the wallet' })
+    );
+    append(`[app] Run #${oldestRun.id} is unresponsive, restarting worker`);
+  }, [append]);
+
+  const runBotLogic = useCallback((unitKeys?: string[]) => {
+    const bots = allBotsByNetwork[network] || [];
+    if (bots.length === 0) {
+      append('[app] Warning: no bots configured');
+    }
+    if (!tokenAddress) {
+      append('[app] Warning: no token selected');
+    }
+    const systemState = getSystemState();
+    const context = buildTradeContext();
     if (isAdvancedMode) {
       context.systemState = systemState;
- append(`[app] Launching worker with ${botSecrets.length} bot(s)`);
-      append(
-        JSON.stringify(botSecrets.map((s) => Buffer.from(s).toString('base64')))
-      );
     }
-    workerRef.current.postMessage({
-      code: botCode,
-      bots: botSecrets,
-      context,
-      mode: executionMode,
+    context.exitOrders = exitOrdersRef.current[network].filter((o) => o.status === 'active');
+
+    const savedStrategies = loadStrategiesFromLocalStorage();
+    const dispatch = (
+      unit: StrategyRunUnit,
+      code: string,
+      stateId: string,
+      params: StrategyParamValues,
+      state: StrategyStateSnapshot | null
+    ) => {
+      replaceStuckWorker();
+      const previousRun = [...runsRef.current.values()].find((r) => r.unitKey === unit.key && !r.cancelled);
+      if (previousRun && workerRef.current) {
+        workerRef.current.postMessage({ type: 'cancel', runId: previousRun.id });
+        previousRun.cancelled = true;
+        append(`[app] Cancelling stale run #${previousRun.id}`);
+      }
+      const worker = ensureWorker();
+      const unitBots = bots.filter((b) => unit.bots.includes(b.id));
+      unitBots.forEach((b) => {
+        tradeCountsRef.current[b.id] = (tradeCountsRef.current[b.id] || 0) + 1;
+      });
+      const botSecrets = unitBots.map((b) =>
+        b.secretKey instanceof Uint8Array ? b.secretKey : Uint8Array.from(b.secretKey)
+      );
+      if (isAdvancedMode) {
+        append(`[app] Launching worker for ${unit.label} with ${botSecrets.length} bot(s)`);
+      }
+      // Recorded on ledger entries; none for code that is not a saved revision
+      const strategy = savedStrategies.find((s) => s.id === (unit.assignment?.strategyId ?? activeStrategyId));
+      const revision = strategy ? revisionOfCode(strategy, code) : null;
+      const runId = ++runIdRef.current;
+      runsRef.current.set(runId, {
+        id: runId,
+        unitKey: unit.key,
+        startedAt: Date.now(),
+        network,
+        strategyId: stateId,
+        cancelled: false,
+      });
+      worker.postMessage({
+        type: 'run',
+        runId,
+        code,
+        bots: botSecrets,
+        // Resolved against the strategy's `exports.params` in the worker
+        context: {
+          ...context,
+          params,
+          strategyRevision: strategy && revision ? { strategyId: strategy.id, revisionId: revision.id } : null,
+        },
+        mode: executionMode,
+        timeoutMs: STRATEGY_RUN_TIMEOUT_MS,
+        state,
+      });
+    };
+
+    const units = groupBotsByAssignment(botAssignments, bots.map((b) => b.id)).filter((u) =>
+      unitKeys ? unitKeys.includes(u.key) : !u.assignment?.interval
+    );
+    units.forEach((unit) => {
+      if (!unit.assignment) {
+        const state = strategyStateRef.current;
+        if (!state) {
+          append('[app] Strategy state still loading; this run will not persist context.state');
+        }
+        dispatch(unit, botCode, activeStrategyId, strategyParams, state);
+        return;
+      }
+      const { strategyId, params } = unit.assignment;
+      const strategy = savedStrategies.find((s) => s.id === strategyId);
+      if (!strategy) {
+        append(`[app] ${unit.label}: saved strategy ${strategyId} not found, skipping ${unit.bots.length} bot(s)`);
+        return;
+      }
+      // Each unit keeps its own state so groups running the same strategy do not overwrite each other.
+      const stateId = `${strategyId}@${unit.key}`;
+      const unitParams = params ?? { ...strategy.params?.[network], ...loadStrategyParams(network, strategyId) };
+      const cached = unitStatesRef.current.get(`${network}:${stateId}`);
+      if (cached) {
+        dispatch(unit, strategy.code, stateId, unitParams, cached);
+        return;
+      }
+      loadStrategyState(network, stateId).then((loaded) => {
+        unitStatesRef.current.set(`${network}:${stateId}`, loaded);
+        if (isTradingActiveRef.current) dispatch(unit, strategy.code, stateId, unitParams, loaded);
+      });
     });
   }, [
+    activeStrategyId,
     allBotsByNetwork,
     botCode,
     network,
@@ -351,14 +1365,205 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
     currentMarketCap,
     currentLpValue,
     solUsdPrice,
+    rawPriceHistory,
+    indicatorConfig,
     isAdvancedMode,
     executionMode,
     tokenAddress,
     isLpActive,
     minTradeAmount,
     walletBalances,
+    tradeLedger,
+    isPaperTrading,
+    isSimulateOnly,
+    isPreflightEnabled,
+    riskLimits,
+    selfTradeGuard,
+    strategyParams,
+    botAssignments,
+    updatePaperBalances,
+    recordTrade,
+    recordRiskTrade,
+    recordSelfTradeFill,
+    updateSelfTradeAudit,
+    ensureWorker,
+    replaceStuckWorker,
   ]);
 
+  // Exit orders and limit/DCA slices trade through the strategy worker but are
+  // never cancelled with a run, and keep working while trading is stopped.
+
+  const findBot = (net: NetworkType, address: string) =>
+    (allBotsByNetwork[net] || []).find(
+      (b) => Keypair.fromSecretKey(Uint8Array.from(b.secretKey)).publicKey.toBase58() === address
+    );
+  const positionOf = (net: NetworkType, address: string) =>
+    (isPaperTrading ? paperBalancesRef.current[net][address]?.token : walletBalances[address]?.token) ?? 0;
+
+  const sendOrderTrade = (
+    bot: BotInstance,
+    trade: { id: string; side: 'buy' | 'sell'; amount: number; slippageBps: number | null },
+    onResult: (result: OrderTradeResult) => void
+  ) => {
+    replaceStuckWorker();
+    orderCallbacksRef.current.set(trade.id, onResult);
+    ensureWorker().postMessage({
+      type: 'order',
+      runId: trade.id,
+      bot: Uint8Array.from(bot.secretKey),
+      context: buildTradeContext(),
+      order: trade,
+    });
+  };
+
+  const settleExitOrder = (fired: ExitOrder, result: OrderTradeResult) => {
+    const order = exitOrdersRef.current[fired.network].find((o) => o.id === fired.id);
+    if (!order) return;
+    if (result.status === 'filled') {
+      updateExitOrders(order.network, (prev) =>
+        prev.map((o) => (o.id === order.id ? { ...o, status: 'filled', signature: result.signature ?? null, error: null } : o))
+      );
+      append(`[app] Exit order ${order.id} filled${result.signature ? `: ${result.signature}` : ''}`);
+      return;
+    }
+    const failed = result.status === 'unknown' || order.attempts >= MAX_EXIT_ATTEMPTS;
+    updateExitOrders(order.network, (prev) =>
+      prev.map((o) => (o.id === order.id ? { ...o, status: failed ? 'failed' : 'active', error: result.error ?? null } : o))
+    );
+    append(
+      `[app] Exit order ${order.id} ${result.status} (${result.error ?? 'no details'}), ` +
+      (result.status === 'unknown'
+        ? 'not retried'
+        : failed ? `giving up after ${order.attempts} attempts` : `attempt ${order.attempts}/${MAX_EXIT_ATTEMPTS}`)
+    );
+  };
+
+  const sendExitOrder = (order: ExitOrder) => {
+    const bot = findBot(order.network, order.bot);
+    const amount = order.amount ?? positionOf(order.network, order.bot);
+    if (!bot || !(amount > 0)) {
+      const error = bot ? 'no tokens to sell' : 'bot no longer exists';
+      updateExitOrders(order.network, (prev) =>
+        prev.map((o) => (o.id === order.id ? { ...o, status: 'failed', error } : o))
+      );
+      append(`[app] Exit order ${order.id} failed: ${error}`);
+      return;
+    }
+    append(`[app] Exit order fired at ${lastPrice}: ${describeExitOrder(order)} for ${order.bot}`);
+    sendOrderTrade(
+      bot,
+      { id: order.id, side: 'sell', amount, slippageBps: order.slippageBps },
+      (result) => settleExitOrder(order, result)
+    );
+  };
+
+  const settleBotOrderSlice = (sent: BotOrder, amount: number, sentPrice: number, result: OrderTradeResult) => {
+    const order = botOrdersRef.current[sent.network].find((o) => o.id === sent.id);
+    if (!order) return;
+    const now = Date.now();
+    if (result.status === 'filled') {
+      const next = recordBotOrderFill(
+        order,
+        { timestamp: now, amount, price: result.price ?? sentPrice, signature: result.signature ?? null },
+        order.interval ? now + intervalDelayMs(order.interval) : now
+      );
+      updateBotOrders(order.network, (prev) =>
+        prev.map((o) => (o.id === order.id ? (order.status === 'cancelled' ? { ...next, status: 'cancelled' } : next) : o))
+      );
+      append(`[app] Order ${order.id}: slice ${next.slicesDone}/${next.slices} filled (${amount})`);
+      return;
+    }
+    const attempts = order.attempts + 1;
+    const failed = result.status === 'unknown' || attempts >= MAX_BOT_ORDER_ATTEMPTS;
+    updateBotOrders(order.network, (prev) =>
+      prev.map((o) => (o.id === order.id && o.status === 'executing'
+        ? { ...o, status: failed ? 'failed' : 'active', attempts, nextSliceAt: now + ORDER_RETRY_DELAY_MS, error: result.error ?? null }
+        : o))
+    );
+    append(
+      `[app] Order ${order.id} slice ${result.status} (${result.error ?? 'no details'}), ` +
+      (result.status === 'unknown'
+        ? 'not retried'
+        : failed ? `giving up after ${attempts} attempts` : `attempt ${attempts}/${MAX_BOT_ORDER_ATTEMPTS}`)
+    );
+  };
+
+  // Trades every due slice of the active orders on the selected token.
+  const processBotOrders = () => {
+    if (!tokenAddress) return;
+    const now = Date.now();
+    const price = lastPrice;
+    const due = botOrdersRef.current[network].filter((o) => o.token === tokenAddress && isBotOrderDue(o, price, now));
+    if (due.length === 0) return;
+    const dueIds = new Set(due.map((o) => o.id));
+    updateBotOrders(network, (prev) => prev.map((o) => (dueIds.has(o.id) ? { ...o, status: 'executing' } : o)));
+    for (const order of due) {
+      const bot = findBot(order.network, order.bot);
+      const amount = nextSliceAmount(order, positionOf(order.network, order.bot));
+      if (!bot || !(amount > 0)) {
+        const error = bot ? 'no tokens to sell' : 'bot no longer exists';
+        updateBotOrders(order.network, (prev) =>
+          prev.map((o) => (o.id === order.id ? { ...o, status: 'failed', error } : o))
+        );
+        append(`[app] Order ${order.id} failed: ${error}`);
+        continue;
+      }
+      append(`[app] Order ${order.id} (${describeBotOrder(order)}): slice ${order.slicesDone + 1}/${order.slices}, ${order.side} ${amount}`);
+      sendOrderTrade(
+        bot,
+        { id: `${order.id}#${order.slicesDone + 1}`, side: order.side, amount, slippageBps: order.slippageBps },
+        (result) => settleBotOrderSlice(order, amount, price, result)
+      );
+    }
+  };
+  const processBotOrdersRef = useRef(processBotOrders);
+  processBotOrdersRef.current = processBotOrders;
+
+  // Every price poll adds a tick; active orders on the selected token are checked against it.
+  useEffect(() => {
+    if (!tokenAddress || !(lastPrice > 0)) return;
+    processBotOrders();
+    const now = Date.now();
+    const fired: ExitOrder[] = [];
+    let changed = false;
+    const next = exitOrdersRef.current[network].map((o) => {
+      if (o.status !== 'active' || o.token !== tokenAddress) return o;
+      const { order, fire } = evaluateExitOrder(o, lastPrice, now);
+      if (order !== o) changed = true;
+      if (!fire) return order;
+      changed = true;
+      const triggered: ExitOrder = {
+        ...order,
+        status: 'triggered',
+        attempts: order.attempts + 1,
+        triggeredAt: now,
+        firedPrice: lastPrice,
+      };
+      fired.push(triggered);
+      return triggered;
+    });
+    if (!changed) return;
+    updateExitOrders(network, () => next);
+    fired.forEach(sendExitOrder);
+  }, [rawPriceHistory]);
+
+  // DCA slices come due on their interval timer, between price polls too.
+  useEffect(() => {
+    const nextDue = Math.min(
+      ...botOrders.filter((o) => o.status === 'active' && o.token === tokenAddress).map((o) => o.nextSliceAt)
+    );
+    if (!Number.isFinite(nextDue)) return;
+    const timer = setTimeout(() => processBotOrdersRef.current(), Math.max(0, nextDue - Date.now()));
+    return () => clearTimeout(timer);
+  }, [botOrders, tokenAddress]);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
   const startTrading = useCallback(() => {
     updateMinTrade();
      isTradingActiveRef.current = true;
@@ -418,12 +1623,7 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
 
   const scheduleNext = useCallback(() => {
     if (!isTradingActiveRef.current) return;
-    const cfg = tradeIntervalRef.current;
-    const delaySec =
-      cfg.mode === 'fixed'
-        ? cfg.fixed
-        : cfg.min + Math.random() * (cfg.max - cfg.min);
-    const delayMs = delaySec * 1000;
+    const delayMs = intervalDelayMs(tradeIntervalRef.current);
     intervalRef.current = setTimeout(() => {
       if (!isTradingActiveRef.current) return;
       runBotLogicRef.current?.();
@@ -441,6 +1641,36 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
     scheduleNext();
    }, [tradeIntervalConfig, scheduleNext]);
 
+  // Assigned units with their own interval run on their own timers, starting
+  // with an immediate run like the global timer.
+  const unitIntervalsKey = JSON.stringify(
+    groupBotsByAssignment(botAssignments, (allBotsByNetwork[network] || []).map((b) => b.id))
+      .filter((u) => u.assignment?.interval)
+      .map((u) => [u.key, u.assignment!.interval])
+  );
+  useEffect(() => {
+    if (!isTradingActive) {
+      startedUnitsRef.current.clear();
+      return;
+    }
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const schedule = (key: string, cfg: TradeIntervalConfig) => {
+      timers.set(key, setTimeout(() => {
+        if (!isTradingActiveRef.current) return;
+        runBotLogicRef.current?.([key]);
+        schedule(key, cfg);
+      }, intervalDelayMs(cfg)));
+    };
+    for (const [key, cfg] of JSON.parse(unitIntervalsKey) as [string, TradeIntervalConfig][]) {
+      if (!startedUnitsRef.current.has(key)) {
+        startedUnitsRef.current.add(key);
+        runBotLogicRef.current?.([key]);
+      }
+      schedule(key, cfg);
+    }
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, [isTradingActive, unitIntervalsKey]);
+
 
   useEffect(() => {
     if (isTradingActive) {
@@ -451,18 +1681,16 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
         clearTimeout(intervalRef.current);
         intervalRef.current = null;
       }
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        workerRef.current = null;
-        append('[app] Worker terminated');
-      }
+      // The worker stays up for order trades; unfinished runs are asked to stop
+      const unfinished = [...runsRef.current.values()].filter((r) => !r.cancelled);
+      unfinished.forEach((run) => {
+        workerRef.current?.postMessage({ type: 'cancel', runId: run.id });
+        run.cancelled = true;
+      });
+      if (unfinished.length > 0) append(`[app] Cancelling ${unfinished.length} unfinished run(s)`);
     }
     return () => {
       if (intervalRef.current) clearTimeout(intervalRef.current);
-      if (workerRef.current) {
-        workerRef.current.terminate();
-        append('[app] Worker terminated');
-      }
     };
   }, [isTradingActive, scheduleNext]);
 
@@ -484,6 +1712,44 @@ export const BotProvider = ({ children }: { children: React.ReactNode }) => {
     tradeIntervalConfig,
     setTradeIntervalConfig,
     getSystemState,
+    activeStrategyId,
+    setActiveStrategyId,
+    strategyState,
+    resetStrategyState,
+    strategyParams,
+    setStrategyParams,
+    describeStrategyParams,
+    botAssignments,
+    assignBotsTo,
+    saveBotGroup,
+    deleteBotGroup,
+    indicatorConfig,
+    setIndicatorConfig,
+    isPaperTrading,
+    setIsPaperTrading,
+    paperBalances,
+    resetPaperBalances,
+    isSimulateOnly,
+    setIsSimulateOnly,
+    isPreflightEnabled,
+    setIsPreflightEnabled,
+    riskLimits,
+    setRiskLimits,
+    selfTradeGuard,
+    setSelfTradeGuard,
+    selfTradeAudit,
+    clearSelfTradeAudit,
+    tradeLedger,
+    recordTrade,
+    clearTradeLedger,
+    exitOrders,
+    placeExitOrder,
+    cancelExitOrder,
+    rearmExitOrder,
+    botOrders,
+    placeBotOrder,
+    cancelBotOrder,
+    rearmBotOrder,
   };
 
   return <BotContext.Provider value={value}>{children}</BotContext.Provider>;
@@ -2,21 +2,45 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useBotContext } from './BotContext';
+import { useNetwork } from './NetworkContext';
+import type { NetworkType } from './NetworkContext';
 import { loadStrategiesFromLocalStorage, saveStrategiesToLocalStorage } from '@/utils/strategyManager';
+import type { StrategyParamValues } from '@/utils/strategyParams';
+import {
+  StrategyRevision,
+  addStrategyRevision,
+  createUserStrategy,
+  duplicateStrategy,
+  restoreStrategyRevision,
+} from '@/utils/strategyRevisions';
 
 export interface UserStrategy {
   id: string;
   name: string;
+  /** Code of the newest revision. */
   code: string;
+  /** `exports.params` values per network, restored when the strategy is loaded. */
+  params?: Partial<Record<NetworkType, StrategyParamValues>>;
+  /** Saved versions, oldest first. */
+  revisions?: StrategyRevision[];
 }
 
 interface BotLogicState {
   isLogicEnabled: boolean;
   setIsLogicEnabled: (value: boolean) => void;
    userStrategies: UserStrategy[];
-  handleSaveCurrentStrategy: (name: string) => void;
+  /** Save the editor code as a new strategy. */
+  handleSaveCurrentStrategy: (name: string, note?: string) => void;
+  /** Save the editor code as a new revision of the active saved strategy. */
+  handleSaveRevision: (note: string) => void;
+  /** Append a copy of an older revision and load it. */
+  handleRestoreRevision: (strategyId: string, revisionId: string) => void;
+  handleRenameStrategy: (strategyId: string, name: string) => void;
+  handleDuplicateStrategy: (strategyId: string, name: string) => void;
   handleLoadStrategy: (strategyId: string) => void;
   handleDeleteStrategy: (strategyId: string) => void;
+  /** Save parameter values for the active strategy, and into its saved record if it has one. */
+  handleUpdateStrategyParams: (values: StrategyParamValues) => void;
 }
 
 const BotLogicContext = createContext<BotLogicState | undefined>(undefined);
@@ -29,7 +53,8 @@ export const BotLogicProvider = ({ children }: { children: ReactNode }) => {
     return false;
   });
   const [userStrategies, setUserStrategies] = useState<UserStrategy[]>([]);
-  const { botCode, setBotCode } = useBotContext();
+  const { botCode, setBotCode, activeStrategyId, setActiveStrategyId, strategyParams, setStrategyParams } = useBotContext();
+  const { network } = useNetwork();
 
   const setIsLogicEnabled = (value: boolean) => {
     setIsLogicEnabledState(value);
@@ -43,28 +68,70 @@ export const BotLogicProvider = ({ children }: { children: ReactNode }) => {
     setUserStrategies(loadedStrategies);
   }, []);
 
-  const handleSaveCurrentStrategy = (name: string) => {
-    const newStrategy: UserStrategy = {
-      id: crypto.randomUUID(),
-      name,
-      code: botCode,
-    };
-    const updatedStrategies = [...userStrategies, newStrategy];
+  const persistStrategies = (updatedStrategies: UserStrategy[]) => {
     setUserStrategies(updatedStrategies);
     saveStrategiesToLocalStorage(updatedStrategies);
   };
 
+  const handleSaveCurrentStrategy = (name: string, note = '') => {
+    const newStrategy: UserStrategy = {
+      ...createUserStrategy(name, botCode, note),
+      params: { [network]: strategyParams },
+    };
+    persistStrategies([...userStrategies, newStrategy]);
+    // Later saves add revisions to it
+    setStrategyParams(strategyParams, newStrategy.id);
+    setActiveStrategyId(newStrategy.id);
+  };
+
+  const handleSaveRevision = (note: string) => {
+    if (!userStrategies.some((s) => s.id === activeStrategyId)) return;
+    persistStrategies(userStrategies.map((s) =>
+      s.id === activeStrategyId
+        ? { ...addStrategyRevision(s, botCode, note), params: { ...s.params, [network]: strategyParams } }
+        : s
+    ));
+  };
+
+  const loadStrategy = (strategyToLoad: UserStrategy) => {
+    setBotCode(strategyToLoad.code);
+    const params = strategyToLoad.params?.[network];
+    if (params) setStrategyParams(params, strategyToLoad.id);
+    setActiveStrategyId(strategyToLoad.id);
+  };
+
   const handleLoadStrategy = (strategyId: string) => {
     const strategyToLoad = userStrategies.find((s) => s.id === strategyId);
-    if (strategyToLoad) {
-      setBotCode(strategyToLoad.code);
-    }
+    if (strategyToLoad) loadStrategy(strategyToLoad);
+  };
+
+  const handleRestoreRevision = (strategyId: string, revisionId: string) => {
+    const strategy = userStrategies.find((s) => s.id === strategyId);
+    if (!strategy) return;
+    const restored = restoreStrategyRevision(strategy, revisionId);
+    persistStrategies(userStrategies.map((s) => (s.id === strategyId ? restored : s)));
+    loadStrategy(restored);
+  };
+
+  const handleRenameStrategy = (strategyId: string, name: string) => {
+    persistStrategies(userStrategies.map((s) => (s.id === strategyId ? { ...s, name } : s)));
+  };
+
+  const handleDuplicateStrategy = (strategyId: string, name: string) => {
+    const strategy = userStrategies.find((s) => s.id === strategyId);
+    if (strategy) persistStrategies([...userStrategies, duplicateStrategy(strategy, name)]);
   };
 
   const handleDeleteStrategy = (strategyId: string) => {
-    const updatedStrategies = userStrategies.filter((s) => s.id !== strategyId);
-    setUserStrategies(updatedStrategies);
-    saveStrategiesToLocalStorage(updatedStrategies);
+    persistStrategies(userStrategies.filter((s) => s.id !== strategyId));
+  };
+
+  const handleUpdateStrategyParams = (values: StrategyParamValues) => {
+    setStrategyParams(values);
+    if (!userStrategies.some((s) => s.id === activeStrategyId)) return;
+    persistStrategies(userStrategies.map((s) =>
+      s.id === activeStrategyId ? { ...s, params: { ...s.params, [network]: values } } : s
+    ));
   };
 
 
@@ -75,8 +142,13 @@ export const BotLogicProvider = ({ children }: { children: ReactNode }) => {
         setIsLogicEnabled,
         userStrategies,
         handleSaveCurrentStrategy,
+        handleSaveRevision,
+        handleRestoreRevision,
+        handleRenameStrategy,
+        handleDuplicateStrategy,
         handleLoadStrategy,
         handleDeleteStrategy,
+        handleUpdateStrategyParams,
       }}
     >
       {children}
@@ -5,16 +5,21 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import { getAccount, TokenAccountNotFoundError } from '@solana/spl-token';
 import { getCreatePoolKeys } from '@raydium-io/raydium-sdk-v2';
 import Decimal from 'decimal.js';
+import type { PriceTick } from '@/utils/marketIndicators';
 
 const CPMM_PROGRAM_ID = new PublicKey('CPMDWBwJDtYax9qW7AyRuVC19Cc4L4Vcy4n2BHAbHkCW');
 const FEE_CONFIG_ID = new PublicKey('9zSzfkYy6awexsHvmggeH36pfVUdDGyCcwmjT3AQPBj6');
 Decimal.set({ precision: 50 });
 const POLLING_INTERVAL_MS = 5_000;
 const MAX_RAW_TICKS = Math.max(300, (15 * 60 * 1000) / POLLING_INTERVAL_MS * 3);
+// SOL/USD is kept at most every 5 minutes for 30 days (trade history exports price fills from it)
+const SOL_USD_HISTORY_STEP_MS = 5 * 60 * 1000;
+const MAX_SOL_USD_POINTS = (30 * 24 * 60 * 60 * 1000) / SOL_USD_HISTORY_STEP_MS;
 
-interface PriceTick { timestamp: number; price: number; }
 interface MarketCapPoint { timestamp: number; marketCap: number; }
 
+export interface SolUsdPoint { timestamp: number; price: number; }
+
 interface VaultKeys { vaultA: PublicKey; vaultB: PublicKey; }
 
 interface ChartDataState {
@@ -24,6 +29,8 @@ interface ChartDataState {
   currentMarketCap: number;
   currentLpValue: number;
   solUsdPrice: number | null;
+  /** Persisted SOL/USD samples, oldest first. */
+  solUsdHistory: SolUsdPoint[];
   isLoadingSolPrice: boolean;
   errorMsg: string;
   isInitialLoading: boolean;
@@ -49,6 +56,14 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
   const [currentMarketCap, setCurrentMarketCap] = useState(0);
   const [currentLpValue, setCurrentLpValue] = useState(0);
   const [solUsdPrice, setSolUsdPrice] = useState<number | null>(null);
+  const [solUsdHistory, setSolUsdHistory] = useState<SolUsdPoint[]>(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        return JSON.parse(window.localStorage.getItem('solUsdHistory') || '[]');
+      } catch {}
+    }
+    return [];
+  });
   const [isLoadingSolPrice, setIsLoadingSolPrice] = useState(true);
   const [errorMsg, setErrorMsg] = useState('');
   const [isInitialLoading, setIsInitialLoading] = useState(false);
@@ -66,6 +81,7 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
   const solIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const isInitialLoadingRef = useRef(false);
   const lastPriceRef = useRef(0);
+  const lastSolReserveRef = useRef<number | null>(null);
   const lastTrackedMintRef = useRef<string>('');
 
   const resetState = () => {
@@ -73,6 +89,7 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
     setMarketCapHistory([]);
     setLastPrice(0);
     lastPriceRef.current = 0;
+    lastSolReserveRef.current = null;
     setCurrentMarketCap(0);
     setCurrentLpValue(0);
     setErrorMsg('');
@@ -86,7 +103,18 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
       const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=usd');
       if (!response.ok) throw new Error(`HTTP ${response.status}`);
       const priceData = await response.json();
-      if (priceData?.solana?.usd) setSolUsdPrice(priceData.solana.usd);
+      const usd = priceData?.solana?.usd;
+      if (usd) {
+        setSolUsdPrice(usd);
+        setSolUsdHistory(prev => {
+          const now = Date.now();
+          const last = prev[prev.length - 1];
+          if (last && now - last.timestamp < SOL_USD_HISTORY_STEP_MS) return prev;
+          const updated = [...prev, { timestamp: now, price: usd }].slice(-MAX_SOL_USD_POINTS);
+          window.localStorage.setItem('solUsdHistory', JSON.stringify(updated));
+          return updated;
+        });
+      }
     } catch (err) {
       console.error('ChartDataProvider: Failed to fetch SOL/USD price', (err as Error).message);
       setSolUsdPrice(null);
@@ -95,9 +123,9 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
     }
   }, []);
 
-  const processNewData = useCallback((price: number, marketCap: number, timestamp: number) => {
+  const processNewData = useCallback((price: number, marketCap: number, timestamp: number, extra: Partial<PriceTick> = {}) => {
     setRawPriceHistory(prev => {
-      const newTick = { timestamp, price };
+      const newTick: PriceTick = { timestamp, price, ...extra };
       const updated = [...prev, newTick];
       return updated.length > MAX_RAW_TICKS ? updated.slice(-MAX_RAW_TICKS) : updated;
     });
@@ -159,7 +187,13 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
         const totalLpValueSol = solReserve.plus(tokenReserve.mul(priceDecimal));
         setCurrentLpValue(totalLpValueSol.toNumber());
       }
-      processNewData(isNaN(priceNum) ? 0 : priceNum, isNaN(marketCapNum) ? 0 : marketCapNum, Date.now());
+      // Approximate traded volume by how much SOL moved in the vault since the last poll
+      const solReserveNum = solReserve.toNumber();
+      const prevSolReserve = lastSolReserveRef.current;
+      lastSolReserveRef.current = solReserveNum;
+      const extra: Partial<PriceTick> = { solReserve: solReserveNum, tokenReserve: tokenReserve.toNumber() };
+      if (prevSolReserve !== null) extra.volume = Math.abs(solReserveNum - prevSolReserve);
+      processNewData(isNaN(priceNum) ? 0 : priceNum, isNaN(marketCapNum) ? 0 : marketCapNum, Date.now(), extra);
       setErrorMsg('');
       if (isInitialLoadingRef.current) {
         setIsInitialLoading(false);
@@ -275,6 +309,7 @@ export const ChartDataProvider = ({ children }: { children: React.ReactNode }) =
     currentMarketCap,
     currentLpValue,
     solUsdPrice,
+    solUsdHistory,
     isLoadingSolPrice,
     errorMsg,
     isInitialLoading,
@@ -113,15 +113,184 @@ export function getStandardPoolUiData(
     return { priceFromPool, uiSolReserve: uiSolAmount, uiTokenReserve: uiTokenAmount, solMintAddress, solDecimals, pairedTokenMintAddress: pairedTokenMintAddr, pairedTokenDecimals: pairedTokenDecs };
 }
 
-// calculateStandardAmmSwapQuote function remains unchanged from what you provided
+// --- Fee-accurate constant product math -------------------------------------
+// Amounts below are raw integer token amounts (lamports / base units) and follow
+// the rounding of the on-chain programs, so quotes match what a swap settles at.
+
+export type AmmCurveType = 'cpmm' | 'amm-v4';
+
+export interface FeeRate {
+    numerator: BN;
+    denominator: BN;
+}
+
+export interface AmmFeeConfig {
+    curve: AmmCurveType;
+    /** Fee taken from the input amount. */
+    tradeFee: FeeRate;
+    /** Shares of the trade fee that leave the pool instead of going to LPs. */
+    protocolFee: FeeRate;
+    fundFee: FeeRate;
+}
+
+// CPMM config rates are expressed over 1e6
+const CPMM_FEE_RATE_DENOMINATOR = new BN(1_000_000);
+const ZERO_FEE: FeeRate = { numerator: new BN(0), denominator: new BN(1) };
+
+export const cpmmFeeConfig = (
+    tradeFeeRate: BN | number | string,
+    protocolFeeRate: BN | number | string = 0,
+    fundFeeRate: BN | number | string = 0
+): AmmFeeConfig => ({
+    curve: 'cpmm',
+    tradeFee: { numerator: new BN(tradeFeeRate.toString()), denominator: CPMM_FEE_RATE_DENOMINATOR },
+    protocolFee: { numerator: new BN(protocolFeeRate.toString()), denominator: CPMM_FEE_RATE_DENOMINATOR },
+    fundFee: { numerator: new BN(fundFeeRate.toString()), denominator: CPMM_FEE_RATE_DENOMINATOR },
+});
+
+// 0.25%, the fallback config used for the devnet CPMM pools this app creates
+export const DEFAULT_CPMM_FEE_CONFIG = cpmmFeeConfig(2500);
+
+// AMM v4 swap fee is 25 / 10000
+export const DEFAULT_AMM_V4_FEE_CONFIG: AmmFeeConfig = {
+    curve: 'amm-v4',
+    tradeFee: { numerator: new BN(25), denominator: new BN(10000) },
+    protocolFee: ZERO_FEE,
+    fundFee: ZERO_FEE,
+};
+
+/** Build a fee config from an on-chain/API CPMM config (`tradeFeeRate` etc. over 1e6). */
+export function feeConfigFromCpmmConfig(config: {
+    tradeFeeRate: BN | number | string;
+    protocolFeeRate?: BN | number | string;
+    fundFeeRate?: BN | number | string;
+}): AmmFeeConfig {
+    return cpmmFeeConfig(config.tradeFeeRate, config.protocolFeeRate ?? 0, config.fundFeeRate ?? 0);
+}
+
+const toFeeRate = (numerator: unknown, denominator: unknown): FeeRate | null => {
+    if (numerator === undefined || numerator === null || !denominator) return null;
+    const den = new BN(String(denominator));
+    return den.isZero() ? null : { numerator: new BN(String(numerator)), denominator: den };
+};
+
+/**
+ * Fee config for a pool found by `fetchRaydiumPoolsFromSDK`, using its `fees`
+ * (pool keys numerators or CPMM config rates). Falls back to the default fee of
+ * the pool's curve when the pool carries none. Returns null for CLMM pools.
+ */
+export function feeConfigFromPool(pool: { poolType: string; fees: any }): AmmFeeConfig | null {
+    if (pool.poolType === 'concentrated') return null;
+    const curve: AmmCurveType = pool.poolType === 'cpmm' ? 'cpmm' : 'amm-v4';
+    const fees = pool.fees || {};
+    if (fees.tradeFeeRate !== undefined && fees.tradeFeeRate !== null) {
+        return { ...feeConfigFromCpmmConfig(fees), curve };
+    }
+    const tradeFee = toFeeRate(fees.tradeFeeNumerator, fees.tradeFeeDenominator);
+    if (tradeFee) {
+        return {
+            curve,
+            tradeFee,
+            protocolFee: toFeeRate(fees.protocolFeeNumerator, fees.protocolFeeDenominator) ?? ZERO_FEE,
+            fundFee: toFeeRate(fees.fundFeeNumerator, fees.fundFeeDenominator) ?? ZERO_FEE,
+        };
+    }
+    return curve === 'cpmm' ? DEFAULT_CPMM_FEE_CONFIG : DEFAULT_AMM_V4_FEE_CONFIG;
+}
+
+export interface RawSwapQuote {
+    /** Total input, including the trade fee. */
+    amountIn: BN;
+    amountOut: BN;
+    tradeFee: BN;
+    protocolFee: BN;
+    fundFee: BN;
+    /** Pool reserves after the swap, excluding protocol and fund fees. */
+    newReserveIn: BN;
+    newReserveOut: BN;
+}
+
+const ceilDiv = (numerator: BN, denominator: BN): BN => {
+    const { div, mod } = numerator.divmod(denominator);
+    return mod.isZero() ? div : div.addn(1);
+};
+
+const tradeFeeOf = (amount: BN, rate: FeeRate) => ceilDiv(amount.mul(rate.numerator), rate.denominator);
+const feeShareOf = (tradeFee: BN, rate: FeeRate) => tradeFee.mul(rate.numerator).div(rate.denominator);
+
+function buildQuote(
+    amountIn: BN,
+    amountOut: BN,
+    tradeFee: BN,
+    reserveIn: BN,
+    reserveOut: BN,
+    fees: AmmFeeConfig
+): RawSwapQuote {
+    const protocolFee = feeShareOf(tradeFee, fees.protocolFee);
+    const fundFee = feeShareOf(tradeFee, fees.fundFee);
+    return {
+        amountIn,
+        amountOut,
+        tradeFee,
+        protocolFee,
+        fundFee,
+        newReserveIn: reserveIn.add(amountIn).sub(protocolFee).sub(fundFee),
+        newReserveOut: reserveOut.sub(amountOut),
+    };
+}
+
+/**
+ * Exact-in quote. The trade fee is rounded up; CPMM rounds the new output
+ * reserve up (output down) while AMM v4 floors the output directly.
+ */
+export function quoteExactIn(amountIn: BN, reserveIn: BN, reserveOut: BN, fees: AmmFeeConfig): RawSwapQuote | null {
+    if (amountIn.lten(0) || reserveIn.lten(0) || reserveOut.lten(0)) return null;
+    const tradeFee = tradeFeeOf(amountIn, fees.tradeFee);
+    const amountInLessFee = amountIn.sub(tradeFee);
+    const amountOut =
+        fees.curve === 'cpmm'
+            ? reserveOut.sub(ceilDiv(reserveIn.mul(reserveOut), reserveIn.add(amountInLessFee)))
+            : reserveOut.mul(amountInLessFee).div(reserveIn.add(amountInLessFee));
+    return buildQuote(amountIn, amountOut, tradeFee, reserveIn, reserveOut, fees);
+}
+
+/**
+ * Exact-out quote: the smallest input that yields `amountOut`. Both the
+ * pre-fee input and the fee gross-up are rounded up. Returns null when the
+ * pool cannot pay out `amountOut`.
+ */
+export function quoteExactOut(amountOut: BN, reserveIn: BN, reserveOut: BN, fees: AmmFeeConfig): RawSwapQuote | null {
+    if (amountOut.lten(0) || reserveIn.lten(0) || amountOut.gte(reserveOut)) return null;
+    const { numerator, denominator } = fees.tradeFee;
+    if (numerator.gte(denominator)) return null;
+    const amountInLessFee = ceilDiv(reserveIn.mul(amountOut), reserveOut.sub(amountOut));
+    const amountIn = ceilDiv(amountInLessFee.mul(denominator), denominator.sub(numerator));
+    return buildQuote(amountIn, amountOut, amountIn.sub(amountInLessFee), reserveIn, reserveOut, fees);
+}
+
+const uiToRaw = (ui: Decimal.Value, decimals: number) =>
+    new BN(new Decimal(ui).mul(new Decimal(10).pow(decimals)).floor().toFixed(0));
+const rawToUi = (raw: BN, decimals: number) => new Decimal(raw.toString()).div(new Decimal(10).pow(decimals));
+
+const ZERO_QUOTE = (): SwapTransactionQuote => ({
+    estimatedOutputUi: new Decimal(0),
+    priceImpactPercent: new Decimal(100),
+    minAmountOutRaw: new BN(0),
+});
+
+/**
+ * Quote a SOL <-> token swap from UI reserves. Reserves and input are
+ * converted to raw amounts and priced with `quoteExactIn`, so the estimate
+ * honours the pool's fee config and on-chain rounding.
+ */
 export function calculateStandardAmmSwapQuote(
     inputAmountUi: number,
     isInputSol: boolean,
     poolReserves: UiPoolReserves,
-    slippagePercent: number
+    slippagePercent: number,
+    fees: AmmFeeConfig = DEFAULT_CPMM_FEE_CONFIG
 ): SwapTransactionQuote | null {
     const FN_NAME = '[ammSwapCalculator.calculateStandardAmmSwapQuote]';
-    // console.log(FN_NAME, 'Called. Input UI:', inputAmountUi, 'isInputSol:', isInputSol, 'Slippage%:', slippagePercent, 'PoolReserves:', poolReserves);
 
     if (!poolReserves || inputAmountUi <= 0 ) {
         console.error(FN_NAME, 'Invalid inputAmount or no poolReserves.');
@@ -131,81 +300,93 @@ export function calculateStandardAmmSwapQuote(
          console.error(FN_NAME, 'Negative pool reserves.');
         return null;
     }
-    // Allow swap even if one reserve is zero, but not if input reserve is zero.
-    // if (poolReserves.uiSolReserve === 0 && poolReserves.uiTokenReserve === 0) {
-    //     console.warn(FN_NAME, 'Both pool reserves are zero.');
-    //     return { estimatedOutputUi: new Decimal(0), priceImpactPercent: new Decimal(100), minAmountOutRaw: new BN(0) };
-    // }
 
-    const inputAmountDecimal = new Decimal(inputAmountUi);
-    let A0_ui: Decimal, B0_ui: Decimal, outputTokenDecimalsForTx: number;
+    const [inputDecimals, outputDecimals] = isInputSol
+        ? [poolReserves.solDecimals, poolReserves.pairedTokenDecimals]
+        : [poolReserves.pairedTokenDecimals, poolReserves.solDecimals];
+    const [uiReserveIn, uiReserveOut] = isInputSol
+        ? [poolReserves.uiSolReserve, poolReserves.uiTokenReserve]
+        : [poolReserves.uiTokenReserve, poolReserves.uiSolReserve];
 
-    if (isInputSol) {
-        A0_ui = new Decimal(poolReserves.uiSolReserve);
-        B0_ui = new Decimal(poolReserves.uiTokenReserve);
-        outputTokenDecimalsForTx = poolReserves.pairedTokenDecimals;
-    } else {
-        A0_ui = new Decimal(poolReserves.uiTokenReserve);
-        B0_ui = new Decimal(poolReserves.uiSolReserve);
-        outputTokenDecimalsForTx = poolReserves.solDecimals;
-    }
-    
-    if (A0_ui.isZero() && inputAmountDecimal.gt(0)) {
-        console.warn(FN_NAME, 'Input reserve (A0_ui) is zero. Cannot perform swap.');
-        return { estimatedOutputUi: new Decimal(0), priceImpactPercent: new Decimal(100), minAmountOutRaw: new BN(0) };
-    }
+    const amountInRaw = uiToRaw(inputAmountUi, inputDecimals);
+    const reserveInRaw = uiToRaw(uiReserveIn, inputDecimals);
+    const reserveOutRaw = uiToRaw(uiReserveOut, outputDecimals);
 
-    const k = A0_ui.mul(B0_ui); // Constant product k = X * Y
-    // Standard AMM formula: amountOut = (Y * amountIn) / (X + amountIn)
-    // For AMMv4, Raydium applies fees. The exact fee-adjusted formula is more complex.
-    // This calculator provides a basic quote without fees, then applies slippage.
-    // A more accurate quote would incorporate the AMM's fee structure (e.g., 0.25%).
-    // Let's assume the fee is effectively reducing the output.
-    // A common simplification is (AmountIn * Numerator) / Denominator before calculation
-    // For Raydium AMMv4, fee is 0.25%, so amountIn effectively becomes amountIn * (1 - 0.0025) = amountIn * 0.9975
-    const feeAdjustedInputAmountDecimal = inputAmountDecimal.mul(new Decimal(1).minus(new Decimal(0.0025))); // Assuming 0.25% fee
-
-    const newReserveA_ui = A0_ui.plus(feeAdjustedInputAmountDecimal); // Input amount added to its reserve
-    let estimatedOutputUi: Decimal;
-
-    if (newReserveA_ui.isZero()) { // Should only happen if A0 is negative or becomes zero through weird inputs
-        estimatedOutputUi = new Decimal(0);
-    } else {
-        const newReserveB_ui = k.div(newReserveA_ui); // Y' = k / X'
-        estimatedOutputUi = B0_ui.minus(newReserveB_ui); // Amount out = Y - Y'
+    if (reserveInRaw.isZero()) {
+        console.warn(FN_NAME, 'Input reserve is zero. Cannot perform swap.');
+        return ZERO_QUOTE();
     }
-    // console.log(FN_NAME, `k=${k.toString()}, newReserveA_ui=${newReserveA_ui.toString()}, newReserveB_ui=${k.div(newReserveA_ui).toString()}, estimatedOutputUi=${estimatedOutputUi.toString()}`);
-
-    if (estimatedOutputUi.lte(0)) {
+    const quote = quoteExactIn(amountInRaw, reserveInRaw, reserveOutRaw, fees);
+    if (!quote || quote.amountOut.lten(0)) {
         console.warn(FN_NAME, 'Estimated output is zero or negative.');
-        return { estimatedOutputUi: new Decimal(0), priceImpactPercent: new Decimal(100), minAmountOutRaw: new BN(0) };
+        return ZERO_QUOTE();
     }
 
-    const marketPrice_OutputPerInput = A0_ui.isZero() ? new Decimal(0) : B0_ui.div(A0_ui);
-    const executionPrice_OutputPerInput = estimatedOutputUi.div(inputAmountDecimal); // Based on actual input, not fee-adjusted input
+    const inputAmountDecimal = new Decimal(inputAmountUi);
+    const estimatedOutputUi = rawToUi(quote.amountOut, outputDecimals);
+    const marketPrice_OutputPerInput = new Decimal(uiReserveOut).div(uiReserveIn);
+    const executionPrice_OutputPerInput = estimatedOutputUi.div(inputAmountDecimal);
 
-    let priceImpactPercent = new Decimal(0);
+    let priceImpactPercent = new Decimal(100);
     if (marketPrice_OutputPerInput.isFinite() && marketPrice_OutputPerInput.gt(0)) {
         priceImpactPercent = marketPrice_OutputPerInput.minus(executionPrice_OutputPerInput).abs().div(marketPrice_OutputPerInput).mul(100);
-    } else if (executionPrice_OutputPerInput.isFinite() && executionPrice_OutputPerInput.gt(0)) {
-        priceImpactPercent = new Decimal(100); 
-    } else if (!marketPrice_OutputPerInput.isZero() || !executionPrice_OutputPerInput.isZero()){
-        priceImpactPercent = new Decimal(100);
     }
-    // console.log(FN_NAME, `MarketPrice(Out/In)=${marketPrice_OutputPerInput.toString()}, ExecPrice(Out/In)=${executionPrice_OutputPerInput.toString()}, Impact%=${priceImpactPercent.toFixed(2)}`);
 
-    const slippageDecimal = new Decimal(slippagePercent).div(100);
-    const minOutputUiAfterSlippage = estimatedOutputUi.mul(new Decimal(1).minus(slippageDecimal));
-    
+    const slippageDecimal = Decimal.max(0, Decimal.min(1, new Decimal(slippagePercent).div(100)));
     const minAmountOutRaw = new BN(
-        minOutputUiAfterSlippage.isNegative() ? '0' : minOutputUiAfterSlippage.mul(new Decimal(10).pow(outputTokenDecimalsForTx)).floor().toString()
+        new Decimal(quote.amountOut.toString()).mul(new Decimal(1).minus(slippageDecimal)).floor().toFixed(0)
     );
-    // console.log(FN_NAME, `minOutputUiAfterSlippage=${minOutputUiAfterSlippage.toString()}, minAmountOutRaw=${minAmountOutRaw.toString()} (using outputDecimals: ${outputTokenDecimalsForTx})`);
 
     return {
-        estimatedOutputUi: estimatedOutputUi.isNegative() ? new Decimal(0) : estimatedOutputUi,
+        estimatedOutputUi,
         priceImpactPercent: priceImpactPercent.isFinite() ? priceImpactPercent : new Decimal(100),
         minAmountOutRaw,
-        executionPriceUi: executionPrice_OutputPerInput.isNegative() ? new Decimal(0) : executionPrice_OutputPerInput,
+        executionPriceUi: executionPrice_OutputPerInput,
     };
-}
\ No newline at end of file
+}
+
+export interface ExactOutSwapQuote {
+    requiredInputUi: Decimal;
+    /** Input ceiling to sign for once slippage is added. */
+    maxAmountInRaw: BN;
+    priceImpactPercent: Decimal;
+}
+
+/** Exact-out counterpart of `calculateStandardAmmSwapQuote`. */
+export function calculateStandardAmmExactOutQuote(
+    outputAmountUi: number,
+    isInputSol: boolean,
+    poolReserves: UiPoolReserves,
+    slippagePercent: number,
+    fees: AmmFeeConfig = DEFAULT_CPMM_FEE_CONFIG
+): ExactOutSwapQuote | null {
+    if (!poolReserves || outputAmountUi <= 0) return null;
+    const [inputDecimals, outputDecimals] = isInputSol
+        ? [poolReserves.solDecimals, poolReserves.pairedTokenDecimals]
+        : [poolReserves.pairedTokenDecimals, poolReserves.solDecimals];
+    const [uiReserveIn, uiReserveOut] = isInputSol
+        ? [poolReserves.uiSolReserve, poolReserves.uiTokenReserve]
+        : [poolReserves.uiTokenReserve, poolReserves.uiSolReserve];
+
+    const quote = quoteExactOut(
+        uiToRaw(outputAmountUi, outputDecimals),
+        uiToRaw(uiReserveIn, inputDecimals),
+        uiToRaw(uiReserveOut, outputDecimals),
+        fees
+    );
+    if (!quote) return null;
+
+    const requiredInputUi = rawToUi(quote.amountIn, inputDecimals);
+    const marketPrice = new Decimal(uiReserveOut).div(uiReserveIn);
+    const executionPrice = new Decimal(outputAmountUi).div(requiredInputUi);
+    const slippageDecimal = Decimal.max(0, new Decimal(slippagePercent).div(100));
+    return {
+        requiredInputUi,
+        maxAmountInRaw: new BN(
+            new Decimal(quote.amountIn.toString()).mul(new Decimal(1).plus(slippageDecimal)).ceil().toFixed(0)
+        ),
+        priceImpactPercent: marketPrice.gt(0)
+            ? marketPrice.minus(executionPrice).abs().div(marketPrice).mul(100)
+            : new Decimal(100),
+    };
+}
@@ -0,0 +1,421 @@
+// src/utils/backtester.ts
+// Replays a recorded series of pool reserves through a user strategy. Trades
+// are filled against a simulated constant-product pool instead of the chain.
+import { Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { simulateSwap, SimPool } from './simulatedSwap';
+import type { QuoteComparison, VenueQuote } from './bestExecution';
+import {
+    computeMarketIndicators,
+    DEFAULT_INDICATOR_CONFIG,
+    IndicatorConfig,
+    PriceTick,
+} from './marketIndicators';
+import {
+    compileStrategy,
+    loadStrategy,
+    createRunController,
+    raceSignal,
+    StrategyAbortError,
+} from '../workers/strategySandbox.js';
+import { createStrategyState } from '../workers/strategyState.js';
+import { StrategyParamValues, parseStrategyParamSchema, resolveStrategyParams } from './strategyParams';
+
+export interface ReserveTick {
+    timestamp: number;
+    solReserve: number;
+    tokenReserve: number;
+}
+
+export interface BacktestConfig {
+    code: string;
+    mode: 'per-bot' | 'group';
+    botCount: number;
+    initialSolPerBot: number;
+    initialTokenPerBot: number;
+    tokenDecimals: number;
+    /** Network the strategy believes it runs on; presets branch on this. */
+    network: 'devnet' | 'mainnet-beta';
+    minTradeAmount: number | null;
+    defaultSlippageBps: number;
+    /** Flat SOL cost charged per simulated transaction. */
+    networkFeeSol: number;
+    /** Wall-clock budget for each tick's strategy run. */
+    tickTimeoutMs: number;
+    indicatorConfig: IndicatorConfig;
+    /** Saved `exports.params` values; missing ones use the declared defaults. */
+    params?: StrategyParamValues;
+}
+
+export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, 'code' | 'mode'> = {
+    botCount: 1,
+    initialSolPerBot: 1,
+    initialTokenPerBot: 0,
+    tokenDecimals: 9,
+    network: 'devnet',
+    minTradeAmount: 0.01,
+    defaultSlippageBps: 50,
+    networkFeeSol: 0.000005,
+    tickTimeoutMs: 5_000,
+    indicatorConfig: DEFAULT_INDICATOR_CONFIG,
+};
+
+export interface BacktestFill {
+    timestamp: number;
+    bot: string;
+    side: 'buy' | 'sell';
+    /** SOL spent on buys, tokens sold on sells. */
+    amountIn: number;
+    amountOut: number;
+    /** Execution price in SOL per token. */
+    price: number;
+    /** Pool fee in SOL. */
+    poolFeeSol: number;
+    networkFeeSol: number;
+}
+
+export interface EquityPoint {
+    timestamp: number;
+    equity: number;
+    price: number;
+}
+
+export interface BacktestReport {
+    ticks: number;
+    fills: BacktestFill[];
+    rejectedOrders: number;
+    equityCurve: EquityPoint[];
+    startEquity: number;
+    endEquity: number;
+    pnl: number;
+    pnlPercent: number;
+    totalPoolFees: number;
+    totalNetworkFees: number;
+    /** Largest peak-to-trough equity drop, in SOL and as a fraction of the peak. */
+    maxDrawdown: number;
+    maxDrawdownPercent: number;
+    errors: string[];
+    logs: string[];
+}
+
+const MAX_LOG_LINES = 2000;
+const INDICATOR_LOOKBACK_TICKS = 1000;
+
+interface SimBot {
+    publicKey: PublicKey;
+    sol: number;
+    token: number;
+    tradeCount: number;
+}
+
+/**
+ * Run `config.code` over `ticks`. Each tick resets the simulated pool to the
+ * recorded reserves, so the strategy's own trades move the price only within
+ * the tick they were placed in.
+ */
+export async function runBacktest(
+    ticks: ReserveTick[],
+    config: BacktestConfig,
+    onProgress?: (done: number, total: number) => void
+): Promise<BacktestReport> {
+    const logs: string[] = [];
+    const errors: string[] = [];
+    const log = (msg: string) => {
+        if (logs.length < MAX_LOG_LINES) logs.push(msg);
+    };
+    const fills: BacktestFill[] = [];
+    const equityCurve: EquityPoint[] = [];
+    let rejectedOrders = 0;
+
+    const bots: SimBot[] = Array.from({ length: Math.max(1, config.botCount) }, () => ({
+        publicKey: Keypair.generate().publicKey,
+        sol: config.initialSolPerBot,
+        token: config.initialTokenPerBot,
+        tradeCount: 0,
+    }));
+    const stateStore = createStrategyState(null);
+    const history: PriceTick[] = [];
+    let pool: SimPool = { sol: 0, token: 0 };
+    let now = 0;
+
+    const equityAt = (price: number) => bots.reduce((sum, b) => sum + b.sol + b.token * price, 0);
+
+    const createMockTradeApi = (bot: SimBot, signal: AbortSignal) => {
+        const key = bot.publicKey.toBase58();
+        const swap = (side: 'buy' | 'sell', amount: number, opts: any = {}) => {
+            if (signal.aborted) throw new StrategyAbortError(signal.reason);
+            if (!(amount > 0)) throw new Error(`Invalid ${side} amount: ${amount}`);
+            const slippagePercent = (opts.slippageBps ?? config.defaultSlippageBps) / 100;
+            const isBuy = side === 'buy';
+            const required = isBuy ? amount + config.networkFeeSol : amount;
+            if ((isBuy ? bot.sol : bot.token) < required || bot.sol < config.networkFeeSol) {
+                rejectedOrders++;
+                log(`[backtest] ${key} ${side} of ${amount} rejected: insufficient balance`);
+                return undefined;
+            }
+            const fill = simulateSwap(pool, side, amount, config.tokenDecimals, slippagePercent);
+            if (!fill) {
+                rejectedOrders++;
+                log(`[backtest] ${key} ${side} of ${amount} rejected: no output from pool`);
+                return undefined;
+            }
+            if (opts.dryRun) {
+                // Report the fill without touching the pool or balances
+                return {
+                    dryRun: true,
+                    route: 'simulated',
+                    side,
+                    wouldFail: false,
+                    error: null,
+                    solChange: (isBuy ? -amount : fill.amountOut) - config.networkFeeSol,
+                    tokenChange: isBuy ? fill.amountOut : -amount,
+                    unitsConsumed: null,
+                    logs: [],
+                };
+            }
+            pool = fill.pool;
+            if (isBuy) {
+                bot.sol -= amount;
+                bot.token += fill.amountOut;
+            } else {
+                bot.token -= amount;
+                bot.sol += fill.amountOut;
+            }
+            bot.sol -= config.networkFeeSol;
+            bot.tradeCount++;
+            fills.push({
+                timestamp: now,
+                bot: key,
+                side,
+                amountIn: amount,
+                amountOut: fill.amountOut,
+                price: fill.price,
+                poolFeeSol: fill.poolFeeSol,
+                networkFeeSol: config.networkFeeSol,
+            });
+            return `backtest-${fills.length}`;
+        };
+        return {
+            buy: async (amount: number, opts?: any) => swap('buy', amount, opts),
+            sell: async (amount: number, opts?: any) => swap('sell', amount, opts),
+        };
+    };
+
+    const botView = (bot: SimBot) => Object.freeze({ publicKey: bot.publicKey });
+
+    // context.quote: the simulated pool is the only venue in a backtest
+    const mockQuote = async (amount: number, side: 'buy' | 'sell' = 'buy', opts: any = {}): Promise<QuoteComparison> => {
+        const slippagePercent = (opts.slippageBps ?? config.defaultSlippageBps) / 100;
+        const fill = simulateSwap(pool, side, amount, config.tokenDecimals, slippagePercent);
+        const spot = pool.token > 0 ? pool.sol / pool.token : 0;
+        const venue: VenueQuote = fill && spot > 0
+            ? {
+                route: 'simulated',
+                outAmount: fill.amountOut,
+                minOut: fill.amountOut * (1 - slippagePercent / 100),
+                priceImpactPercent: Math.abs(fill.price / spot - 1) * 100,
+                feesSol: fill.poolFeeSol,
+                error: null,
+            }
+            : { route: 'simulated', outAmount: 0, minOut: 0, priceImpactPercent: 0, feesSol: null, error: 'Pool cannot fill' };
+        return { side, amount, venues: [venue], best: venue.error ? null : 'simulated' };
+    };
+
+    let compiled = true;
+    try {
+        compileStrategy(config.code);
+    } catch (err: any) {
+        compiled = false;
+        errors.push(`Failed to compile strategy: ${err?.message || String(err)}`);
+    }
+
+    for (let i = 0; compiled && i < ticks.length; i++) {
+        const tick = ticks[i];
+        now = tick.timestamp;
+        pool = { sol: tick.solReserve, token: tick.tokenReserve };
+        const price = tick.tokenReserve > 0 ? tick.solReserve / tick.tokenReserve : 0;
+        const prev = history[history.length - 1];
+        history.push({
+            timestamp: tick.timestamp,
+            price,
+            solReserve: tick.solReserve,
+            tokenReserve: tick.tokenReserve,
+            ...(prev?.solReserve !== undefined ? { volume: Math.abs(tick.solReserve - prev.solReserve) } : {}),
+        });
+
+        const run = createRunController(config.tickTimeoutMs);
+        const tickLog = (msg: string) => log(`[${new Date(now).toISOString()}] ${msg}`);
+        const walletBalances = Object.fromEntries(
+            bots.map(b => [b.publicKey.toBase58(), { sol: b.sol, token: b.token, tradeCount: b.tradeCount }])
+        );
+        const context: Record<string, any> = {
+            rpcUrl: 'backtest',
+            network: config.network,
+            web3: { PublicKey, LAMPORTS_PER_SOL },
+            token: { address: 'backtest', decimals: config.tokenDecimals },
+            isLpActive: true,
+            market: {
+                ...computeMarketIndicators(history.slice(-INDICATOR_LOOKBACK_TICKS), config.indicatorConfig),
+                lastPrice: price,
+                currentMarketCap: 0,
+                currentLpValue: tick.solReserve * 2,
+                solUsdPrice: null,
+            },
+            isAdvancedMode: false,
+            minTradeAmount: config.minTradeAmount,
+            walletBalances,
+            runId: i + 1,
+            signal: run.signal,
+            state: stateStore.scope(),
+            quote: mockQuote,
+            backtest: true,
+        };
+
+        try {
+            const exports: any = loadStrategy(config.code, context);
+            if (typeof exports.strategy !== 'function') {
+                throw new Error('No strategy function exported');
+            }
+            context.params = resolveStrategyParams(parseStrategyParamSchema(exports.params).schema, config.params);
+            const apis = bots.map(b => createMockTradeApi(b, run.signal));
+            if (config.mode === 'group') {
+                const groupCtx = {
+                    ...context,
+                    bots: bots.map((b, idx) => ({
+                        wallet: botView(b),
+                        publicKey: b.publicKey,
+                        market: context.market,
+                        state: stateStore.scope(b.publicKey.toBase58()).bot,
+                        buy: apis[idx].buy,
+                        sell: apis[idx].sell,
+                        log: (m: string) => tickLog(`[${b.publicKey.toBase58()}] ${m}`),
+                    })),
+                };
+                await raceSignal(exports.strategy(tickLog, groupCtx), run.signal);
+            } else {
+                for (let idx = 0; idx < bots.length; idx++) {
+                    const ctx = {
+                        ...context,
+                        state: stateStore.scope(bots[idx].publicKey.toBase58()),
+                        buy: apis[idx].buy,
+                        sell: apis[idx].sell,
+                    };
+                    await raceSignal(exports.strategy(botView(bots[idx]), tickLog, ctx), run.signal);
+                }
+            }
+        } catch (err: any) {
+            const msg = `Tick ${i + 1}: ${err?.message || String(err)}`;
+            errors.push(msg);
+            tickLog(`[backtest] ${msg}`);
+        } finally {
+            run.dispose();
+        }
+
+        equityCurve.push({ timestamp: tick.timestamp, equity: equityAt(price), price });
+        onProgress?.(i + 1, ticks.length);
+    }
+
+    const startEquity = ticks.length
+        ? bots.length * (config.initialSolPerBot + config.initialTokenPerBot * (ticks[0].solReserve / ticks[0].tokenReserve))
+        : 0;
+    const endEquity = equityCurve.length ? equityCurve[equityCurve.length - 1].equity : startEquity;
+
+    let peak = -Infinity;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+    for (const point of equityCurve) {
+        peak = Math.max(peak, point.equity);
+        const drawdown = peak - point.equity;
+        if (drawdown > maxDrawdown) {
+            maxDrawdown = drawdown;
+            maxDrawdownPercent = peak > 0 ? drawdown / peak : 0;
+        }
+    }
+
+    return {
+        ticks: equityCurve.length,
+        fills,
+        rejectedOrders,
+        equityCurve,
+        startEquity,
+        endEquity,
+        pnl: endEquity - startEquity,
+        pnlPercent: startEquity > 0 ? (endEquity - startEquity) / startEquity : 0,
+        totalPoolFees: fills.reduce((sum, f) => sum + f.poolFeeSol, 0),
+        totalNetworkFees: fills.reduce((sum, f) => sum + f.networkFeeSol, 0),
+        maxDrawdown,
+        maxDrawdownPercent,
+        errors,
+        logs,
+    };
+}
+
+/**
+ * Convert ChartDataContext price ticks into reserve ticks. Ticks recorded
+ * without reserves are given a pool of `fallbackSolReserve` SOL at that price.
+ */
+export function reserveTicksFromPriceHistory(history: PriceTick[], fallbackSolReserve: number): ReserveTick[] {
+    return history
+        .filter(t => t.price > 0)
+        .map(t =>
+            t.solReserve && t.tokenReserve
+                ? { timestamp: t.timestamp, solReserve: t.solReserve, tokenReserve: t.tokenReserve }
+                : { timestamp: t.timestamp, solReserve: fallbackSolReserve, tokenReserve: fallbackSolReserve / t.price }
+        );
+}
+
+const FIELD_ALIASES: Record<keyof ReserveTick | 'price', string[]> = {
+    timestamp: ['timestamp', 'time', 'ts', 'date'],
+    solReserve: ['solreserve', 'sol_reserve', 'sol'],
+    tokenReserve: ['tokenreserve', 'token_reserve', 'token'],
+    price: ['price'],
+};
+
+const parseTimestamp = (value: unknown): number => {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+        const n = Number(value);
+        // Treat small values as unix seconds
+        return n < 1e12 ? n * 1000 : n;
+    }
+    const parsed = Date.parse(String(value));
+    if (Number.isNaN(parsed)) throw new Error(`Invalid timestamp: ${String(value)}`);
+    return parsed;
+};
+
+function normalizeRow(row: Record<string, unknown>, fallbackSolReserve: number, line: number): ReserveTick {
+    const lower = Object.fromEntries(Object.entries(row).map(([k, v]) => [k.trim().toLowerCase(), v]));
+    const pick = (field: keyof typeof FIELD_ALIASES) => {
+        const alias = FIELD_ALIASES[field].find(a => lower[a] !== undefined && lower[a] !== '');
+        return alias ? lower[alias] : undefined;
+    };
+    const timestamp = parseTimestamp(pick('timestamp'));
+    const sol = Number(pick('solReserve'));
+    const token = Number(pick('tokenReserve'));
+    if (sol > 0 && token > 0) return { timestamp, solReserve: sol, tokenReserve: token };
+    const price = Number(pick('price'));
+    if (price > 0) return { timestamp, solReserve: fallbackSolReserve, tokenReserve: fallbackSolReserve / price };
+    throw new Error(`Row ${line}: needs solReserve and tokenReserve, or price`);
+}
+
+/**
+ * Parse an imported reserve history. Accepts CSV with a header row, a JSON
+ * array of rows, or a JSON object with a `ticks` array.
+ */
+export function parseReserveHistory(text: string, fallbackSolReserve: number): ReserveTick[] {
+    const trimmed = text.trim();
+    let rows: Record<string, unknown>[];
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        const parsed = JSON.parse(trimmed);
+        rows = Array.isArray(parsed) ? parsed : parsed?.ticks;
+        if (!Array.isArray(rows)) throw new Error('JSON history must be an array or contain a "ticks" array');
+    } else {
+        const lines = trimmed.split(/\r?\n/).filter(l => l.trim() !== '');
+        if (lines.length < 2) throw new Error('CSV history needs a header row and at least one data row');
+        const header = lines[0].split(',').map(h => h.trim());
+        rows = lines.slice(1).map(line => {
+            const cells = line.split(',');
+            return Object.fromEntries(header.map((h, idx) => [h, cells[idx]?.trim()]));
+        });
+    }
+    const ticks = rows.map((row, idx) => normalizeRow(row, fallbackSolReserve, idx + 1));
+    return ticks.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,81 @@
+// src/utils/bestExecution.ts
+// Quotes the same trade on several venues side by side so the UI and
+// strategies can see whether Jupiter or a direct Raydium pool fills better.
+import Decimal from 'decimal.js';
+import { getSwapRouter, SwapRequest, SwapRouteName, SwapSide } from './swapRouter';
+
+export interface VenueQuote {
+    route: SwapRouteName;
+    /** Output in UI units: tokens on buys, SOL on sells. */
+    outAmount: number;
+    minOut: number;
+    priceImpactPercent: number;
+    /** Estimated pool fees in SOL; null when the venue does not report them. */
+    feesSol: number | null;
+    /** Set instead of the amounts when the venue could not quote. */
+    error: string | null;
+}
+
+export interface QuoteComparison {
+    side: SwapSide;
+    /** Input in UI units: SOL on buys, tokens on sells. */
+    amount: number;
+    venues: VenueQuote[];
+    /** Venue with the highest output, or null when none could quote. */
+    best: SwapRouteName | null;
+}
+
+/**
+ * Venues worth comparing on a network. Jupiter has no devnet routes, and the
+ * direct Raydium quote needs a discovered pool.
+ */
+export function comparisonRoutes(network: string, poolId?: string): SwapRouteName[] {
+    if (!network.startsWith('mainnet')) return poolId ? ['raydium'] : [];
+    return poolId ? ['jupiter', 'raydium'] : ['jupiter'];
+}
+
+export async function compareSwapQuotes(
+    network: string,
+    request: SwapRequest,
+    routes: SwapRouteName[] = comparisonRoutes(network, request.poolId)
+): Promise<QuoteComparison> {
+    const isBuy = request.side === 'buy';
+    const inScale = new Decimal(10).pow(isBuy ? 9 : request.tokenDecimals);
+    const outScale = new Decimal(10).pow(isBuy ? request.tokenDecimals : 9);
+
+    const settled = await Promise.allSettled(
+        routes.map((route) => getSwapRouter(network, { route }).quote(request))
+    );
+    const venues: VenueQuote[] = settled.map((result, i) => {
+        if (result.status === 'rejected') {
+            const reason = result.reason;
+            return {
+                route: routes[i],
+                outAmount: 0,
+                minOut: 0,
+                priceImpactPercent: 0,
+                feesSol: null,
+                error: reason?.message || String(reason),
+            };
+        }
+        const quote = result.value;
+        return {
+            route: routes[i],
+            outAmount: new Decimal(quote.amountOut.toString()).div(outScale).toNumber(),
+            minOut: new Decimal(quote.minAmountOut.toString()).div(outScale).toNumber(),
+            priceImpactPercent: quote.priceImpactPercent,
+            feesSol: quote.feeSol,
+            error: null,
+        };
+    });
+
+    const best = venues
+        .filter((v) => !v.error && v.outAmount > 0)
+        .reduce<VenueQuote | null>((top, v) => (!top || v.outAmount > top.outAmount ? v : top), null);
+    return {
+        side: request.side,
+        amount: new Decimal(request.amount.toString()).div(inScale).toNumber(),
+        venues,
+        best: best ? best.route : null,
+    };
+}
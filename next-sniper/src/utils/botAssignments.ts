@@ -0,0 +1,103 @@
+// src/utils/botAssignments.ts
+// Per-bot strategy assignment. Bots are put in named groups or assigned on
+// their own; an assignment names a saved strategy and may override its
+// parameters and the trading interval. Bots without one run the editor's
+// strategy on the global interval, as before.
+import type { NetworkType } from '@/context/NetworkContext';
+import type { TradeIntervalConfig } from '@/context/BotContext';
+import type { StrategyParamValues } from './strategyParams';
+
+export interface StrategyAssignment {
+    /** Id of a saved strategy (`UserStrategy.id`). */
+    strategyId: string;
+    /** Overrides the strategy's saved parameter values on this network; null uses them. */
+    params: StrategyParamValues | null;
+    /** Own run timer; null runs on the global trading interval. */
+    interval: TradeIntervalConfig | null;
+}
+
+export interface BotAssignments {
+    groups: Record<string, StrategyAssignment>;
+    /** Bot public key -> group name, or the bot's own assignment. */
+    bots: Record<string, string | StrategyAssignment>;
+}
+
+/** Bots sharing one assignment, dispatched to the worker as one run. */
+export interface StrategyRunUnit {
+    /** `default`, `group:<name>` or `bot:<public key>`; also scopes the unit's strategy state. */
+    key: string;
+    label: string;
+    /** Null for the editor's strategy. */
+    assignment: StrategyAssignment | null;
+    bots: string[];
+}
+
+export const DEFAULT_RUN_UNIT = 'default';
+
+export const emptyBotAssignments = (): BotAssignments => ({ groups: {}, bots: {} });
+
+/** Splits `botIds` into run units; bots pointing at a missing group fall back to the default unit. */
+export function groupBotsByAssignment(assignments: BotAssignments, botIds: string[]): StrategyRunUnit[] {
+    const units = new Map<string, StrategyRunUnit>();
+    const add = (key: string, label: string, assignment: StrategyAssignment | null, bot: string) => {
+        const unit = units.get(key) ?? { key, label, assignment, bots: [] };
+        unit.bots.push(bot);
+        units.set(key, unit);
+    };
+    for (const bot of botIds) {
+        const target = assignments.bots[bot];
+        if (typeof target === 'string' && assignments.groups[target]) {
+            add(`group:${target}`, `group ${target}`, assignments.groups[target], bot);
+        } else if (target && typeof target === 'object') {
+            add(`bot:${bot}`, `bot ${bot.slice(0, 6)}`, target, bot);
+        } else {
+            add(DEFAULT_RUN_UNIT, 'editor strategy', null, bot);
+        }
+    }
+    return [...units.values()];
+}
+
+/** Points `botIds` at a group, gives them their own assignment, or (null) returns them to the editor's strategy. */
+export function assignBots(
+    assignments: BotAssignments,
+    botIds: string[],
+    target: string | StrategyAssignment | null
+): BotAssignments {
+    if (typeof target === 'string' && !assignments.groups[target]) throw new Error(`Unknown bot group: ${target}`);
+    const bots = { ...assignments.bots };
+    for (const bot of botIds) {
+        if (target === null) delete bots[bot];
+        else bots[bot] = target;
+    }
+    return { ...assignments, bots };
+}
+
+/** Creates or replaces a group; its bots keep pointing at it. */
+export function putBotGroup(assignments: BotAssignments, name: string, assignment: StrategyAssignment): BotAssignments {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Bot groups need a name.');
+    if (!assignment.strategyId) throw new Error('Bot groups need a strategy.');
+    return { ...assignments, groups: { ...assignments.groups, [trimmed]: assignment } };
+}
+
+/** Removes a group; its bots go back to the editor's strategy. */
+export function removeBotGroup(assignments: BotAssignments, name: string): BotAssignments {
+    const { [name]: _removed, ...groups } = assignments.groups;
+    const bots = Object.fromEntries(Object.entries(assignments.bots).filter(([, target]) => target !== name));
+    return { groups, bots };
+}
+
+export function loadBotAssignments(network: NetworkType): BotAssignments {
+    if (typeof window === 'undefined') return emptyBotAssignments();
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(`botAssignments-${network}`) || 'null');
+        return stored ? { ...emptyBotAssignments(), ...stored } : emptyBotAssignments();
+    } catch {
+        return emptyBotAssignments();
+    }
+}
+
+export function saveBotAssignments(network: NetworkType, assignments: BotAssignments): void {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(`botAssignments-${network}`, JSON.stringify(assignments));
+}
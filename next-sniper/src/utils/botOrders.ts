@@ -0,0 +1,170 @@
+// src/utils/botOrders.ts
+// Declarative bot orders that need no strategy code: limit buys/sells at a
+// price, and DCA/TWAP schedules that split a buy or sell into slices on a
+// TradeIntervalConfig timer. BotContext keeps them per network and bot and
+// trades each due slice through the worker's trade API.
+import type { NetworkType } from '@/context/NetworkContext';
+import type { TradeIntervalConfig } from '@/context/BotContext';
+
+export type BotOrderKind = 'limit' | 'dca';
+
+/** `executing` orders have a slice in flight; failed slices are retried until MAX_BOT_ORDER_ATTEMPTS. */
+export type BotOrderStatus = 'active' | 'executing' | 'filled' | 'failed' | 'cancelled';
+
+export interface BotOrderSpec {
+    kind: BotOrderKind;
+    side: 'buy' | 'sell';
+    /** Total to trade: SOL on buys, tokens on sells. */
+    amount?: number | null;
+    /** Sells only, instead of `amount`: percent of the position sold by each slice. */
+    percent?: number | null;
+    /** Limit orders: buy at or below / sell at or above this price (SOL per token). Optional cap for DCA slices. */
+    limitPrice?: number | null;
+    /** DCA: number of slices and the time between them. */
+    slices?: number;
+    interval?: TradeIntervalConfig;
+    slippageBps?: number;
+}
+
+export interface BotOrderFill {
+    timestamp: number;
+    /** SOL on buys, tokens on sells, as requested for the slice. */
+    amount: number;
+    /** SOL per token the slice executed at; the price when it was sent if the fill could not be read. */
+    price: number;
+    signature: string | null;
+}
+
+export interface BotOrder {
+    id: string;
+    network: NetworkType;
+    bot: string;
+    token: string;
+    kind: BotOrderKind;
+    side: 'buy' | 'sell';
+    amount: number | null;
+    percent: number | null;
+    limitPrice: number | null;
+    /** 1 for limit orders. */
+    slices: number;
+    interval: TradeIntervalConfig | null;
+    slippageBps: number | null;
+    status: BotOrderStatus;
+    slicesDone: number;
+    filledAmount: number;
+    fills: BotOrderFill[];
+    /** Failed tries of the current slice. */
+    attempts: number;
+    /** The next slice is not traded before this time (ms since epoch). */
+    nextSliceAt: number;
+    createdAt: number;
+    error: string | null;
+}
+
+export const MAX_BOT_ORDER_ATTEMPTS = 3;
+/** Finished (filled, failed, cancelled) orders kept per network. */
+export const MAX_FINISHED_BOT_ORDERS = 100;
+
+const positive = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+/** Validates a spec and creates an active order; throws on an invalid spec. */
+export function createBotOrder(
+    spec: BotOrderSpec,
+    owner: { network: NetworkType; bot: string; token: string },
+    now = Date.now()
+): BotOrder {
+    if (!owner.token) throw new Error('Orders need a selected token.');
+    if (spec.side !== 'buy' && spec.side !== 'sell') throw new Error(`Unknown order side: ${spec.side}`);
+    const hasPercent = spec.percent !== undefined && spec.percent !== null;
+    if (hasPercent) {
+        if (spec.side !== 'sell') throw new Error('Only sells can be sized as a percent of the position.');
+        if (!positive(spec.percent) || spec.percent > 100) throw new Error('percent must be between 0 and 100.');
+    } else if (!positive(spec.amount)) {
+        throw new Error(`Order amount must be a positive number of ${spec.side === 'buy' ? 'SOL' : 'tokens'}.`);
+    }
+    if (spec.limitPrice !== undefined && spec.limitPrice !== null && !positive(spec.limitPrice)) {
+        throw new Error('limitPrice must be a positive price.');
+    }
+    let slices = 1;
+    let interval: TradeIntervalConfig | null = null;
+    if (spec.kind === 'limit') {
+        if (!positive(spec.limitPrice)) throw new Error('Limit orders need a positive limitPrice.');
+    } else if (spec.kind === 'dca') {
+        if (!Number.isInteger(spec.slices) || spec.slices! < 1) throw new Error('DCA orders need a whole number of slices.');
+        const cfg = spec.interval;
+        const valid = cfg && (cfg.mode === 'fixed' ? positive(cfg.fixed) : positive(cfg.min) && cfg.max >= cfg.min);
+        if (!valid) throw new Error('DCA orders need a positive interval.');
+        slices = spec.slices!;
+        interval = cfg!;
+    } else {
+        throw new Error(`Unknown order kind: ${(spec as { kind: unknown }).kind}`);
+    }
+    return {
+        id: `order-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        ...owner,
+        kind: spec.kind,
+        side: spec.side,
+        amount: hasPercent ? null : spec.amount!,
+        percent: hasPercent ? spec.percent! : null,
+        limitPrice: spec.limitPrice ?? null,
+        slices,
+        interval,
+        slippageBps: positive(spec.slippageBps) ? spec.slippageBps : null,
+        status: 'active',
+        slicesDone: 0,
+        filledAmount: 0,
+        fills: [],
+        attempts: 0,
+        // The first DCA slice trades right away
+        nextSliceAt: now,
+        createdAt: now,
+        error: null,
+    };
+}
+
+/** Whether an active order has a slice to trade at `price` now. */
+export function isBotOrderDue(order: BotOrder, price: number, now: number): boolean {
+    if (order.status !== 'active' || now < order.nextSliceAt) return false;
+    if (order.limitPrice === null) return true;
+    if (!(price > 0)) return false;
+    return order.side === 'buy' ? price <= order.limitPrice : price >= order.limitPrice;
+}
+
+/** What is left to trade, in the order's unit; null for percent-of-position sells. */
+export function remainingBotOrderAmount(order: BotOrder): number | null {
+    return order.amount === null ? null : Math.max(0, order.amount - order.filledAmount);
+}
+
+/** Size of the next slice; `position` is the bot's token balance, used by percent sells. */
+export function nextSliceAmount(order: BotOrder, position: number): number {
+    if (order.percent !== null) return (position * order.percent) / 100;
+    return remainingBotOrderAmount(order)! / (order.slices - order.slicesDone);
+}
+
+/** Applies a traded slice; `nextSliceAt` is when the following slice is due. */
+export function recordBotOrderFill(order: BotOrder, fill: BotOrderFill, nextSliceAt: number): BotOrder {
+    const slicesDone = order.slicesDone + 1;
+    return {
+        ...order,
+        status: slicesDone >= order.slices ? 'filled' : 'active',
+        slicesDone,
+        filledAmount: order.filledAmount + fill.amount,
+        fills: [...order.fills, fill],
+        attempts: 0,
+        nextSliceAt,
+        error: null,
+    };
+}
+
+/** One-line description for logs and lists, e.g. "limit buy 0.5 SOL @ <= 0.0012". */
+export function describeBotOrder(order: BotOrder): string {
+    const unit = order.side === 'buy' ? 'SOL' : 'tokens';
+    const size = order.percent !== null
+        ? `${order.percent}% of position${order.kind === 'dca' ? ' per slice' : ''}`
+        : `${order.amount} ${unit}`;
+    const limit = order.limitPrice === null ? '' : ` @ ${order.side === 'buy' ? '<=' : '>='} ${order.limitPrice}`;
+    if (order.kind === 'limit') return `limit ${order.side} ${size}${limit}`;
+    const cfg = order.interval!;
+    const every = cfg.mode === 'fixed' ? `${cfg.fixed}s` : `${cfg.min}-${cfg.max}s`;
+    return `DCA ${order.side} ${size} in ${order.slices} slices every ${every}${limit}`;
+}
@@ -1,5 +1,14 @@
 import { Keypair } from '@solana/web3.js';
 import { NetworkType } from '@/context/NetworkContext';
+import {
+    createKdfParams,
+    decryptBytes,
+    deriveVaultKey,
+    encryptBytes,
+    isKdfParams,
+    EncryptedBlob,
+    VaultKdfParams,
+} from './walletVault';
 
 let cachedPassword: string | null = null;
 export const setEncryptionPassword = (password: string): void => {
@@ -47,29 +56,171 @@ export function generateBotWallets(count: number): Keypair[] {
     return Array.from({ length: count }, () => generateBotWallet());
 }
 
-const MARKER = 'wallets_v1';
+// Legacy payloads (`{ marker, wallets }` or a bare array) XOR'd every byte with
+// the password. They are still readable so existing users can upgrade, but are
+// rewritten in the versioned vault format below on first successful load.
+const LEGACY_MARKER = 'wallets_v1';
+const VAULT_VERSION = 2;
 
-export async function saveBotWallets(network: NetworkType, keypairs: Keypair[]): Promise<void> {
-    try {
-        const password = getEncryptionPassword();
+// Each entry keeps its public key, label and creation time in the clear next to
+// the ciphertext so backups and the UI can describe wallets without the password.
+interface VaultWalletEntry extends EncryptedBlob {
+    publicKey?: string;
+    label?: string;
+    createdAt?: number;
+}
+
+interface BotWalletVault {
+    version: typeof VAULT_VERSION;
+    kdf: VaultKdfParams;
+    wallets: VaultWalletEntry[];
+}
+
+interface LegacyWalletPayload {
+    marker?: number[];
+    wallets: number[][];
+}
+
+/** A decrypted bot wallet together with its descriptive metadata. */
+export interface BotWalletRecord {
+    keypair: Keypair;
+    label?: string;
+    createdAt: number;
+}
+
+const isVault = (value: any): value is BotWalletVault =>
+    !!value && !Array.isArray(value) && typeof value === 'object' && 'version' in value;
+
+const xorWithPassword = (bytes: number[], password: string) =>
+    bytes.map((byte, idx) => byte ^ password.charCodeAt(idx % password.length));
+
+const toKeypair = (secretKey: Uint8Array): Keypair => {
+    if (secretKey.length !== 64) {
+        throw new Error('Invalid wallet data.');
+    }
+    return Keypair.fromSecretKey(secretKey);
+};
+
+async function encryptVault(network: NetworkType, records: BotWalletRecord[], password: string): Promise<BotWalletVault> {
+    const kdf = createKdfParams();
+    const key = await deriveVaultKey(password, kdf);
+    const aad = storageKey(network);
+    const wallets = await Promise.all(records.map(async (record): Promise<VaultWalletEntry> => ({
+        publicKey: record.keypair.publicKey.toBase58(),
+        ...(record.label ? { label: record.label } : {}),
+        createdAt: record.createdAt,
+        ...(await encryptBytes(key, record.keypair.secretKey, aad)),
+    })));
+    return { version: VAULT_VERSION, kdf, wallets };
+}
 
-        const markerBytes = Array.from(new TextEncoder().encode(MARKER)).map((b, idx) => b ^ password.charCodeAt(idx % password.length));
+async function decryptVault(network: NetworkType, vault: BotWalletVault, password: string): Promise<BotWalletRecord[]> {
+    if (vault.version !== VAULT_VERSION || !isKdfParams(vault.kdf) || !Array.isArray(vault.wallets)) {
+        throw new Error(`Unsupported bot wallet vault (version ${String(vault.version)}).`);
+    }
+    const key = await deriveVaultKey(password, vault.kdf);
+    const aad = storageKey(network);
+    return Promise.all(vault.wallets.map(async (entry) => ({
+        keypair: toKeypair(await decryptBytes(key, entry, aad)),
+        label: typeof entry.label === 'string' ? entry.label : undefined,
+        createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+    })));
+}
 
-        const encryptedKeys = keypairs.map(kp => {
-            return Array.from(kp.secretKey).map((byte, idx) => byte ^ password.charCodeAt(idx % password.length));
-        });
+function decodeLegacyWallets(parsed: LegacyWalletPayload | number[][], password: string): Keypair[] {
+    const encryptedWallets = Array.isArray(parsed) ? parsed : parsed.wallets;
+    const markerBytes = Array.isArray(parsed) ? null : parsed.marker;
 
-        const payload = { marker: markerBytes, wallets: encryptedKeys };
+    if (markerBytes) {
+        const markerString = new TextDecoder().decode(Uint8Array.from(xorWithPassword(markerBytes, password)));
+        if (markerString !== LEGACY_MARKER) {
+            throw new Error('Incorrect password for bot wallets.');
+        }
+    }
+    if (!Array.isArray(encryptedWallets)) {
+        throw new Error('Invalid wallet data.');
+    }
+    return encryptedWallets.map(arr => toKeypair(Uint8Array.from(xorWithPassword(arr, password))));
+}
 
-        localStorage.setItem(storageKey(network), JSON.stringify(payload));
-        console.log(`[BotWalletManager] Saved ${keypairs.length} bot wallet(s) for ${network} to localStorage.`);
+// Metadata is stored unencrypted, so it can be carried over on save without
+// decrypting the existing vault.
+const readStoredMetadata = (network: NetworkType): Map<string, Omit<BotWalletRecord, 'keypair'>> => {
+    const meta = new Map<string, Omit<BotWalletRecord, 'keypair'>>();
+    try {
+        const parsed = JSON.parse(localStorage.getItem(storageKey(network)) || 'null');
+        if (isVault(parsed) && Array.isArray(parsed.wallets)) {
+            for (const entry of parsed.wallets) {
+                if (typeof entry.publicKey !== 'string') continue;
+                meta.set(entry.publicKey, {
+                    label: typeof entry.label === 'string' ? entry.label : undefined,
+                    createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+                });
+            }
+        }
+    } catch {
+        // unreadable payloads simply carry no metadata
+    }
+    return meta;
+};
+
+export async function saveBotWalletRecords(network: NetworkType, records: BotWalletRecord[]): Promise<void> {
+    try {
+        const password = getEncryptionPassword();
+        const vault = await encryptVault(network, records, password);
+        localStorage.setItem(storageKey(network), JSON.stringify(vault));
+        console.log(`[BotWalletManager] Saved ${records.length} bot wallet(s) for ${network} to localStorage.`);
     } catch (error) {
         console.error(`[BotWalletManager] Failed to save wallets for ${network}:`, error);
         throw new Error('Failed to save bot wallets.');
     }
 }
 
-export function loadBotWallets(network: NetworkType): Keypair[] {
+// Writes the vaults of several networks together; when one write fails every
+// network gets its previous vault back and the error is rethrown.
+function storeVaults(vaults: Partial<Record<NetworkType, BotWalletVault>>): void {
+    const networks = Object.keys(vaults) as NetworkType[];
+    const previous = networks.map(net => [net, localStorage.getItem(storageKey(net))] as const);
+    try {
+        for (const net of networks) {
+            localStorage.setItem(storageKey(net), JSON.stringify(vaults[net]));
+        }
+    } catch (error) {
+        for (const [net, raw] of previous) {
+            if (raw === null) localStorage.removeItem(storageKey(net));
+            else localStorage.setItem(storageKey(net), raw);
+        }
+        throw error;
+    }
+}
+
+/** Saves the wallets of several networks at once: either every network is stored or none is. */
+export async function saveBotWalletRecordsByNetwork(recordsByNetwork: Partial<Record<NetworkType, BotWalletRecord[]>>): Promise<void> {
+    try {
+        const password = getEncryptionPassword();
+        const vaults: Partial<Record<NetworkType, BotWalletVault>> = {};
+        for (const [net, records] of Object.entries(recordsByNetwork) as [NetworkType, BotWalletRecord[]][]) {
+            vaults[net] = await encryptVault(net, records, password);
+        }
+        storeVaults(vaults);
+        console.log(`[BotWalletManager] Saved bot wallets for ${Object.keys(vaults).join(', ')} to localStorage.`);
+    } catch (error) {
+        console.error('[BotWalletManager] Failed to save wallets, no network was changed:', error);
+        throw new Error('Failed to save bot wallets.');
+    }
+}
+
+export async function saveBotWallets(network: NetworkType, keypairs: Keypair[]): Promise<void> {
+    const meta = readStoredMetadata(network);
+    const now = Date.now();
+    const records = keypairs.map((keypair) => {
+        const existing = meta.get(keypair.publicKey.toBase58());
+        return { keypair, label: existing?.label, createdAt: existing?.createdAt ?? now };
+    });
+    await saveBotWalletRecords(network, records);
+}
+
+export async function loadBotWalletRecords(network: NetworkType): Promise<BotWalletRecord[]> {
     try {
         const stored = localStorage.getItem(storageKey(network));
         if (!stored) return [];
@@ -77,45 +228,36 @@ export function loadBotWallets(network: NetworkType): Keypair[] {
         const parsed = JSON.parse(stored);
         const password = getEncryptionPassword();
 
-        // Backwards compatibility: if parsed is an array, treat as old format
-        let encryptedWallets: number[][];
-        let markerBytes: number[] | null = null;
-
-        if (Array.isArray(parsed)) {
-            encryptedWallets = parsed as number[][];
-        } else {
-            encryptedWallets = parsed.wallets;
-            markerBytes = parsed.marker;
-        }
-
-        if (markerBytes) {
-            const markerDecoded = markerBytes.map((byte: number, idx: number) => byte ^ password.charCodeAt(idx % password.length));
-            const markerString = new TextDecoder().decode(Uint8Array.from(markerDecoded));
-            if (markerString !== MARKER) {
-                throw new Error('Incorrect password for bot wallets.');
-            }
+        if (isVault(parsed)) {
+            const records = await decryptVault(network, parsed, password);
+            console.log(`[BotWalletManager] Loaded ${records.length} bot wallet(s) for ${network}.`);
+            return records;
         }
 
-        const wallets = encryptedWallets.map(arr => {
-            const decrypted = arr.map((byte, idx) => byte ^ password.charCodeAt(idx % password.length));
-            const secretKey = new Uint8Array(decrypted);
-            if (secretKey.length !== 64) {
-                throw new Error('Invalid wallet data.');
-            }
-            return Keypair.fromSecretKey(secretKey);
-        });
-        console.log(`[BotWalletManager] Loaded ${wallets.length} bot wallet(s) for ${network}.`);
-        return wallets;
+        // One-way migration: decode the legacy XOR payload and immediately
+        // replace it with an encrypted vault under the same password.
+        const now = Date.now();
+        const records = decodeLegacyWallets(parsed, password).map(keypair => ({ keypair, createdAt: now }));
+        const vault = await encryptVault(network, records, password);
+        localStorage.setItem(storageKey(network), JSON.stringify(vault));
+        console.log(`[BotWalletManager] Migrated ${records.length} legacy bot wallet(s) for ${network} to vault v${VAULT_VERSION}.`);
+        return records;
     } catch (error) {
         console.error(`[BotWalletManager] Failed to load wallets for ${network}:`, error);
         resetEncryptionPassword();
         throw new Error('Incorrect password or corrupted wallet data.');
     }
 }
-export function loadBotWalletsWithRetry(network: NetworkType): Keypair[] {
+
+export async function loadBotWallets(network: NetworkType): Promise<Keypair[]> {
+    const records = await loadBotWalletRecords(network);
+    return records.map(record => record.keypair);
+}
+
+export async function loadBotWalletsWithRetry(network: NetworkType): Promise<Keypair[]> {
     while (true) {
         try {
-            return loadBotWallets(network);
+            return await loadBotWallets(network);
         } catch (e: any) {
             if (typeof window === "undefined" || !window.confirm(`${e.message}
 Try again?`)) {
@@ -135,36 +277,46 @@ export async function saveBotWallet(network: NetworkType, keypair: Keypair): Pro
     await saveBotWallets(network, [keypair]);
 }
 
-export function loadBotWallet(network: NetworkType): Keypair | null {
-    const wallets = loadBotWallets(network);
+export async function loadBotWallet(network: NetworkType): Promise<Keypair | null> {
+    const wallets = await loadBotWallets(network);
     return wallets[0] ?? null;
 }
 
 export function clearBotWallet(network: NetworkType): void {
     clearBotWallets(network);
 }
-export function changeWalletPassword(newPassword: string): void {
+/**
+ * Re-encrypt the wallets of every network under `newPassword`. All vaults are
+ * decrypted and re-sealed in memory first; storage is only touched once every
+ * network succeeded, and is rolled back if a write fails.
+ */
+export async function changeWalletPassword(newPassword: string): Promise<void> {
+    if (!newPassword) throw new Error('Encryption password not provided');
     const networks: NetworkType[] = ['devnet', 'mainnet-beta'];
 
-    const walletsByNetwork: Record<NetworkType, Keypair[]> = {
+    const walletsByNetwork: Record<NetworkType, BotWalletRecord[]> = {
         'devnet': [],
         'mainnet-beta': [],
     };
 
     for (const net of networks) {
-        try {
-            walletsByNetwork[net] = loadBotWallets(net);
-        } catch {
-            walletsByNetwork[net] = [];
-        }
+        walletsByNetwork[net] = await loadBotWalletRecords(net);
     }
 
-    setEncryptionPassword(newPassword);
-
+    const vaults: Partial<Record<NetworkType, BotWalletVault>> = {};
     for (const net of networks) {
-        const wallets = walletsByNetwork[net];
-        if (wallets.length > 0) {
-            saveBotWallets(net, wallets);
+        if (walletsByNetwork[net].length > 0) {
+            vaults[net] = await encryptVault(net, walletsByNetwork[net], newPassword);
         }
     }
-}
\ No newline at end of file
+
+    try {
+        storeVaults(vaults);
+    } catch (error) {
+        console.error('[BotWalletManager] Failed to store re-encrypted wallets, restored previous vaults:', error);
+        throw new Error('Failed to change wallet password.');
+    }
+
+    setEncryptionPassword(newPassword);
+    console.log('[BotWalletManager] Wallet password changed for all networks.');
+}
@@ -0,0 +1,142 @@
+// src/utils/exitOrders.ts
+// Exit orders against a bot's token position: stop-loss, take-profit,
+// trailing-stop and time-based. BotContext keeps them per network, evaluates
+// the active ones for the selected token on every price poll and sells through
+// the worker's trade API when one fires.
+import type { NetworkType } from '@/context/NetworkContext';
+
+export type ExitOrderType = 'stopLoss' | 'takeProfit' | 'trailingStop' | 'timeExit';
+
+/**
+ * `active` orders are evaluated; `triggered` ones are selling right now.
+ * A sell that is rejected or fails puts the order back to `active` until it
+ * has been tried MAX_EXIT_ATTEMPTS times.
+ */
+export type ExitOrderStatus = 'active' | 'triggered' | 'filled' | 'failed' | 'cancelled';
+
+export interface ExitOrderSpec {
+    type: ExitOrderType;
+    /** Tokens to sell; omitted or null sells the whole position when the order fires. */
+    amount?: number | null;
+    /** Price (SOL per token) for stop-loss and take-profit. */
+    triggerPrice?: number;
+    /** Trailing stop distance below the highest price seen, in percent. */
+    trailPercent?: number;
+    /** Time exits: fire at this time (ms since epoch), or `afterSec` from now. */
+    expiresAt?: number;
+    afterSec?: number;
+    slippageBps?: number;
+}
+
+export interface ExitOrder {
+    id: string;
+    network: NetworkType;
+    bot: string;
+    token: string;
+    type: ExitOrderType;
+    amount: number | null;
+    triggerPrice: number | null;
+    trailPercent: number | null;
+    /** Highest price seen since a trailing stop was placed. */
+    peakPrice: number | null;
+    expiresAt: number | null;
+    slippageBps: number | null;
+    source: 'strategy' | 'manual';
+    status: ExitOrderStatus;
+    attempts: number;
+    createdAt: number;
+    triggeredAt: number | null;
+    /** Price when the order last fired. */
+    firedPrice: number | null;
+    signature: string | null;
+    error: string | null;
+}
+
+export const MAX_EXIT_ATTEMPTS = 3;
+/** Finished (filled, failed, cancelled) orders kept per network. */
+export const MAX_FINISHED_EXIT_ORDERS = 100;
+
+const positive = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+/** Validates a spec and creates an active order; throws on an invalid spec. */
+export function createExitOrder(
+    spec: ExitOrderSpec,
+    owner: { network: NetworkType; bot: string; token: string; source: 'strategy' | 'manual' },
+    now = Date.now()
+): ExitOrder {
+    if (!owner.token) throw new Error('Exit orders need a selected token.');
+    if (spec.amount !== undefined && spec.amount !== null && !positive(spec.amount)) {
+        throw new Error('Exit order amount must be a positive number of tokens (or omitted for the whole position).');
+    }
+    let expiresAt: number | null = null;
+    switch (spec.type) {
+        case 'stopLoss':
+        case 'takeProfit':
+            if (!positive(spec.triggerPrice)) throw new Error(`${spec.type} needs a positive triggerPrice.`);
+            break;
+        case 'trailingStop':
+            if (!positive(spec.trailPercent) || spec.trailPercent >= 100) {
+                throw new Error('trailingStop needs a trailPercent between 0 and 100.');
+            }
+            break;
+        case 'timeExit':
+            expiresAt = positive(spec.expiresAt) ? spec.expiresAt : positive(spec.afterSec) ? now + spec.afterSec * 1000 : null;
+            if (expiresAt === null) throw new Error('timeExit needs expiresAt or afterSec.');
+            break;
+        default:
+            throw new Error(`Unknown exit order type: ${(spec as { type: unknown }).type}`);
+    }
+    return {
+        id: `exit-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        ...owner,
+        type: spec.type,
+        amount: spec.amount ?? null,
+        triggerPrice: spec.type === 'stopLoss' || spec.type === 'takeProfit' ? spec.triggerPrice! : null,
+        trailPercent: spec.type === 'trailingStop' ? spec.trailPercent! : null,
+        peakPrice: null,
+        expiresAt,
+        slippageBps: positive(spec.slippageBps) ? spec.slippageBps : null,
+        status: 'active',
+        attempts: 0,
+        createdAt: now,
+        triggeredAt: null,
+        firedPrice: null,
+        signature: null,
+        error: null,
+    };
+}
+
+/**
+ * Checks an active order against the current price. `order` is the input or a
+ * copy with a new trailing peak; `fire` says whether to sell now.
+ */
+export function evaluateExitOrder(order: ExitOrder, price: number, now: number): { order: ExitOrder; fire: boolean } {
+    switch (order.type) {
+        case 'stopLoss':
+            return { order, fire: price <= order.triggerPrice! };
+        case 'takeProfit':
+            return { order, fire: price >= order.triggerPrice! };
+        case 'trailingStop': {
+            const peak = Math.max(order.peakPrice ?? price, price);
+            const next = peak !== order.peakPrice ? { ...order, peakPrice: peak } : order;
+            return { order: next, fire: price <= peak * (1 - order.trailPercent! / 100) };
+        }
+        case 'timeExit':
+            return { order, fire: now >= order.expiresAt! };
+    }
+}
+
+/** One-line description for logs and lists, e.g. "stop-loss @ 0.0012". */
+export function describeExitOrder(order: ExitOrder): string {
+    const amount = order.amount === null ? 'all' : String(order.amount);
+    switch (order.type) {
+        case 'stopLoss':
+            return `stop-loss ${amount} @ ${order.triggerPrice}`;
+        case 'takeProfit':
+            return `take-profit ${amount} @ ${order.triggerPrice}`;
+        case 'trailingStop':
+            return `trailing-stop ${amount} ${order.trailPercent}% below ${order.peakPrice ?? 'peak'}`;
+        case 'timeExit':
+            return `time exit ${amount} at ${new Date(order.expiresAt!).toLocaleString()}`;
+    }
+}
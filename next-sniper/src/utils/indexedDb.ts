@@ -0,0 +1,66 @@
+// src/utils/indexedDb.ts
+// Shared IndexedDB connection for app data that outgrows localStorage.
+
+const DB_NAME = 'sniperlab';
+const DB_VERSION = 2;
+
+// Object stores created on upgrade. Add new stores here and bump DB_VERSION.
+export const STORES = {
+    strategyState: 'strategyState',
+    tradeLedger: 'tradeLedger',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export function openAppDb(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this environment.'));
+    }
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const name of Object.values(STORES)) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name);
+                    }
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openAppDb();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+    const db = await openAppDb();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+    const db = await openAppDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+    const db = await openAppDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
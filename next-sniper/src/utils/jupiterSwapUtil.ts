@@ -1,6 +1,8 @@
 // src/utils/jupiterSwapUtil.ts
-import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
 import BN from 'bn.js';
+import type { JupiterQuoteResponse } from './quoteFetcher';
+import { signAndSendTransactionWithRetry } from './transactionUtils';
 
 // PASTE THIS NEW CODE IN ITS PLACE
 interface JupiterSwapParams {
@@ -15,43 +17,41 @@ interface JupiterSwapParams {
     asLegacyTransaction?: boolean;
 }
 
-export async function executeJupiterSwap({
-    wallet,
-    connection,
-    inputMint,
-    outputMint,
-    amount,
-    slippageBps,
-    onlyGetQuote, // <-- THIS LINE WAS MISSING
-    priorityFeeMicroLamports = 1000,
-}: JupiterSwapParams): Promise<any> {
-    console.log('[executeJupiterSwap] Starting swap via Jupiter Aggregator...');
+const JUPITER_API = 'https://quote-api.jup.ag/v6';
 
-    const userPublicKey = wallet.publicKey;
-    if (!userPublicKey) throw new Error("Wallet not connected.");
-
-    // 1. Get Quote from Jupiter API
-    console.log(`[executeJupiterSwap] Fetching quote...`);
-    const quoteUrl = `https://quote-api.jup.ag/v6/quote?inputMint=${inputMint.toBase58()}&outputMint=${outputMint.toBase58()}&amount=${amount.toString()}&slippageBps=${slippageBps}`;
+export async function getJupiterQuote(
+    inputMint: PublicKey,
+    outputMint: PublicKey,
+    amount: BN,
+    slippageBps: number
+): Promise<JupiterQuoteResponse> {
+    console.log(`[getJupiterQuote] Fetching quote...`);
+    const quoteUrl = `${JUPITER_API}/quote?inputMint=${inputMint.toBase58()}&outputMint=${outputMint.toBase58()}&amount=${amount.toString()}&slippageBps=${slippageBps}`;
 
     const quoteResponse = await (await fetch(quoteUrl)).json();
     if (!quoteResponse || quoteResponse.error) {
         throw new Error(`Failed to get quote from Jupiter: ${quoteResponse?.error || 'No route found'}`);
     }
-    if (onlyGetQuote) {
-        console.log('[executeJupiterSwap] "onlyGetQuote" is true. Returning quote now.');
-        return quoteResponse;
-    }
-    // 2. Get Swap Transaction from Jupiter API
-    console.log("[executeJupiterSwap] Fetching swap transaction...");
-    const swapResponse = await (await fetch('https://quote-api.jup.ag/v6/swap', {
+    return quoteResponse;
+}
+
+// Asks Jupiter to build the swap for a quote; the result still needs the user's signature.
+export async function buildJupiterSwapTransaction(
+    quoteResponse: JupiterQuoteResponse,
+    userPublicKey: PublicKey,
+    priorityFeeMicroLamports = 1000
+): Promise<VersionedTransaction> {
+    console.log("[buildJupiterSwapTransaction] Fetching swap transaction...");
+    const swapResponse = await (await fetch(`${JUPITER_API}/swap`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
             quoteResponse,
             userPublicKey: userPublicKey.toBase58(),
             wrapAndUnwrapSol: true,
-            computeUnitPriceMicroLamports: priorityFeeMicroLamports || 1000,
+            computeUnitPriceMicroLamports: priorityFeeMicroLamports,
+            // Jupiter sizes the compute unit limit from its own simulation
+            dynamicComputeUnitLimit: true,
             asLegacyTransaction: true,
         })
     })).json();
@@ -59,29 +59,51 @@ export async function executeJupiterSwap({
     if (!swapResponse || !swapResponse.swapTransaction) {
         throw new Error(`Failed to get transaction from Jupiter: ${swapResponse?.error || 'Unknown error'}`);
     }
-    const swapTransactionB64 = swapResponse.swapTransaction;
+    const swapTransactionBuf = Buffer.from(swapResponse.swapTransaction, 'base64');
+    return VersionedTransaction.deserialize(swapTransactionBuf);
+}
 
-    // 3. Deserialize, Sign, and Send
-    const swapTransactionBuf = Buffer.from(swapTransactionB64, 'base64');
-    const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
+export async function sendJupiterSwapTransaction(
+    wallet: any,
+    connection: Connection,
+    transaction: Transaction | VersionedTransaction
+): Promise<string> {
+    // The swap was built with Jupiter's blockhash; sign against one we fetched so
+    // confirmation tracks the blockhash actually in the signed message.
+    const result = await signAndSendTransactionWithRetry(connection, async ({ blockhash }: { blockhash: string }) => {
+        console.log("[sendJupiterSwapTransaction] Requesting wallet signature...");
+        if (transaction instanceof VersionedTransaction) {
+            transaction.message.recentBlockhash = blockhash;
+        } else {
+            transaction.recentBlockhash = blockhash;
+        }
+        return wallet.signTransaction(transaction);
+    });
 
-    console.log("[executeJupiterSwap] Requesting wallet signature...");
-    const signedTx = await wallet.signTransaction(transaction);
+    console.log(`[sendJupiterSwapTransaction] --- JUPITER SWAP SUCCESSFUL! --- Signature: ${result.signature}`);
+    return result.signature;
+}
 
-    console.log("[executeJupiterSwap] Sending raw transaction...");
-    const txSignature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: false,
-        maxRetries: 5,
-    });
+export async function executeJupiterSwap({
+    wallet,
+    connection,
+    inputMint,
+    outputMint,
+    amount,
+    slippageBps,
+    onlyGetQuote, // <-- THIS LINE WAS MISSING
+    priorityFeeMicroLamports = 1000,
+}: JupiterSwapParams): Promise<any> {
+    console.log('[executeJupiterSwap] Starting swap via Jupiter Aggregator...');
 
-    console.log("[executeJupiterSwap] Confirming transaction...");
-    const latest = await connection.getLatestBlockhashAndContext('confirmed');
-    await connection.confirmTransaction({
-        signature: txSignature,
-        blockhash: latest.value.blockhash,
-        lastValidBlockHeight: latest.value.lastValidBlockHeight,
-    }, 'confirmed');
+    const userPublicKey = wallet.publicKey;
+    if (!userPublicKey) throw new Error("Wallet not connected.");
 
-    console.log(`[executeJupiterSwap] --- JUPITER SWAP SUCCESSFUL! --- Signature: ${txSignature}`);
-    return txSignature;
-}
\ No newline at end of file
+    const quoteResponse = await getJupiterQuote(inputMint, outputMint, amount, slippageBps);
+    if (onlyGetQuote) {
+        console.log('[executeJupiterSwap] "onlyGetQuote" is true. Returning quote now.');
+        return quoteResponse;
+    }
+    const transaction = await buildJupiterSwapTransaction(quoteResponse, userPublicKey, priorityFeeMicroLamports);
+    return sendJupiterSwapTransaction(wallet, connection, transaction);
+}
@@ -0,0 +1,140 @@
+// src/utils/marketIndicators.ts
+// Rolling indicators derived from ChartDataContext's raw price ticks. They are
+// recomputed for every strategy run and exposed as `context.market.*`.
+
+export interface PriceTick {
+    timestamp: number;
+    price: number;
+    /** SOL that moved through the pool since the previous tick, if known. */
+    volume?: number;
+    /** Pool reserves (UI units) the price was derived from, if known. */
+    solReserve?: number;
+    tokenReserve?: number;
+}
+
+export interface IndicatorConfig {
+    /** SMA periods, in ticks. */
+    smaWindows: number[];
+    /** EMA periods, in ticks. */
+    emaWindows: number[];
+    /** Period (ticks) of the SMA reported as `avgPrice`. */
+    avgPriceWindow: number;
+    /** Look-back for VWAP, high/low and volatility. */
+    rollingWindowMs: number;
+}
+
+export const DEFAULT_INDICATOR_CONFIG: IndicatorConfig = {
+    smaWindows: [10, 30],
+    emaWindows: [12, 26],
+    avgPriceWindow: 20,
+    rollingWindowMs: 15 * 60 * 1000,
+};
+
+export const PRICE_CHANGE_WINDOWS = {
+    '1m': 60 * 1000,
+    '5m': 5 * 60 * 1000,
+    '15m': 15 * 60 * 1000,
+} as const;
+
+export type PriceChangeWindow = keyof typeof PRICE_CHANGE_WINDOWS;
+
+export interface MarketIndicators {
+    /** SMA over `avgPriceWindow` ticks; `null` until any tick exists. */
+    avgPrice: number | null;
+    /** SMA by period, keyed by the period in ticks. */
+    sma: Record<number, number | null>;
+    /** EMA by period, keyed by the period in ticks. */
+    ema: Record<number, number | null>;
+    /** Volume weighted average price over the rolling window. */
+    vwap: number | null;
+    high: number | null;
+    low: number | null;
+    /** Standard deviation of tick-to-tick log returns over the rolling window. */
+    volatility: number | null;
+    /** Fractional price change over each window, e.g. 0.02 for +2%. */
+    priceChange: Record<PriceChangeWindow, number | null>;
+    sampleCount: number;
+}
+
+const validTicks = (ticks: PriceTick[]) => ticks.filter(t => Number.isFinite(t.price) && t.price > 0);
+
+export function sma(prices: number[], period: number): number | null {
+    if (period <= 0 || prices.length === 0) return null;
+    const window = prices.slice(-period);
+    return window.reduce((sum, p) => sum + p, 0) / window.length;
+}
+
+/** EMA seeded with the SMA of the first `period` prices. */
+export function ema(prices: number[], period: number): number | null {
+    if (period <= 0 || prices.length < period) return null;
+    const k = 2 / (period + 1);
+    let value = prices.slice(0, period).reduce((sum, p) => sum + p, 0) / period;
+    for (let i = period; i < prices.length; i++) {
+        value = prices[i] * k + value * (1 - k);
+    }
+    return value;
+}
+
+export function vwap(ticks: PriceTick[]): number | null {
+    let weighted = 0;
+    let volume = 0;
+    for (const t of ticks) {
+        if (!t.volume || t.volume <= 0) continue;
+        weighted += t.price * t.volume;
+        volume += t.volume;
+    }
+    return volume > 0 ? weighted / volume : null;
+}
+
+export function realizedVolatility(prices: number[]): number | null {
+    if (prices.length < 3) return null;
+    const returns: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+        returns.push(Math.log(prices[i] / prices[i - 1]));
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    return Math.sqrt(variance);
+}
+
+function priceChangeSince(ticks: PriceTick[], windowMs: number): number | null {
+    if (ticks.length < 2) return null;
+    const last = ticks[ticks.length - 1];
+    const cutoff = last.timestamp - windowMs;
+    // Not enough history to cover the window yet
+    if (ticks[0].timestamp > cutoff) return null;
+    let base = ticks[0];
+    for (const t of ticks) {
+        if (t.timestamp > cutoff) break;
+        base = t;
+    }
+    return (last.price - base.price) / base.price;
+}
+
+export function computeMarketIndicators(
+    history: PriceTick[],
+    config: IndicatorConfig = DEFAULT_INDICATOR_CONFIG
+): MarketIndicators {
+    const ticks = validTicks(history);
+    const prices = ticks.map(t => t.price);
+    const lastTs = ticks.length ? ticks[ticks.length - 1].timestamp : 0;
+    const rolling = ticks.filter(t => t.timestamp >= lastTs - config.rollingWindowMs);
+    const rollingPrices = rolling.map(t => t.price);
+
+    const priceChange = {} as Record<PriceChangeWindow, number | null>;
+    for (const [label, ms] of Object.entries(PRICE_CHANGE_WINDOWS) as [PriceChangeWindow, number][]) {
+        priceChange[label] = priceChangeSince(ticks, ms);
+    }
+
+    return {
+        avgPrice: sma(prices, config.avgPriceWindow),
+        sma: Object.fromEntries(config.smaWindows.map(w => [w, sma(prices, w)])),
+        ema: Object.fromEntries(config.emaWindows.map(w => [w, ema(prices, w)])),
+        vwap: vwap(rolling),
+        high: rollingPrices.length ? Math.max(...rollingPrices) : null,
+        low: rollingPrices.length ? Math.min(...rollingPrices) : null,
+        volatility: realizedVolatility(rollingPrices),
+        priceChange,
+        sampleCount: ticks.length,
+    };
+}
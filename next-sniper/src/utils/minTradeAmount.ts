@@ -1,4 +1,7 @@
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
 import { getSimulatedPool } from './simulatedPoolStore';
+import { DEFAULT_CPMM_FEE_CONFIG, quoteExactOut } from './ammSwapCalculator';
 import type { NetworkType } from '../context/NetworkContext';
 
 /**
@@ -32,11 +35,18 @@ export function calculateMinTradeAmount(
 
   if (tokenReserve <= 0 || solReserve <= 0) return fallback;
 
-  const oneToken = 1 / Math.pow(10, tokenDecimals);
-  const denominator = 0.997 * (tokenReserve - oneToken);
-  if (denominator <= 0) return fallback;
-
-  const rawAmount = (oneToken * solReserve) / denominator;
+  // Smallest SOL input that yields one raw unit of the token
+  const toRaw = (ui: number, decimals: number) =>
+    new BN(new Decimal(ui).mul(new Decimal(10).pow(decimals)).floor().toFixed(0));
+  const quote = quoteExactOut(
+    new BN(1),
+    toRaw(solReserve, 9),
+    toRaw(tokenReserve, tokenDecimals),
+    DEFAULT_CPMM_FEE_CONFIG
+  );
+  if (!quote) return fallback;
+
+  const rawAmount = Number(quote.amountIn.toString()) / 1e9;
   if (!isFinite(rawAmount) || rawAmount <= 0) return fallback;
 
   const rounded = parseFloat(Math.max(rawAmount, 0.01).toFixed(6));
@@ -1,38 +1,172 @@
 // src/utils/priorityFee.ts
-import { Connection } from '@solana/web3.js';
+import {
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    Transaction,
+    TransactionInstruction,
+    VersionedTransaction,
+} from '@solana/web3.js';
+
+export type PriorityLevel = 'low' | 'medium' | 'high' | 'p90';
+/** A fee level, or an explicit price in micro-lamports per compute unit. */
+export type PriorityOption = PriorityLevel | number;
+
+export type PriorityFeeEstimate = Record<PriorityLevel, number>;
+
+const PRIORITY_PERCENTILES: Record<PriorityLevel, number> = {
+    low: 25,
+    medium: 50,
+    high: 75,
+    p90: 90,
+};
+
+// Used when the RPC reports no fees (idle accounts) or the request fails
+const MIN_PRIORITY_FEE_MICROLAMPORTS = 1000;
+/** Most a transaction may spend on priority fees unless the caller says otherwise. */
+export const DEFAULT_MAX_PRIORITY_FEE_SOL = 0.005;
+const MAX_COMPUTE_UNITS = 1_400_000;
+// Limit used when simulation cannot size the transaction
+const FALLBACK_COMPUTE_UNITS = 400_000;
+// Headroom over the simulated consumption; state can change before landing
+const COMPUTE_UNIT_MARGIN = 1.2;
+
+const percentile = (sorted: number[], p: number): number =>
+    sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+/**
+ * Recent priority fees at each level, in micro-lamports per CU. With
+ * `accounts`, only fees paid by transactions that write-locked those
+ * accounts (e.g. the pool and its vaults) are counted.
+ */
+export async function estimatePriorityFees(
+    connection: Connection,
+    accounts: PublicKey[] = []
+): Promise<PriorityFeeEstimate> {
+    try {
+        const fees = await connection.getRecentPrioritizationFees(
+            accounts.length > 0 ? { lockedWritableAccounts: accounts } : undefined
+        );
+        const sorted = fees.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+        const levels = {} as PriorityFeeEstimate;
+        for (const level of Object.keys(PRIORITY_PERCENTILES) as PriorityLevel[]) {
+            const fee = sorted.length > 0 ? percentile(sorted, PRIORITY_PERCENTILES[level]) : 0;
+            levels[level] = Math.max(MIN_PRIORITY_FEE_MICROLAMPORTS, Math.ceil(fee));
+        }
+        console.log(`[Priority Fee] ${sorted.length} samples over ${accounts.length} account(s):`, levels);
+        return levels;
+    } catch (error) {
+        console.error("[Priority Fee] Error fetching priority fees:", error);
+        return { low: MIN_PRIORITY_FEE_MICROLAMPORTS, medium: MIN_PRIORITY_FEE_MICROLAMPORTS, high: MIN_PRIORITY_FEE_MICROLAMPORTS, p90: MIN_PRIORITY_FEE_MICROLAMPORTS };
+    }
+}
+
+/**
+ * Price for `priority`, capped so `computeUnits` at that price costs at most
+ * `maxFeeSol`. Numbers are taken as micro-lamports and only capped.
+ */
+export async function resolvePriorityFee(
+    connection: Connection,
+    priority: PriorityOption = 'medium',
+    { accounts = [], computeUnits = FALLBACK_COMPUTE_UNITS, maxFeeSol = DEFAULT_MAX_PRIORITY_FEE_SOL }:
+        { accounts?: PublicKey[]; computeUnits?: number; maxFeeSol?: number } = {}
+): Promise<number> {
+    const price = typeof priority === 'number'
+        ? priority
+        : (await estimatePriorityFees(connection, accounts))[priority];
+    const cap = Math.floor((maxFeeSol * 1e9 * 1e6) / computeUnits);
+    if (price > cap) {
+        console.warn(`[Priority Fee] ${price} µlamports/CU exceeds the ${maxFeeSol} SOL cap for ${computeUnits} CU; using ${cap}.`);
+        return cap;
+    }
+    return price;
+}
 
 /**
- * Fetches recent priority fees from the network and returns a suggested fee.
+ * Suggested fee for the network as a whole (medium level).
  * @param connection A Solana Connection object.
  * @returns A suggested priority fee in micro-lamports, or a default value.
  */
 export async function getOptimalPriorityFee(connection: Connection): Promise<number> {
-    try {
-        // Fetch the 150 most recent priority fees
-        const priorityFees = await connection.getRecentPrioritizationFees();
+    return (await estimatePriorityFees(connection)).medium;
+}
 
-        if (priorityFees.length === 0) {
-            console.log("[Priority Fee] No recent priority fees found. Using default.");
-            return 1000; // Return a safe default if no fees are found
-        }
+const isComputeBudgetIx = (ix: TransactionInstruction) => ix.programId.equals(ComputeBudgetProgram.programId);
 
-        // Sort fees in ascending order
-        const sortedFees = priorityFees.sort((a, b) => a.prioritizationFee - b.prioritizationFee);
-        
-        // Find the fee at the 50th percentile (the median)
-        const medianFee = sortedFees[Math.floor(sortedFees.length / 2)].prioritizationFee;
+// Accounts the transaction write-locks, other than the fee payer and signers.
+function writableAccountsOf(transaction: Transaction): PublicKey[] {
+    const seen = new Map<string, PublicKey>();
+    for (const ix of transaction.instructions) {
+        if (isComputeBudgetIx(ix)) continue;
+        for (const key of ix.keys) {
+            if (key.isWritable && !key.isSigner) seen.set(key.pubkey.toBase58(), key.pubkey);
+        }
+    }
+    return [...seen.values()];
+}
 
-        // We'll use the median fee to be competitive without overpaying.
-        // Let's add a small buffer to it just in case.
-        const suggestedFee = Math.ceil(medianFee * 1.2); 
+/** Compute units the transaction consumes in simulation, or null when it cannot be simulated. */
+export async function simulateComputeUnits(connection: Connection, transaction: Transaction, payer: PublicKey): Promise<number | null> {
+    const probe = new Transaction();
+    probe.feePayer = payer;
+    probe.recentBlockhash = transaction.recentBlockhash ?? PublicKey.default.toBase58();
+    probe.add(ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }));
+    probe.add(...transaction.instructions.filter((ix) => !isComputeBudgetIx(ix)));
+    try {
+        const { value } = await connection.simulateTransaction(new VersionedTransaction(probe.compileMessage()), {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            commitment: 'confirmed',
+        });
+        if (value.err || !value.unitsConsumed) {
+            console.warn('[Priority Fee] Compute unit simulation failed:', value.err, value.logs?.slice(-3));
+            return null;
+        }
+        return value.unitsConsumed;
+    } catch (error) {
+        console.warn('[Priority Fee] Compute unit simulation error:', error);
+        return null;
+    }
+}
 
-        console.log(`[Priority Fee] Median fee: ${medianFee}, Suggested fee: ${suggestedFee}`);
-        
-        return suggestedFee;
+/**
+ * Replaces any compute budget instructions on a legacy transaction with a
+ * limit sized from simulation and a price for `priority`, estimated from the
+ * accounts the transaction writes and capped at `maxFeeSol`.
+ */
+export async function applyComputeBudget(
+    connection: Connection,
+    transaction: Transaction,
+    { priority = 'medium', maxFeeSol = DEFAULT_MAX_PRIORITY_FEE_SOL, payer }:
+        { priority?: PriorityOption; maxFeeSol?: number; payer: PublicKey }
+): Promise<{ computeUnits: number; microLamports: number }> {
+    const consumed = await simulateComputeUnits(connection, transaction, payer);
+    const computeUnits = consumed
+        ? Math.min(MAX_COMPUTE_UNITS, Math.ceil(consumed * COMPUTE_UNIT_MARGIN))
+        : FALLBACK_COMPUTE_UNITS;
+    const microLamports = await resolvePriorityFee(connection, priority, {
+        accounts: writableAccountsOf(transaction),
+        computeUnits,
+        maxFeeSol,
+    });
+    transaction.instructions = [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnits }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+        ...transaction.instructions.filter((ix) => !isComputeBudgetIx(ix)),
+    ];
+    console.log(`[Priority Fee] Compute budget: ${computeUnits} CU (simulated ${consumed ?? 'n/a'}) at ${microLamports} µlamports/CU.`);
+    return { computeUnits, microLamports };
+}
 
-    } catch (error) {
-        console.error("[Priority Fee] Error fetching priority fees:", error);
-        // Fallback to a safe default in case of an error
-        return 1000;
+/** Compute unit limit set by a built transaction's compute budget instruction, if any. */
+export function computeUnitLimitOf(transaction: VersionedTransaction): number | null {
+    const { message } = transaction;
+    for (const ix of message.compiledInstructions) {
+        const program = message.staticAccountKeys[ix.programIdIndex];
+        // SetComputeUnitLimit: discriminator 2 followed by a u32 limit
+        if (program?.equals(ComputeBudgetProgram.programId) && ix.data[0] === 2 && ix.data.length >= 5) {
+            return Buffer.from(ix.data).readUInt32LE(1);
+        }
     }
-}
\ No newline at end of file
+    return null;
+}
@@ -2,6 +2,38 @@
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 
+/** One AMM hop of a Jupiter route. Amounts are raw base-unit strings. */
+export interface JupiterRoutePlanStep {
+    swapInfo: {
+        ammKey: string;
+        label?: string;
+        inputMint: string;
+        outputMint: string;
+        inAmount: string;
+        outAmount: string;
+        feeAmount: string;
+        feeMint: string;
+    };
+    percent: number;
+}
+
+/** Jupiter v6 `/quote` response; it is posted back unchanged to `/swap`. */
+export interface JupiterQuoteResponse {
+    inputMint: string;
+    outputMint: string;
+    inAmount: string;
+    outAmount: string;
+    /** Minimum output after slippage. */
+    otherAmountThreshold: string;
+    swapMode: 'ExactIn' | 'ExactOut';
+    slippageBps: number;
+    /** Fraction, e.g. "0.012" for 1.2%. */
+    priceImpactPct: string;
+    routePlan: JupiterRoutePlanStep[];
+    contextSlot?: number;
+    timeTaken?: number;
+}
+
 /**
  * Fetches a quote from Jupiter's v6 API.
  * This function is used to check for liquidity and get a price estimate for a swap.
@@ -9,17 +41,19 @@ import BN from 'bn.js';
  * @param inputMint The public key of the input token mint.
  * @param outputMint The public key of the output token mint.
  * @param amount The amount of the input token to swap, in its smallest unit (lamports).
+ * @param slippageBps Slippage tolerance used for `otherAmountThreshold`.
  * @returns The JSON response from the Jupiter API, or null if an error occurs.
  */
 export async function getJupiterQuote(
     inputMint: PublicKey, 
     outputMint: PublicKey, 
-    amount: BN
-) {
+    amount: BN,
+    slippageBps = 50
+): Promise<JupiterQuoteResponse | null> {
     console.log(`[getJupiterQuote] Fetching quote for ${inputMint.toBase58()} -> ${outputMint.toBase58()}`);
 
     try {
-        const quoteUrl = `https://quote-api.jup.ag/v6/quote?inputMint=${inputMint.toBase58()}&outputMint=${outputMint.toBase58()}&amount=${amount.toString()}&onlyDirectRoutes=false&slippageBps=50`;
+        const quoteUrl = `https://quote-api.jup.ag/v6/quote?inputMint=${inputMint.toBase58()}&outputMint=${outputMint.toBase58()}&amount=${amount.toString()}&onlyDirectRoutes=false&slippageBps=${slippageBps}`;
 
         const response = await fetch(quoteUrl);
         if (!response.ok) {
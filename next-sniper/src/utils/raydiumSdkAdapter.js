@@ -8,17 +8,15 @@ import {
     ALL_PROGRAM_ID,    // For Mainnet (as identified from your SDK's type definitions)
     getCreatePoolKeys,
     makeCreateCpmmPoolInInstruction as makeCreateCpmmPoolIx,
-    ApiV3PoolInfoStandardItemCpmm, // Assuming these are used by your other functions
-    CpmmKeys,
-    CpmmRpcData,
     CurveCalculator,
-    TradeV2,
     Token,
     TokenAmount,
     Percent,
     fetchMultipleMintInfos,
     getPdaPoolAuthority,
-    makeSwapCpmmBaseInInstruction // Consolidating this here as well
+    makeSwapCpmmBaseInInstruction, // Consolidating this here as well
+    PoolUtils,
+    TxVersion,
 } from '@raydium-io/raydium-sdk-v2';
 
 import {
@@ -28,9 +26,7 @@ import {
     SystemProgram,
     ComputeBudgetProgram,
     VersionedTransaction,
-    Commitment, // Keep if used
     TransactionInstruction, // Keep if used
-    getParsedAccountInfo, // Keep if used by other functions
     TransactionMessage, // Keep if used
 } from '@solana/web3.js';
 
@@ -52,6 +48,9 @@ import { Buffer } from 'buffer'; // Single import for Buffer
 // Your existing local utils
 import { getSimulatedPool, setSimulatedPool, updateSimulatedPoolAfterTrade } from './simulatedPoolStore'; // Assuming this is correct
 import { createWalletAdapter } from './walletAdapter'; // Assuming this is correct
+import { DEFAULT_AMM_V4_FEE_CONFIG, quoteExactIn } from './ammSwapCalculator';
+import { signAndSendTransactionWithRetry } from './transactionUtils';
+import { applyComputeBudget } from './priorityFee';
 
 Decimal.set({ precision: 50 });
 
@@ -65,82 +64,29 @@ function replacer(key, value) {
     return value;
 }
 
-// --- Helper: Send Transaction ---
-async function sendAndConfirmSignedTransaction(connection, signedTransaction) {
-       console.log("[Helper] -> sendAndConfirmSignedTransaction - Sending...");
-    try {
-        if (!signedTransaction) throw new Error('Invalid signed transaction object');
-        const rawTransaction = signedTransaction.serialize();
-        const signature = await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 5 });
-        console.log(`[Helper] TX Sent. Sig: ${signature}. Confirming...`);
-
-        let blockhash;
-        let lastValidBlockHeight;
-        if (signedTransaction instanceof VersionedTransaction) {
-            blockhash = signedTransaction.message.recentBlockhash;
-            const fetched = await connection.getLatestBlockhash('confirmed');
-            lastValidBlockHeight = fetched.lastValidBlockHeight;
-        } else if (signedTransaction instanceof Transaction) {
-            blockhash = signedTransaction.recentBlockhash;
-            lastValidBlockHeight = signedTransaction.lastValidBlockHeight;
-            if (!lastValidBlockHeight) {
-                const fetched = await connection.getLatestBlockhash('confirmed');
-                lastValidBlockHeight = fetched.lastValidBlockHeight;
-            }
-        } else {
-            console.warn("[Helper] Unknown transaction type, attempting to fetch blockhash for confirmation.");
-            const fetched = await connection.getLatestBlockhash('confirmed');
-            blockhash = fetched.blockhash;
-            lastValidBlockHeight = fetched.lastValidBlockHeight;
-        }
-
-        if (!blockhash || !lastValidBlockHeight) {
-            throw new Error("[Helper] Could not determine blockhash or lastValidBlockHeight for confirmation.");
-        }
-
-        const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
-        if (confirmation.value.err) {
-            console.error("[Helper] TX Confirmation Error:", confirmation.value.err);
-            try {
-                const failedTx = await connection.getTransaction(signature, {maxSupportedTransactionVersion: 0, commitment: 'confirmed'});
-                console.error("[Helper] Failed TX Logs:", failedTx?.meta?.logMessages?.join('\n'));
-            } catch (logError) {
-                console.warn("Could not fetch logs for failed tx:", logError);
-            }
-            throw new Error(`TX failed confirmation: ${JSON.stringify(confirmation.value.err)}`);
-        }
-        console.log(`[Helper] ✅ TX Confirmed. Sig: ${signature}`);
-        return signature;
-    } catch (error) {
-        console.error('[Helper] send/confirm error:', error);
-        throw error;
-    }
-}
-
 // --- Helper: Sign and Send Transaction ---
-async function signAndSendTransaction(connection, wallet, transaction) {
+// `signers` are extra keypairs (e.g. temporary WSOL accounts) that must co-sign a legacy transaction.
+// Signing happens inside the shared sender so an expired blockhash can be replaced and re-signed.
+async function signAndSendTransaction(connection, wallet, transaction, signers = []) {
     if (!wallet || typeof wallet.signTransaction !== 'function') { throw new Error("Invalid wallet object provided for signing."); }
      console.log("[Helper] -> signAndSendTransaction - Signing transaction...");
+    if (!(transaction instanceof VersionedTransaction) && !(transaction instanceof Transaction)) {
+        throw new Error("[Helper] Unknown transaction type passed to signAndSendTransaction.");
+    }
     try {
-        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-
-        if (transaction instanceof VersionedTransaction) {
-            console.warn("[Helper] signAndSend received VersionedTransaction. Blockhash/FeePayer set via message. signer:", transaction.message.payerKey.toBase58());
-            if (!transaction.message.payerKey) {
-                console.warn("[Helper] VersionedTransaction message missing payerKey. Wallet PK should be used when creating TransactionMessage.");
+        const result = await signAndSendTransactionWithRetry(connection, async ({ blockhash, lastValidBlockHeight }) => {
+            if (transaction instanceof VersionedTransaction) {
+                transaction.message.recentBlockhash = blockhash;
+                if (signers.length > 0) transaction.sign(signers);
+            } else {
+                transaction.recentBlockhash = blockhash;
+                transaction.feePayer = wallet.publicKey;
+                transaction.lastValidBlockHeight = lastValidBlockHeight;
+                if (signers.length > 0) transaction.partialSign(...signers);
             }
-        } else if (transaction instanceof Transaction) {
-            transaction.recentBlockhash = blockhash;
-            transaction.feePayer = wallet.publicKey;
-            transaction.lastValidBlockHeight = lastValidBlockHeight;
-            console.log("[Helper] signAndSend received legacy Transaction. Blockhash/FeePayer set.");
-        } else {
-            throw new Error("[Helper] Unknown transaction type passed to signAndSendTransaction.");
-        }
-
-        const signedTx = await wallet.signTransaction(transaction);
-        console.log("[Helper] Transaction signed. Sending...");
-        return await sendAndConfirmSignedTransaction(connection, signedTx);
+            return wallet.signTransaction(transaction);
+        }, { skipPreflight: true });
+        return result.signature;
     } catch (error) {
         console.error('[Helper] signAndSend error:', error);
         throw error;
@@ -299,7 +245,7 @@ export const createRaydiumPool = async (
     tokenDecimals,
     tokenAmountBN,
     solLamportsBN,
-    priorityFeeMicroLamports = 50000,
+    priority = 'medium',
 ) => {
     console.log('[CreatePool vXX] Starting (Bundled TX)...');
     const startTime = new BN(Math.floor(Date.now() / 1000));
@@ -352,16 +298,13 @@ export const createRaydiumPool = async (
         console.log('[CreatePool vXX] Building and sending bundled transaction...');
         const transaction = new Transaction();
         transaction.feePayer = ownerPublicKey;
-        transaction.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 800000 }));
-        transaction.add(
-            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFeeMicroLamports })
-        );
         if (setupInstructions.length > 0) {
             transaction.add(...setupInstructions);
         }
         transaction.add(createPoolInstruction);
         const { blockhash } = await connection.getLatestBlockhash('confirmed');
         transaction.recentBlockhash = blockhash;
+        await applyComputeBudget(connection, transaction, { priority, payer: ownerPublicKey });
 
         const txId = await signAndSendTransaction(connection, wallet, transaction);
         console.log(`[CreatePool vXX] ✅ Pool creation TX sent! TxID: ${txId}`);
@@ -460,35 +403,384 @@ export const createRaydiumPool = async (
     }
 };
 
-// --- Swap Raydium Tokens ---
-export const swapRaydiumTokens = async (
-    wallet, connection, poolIdString, inputMintAddress, amountInBN, slippage, priorityFeeMicroLamports = 50000
+// --- Pool kind routing ---
+const CLMM_PROGRAM_IDS = [ALL_PROGRAM_ID.CLMM_PROGRAM_ID, DEVNET_PROGRAM_ID.CLMM].map((id) => id.toBase58());
+const AMM_V4_PROGRAM_IDS = [ALL_PROGRAM_ID.AMM_V4, DEVNET_PROGRAM_ID.AmmV4].map((id) => id.toBase58());
+
+export const isClmmProgram = (programId) => !!programId && CLMM_PROGRAM_IDS.includes(programId.toString());
+export const isAmmV4Program = (programId) => !!programId && AMM_V4_PROGRAM_IDS.includes(programId.toString());
+
+/**
+ * Resolve which swap path a pool needs, using poolFinder's `poolType` when the
+ * caller has it and the pool account's owner program otherwise.
+ * Returns 'concentrated', 'standard' (AMM v4) or 'cpmm'.
+ */
+export const resolveRaydiumPoolKind = async (connection, poolIdString, poolType) => {
+    if (poolType === 'concentrated' || poolType === 'standard' || poolType === 'cpmm') return poolType;
+    const poolAccount = await connection.getAccountInfo(new PublicKey(poolIdString));
+    if (poolAccount && isClmmProgram(poolAccount.owner)) return 'concentrated';
+    if (poolAccount && isAmmV4Program(poolAccount.owner)) return 'standard';
+    return 'cpmm';
+};
+
+// --- AMM v4 (legacy Raydium) ---
+/**
+ * Exact-in quote for an AMM v4 pool from its on-chain state. Uses the pool's
+ * swap fee and reserves net of pending PnL, priced by `quoteExactIn`.
+ */
+export const quoteRaydiumAmmV4Swap = async (raydium, poolIdString, inputMintAddress, amountInBN, slippage) => {
+    const FN_NAME = '[Swap AMMv4 Quote]';
+    const { poolRpcData, poolInfo, poolKeys } = await raydium.liquidity.getPoolInfoFromRpc({ poolId: poolIdString });
+    if (poolInfo.version !== 4) {
+        throw new Error(`${FN_NAME} Pool ${poolIdString} is not an AMM v4 pool (version ${poolInfo.version})`);
+    }
+    const baseIn = inputMintAddress === poolInfo.mintA.address;
+    if (!baseIn && inputMintAddress !== poolInfo.mintB.address) {
+        throw new Error(`${FN_NAME} Input mint ${inputMintAddress} is not in pool ${poolIdString}`);
+    }
+    const fees = poolRpcData.swapFeeDenominator && !poolRpcData.swapFeeDenominator.isZero()
+        ? {
+            ...DEFAULT_AMM_V4_FEE_CONFIG,
+            tradeFee: { numerator: poolRpcData.swapFeeNumerator, denominator: poolRpcData.swapFeeDenominator },
+        }
+        : DEFAULT_AMM_V4_FEE_CONFIG;
+    const [reserveIn, reserveOut] = baseIn
+        ? [poolRpcData.baseReserve, poolRpcData.quoteReserve]
+        : [poolRpcData.quoteReserve, poolRpcData.baseReserve];
+    const quote = quoteExactIn(amountInBN, reserveIn, reserveOut, fees);
+    if (!quote) throw new Error(`${FN_NAME} Pool ${poolIdString} has no liquidity or the amount is invalid`);
+
+    const minAmountOut = new BN(new Decimal(quote.amountOut.toString()).mul(new Decimal(1).minus(slippage)).floor().toFixed(0));
+    const spotOut = new Decimal(reserveOut.toString()).div(reserveIn.toString()).mul(amountInBN.toString());
+    const priceImpact = spotOut.isZero() ? new Decimal(1) : spotOut.minus(quote.amountOut.toString()).div(spotOut);
+    console.log(`${FN_NAME} amountIn=${amountInBN.toString()} amountOut=${quote.amountOut.toString()} minOut=${minAmountOut.toString()} fee=${quote.tradeFee.toString()}`);
+    return { poolInfo, poolKeys, amountOut: quote.amountOut, minAmountOut, tradeFee: quote.tradeFee, priceImpact };
+};
+
+const buildAmmV4SwapTransaction = async (
+    raydium, poolIdString, inputMintAddress, amountInBN, slippage
 ) => {
-    console.log(`[Swap Raydium] ---> Start`);
-    // Ensure currentNetwork is passed to initRaydiumSdk if it's not using a global/contextual one
-    // For now, assuming 'connection' implies the correct network context for initRaydiumSdk
-    // or that initRaydiumSdk is called correctly with network elsewhere.
-    // If initRaydiumSdk is called inside here, it needs the currentNetwork.
-    // However, your log shows it's called from handleWalletConnected in page.tsx.
-
-    // The rest of your swapRaydiumTokens function relies on raydium.cpmm.getPoolInfoFromRpc
-    // and raydium.cpmm.computeSwapAmount. These will use the Raydium SDK instance
-    // that was initialized (hopefully correctly for the current network).
-
-    // We will need to ensure that the Raydium SDK instance used here
-    // (const raydium = await initRaydiumSdk(wallet, connection, currentNetwork);)
-    // is initialized with the correct network context.
-    // This function IS ALREADY CALLING initRaydiumSdk:
-    // const raydium = await initRaydiumSdk(wallet, connection); // OLD
-    // IT NEEDS TO BE:
-    // const currentNetwork = connection.rpcEndpoint.includes('mainnet') ? 'mainnet-beta' : 'devnet'; // Simplistic check
-    // const raydium = await initRaydiumSdk(wallet, connection, currentNetwork);
-
-    // For now, I will assume that the `connection` object passed to this function
-    // has already been correctly set by the NetworkContext (devnet or mainnet).
-    // The `initRaydiumSdk` called within this `swapRaydiumTokens` function MUST
-    // receive the correct `currentNetwork` string.
+    const FN_NAME = '[Swap AMMv4]';
+    const { poolInfo, poolKeys, amountOut, minAmountOut } = await quoteRaydiumAmmV4Swap(
+        raydium, poolIdString, inputMintAddress, amountInBN, slippage
+    );
+    if (amountOut.isZero()) {
+        throw new Error("Swap calculation resulted in zero output tokens. Amount may be too small.");
+    }
+    const { transaction, signers } = await raydium.liquidity.swap({
+        poolInfo,
+        poolKeys,
+        amountIn: amountInBN,
+        amountOut: minAmountOut,
+        fixedSide: 'in',
+        inputMint: inputMintAddress,
+        config: { associatedOnly: true, inputUseSolBalance: true, outputUseSolBalance: true },
+        txVersion: TxVersion.LEGACY,
+    });
+    console.log(`${FN_NAME} Built swap transaction with ${transaction.instructions.length} instructions.`);
+    return { transaction, signers };
+};
+
+// --- CLMM (concentrated liquidity) ---
+
+/**
+ * Exact-in quote for a CLMM pool. Tick arrays around the current price are
+ * loaded with the pool so the quote can walk across initialized ticks; the
+ * arrays the swap crosses are returned as `remainingAccounts`.
+ *
+ * `priceLimit` is a price in SOL per token: the highest price a buy may reach
+ * or the lowest a sell may reach. The swap stops there and `allTrade` is false.
+ */
+export const quoteRaydiumClmmSwap = async (raydium, poolIdString, inputMintAddress, amountInBN, slippage, { priceLimit } = {}) => {
+    const FN_NAME = '[Swap CLMM Quote]';
+    const { poolInfo, poolKeys, computePoolInfo, tickData } = await raydium.clmm.getPoolInfoFromRpc(poolIdString);
+    let tickArrayCache = tickData?.[poolIdString];
+    if (!tickArrayCache) {
+        console.log(`${FN_NAME} Tick arrays missing from pool info, fetching...`);
+        const fetched = await PoolUtils.fetchMultiplePoolTickArrays({ connection: raydium.connection, poolKeys: [computePoolInfo] });
+        tickArrayCache = fetched[poolIdString];
+    }
+    if (!tickArrayCache) throw new Error(`${FN_NAME} Could not load tick arrays for pool ${poolIdString}`);
+
+    const solMint = NATIVE_MINT.toBase58();
+    if (poolInfo.mintA.address !== solMint && poolInfo.mintB.address !== solMint) {
+        throw new Error(`${FN_NAME} Pool ${poolIdString} is not paired with SOL`);
+    }
+    if (inputMintAddress !== poolInfo.mintA.address && inputMintAddress !== poolInfo.mintB.address) {
+        throw new Error(`${FN_NAME} Input mint ${inputMintAddress} is not in pool ${poolIdString}`);
+    }
+
+    // The SDK limit is a price of mintA in mintB
+    let poolPriceLimit;
+    if (priceLimit !== undefined && priceLimit !== null) {
+        const limit = new Decimal(priceLimit);
+        if (!limit.gt(0)) throw new Error(`${FN_NAME} priceLimit must be positive`);
+        poolPriceLimit = poolInfo.mintB.address === solMint ? limit : new Decimal(1).div(limit);
+    }
+
+    const epochInfo = await raydium.fetchEpochInfo();
+    const quote = PoolUtils.computeAmountOut({
+        poolInfo: computePoolInfo,
+        tickArrayCache,
+        baseMint: new PublicKey(inputMintAddress),
+        epochInfo,
+        amountIn: amountInBN,
+        slippage,
+        priceLimit: poolPriceLimit,
+        catchLiquidityInsufficient: true,
+    });
+    console.log(`${FN_NAME} amountIn=${quote.realAmountIn.amount.toString()} amountOut=${quote.amountOut.amount.toString()} minOut=${quote.minAmountOut.amount.toString()} allTrade=${quote.allTrade} tickArrays=${quote.remainingAccounts.length}`);
+    return { poolInfo, poolKeys, computePoolInfo, quote, poolPriceLimit };
+};
+
+const buildClmmSwapTransaction = async (
+    raydium, poolIdString, inputMintAddress, amountInBN, slippage, options
+) => {
+    const FN_NAME = '[Swap CLMM]';
+    const { poolInfo, poolKeys, computePoolInfo, quote, poolPriceLimit } = await quoteRaydiumClmmSwap(
+        raydium, poolIdString, inputMintAddress, amountInBN, slippage, options
+    );
+    if (quote.amountOut.amount.isZero()) {
+        throw new Error("Swap calculation resulted in zero output tokens. Amount may be too small.");
+    }
+    if (!quote.allTrade) {
+        console.warn(`${FN_NAME} Price limit reached: only ${quote.realAmountIn.amount.toString()} of ${amountInBN.toString()} will be swapped.`);
+    }
+
+    const { transaction, signers } = await raydium.clmm.swap({
+        poolInfo,
+        poolKeys,
+        inputMint: inputMintAddress,
+        amountIn: amountInBN,
+        amountOutMin: quote.minAmountOut.amount,
+        priceLimit: poolPriceLimit,
+        observationId: computePoolInfo.observationId,
+        ownerInfo: { useSOLBalance: true },
+        remainingAccounts: quote.remainingAccounts,
+        txVersion: TxVersion.LEGACY,
+    });
+    console.log(`${FN_NAME} Built swap transaction with ${transaction.instructions.length} instructions.`);
+    return { transaction, signers };
+};
+
+// --- CPMM (constant product) ---
+// Loads the pool with live vault reserves in the shape `raydium.cpmm.computeSwapAmount` expects.
+const loadCpmmComputePool = async (raydium, connection, poolIdString) => {
+    // --- Step 3: Fetch Pool Info, etc. ---
+    console.log(`[vXX Log Step 3] Fetching TARGET CPMM pool info for ID: ${poolIdString}...`);
+    if (!raydium.cpmm || typeof raydium.cpmm.getPoolInfoFromRpc !== 'function') {
+         throw new Error("[vXX Log Step 3] CPMM module or getPoolInfoFromRpc function not found on Raydium SDK instance.");
+    }
+    const directFetchResult = await raydium.cpmm.getPoolInfoFromRpc(poolIdString);
+    if (!directFetchResult || !directFetchResult.poolInfo) {
+        throw new Error(`[vXX Log Step 3] Target CPMM pool ${poolIdString} not found via direct RPC.`);
+    }
+    console.log(`[vXX Log Step 3] Fetched raw pool info successfully.`);
+    const rawPoolInfo = directFetchResult.poolInfo;
+    let onChainStatusByte = -1; 
+    console.log(`[vXX Log Step 3 - Status Check] Raw Pool Status from getPoolInfoFromRpc: ${rawPoolInfo.status}, On-chain status byte: ${onChainStatusByte}`);
+    console.log(`[vXX Log Step 3] Raw Info Snippet: id=${rawPoolInfo.id}, status=${rawPoolInfo.status}, mintA=${rawPoolInfo.mintA?.address}, mintB=${rawPoolInfo.mintB?.address}, lpMint=${rawPoolInfo.lpMint?.address}, configId=${rawPoolInfo.config?.id}`);
+    console.log(`[vXX Log Step 3a] Preparing mint PublicKeys...`);
+    const requiredFields = ['mintA.address', 'mintB.address', 'lpMint.address', 'config.id', 'programId', 'id'];
+    for (const fieldPath of requiredFields) {
+         const fields = fieldPath.split('.');
+         let current = rawPoolInfo;
+         for (const field of fields) {
+             if (current === null || typeof current !== 'object' || !current.hasOwnProperty(field) || !current[field]) {
+                 throw new Error(`[vXX Log Step 3a] Missing required field in rawPoolInfo: ${fieldPath}`);
+             }
+             current = current[field];
+         }
+          if (fieldPath.includes('address') || fieldPath.includes('id') || fieldPath.includes('programId')) {
+              if (typeof current !== 'string' || current.trim() === '') {
+                 throw new Error(`[vXX Log Step 3a] Invalid or empty string for field: ${fieldPath}`);
+              }
+          }
+     }
+     const mintA_pk = new PublicKey(rawPoolInfo.mintA.address);
+     const mintB_pk = new PublicKey(rawPoolInfo.mintB.address);
+     const lpMint_pk = new PublicKey(rawPoolInfo.lpMint.address);
+     const configId_pk = new PublicKey(rawPoolInfo.config.id);
+     const programId_pk = new PublicKey(rawPoolInfo.programId);
+     const poolId_pk = new PublicKey(rawPoolInfo.id);
+     console.log(`[vXX Log Step 3a] PublicKeys prepared: mintA=${mintA_pk}, mintB=${mintB_pk}, lpMint=${lpMint_pk}, configId=${configId_pk}, programId=${programId_pk}, poolId=${poolId_pk}`);
+     console.log(`[vXX Log Step 3b] Deriving missing keys using getCreatePoolKeys...`);
+     const derivedKeys = getCreatePoolKeys({ programId: programId_pk, configId: configId_pk, mintA: mintA_pk, mintB: mintB_pk });
+     console.log(`[vXX Log Step 3b] Derived Keys: Authority=${derivedKeys.authority.toBase58()}, VaultA=${derivedKeys.vaultA.toBase58()}, VaultB=${derivedKeys.vaultB.toBase58()}, ObsId=${derivedKeys.observationId.toBase58()}`);
+     console.log(`[vXX Log Step 3c] Fetching live reserves from derived vaults (VaultA: ${derivedKeys.vaultA.toBase58()}, VaultB: ${derivedKeys.vaultB.toBase58()})...`);
+     const vaultABalancePromise = connection.getTokenAccountBalance(derivedKeys.vaultA, 'confirmed');
+     const vaultBBalancePromise = connection.getTokenAccountBalance(derivedKeys.vaultB, 'confirmed');
+     const [vaultABalanceResponse, vaultBBalanceResponse] = await Promise.all([vaultABalancePromise, vaultBBalancePromise]);
+     if (!vaultABalanceResponse?.value?.amount || !vaultBBalanceResponse?.value?.amount) {
+         console.error("[vXX Log Step 3c] Failed to fetch vault balances!", { vaultABalanceResponse, vaultBBalanceResponse });
+         throw new Error("[vXX Log Step 3c] Could not fetch live reserves from pool vaults.");
+     }
+     const baseReserveLive = new BN(vaultABalanceResponse.value.amount);
+     const quoteReserveLive = new BN(vaultBBalanceResponse.value.amount);
+     console.log(`[vXX Log Step 3c] Fetched live reserves: Base (WSOL)=${baseReserveLive.toString()}, Quote (Token)=${quoteReserveLive.toString()}`);
+     console.log(`[vXX Log Step 3d] Preparing to fetch mint info for mints: ${mintA_pk}, ${mintB_pk}, ${lpMint_pk}...`);
+     const mintsToFetch = [mintA_pk, mintB_pk, lpMint_pk];
+     const mintInfos = await fetchMultipleMintInfos({connection, mints: mintsToFetch});
+     console.log(`[vXX Log Step 3d] Fetched mint info: MintA Decimals=${mintInfos[mintA_pk.toBase58()]?.decimals}, MintB Decimals=${mintInfos[mintB_pk.toBase58()]?.decimals}, LpMint Decimals=${mintInfos[lpMint_pk.toBase58()]?.decimals}`);
+     console.log(`[vXX Log Step 3e] Manually constructing pool info for compute...`);
+     if (mintInfos[mintA_pk.toBase58()]?.decimals === undefined || mintInfos[mintB_pk.toBase58()]?.decimals === undefined || mintInfos[lpMint_pk.toBase58()]?.decimals === undefined) {
+         throw new Error("[vXX Log Step 3e] Missing decimals from fetched mintInfos.");
+     }
+     const mintProgramA = mintInfos[mintA_pk.toBase58()]?.programId || new PublicKey(rawPoolInfo.mintA.programId);
+     const mintProgramB = mintInfos[mintB_pk.toBase58()]?.programId || new PublicKey(rawPoolInfo.mintB.programId);
+     const poolInfoCompute = {
+         id: poolId_pk, programId: programId_pk, configId: configId_pk, observationId: derivedKeys.observationId, authority: derivedKeys.authority,
+         mintA: { address: mintA_pk, decimals: mintInfos[mintA_pk.toBase58()].decimals, programId: mintProgramA },
+         mintB: { address: mintB_pk, decimals: mintInfos[mintB_pk.toBase58()].decimals, programId: mintProgramB },
+         mintLp: { address: lpMint_pk, decimals: mintInfos[lpMint_pk.toBase58()].decimals, programId: mintInfos[lpMint_pk.toBase58()]?.programId || new PublicKey(rawPoolInfo.lpMint.programId) },
+         vaultA: derivedKeys.vaultA, vaultB: derivedKeys.vaultB, baseReserve: baseReserveLive, quoteReserve: quoteReserveLive,
+         lpAmount: rawPoolInfo.lpAmount ? new BN(rawPoolInfo.lpAmount.toString()) : new BN(0),
+         status: (onChainStatusByte === 0) ? new BN(0) : (rawPoolInfo.status ? new BN(rawPoolInfo.status.toString()) : new BN(0)),
+         configInfo: {
+              id: configId_pk, index: rawPoolInfo.config?.index ?? 0,
+              tradeFeeRate: new BN(rawPoolInfo.config.tradeFeeRate.toString()), protocolFeeRate: new BN(rawPoolInfo.config.protocolFeeRate.toString()),
+              fundFeeRate: new BN(rawPoolInfo.config.fundFeeRate.toString()), createPoolFee: new BN(rawPoolInfo.config.createPoolFee.toString())
+         },
+          tradeFeeRate: new BN(rawPoolInfo.config.tradeFeeRate.toString()), protocolFeeRate: new BN(rawPoolInfo.config.protocolFeeRate.toString()),
+          fundFeeRate: new BN(rawPoolInfo.config.fundFeeRate.toString()),
+         openTime: rawPoolInfo.openTime ? new BN(rawPoolInfo.openTime.toString()) : new BN(0),
+         poolPrice: rawPoolInfo.poolPrice instanceof Decimal ? rawPoolInfo.poolPrice : new Decimal(rawPoolInfo.poolPrice || 0),
+         version: 7, mintDecimalA: mintInfos[mintA_pk.toBase58()].decimals, mintDecimalB: mintInfos[mintB_pk.toBase58()].decimals,
+         mintProgramA: mintProgramA, mintProgramB: mintProgramB,
+     };
+     console.log(`[vXX Log Step 3e] Manually constructed poolInfoCompute. ID: ${poolInfoCompute.id.toBase58()}, BaseReserve (WSOL)=${poolInfoCompute.baseReserve.toString()}, QuoteReserve (Token)=${poolInfoCompute.quoteReserve.toString()}, Status=${poolInfoCompute.status.toString()}, TradeFee=${poolInfoCompute.tradeFeeRate.toString()}`);
+    return poolInfoCompute;
+};
+
+export const quoteRaydiumCpmmSwap = async (raydium, connection, poolIdString, inputMintAddress, amountInBN, slippage) => {
+    const poolInfoCompute = await loadCpmmComputePool(raydium, connection, poolIdString);
+
+    // --- Step 4: Define Input/Output Mints ---
+    console.log("[vXX Log Step 4] Defining input/output mints and decimals...");
+    const inputMintPk = new PublicKey(inputMintAddress);
+    const baseIn = inputMintPk.equals(poolInfoCompute.mintA.address);
+    const outputMintPk = baseIn ? poolInfoCompute.mintB.address : poolInfoCompute.mintA.address;
+    console.log(`[vXX Log Step 4] Input Mint: ${inputMintPk.toBase58()}, Output Mint: ${outputMintPk.toBase58()}`);
+    console.log(`[vXX Log Step 4] Is Input MintA (WSOL)? baseIn = ${baseIn}`);
+    const inputDecimals = baseIn ? poolInfoCompute.mintA.decimals : poolInfoCompute.mintB.decimals;
+    const outputDecimals = baseIn ? poolInfoCompute.mintB.decimals : poolInfoCompute.mintA.decimals;
+    console.log(`[vXX Log Step 4] Input Decimals: ${inputDecimals}, Output Decimals: ${outputDecimals}`);
+    let inputToken = new Token({ mint: inputMintPk, decimals: inputDecimals });
+    let outputToken = new Token({ mint: outputMintPk, decimals: outputDecimals });
+    console.log("[vXX Log Step 5] inputToken/outputToken created successfully.");
+
+    // --- Step 6: Creating TokenAmount for amountIn ---
+    console.log("[vXX Log Step 6] Creating TokenAmount for amountIn...");
+    const amountIn = new TokenAmount(inputToken, amountInBN, true);
+    console.log(`[vXX Log Step 6] Created TokenAmount. Input Raw: ${amountIn.raw.toString()}, Input Exact: ${amountIn.toExact()} for ${inputToken.mint.toBase58()}`);
+
+    // --- Step 7: Compute Swap Amount ---
+    console.log('[vXX Log Step 7] Preparing to compute swap amounts...');
+    if (poolInfoCompute.baseReserve.isZero() || poolInfoCompute.quoteReserve.isZero()) {
+       console.error(`[vXX Log Step 7] Pool has zero reserves! Base: ${poolInfoCompute.baseReserve.toString()}, Quote: ${poolInfoCompute.quoteReserve.toString()}. Cannot calculate swap.`);
+       throw new Error("Pool has zero reserves, cannot compute swap amount.");
+    }
+    console.log('[vXX Log Step 7] Calling raydium.cpmm.computeSwapAmount...');
+    if (!raydium.cpmm || typeof raydium.cpmm.computeSwapAmount !== 'function') {
+        throw new Error("[vXX Log Step 7] computeSwapAmount function not found on Raydium CPMM module.");
+    }
+   const computeResult = raydium.cpmm.computeSwapAmount({
+        pool: poolInfoCompute, amountIn: amountIn.raw, outputMint: outputMintPk,
+        slippage: slippage, inputMint: inputMintPk, amountType: 'in'
+    });
+   const amountOutMin = computeResult.minAmountOut;
+   const amountOutCalculated = computeResult.amountOut;
+   console.log(`[vXX Log Step 7 - Compute] Computed amountOut: ${amountOutCalculated.toString()}, minAmountOut: ${amountOutMin.toString()}`);
+   console.log('[vXX Log Step 7] Compute Result:', JSON.stringify(computeResult, replacer, 2));
+    return { poolInfoCompute, baseIn, inputMintPk, outputMintPk, amountIn, computeResult };
+};
 
+const buildCpmmSwapTransaction = async (
+    wallet, connection, raydium, poolIdString, inputMintAddress, amountInBN, slippage
+) => {
+    const ownerPublicKey = wallet.publicKey;
+    const { poolInfoCompute, baseIn, inputMintPk, outputMintPk, amountIn, computeResult } = await quoteRaydiumCpmmSwap(
+        raydium, connection, poolIdString, inputMintAddress, amountInBN, slippage
+    );
+    const amountOutMin = computeResult.minAmountOut;
+    if (computeResult.amountOut.isZero()) {
+        console.error("[vXX Log Step 7] Computed output amount is zero. Aborting swap.");
+        throw new Error("Swap calculation resulted in zero output tokens. Amount may be too small.");
+    }
+
+    // --- Step 8: Get User ATA Addresses ---
+   console.log('[vXX Log Step 8] Getting user ATA addresses and collecting setup instructions...');
+    const setupInstructions = [];
+    const cleanupInstructions = [];
+    let userSourceAta;
+    let userDestAta;
+    if (baseIn) {
+        console.log(`[vXX Log Step 8] Buy swap (SOL -> Token). Input is Base.`);
+        const wsolAta = await getAssociatedTokenAddress(NATIVE_MINT, ownerPublicKey, false, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID);
+        const wsolInfo = await connection.getAccountInfo(wsolAta);
+        if (!wsolInfo) {
+            setupInstructions.push(createAssociatedTokenAccountInstruction(ownerPublicKey, wsolAta, ownerPublicKey, NATIVE_MINT, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID));
+        }
+        setupInstructions.push(SystemProgram.transfer({ fromPubkey: ownerPublicKey, toPubkey: wsolAta, lamports: amountInBN }));
+        setupInstructions.push(createSyncNativeInstruction(wsolAta, TOKEN_PROGRAM_ID));
+        cleanupInstructions.push(createCloseAccountInstruction(wsolAta, ownerPublicKey, ownerPublicKey, [], TOKEN_PROGRAM_ID));
+        userSourceAta = wsolAta;
+        const { address: tokenAta, instruction: tokenCreateInstruction } = await getAtaAddressAndCreateInstruction(connection, ownerPublicKey, outputMintPk.toBase58());
+        userDestAta = tokenAta;
+        if (tokenCreateInstruction) setupInstructions.push(tokenCreateInstruction);
+    } else {
+        console.log(`[vXX Log Step 8] Sell swap (Token -> SOL). Input is Quote.`);
+        const { address: tokenAta, instruction: tokenCreateInstruction } = await getAtaAddressAndCreateInstruction(connection, ownerPublicKey, inputMintPk.toBase58());
+        userSourceAta = tokenAta;
+        if (tokenCreateInstruction) setupInstructions.push(tokenCreateInstruction);
+        const wsolAta = await getAssociatedTokenAddress(NATIVE_MINT, ownerPublicKey, false, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID);
+        const wsolInfo = await connection.getAccountInfo(wsolAta);
+        if (!wsolInfo) {
+            setupInstructions.push(createAssociatedTokenAccountInstruction(ownerPublicKey, wsolAta, ownerPublicKey, NATIVE_MINT, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID));
+        }
+        cleanupInstructions.push(createCloseAccountInstruction(wsolAta, ownerPublicKey, ownerPublicKey, [], TOKEN_PROGRAM_ID));
+        userDestAta = wsolAta;
+    }
+    console.log(`[vXX Log Step 8] Determined ATAs - Source: ${userSourceAta?.toBase58()}, Dest: ${userDestAta?.toBase58()}. Collected ${setupInstructions.length} setup instructions, ${cleanupInstructions.length} cleanup instructions.`);
+
+    // --- Step 9: Prepare the Swap Instruction ---
+    console.log('[vXX Log Step 9] Preparing swap instruction...');
+    let instructionVaultA, instructionVaultB, instructionMintA, instructionMintB;
+    if (baseIn) {
+        console.log(">>> vXX Debug: BUY (SOL -> Token) swap - Instruction accounts ordered Base, Quote.");
+        instructionVaultA = poolInfoCompute.vaultA; instructionVaultB = poolInfoCompute.vaultB;
+        instructionMintA = poolInfoCompute.mintA.address; instructionMintB = poolInfoCompute.mintB.address;
+    } else {
+        console.log(">>> vXX Debug: SELL (Token -> SOL) swap - Instruction accounts ordered Quote, Base (due to instruction design).");
+        instructionVaultA = poolInfoCompute.vaultB; instructionVaultB = poolInfoCompute.vaultA;
+        instructionMintA = poolInfoCompute.mintB.address; instructionMintB = poolInfoCompute.mintA.address;
+    }
+    console.log(`[vXX Log Step 9] Instruction Params: programId=${poolInfoCompute.programId}, owner=${ownerPublicKey}, authority=${poolInfoCompute.authority}, configId=${poolInfoCompute.configId}, poolId=${poolInfoCompute.id}, userSrc=${userSourceAta}, userDest=${userDestAta}, vaultA=${instructionVaultA}, vaultB=${instructionVaultB}, mintProgramA=${poolInfoCompute.mintProgramA}, mintProgramB=${poolInfoCompute.mintProgramB}, mintA=${instructionMintA}, mintB=${instructionMintB}, obsId=${poolInfoCompute.observationId}, amountIn=${amountIn.raw}, minAmountOut=${amountOutMin}`);
+    const swapInstruction = makeSwapCpmmBaseInInstruction(
+        poolInfoCompute.programId, ownerPublicKey, poolInfoCompute.authority, poolInfoCompute.configId, poolInfoCompute.id,
+        userSourceAta, userDestAta, instructionVaultA, instructionVaultB,
+        poolInfoCompute.mintProgramA, poolInfoCompute.mintProgramB, instructionMintA, instructionMintB,
+        poolInfoCompute.observationId, amountIn.raw, amountOutMin
+    );
+
+    // --- Step 10: Build the Bundled Transaction ---
+    console.log('[vXX Log Step 10] Preparing bundled transaction...');
+    const transaction = new Transaction();
+    transaction.feePayer = ownerPublicKey;
+ if (setupInstructions.length > 0) {
+        transaction.add(...setupInstructions);
+    }
+    transaction.add(swapInstruction);
+    if (cleanupInstructions.length > 0) {
+        transaction.add(...cleanupInstructions);
+    }
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    return { transaction, signers: [] };
+};
+
+// Loads an SDK instance for the network the connection points at.
+const initRaydiumSdkForConnection = async (wallet, connection) => {
     // A BETTER PATTERN: initRaydiumSdk should ideally be called once when the network/wallet changes
     // and the SDK instance reused, rather than re-initialized in every swap/pool creation.
     // But to minimize changes to your existing structure for now:
@@ -507,223 +799,120 @@ export const swapRaydiumTokens = async (
     console.log(`[Swap Raydium] Determined network for SDK init inside swap: ${currentNetworkForSwap}`);
     const raydium = await initRaydiumSdk(wallet, connection, currentNetworkForSwap); // Pass determined network
     if (!raydium) { throw new Error("[Swap Raydium] Raydium SDK failed to initialize within swap function"); }
+    return raydium;
+};
 
+/**
+ * Quote for any Raydium pool kind, normalized to raw `amountOut` /
+ * `minAmountOut` BNs, the pool's trade `fee` in raw input units and a
+ * fractional `priceImpact` (Decimal).
+ */
+export const quoteRaydiumSwap = async (
+    wallet, connection, poolIdString, inputMintAddress, amountInBN, slippage, options = {}
+) => {
+    const raydium = await initRaydiumSdkForConnection(wallet, connection);
+    const poolKind = await resolveRaydiumPoolKind(connection, poolIdString, options.poolType);
+    if (poolKind === 'concentrated') {
+        const { quote } = await quoteRaydiumClmmSwap(raydium, poolIdString, inputMintAddress, amountInBN, slippage, options);
+        return {
+            poolKind,
+            amountIn: quote.realAmountIn.amount,
+            amountOut: quote.amountOut.amount,
+            minAmountOut: quote.minAmountOut.amount,
+            fee: quote.fee,
+            priceImpact: new Decimal(quote.priceImpact.toFixed(6)).div(100),
+        };
+    }
+    if (poolKind === 'standard') {
+        const { amountOut, minAmountOut, tradeFee, priceImpact } = await quoteRaydiumAmmV4Swap(
+            raydium, poolIdString, inputMintAddress, amountInBN, slippage
+        );
+        return { poolKind, amountIn: amountInBN, amountOut, minAmountOut, fee: tradeFee, priceImpact };
+    }
+    const { poolInfoCompute, baseIn, computeResult } = await quoteRaydiumCpmmSwap(
+        raydium, connection, poolIdString, inputMintAddress, amountInBN, slippage
+    );
+    const [reserveIn, reserveOut] = baseIn
+        ? [poolInfoCompute.baseReserve, poolInfoCompute.quoteReserve]
+        : [poolInfoCompute.quoteReserve, poolInfoCompute.baseReserve];
+    const spotOut = new Decimal(reserveOut.toString()).div(reserveIn.toString()).mul(amountInBN.toString());
+    return {
+        poolKind,
+        amountIn: amountInBN,
+        amountOut: computeResult.amountOut,
+        minAmountOut: computeResult.minAmountOut,
+        fee: computeResult.fee,
+        priceImpact: spotOut.isZero() ? new Decimal(1) : spotOut.minus(computeResult.amountOut.toString()).div(spotOut),
+    };
+};
 
-    // ... (rest of your existing swapRaydiumTokens function, starting from the console.log for Step 2)
-    // Ensure all calls like raydium.cpmm.getPoolInfoFromRpc use this correctly initialized 'raydium' instance.
-    // The PublicKey creations and other logic should be fine.
-
-    // PASTE THE REST OF YOUR swapRaydiumTokens FUNCTION (from "console.log("[vXX Log Step 2] Checking Wallet Public Key...");" onwards)
-    // The following is a placeholder to indicate where your existing logic goes.
-    // For brevity, I'm not pasting your entire long swap function again here.
-    // The key change was ensuring `initRaydiumSdk` inside it gets the network.
+/**
+ * Builds the swap transaction for a Raydium pool without signing it. Routes by
+ * pool kind (`options.poolType` from poolFinder, else the pool's owner
+ * program): CLMM pools use the concentrated liquidity path (which honours
+ * `options.priceLimit`), AMM v4 pools the legacy path, everything else CPMM.
+ * The compute budget is sized from a simulation and priced at `priority`
+ * (a fee level or micro-lamports), capped at `options.maxPriorityFeeSol`.
+ * `signers` must partially sign before the wallet does.
+ * @param {import('./priorityFee').PriorityOption} [priority]
+ */
+export const buildRaydiumSwapTransaction = async (
+    wallet, connection, poolIdString, inputMintAddress, amountInBN, slippage, priority = 'medium', options = {}
+) => {
+    const raydium = await initRaydiumSdkForConnection(wallet, connection);
 
     console.log("[vXX Log Step 2] Checking Wallet Public Key...");
     const ownerPublicKey = wallet.publicKey;
     if (!ownerPublicKey) { throw new Error("[vXX Log Step 2] Wallet not connected or public key missing"); }
     console.log(`[vXX Log Step 2] Owner PublicKey: ${ownerPublicKey.toBase58()}`);
 
-    try {
-        // --- Step 3: Fetch Pool Info, etc. ---
-        console.log(`[vXX Log Step 3] Fetching TARGET CPMM pool info for ID: ${poolIdString}...`);
-        if (!raydium.cpmm || typeof raydium.cpmm.getPoolInfoFromRpc !== 'function') {
-             throw new Error("[vXX Log Step 3] CPMM module or getPoolInfoFromRpc function not found on Raydium SDK instance.");
-        }
-        const directFetchResult = await raydium.cpmm.getPoolInfoFromRpc(poolIdString);
-        if (!directFetchResult || !directFetchResult.poolInfo) {
-            throw new Error(`[vXX Log Step 3] Target CPMM pool ${poolIdString} not found via direct RPC.`);
-        }
-        console.log(`[vXX Log Step 3] Fetched raw pool info successfully.`);
-        const rawPoolInfo = directFetchResult.poolInfo;
-        let onChainStatusByte = -1; 
-        console.log(`[vXX Log Step 3 - Status Check] Raw Pool Status from getPoolInfoFromRpc: ${rawPoolInfo.status}, On-chain status byte: ${onChainStatusByte}`);
-        console.log(`[vXX Log Step 3] Raw Info Snippet: id=${rawPoolInfo.id}, status=${rawPoolInfo.status}, mintA=${rawPoolInfo.mintA?.address}, mintB=${rawPoolInfo.mintB?.address}, lpMint=${rawPoolInfo.lpMint?.address}, configId=${rawPoolInfo.config?.id}`);
-        console.log(`[vXX Log Step 3a] Preparing mint PublicKeys...`);
-        const requiredFields = ['mintA.address', 'mintB.address', 'lpMint.address', 'config.id', 'programId', 'id'];
-        for (const fieldPath of requiredFields) {
-             const fields = fieldPath.split('.');
-             let current = rawPoolInfo;
-             for (const field of fields) {
-                 if (current === null || typeof current !== 'object' || !current.hasOwnProperty(field) || !current[field]) {
-                     throw new Error(`[vXX Log Step 3a] Missing required field in rawPoolInfo: ${fieldPath}`);
-                 }
-                 current = current[field];
-             }
-              if (fieldPath.includes('address') || fieldPath.includes('id') || fieldPath.includes('programId')) {
-                  if (typeof current !== 'string' || current.trim() === '') {
-                     throw new Error(`[vXX Log Step 3a] Invalid or empty string for field: ${fieldPath}`);
-                  }
-              }
-         }
-         const mintA_pk = new PublicKey(rawPoolInfo.mintA.address);
-         const mintB_pk = new PublicKey(rawPoolInfo.mintB.address);
-         const lpMint_pk = new PublicKey(rawPoolInfo.lpMint.address);
-         const configId_pk = new PublicKey(rawPoolInfo.config.id);
-         const programId_pk = new PublicKey(rawPoolInfo.programId);
-         const poolId_pk = new PublicKey(rawPoolInfo.id);
-         console.log(`[vXX Log Step 3a] PublicKeys prepared: mintA=${mintA_pk}, mintB=${mintB_pk}, lpMint=${lpMint_pk}, configId=${configId_pk}, programId=${programId_pk}, poolId=${poolId_pk}`);
-         console.log(`[vXX Log Step 3b] Deriving missing keys using getCreatePoolKeys...`);
-         const derivedKeys = getCreatePoolKeys({ programId: programId_pk, configId: configId_pk, mintA: mintA_pk, mintB: mintB_pk });
-         console.log(`[vXX Log Step 3b] Derived Keys: Authority=${derivedKeys.authority.toBase58()}, VaultA=${derivedKeys.vaultA.toBase58()}, VaultB=${derivedKeys.vaultB.toBase58()}, ObsId=${derivedKeys.observationId.toBase58()}`);
-         console.log(`[vXX Log Step 3c] Fetching live reserves from derived vaults (VaultA: ${derivedKeys.vaultA.toBase58()}, VaultB: ${derivedKeys.vaultB.toBase58()})...`);
-         const vaultABalancePromise = connection.getTokenAccountBalance(derivedKeys.vaultA, 'confirmed');
-         const vaultBBalancePromise = connection.getTokenAccountBalance(derivedKeys.vaultB, 'confirmed');
-         const [vaultABalanceResponse, vaultBBalanceResponse] = await Promise.all([vaultABalancePromise, vaultBBalancePromise]);
-         if (!vaultABalanceResponse?.value?.amount || !vaultBBalanceResponse?.value?.amount) {
-             console.error("[vXX Log Step 3c] Failed to fetch vault balances!", { vaultABalanceResponse, vaultBBalanceResponse });
-             throw new Error("[vXX Log Step 3c] Could not fetch live reserves from pool vaults.");
-         }
-         const baseReserveLive = new BN(vaultABalanceResponse.value.amount);
-         const quoteReserveLive = new BN(vaultBBalanceResponse.value.amount);
-         console.log(`[vXX Log Step 3c] Fetched live reserves: Base (WSOL)=${baseReserveLive.toString()}, Quote (Token)=${quoteReserveLive.toString()}`);
-         console.log(`[vXX Log Step 3d] Preparing to fetch mint info for mints: ${mintA_pk}, ${mintB_pk}, ${lpMint_pk}...`);
-         const mintsToFetch = [mintA_pk, mintB_pk, lpMint_pk];
-         const mintInfos = await fetchMultipleMintInfos({connection, mints: mintsToFetch});
-         console.log(`[vXX Log Step 3d] Fetched mint info: MintA Decimals=${mintInfos[mintA_pk.toBase58()]?.decimals}, MintB Decimals=${mintInfos[mintB_pk.toBase58()]?.decimals}, LpMint Decimals=${mintInfos[lpMint_pk.toBase58()]?.decimals}`);
-         console.log(`[vXX Log Step 3e] Manually constructing pool info for compute...`);
-         if (mintInfos[mintA_pk.toBase58()]?.decimals === undefined || mintInfos[mintB_pk.toBase58()]?.decimals === undefined || mintInfos[lpMint_pk.toBase58()]?.decimals === undefined) {
-             throw new Error("[vXX Log Step 3e] Missing decimals from fetched mintInfos.");
-         }
-         const mintProgramA = mintInfos[mintA_pk.toBase58()]?.programId || new PublicKey(rawPoolInfo.mintA.programId);
-         const mintProgramB = mintInfos[mintB_pk.toBase58()]?.programId || new PublicKey(rawPoolInfo.mintB.programId);
-         const poolInfoCompute = {
-             id: poolId_pk, programId: programId_pk, configId: configId_pk, observationId: derivedKeys.observationId, authority: derivedKeys.authority,
-             mintA: { address: mintA_pk, decimals: mintInfos[mintA_pk.toBase58()].decimals, programId: mintProgramA },
-             mintB: { address: mintB_pk, decimals: mintInfos[mintB_pk.toBase58()].decimals, programId: mintProgramB },
-             mintLp: { address: lpMint_pk, decimals: mintInfos[lpMint_pk.toBase58()].decimals, programId: mintInfos[lpMint_pk.toBase58()]?.programId || new PublicKey(rawPoolInfo.lpMint.programId) },
-             vaultA: derivedKeys.vaultA, vaultB: derivedKeys.vaultB, baseReserve: baseReserveLive, quoteReserve: quoteReserveLive,
-             lpAmount: rawPoolInfo.lpAmount ? new BN(rawPoolInfo.lpAmount.toString()) : new BN(0),
-             status: (onChainStatusByte === 0) ? new BN(0) : (rawPoolInfo.status ? new BN(rawPoolInfo.status.toString()) : new BN(0)),
-             configInfo: {
-                  id: configId_pk, index: rawPoolInfo.config?.index ?? 0,
-                  tradeFeeRate: new BN(rawPoolInfo.config.tradeFeeRate.toString()), protocolFeeRate: new BN(rawPoolInfo.config.protocolFeeRate.toString()),
-                  fundFeeRate: new BN(rawPoolInfo.config.fundFeeRate.toString()), createPoolFee: new BN(rawPoolInfo.config.createPoolFee.toString())
-             },
-              tradeFeeRate: new BN(rawPoolInfo.config.tradeFeeRate.toString()), protocolFeeRate: new BN(rawPoolInfo.config.protocolFeeRate.toString()),
-              fundFeeRate: new BN(rawPoolInfo.config.fundFeeRate.toString()),
-             openTime: rawPoolInfo.openTime ? new BN(rawPoolInfo.openTime.toString()) : new BN(0),
-             poolPrice: rawPoolInfo.poolPrice instanceof Decimal ? rawPoolInfo.poolPrice : new Decimal(rawPoolInfo.poolPrice || 0),
-             version: 7, mintDecimalA: mintInfos[mintA_pk.toBase58()].decimals, mintDecimalB: mintInfos[mintB_pk.toBase58()].decimals,
-             mintProgramA: mintProgramA, mintProgramB: mintProgramB,
-         };
-         console.log(`[vXX Log Step 3e] Manually constructed poolInfoCompute. ID: ${poolInfoCompute.id.toBase58()}, BaseReserve (WSOL)=${poolInfoCompute.baseReserve.toString()}, QuoteReserve (Token)=${poolInfoCompute.quoteReserve.toString()}, Status=${poolInfoCompute.status.toString()}, TradeFee=${poolInfoCompute.tradeFeeRate.toString()}`);
-
-        // --- Step 4: Define Input/Output Mints ---
-        console.log("[vXX Log Step 4] Defining input/output mints and decimals...");
-        const inputMintPk = new PublicKey(inputMintAddress);
-        const baseIn = inputMintPk.equals(poolInfoCompute.mintA.address);
-        const outputMintPk = baseIn ? poolInfoCompute.mintB.address : poolInfoCompute.mintA.address;
-        console.log(`[vXX Log Step 4] Input Mint: ${inputMintPk.toBase58()}, Output Mint: ${outputMintPk.toBase58()}`);
-        console.log(`[vXX Log Step 4] Is Input MintA (WSOL)? baseIn = ${baseIn}`);
-        const inputDecimals = baseIn ? poolInfoCompute.mintA.decimals : poolInfoCompute.mintB.decimals;
-        const outputDecimals = baseIn ? poolInfoCompute.mintB.decimals : poolInfoCompute.mintA.decimals;
-        console.log(`[vXX Log Step 4] Input Decimals: ${inputDecimals}, Output Decimals: ${outputDecimals}`);
-        let inputToken = new Token({ mint: inputMintPk, decimals: inputDecimals });
-        let outputToken = new Token({ mint: outputMintPk, decimals: outputDecimals });
-        console.log("[vXX Log Step 5] inputToken/outputToken created successfully.");
-
-        // --- Step 6: Creating TokenAmount for amountIn ---
-        console.log("[vXX Log Step 6] Creating TokenAmount for amountIn...");
-        const amountIn = new TokenAmount(inputToken, amountInBN, true);
-        console.log(`[vXX Log Step 6] Created TokenAmount. Input Raw: ${amountIn.raw.toString()}, Input Exact: ${amountIn.toExact()} for ${inputToken.mint.toBase58()}`);
-
-        // --- Step 7: Compute Swap Amount ---
-        console.log('[vXX Log Step 7] Preparing to compute swap amounts...');
-        if (poolInfoCompute.baseReserve.isZero() || poolInfoCompute.quoteReserve.isZero()) {
-           console.error(`[vXX Log Step 7] Pool has zero reserves! Base: ${poolInfoCompute.baseReserve.toString()}, Quote: ${poolInfoCompute.quoteReserve.toString()}. Cannot calculate swap.`);
-           throw new Error("Pool has zero reserves, cannot compute swap amount.");
-        }
-        console.log('[vXX Log Step 7] Calling raydium.cpmm.computeSwapAmount...');
-        if (!raydium.cpmm || typeof raydium.cpmm.computeSwapAmount !== 'function') {
-            throw new Error("[vXX Log Step 7] computeSwapAmount function not found on Raydium CPMM module.");
-        }
-       const computeResult = raydium.cpmm.computeSwapAmount({
-            pool: poolInfoCompute, amountIn: amountIn.raw, outputMint: outputMintPk,
-            slippage: slippage, inputMint: inputMintPk, amountType: 'in'
-        });
-       const amountOutMin = computeResult.minAmountOut;
-       const amountOutCalculated = computeResult.amountOut;
-       console.log(`[vXX Log Step 7 - Compute] Computed amountOut: ${amountOutCalculated.toString()}, minAmountOut: ${amountOutMin.toString()}`);
-       console.log('[vXX Log Step 7] Compute Result:', JSON.stringify(computeResult, replacer, 2));
-       if (computeResult.amountOut.isZero()) {
-            console.error("[vXX Log Step 7] Computed output amount is zero. Aborting swap.");
-            throw new Error("Swap calculation resulted in zero output tokens. Amount may be too small.");
-       }
-
-        // --- Step 8: Get User ATA Addresses ---
-       console.log('[vXX Log Step 8] Getting user ATA addresses and collecting setup instructions...');
-        const setupInstructions = [];
-        const cleanupInstructions = [];
-        let userSourceAta;
-        let userDestAta;
-        if (baseIn) {
-            console.log(`[vXX Log Step 8] Buy swap (SOL -> Token). Input is Base.`);
-            const wsolAta = await getAssociatedTokenAddress(NATIVE_MINT, ownerPublicKey, false, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID);
-            const wsolInfo = await connection.getAccountInfo(wsolAta);
-            if (!wsolInfo) {
-                setupInstructions.push(createAssociatedTokenAccountInstruction(ownerPublicKey, wsolAta, ownerPublicKey, NATIVE_MINT, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID));
-            }
-            setupInstructions.push(SystemProgram.transfer({ fromPubkey: ownerPublicKey, toPubkey: wsolAta, lamports: amountInBN }));
-            setupInstructions.push(createSyncNativeInstruction(wsolAta, TOKEN_PROGRAM_ID));
-            cleanupInstructions.push(createCloseAccountInstruction(wsolAta, ownerPublicKey, ownerPublicKey, [], TOKEN_PROGRAM_ID));
-            userSourceAta = wsolAta;
-            const { address: tokenAta, instruction: tokenCreateInstruction } = await getAtaAddressAndCreateInstruction(connection, ownerPublicKey, outputMintPk.toBase58());
-            userDestAta = tokenAta;
-            if (tokenCreateInstruction) setupInstructions.push(tokenCreateInstruction);
-        } else {
-            console.log(`[vXX Log Step 8] Sell swap (Token -> SOL). Input is Quote.`);
-            const { address: tokenAta, instruction: tokenCreateInstruction } = await getAtaAddressAndCreateInstruction(connection, ownerPublicKey, inputMintPk.toBase58());
-            userSourceAta = tokenAta;
-            if (tokenCreateInstruction) setupInstructions.push(tokenCreateInstruction);
-            const wsolAta = await getAssociatedTokenAddress(NATIVE_MINT, ownerPublicKey, false, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID);
-            const wsolInfo = await connection.getAccountInfo(wsolAta);
-            if (!wsolInfo) {
-                setupInstructions.push(createAssociatedTokenAccountInstruction(ownerPublicKey, wsolAta, ownerPublicKey, NATIVE_MINT, TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID));
-            }
-            cleanupInstructions.push(createCloseAccountInstruction(wsolAta, ownerPublicKey, ownerPublicKey, [], TOKEN_PROGRAM_ID));
-            userDestAta = wsolAta;
+    const poolKind = await resolveRaydiumPoolKind(connection, poolIdString, options.poolType);
+    let built;
+    if (poolKind === 'concentrated') {
+        console.log(`[Swap Raydium] Pool ${poolIdString} is a CLMM pool, using the CLMM swap path.`);
+        built = await buildClmmSwapTransaction(
+            raydium, poolIdString, inputMintAddress, amountInBN, slippage, options
+        );
+    } else {
+        if (options.priceLimit !== undefined && options.priceLimit !== null) {
+            console.warn('[Swap Raydium] priceLimit only applies to CLMM pools; ignoring it for this pool.');
         }
-        console.log(`[vXX Log Step 8] Determined ATAs - Source: ${userSourceAta?.toBase58()}, Dest: ${userDestAta?.toBase58()}. Collected ${setupInstructions.length} setup instructions, ${cleanupInstructions.length} cleanup instructions.`);
-
-        // --- Step 9: Prepare the Swap Instruction ---
-        console.log('[vXX Log Step 9] Preparing swap instruction...');
-        let instructionVaultA, instructionVaultB, instructionMintA, instructionMintB;
-        if (baseIn) {
-            console.log(">>> vXX Debug: BUY (SOL -> Token) swap - Instruction accounts ordered Base, Quote.");
-            instructionVaultA = poolInfoCompute.vaultA; instructionVaultB = poolInfoCompute.vaultB;
-            instructionMintA = poolInfoCompute.mintA.address; instructionMintB = poolInfoCompute.mintB.address;
+        if (poolKind === 'standard') {
+            console.log(`[Swap Raydium] Pool ${poolIdString} is an AMM v4 pool, using the AMM v4 swap path.`);
+            built = await buildAmmV4SwapTransaction(
+                raydium, poolIdString, inputMintAddress, amountInBN, slippage
+            );
         } else {
-            console.log(">>> vXX Debug: SELL (Token -> SOL) swap - Instruction accounts ordered Quote, Base (due to instruction design).");
-            instructionVaultA = poolInfoCompute.vaultB; instructionVaultB = poolInfoCompute.vaultA;
-            instructionMintA = poolInfoCompute.mintB.address; instructionMintB = poolInfoCompute.mintA.address;
+            built = await buildCpmmSwapTransaction(
+                wallet, connection, raydium, poolIdString, inputMintAddress, amountInBN, slippage
+            );
         }
-        console.log(`[vXX Log Step 9] Instruction Params: programId=${poolInfoCompute.programId}, owner=${ownerPublicKey}, authority=${poolInfoCompute.authority}, configId=${poolInfoCompute.configId}, poolId=${poolInfoCompute.id}, userSrc=${userSourceAta}, userDest=${userDestAta}, vaultA=${instructionVaultA}, vaultB=${instructionVaultB}, mintProgramA=${poolInfoCompute.mintProgramA}, mintProgramB=${poolInfoCompute.mintProgramB}, mintA=${instructionMintA}, mintB=${instructionMintB}, obsId=${poolInfoCompute.observationId}, amountIn=${amountIn.raw}, minAmountOut=${amountOutMin}`);
-        const swapInstruction = makeSwapCpmmBaseInInstruction(
-            poolInfoCompute.programId, ownerPublicKey, poolInfoCompute.authority, poolInfoCompute.configId, poolInfoCompute.id,
-            userSourceAta, userDestAta, instructionVaultA, instructionVaultB,
-            poolInfoCompute.mintProgramA, poolInfoCompute.mintProgramB, instructionMintA, instructionMintB,
-            poolInfoCompute.observationId, amountIn.raw, amountOutMin
-        );
+    }
 
-        // --- Step 10: Build and Send Actual Transaction ---
-        console.log('[vXX Log Step 10] Preparing and sending actual transaction (Bundled)...');
-        const transaction = new Transaction();
-        transaction.feePayer = ownerPublicKey;
-        transaction.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 800000 }));
-        transaction.add(
-            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFeeMicroLamports })
+    await applyComputeBudget(connection, built.transaction, {
+        priority,
+        maxFeeSol: options.maxPriorityFeeSol,
+        payer: ownerPublicKey,
+    });
+    return built;
+};
+
+/** Signs and sends a transaction from `buildRaydiumSwapTransaction`. */
+export const sendRaydiumSwapTransaction = (connection, wallet, { transaction, signers }) =>
+    signAndSendTransaction(connection, wallet, transaction, signers);
+
+// --- Swap Raydium Tokens ---
+// Builds the swap with `buildRaydiumSwapTransaction`, then signs and sends it.
+export const swapRaydiumTokens = async (
+    wallet, connection, poolIdString, inputMintAddress, amountInBN, slippage, priority = 'medium', options = {}
+) => {
+    console.log(`[Swap Raydium] ---> Start`);
+    try {
+        const built = await buildRaydiumSwapTransaction(
+            wallet, connection, poolIdString, inputMintAddress, amountInBN, slippage, priority, options
         );
- if (setupInstructions.length > 0) {
-            transaction.add(...setupInstructions);
-        }
-        transaction.add(swapInstruction);
-        if (cleanupInstructions.length > 0) {
-            transaction.add(...cleanupInstructions);
-        }
-        const { blockhash } = await connection.getLatestBlockhash('confirmed');
-        transaction.recentBlockhash = blockhash;
         console.log('[vXX Log Step 10] Signing and sending bundled transaction via standardized helper...');
-        const swapTxId = await signAndSendTransaction(connection, wallet, transaction);
+        const swapTxId = await sendRaydiumSwapTransaction(connection, wallet, built);
         console.log(`[vXX Log Step 10] ✅ Bundled Swap Transaction Sent! TxID: ${swapTxId}`);
         console.log(`[vXX Log Step 11] ---> swapRaydiumTokens: End`);
         return swapTxId;
@@ -0,0 +1,164 @@
+// src/utils/riskPolicy.ts
+// Limits checked by the worker's trade API before a swap is built. Every
+// limit is optional; `null` turns it off. Trade history and the day's starting
+// equity are kept by BotContext and passed to each run as `context.risk`.
+
+export interface RiskLimits {
+    /** Largest single buy, in SOL. */
+    maxSolPerTrade: number | null;
+    /** SOL one bot may spend on buys in any rolling hour / day. */
+    maxSolPerBotPerHour: number | null;
+    maxSolPerBotPerDay: number | null;
+    /** Most tokens one bot may hold after a buy. */
+    maxPositionTokens: number | null;
+    /** Largest quoted price impact, in percent. */
+    maxPriceImpactPercent: number | null;
+    /** Trades (buys and sells) one bot may make per `tradeWindowSec`. */
+    maxTradesPerInterval: number | null;
+    tradeWindowSec: number;
+    /** Drop in total bot equity since the start of the UTC day that stops trading, in SOL. */
+    maxDailyLossSol: number | null;
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+    maxSolPerTrade: null,
+    maxSolPerBotPerHour: null,
+    maxSolPerBotPerDay: null,
+    maxPositionTokens: null,
+    maxPriceImpactPercent: null,
+    maxTradesPerInterval: null,
+    tradeWindowSec: 60,
+    maxDailyLossSol: null,
+};
+
+export interface RiskTrade {
+    wallet: string;
+    side: 'buy' | 'sell';
+    /** SOL spent on a buy; 0 on sells. */
+    sol: number;
+    timestamp: number;
+}
+
+export type RiskRule =
+    | 'maxSolPerTrade'
+    | 'maxSolPerBotPerHour'
+    | 'maxSolPerBotPerDay'
+    | 'maxPositionTokens'
+    | 'maxPriceImpactPercent'
+    | 'maxTradesPerInterval'
+    | 'maxDailyLossSol';
+
+export interface RiskViolation {
+    rule: RiskRule;
+    message: string;
+}
+
+export interface RiskCheck {
+    wallet: string;
+    side: 'buy' | 'sell';
+    /** SOL on buys, tokens on sells. */
+    amount: number;
+    /** Tokens the bot holds now. */
+    positionTokens: number;
+    /** Tokens a buy is expected to add; null when unknown. */
+    expectedTokensOut: number | null;
+    /** Quoted price impact in percent; null when not quoted. */
+    priceImpactPercent: number | null;
+    /** Equity lost since the start of the day, in SOL (negative when up). */
+    dailyLossSol: number | null;
+    trades: RiskTrade[];
+    now: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const spentSince = (trades: RiskTrade[], wallet: string, since: number) =>
+    trades.reduce((sum, t) => (t.wallet === wallet && t.timestamp >= since ? sum + t.sol : sum), 0);
+
+/** First limit the trade would break, or null when it may go ahead. */
+export function checkRiskLimits(limits: RiskLimits, check: RiskCheck): RiskViolation | null {
+    const { wallet, side, amount, now, trades } = check;
+
+    if (limits.maxDailyLossSol !== null && check.dailyLossSol !== null && check.dailyLossSol >= limits.maxDailyLossSol) {
+        return {
+            rule: 'maxDailyLossSol',
+            message: `daily loss ${check.dailyLossSol.toFixed(4)} SOL reached the ${limits.maxDailyLossSol} SOL limit`,
+        };
+    }
+    if (limits.maxTradesPerInterval !== null) {
+        const since = now - limits.tradeWindowSec * 1000;
+        const count = trades.filter((t) => t.wallet === wallet && t.timestamp >= since).length;
+        if (count >= limits.maxTradesPerInterval) {
+            return {
+                rule: 'maxTradesPerInterval',
+                message: `${count} trades in the last ${limits.tradeWindowSec}s (limit ${limits.maxTradesPerInterval})`,
+            };
+        }
+    }
+    if (side === 'buy') {
+        if (limits.maxSolPerTrade !== null && amount > limits.maxSolPerTrade) {
+            return { rule: 'maxSolPerTrade', message: `buy of ${amount} SOL exceeds ${limits.maxSolPerTrade} SOL per trade` };
+        }
+        if (limits.maxSolPerBotPerHour !== null) {
+            const spent = spentSince(trades, wallet, now - HOUR_MS);
+            if (spent + amount > limits.maxSolPerBotPerHour) {
+                return {
+                    rule: 'maxSolPerBotPerHour',
+                    message: `${spent.toFixed(4)} SOL spent in the last hour + ${amount} exceeds ${limits.maxSolPerBotPerHour} SOL`,
+                };
+            }
+        }
+        if (limits.maxSolPerBotPerDay !== null) {
+            const spent = spentSince(trades, wallet, now - DAY_MS);
+            if (spent + amount > limits.maxSolPerBotPerDay) {
+                return {
+                    rule: 'maxSolPerBotPerDay',
+                    message: `${spent.toFixed(4)} SOL spent in the last 24h + ${amount} exceeds ${limits.maxSolPerBotPerDay} SOL`,
+                };
+            }
+        }
+        if (limits.maxPositionTokens !== null && check.expectedTokensOut !== null) {
+            const after = check.positionTokens + check.expectedTokensOut;
+            if (after > limits.maxPositionTokens) {
+                return {
+                    rule: 'maxPositionTokens',
+                    message: `position would grow to ${after.toFixed(2)} tokens (limit ${limits.maxPositionTokens})`,
+                };
+            }
+        }
+    }
+    if (limits.maxPriceImpactPercent !== null && check.priceImpactPercent !== null
+        && check.priceImpactPercent > limits.maxPriceImpactPercent) {
+        return {
+            rule: 'maxPriceImpactPercent',
+            message: `price impact ${check.priceImpactPercent.toFixed(3)}% exceeds ${limits.maxPriceImpactPercent}%`,
+        };
+    }
+    return null;
+}
+
+/** Trades still relevant to any rolling window. */
+export const pruneRiskTrades = (trades: RiskTrade[], now: number): RiskTrade[] =>
+    trades.filter((t) => t.timestamp >= now - DAY_MS);
+
+/** UTC calendar day a timestamp falls on, e.g. "2024-05-01". */
+export const riskDayOf = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+/** SOL value of the bots' balances at `price` (SOL per token). */
+export const equitySol = (balances: { sol: number; token: number }[], price: number): number =>
+    balances.reduce((sum, b) => sum + b.sol + b.token * price, 0);
+
+/**
+ * What a set of ledger trades in one token has gained, in SOL at `price`: SOL
+ * received minus SOL spent (fees included) plus the net tokens bought. Only
+ * trades move it, so deposits and withdrawals are not gains or losses. Trades
+ * whose transaction could not be read are skipped.
+ */
+export const tradingPnlSol = (
+    trades: { solChange: number | null; tokenChange: number | null }[],
+    price: number
+): number =>
+    trades.reduce((sum, t) => (t.solChange === null || t.tokenChange === null
+        ? sum
+        : sum + t.solChange + t.tokenChange * price), 0);
@@ -1,30 +1,239 @@
 // src/utils/rpcErrorHandler.js
+import {
+    MAINNET_AMM_V4_PROGRAM_ID,
+    DEVNET_AMM_V4_PROGRAM_ID,
+    MAINNET_CREATE_POOL_PROGRAM_ID,
+    DEVNET_CREATE_POOL_PROGRAM_ID,
+} from './raydiumConsts';
+
+const JUPITER_V6_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+export const SOLANA_ERROR_CODES = {
+    SLIPPAGE_EXCEEDED: 'SLIPPAGE_EXCEEDED',
+    INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+    ACCOUNT_NOT_FOUND: 'ACCOUNT_NOT_FOUND',
+    BLOCKHASH_EXPIRED: 'BLOCKHASH_EXPIRED',
+    UNCONFIRMED: 'UNCONFIRMED',
+    COMPUTE_BUDGET_EXCEEDED: 'COMPUTE_BUDGET_EXCEEDED',
+    RATE_LIMITED: 'RATE_LIMITED',
+    PROGRAM_ERROR: 'PROGRAM_ERROR',
+    SIMULATION_FAILED: 'SIMULATION_FAILED',
+    UNKNOWN: 'UNKNOWN',
+};
+
+// Whether sending the same trade again (after re-quoting or a fresh blockhash) can succeed.
+const RETRYABLE = {
+    SLIPPAGE_EXCEEDED: true,
+    INSUFFICIENT_FUNDS: false,
+    ACCOUNT_NOT_FOUND: false,
+    BLOCKHASH_EXPIRED: true,
+    // Sent but never seen settle; it may still land.
+    UNCONFIRMED: false,
+    COMPUTE_BUDGET_EXCEEDED: true,
+    RATE_LIMITED: true,
+    PROGRAM_ERROR: false,
+    SIMULATION_FAILED: false,
+    UNKNOWN: false,
+};
+
+// Custom error numbers of the programs the swap routes go through.
+const PROGRAM_ERRORS = {};
+const registerProgramErrors = (programIds, errors) => {
+    programIds.forEach((id) => { PROGRAM_ERRORS[id.toString()] = errors; });
+};
+// Raydium CPMM (raydium-cp-swap)
+registerProgramErrors([MAINNET_CREATE_POOL_PROGRAM_ID, DEVNET_CREATE_POOL_PROGRAM_ID], {
+    6000: { name: 'NotApproved', code: 'PROGRAM_ERROR' },
+    6003: { name: 'InvalidInput', code: 'PROGRAM_ERROR' },
+    6005: { name: 'ExceededSlippage', code: 'SLIPPAGE_EXCEEDED' },
+    6006: { name: 'ZeroTradingTokens', code: 'PROGRAM_ERROR' },
+    6007: { name: 'NotSupportMint', code: 'PROGRAM_ERROR' },
+});
+// Raydium AMM v4 (native program, small error numbers)
+registerProgramErrors([MAINNET_AMM_V4_PROGRAM_ID, DEVNET_AMM_V4_PROGRAM_ID], {
+    30: { name: 'ExceededSlippage', code: 'SLIPPAGE_EXCEEDED' },
+});
+// Jupiter aggregator v6
+registerProgramErrors([JUPITER_V6_PROGRAM_ID], {
+    6000: { name: 'EmptyRoute', code: 'PROGRAM_ERROR' },
+    6001: { name: 'SlippageToleranceExceeded', code: 'SLIPPAGE_EXCEEDED' },
+    6002: { name: 'InvalidCalculation', code: 'PROGRAM_ERROR' },
+    6004: { name: 'InvalidSlippage', code: 'PROGRAM_ERROR' },
+    6017: { name: 'ExactOutAmountNotMatched', code: 'SLIPPAGE_EXCEEDED' },
+});
+// SPL Token / System program custom errors that mean the wallet is short.
+const TOKEN_PROGRAM_IDS = ['TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA', 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'];
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+// Typed error for a failed send or swap. `retryable` says whether retrying
+// the same trade can succeed; `cause` keeps the original error.
+export class SolanaTradeError extends Error {
+    /**
+     * @param {{ code: string, message: string, retryable: boolean, programId?: string | null,
+     *   programErrorCode?: number | null, programErrorName?: string | null, logs?: string[], cause?: unknown }} details
+     */
+    constructor({ code, message, retryable, programId = null, programErrorCode = null, programErrorName = null, logs = [], cause }) {
+        super(message);
+        this.name = 'SolanaTradeError';
+        this.code = code;
+        this.retryable = retryable;
+        this.programId = programId;
+        this.programErrorCode = programErrorCode;
+        this.programErrorName = programErrorName;
+        this.logs = logs;
+        this.cause = cause;
+    }
+}
+
+const logsOf = (error) => {
+    try {
+        return error?.logs || error?.transactionLogs || error?.result?.logs || error?.transactionError?.logs || [];
+    } catch {
+        return [];
+    }
+};
+
+// The transaction-level error, from our sender's result or an RPC status object.
+const transactionErrOf = (error) => error?.result?.err ?? error?.err ?? null;
+
+// First failing program in the logs is the innermost one, which is where the
+// custom error number belongs (Jupiter logs its own failure after the AMM's).
+function failingProgramFromLogs(logs) {
+    for (const line of logs) {
+        const match = /^Program (\w+) failed: (.*)$/.exec(line);
+        if (match) return { programId: match[1], reason: match[2] };
+    }
+    return null;
+}
+
+function customErrorNumber(error, logs, text) {
+    const instructionError = transactionErrOf(error)?.InstructionError;
+    if (instructionError && typeof instructionError[1] === 'object' && 'Custom' in instructionError[1]) {
+        return instructionError[1].Custom;
+    }
+    const source = [failingProgramFromLogs(logs)?.reason, text].filter(Boolean).join(' ');
+    const hex = /custom program error: (0x[0-9a-f]+)/i.exec(source);
+    if (hex) return parseInt(hex[1], 16);
+    const anchor = /Error Number: (\d+)/.exec(logs.join('\n'));
+    return anchor ? Number(anchor[1]) : null;
+}
+
+const typed = (code, message, error, logs, extra = {}) => new SolanaTradeError({
+    code,
+    message,
+    retryable: RETRYABLE[code],
+    logs,
+    cause: error,
+    ...extra,
+});
+
+/**
+ * Turns a send/confirm/simulation error into a SolanaTradeError. Reads
+ * SendTransactionError logs, TransactionSendError results (transactionUtils)
+ * and plain RPC error messages.
+ */
+export const decodeSolanaError = (error) => {
+    if (error instanceof SolanaTradeError) return error;
+    const logs = logsOf(error);
+    const message = error?.message || String(error);
+    const text = `${message}\n${logs.join('\n')}`;
+    const txErr = transactionErrOf(error);
+    const txErrName = typeof txErr === 'string' ? txErr : null;
+    const instructionReason = Array.isArray(txErr?.InstructionError) && typeof txErr.InstructionError[1] === 'string'
+        ? txErr.InstructionError[1]
+        : null;
+
+    if (txErrName === 'Unconfirmed') {
+        return typed('UNCONFIRMED', 'Transaction was sent but its outcome is unknown; check the wallet.', error, logs);
+    }
+    if (/429|rate limit|too many requests/i.test(message)) {
+        return typed('RATE_LIMITED', 'Rate limit exceeded. Please try again in a few seconds.', error, logs);
+    }
+    if (txErrName === 'BlockhashExpired' || txErrName === 'BlockhashNotFound'
+        || error?.name === 'TransactionExpiredBlockheightExceededError'
+        || /blockhash not found|block height exceeded|expired before it was confirmed/i.test(message)) {
+        return typed('BLOCKHASH_EXPIRED', 'Transaction expired before it was confirmed.', error, logs);
+    }
+    if (instructionReason === 'ComputationalBudgetExceeded' || instructionReason === 'ProgramFailedToComplete'
+        || /exceeded CUs meter|computational budget exceeded/i.test(text)) {
+        return typed('COMPUTE_BUDGET_EXCEEDED', 'Transaction ran out of compute units.', error, logs);
+    }
+    if (txErrName === 'InsufficientFundsForFee' || txErrName === 'InsufficientFundsForRent'
+        || /insufficient lamports|insufficient funds|debit an account but found no record/i.test(text)) {
+        return typed('INSUFFICIENT_FUNDS', 'Insufficient funds for this trade.', error, logs);
+    }
+
+    const failing = failingProgramFromLogs(logs);
+    const number = customErrorNumber(error, logs, message);
+    if (number !== null) {
+        const programId = failing?.programId ?? null;
+        const known = programId ? PROGRAM_ERRORS[programId]?.[number] : undefined;
+        if (known) {
+            return typed(known.code, `${known.name} (program error ${number})`, error, logs, {
+                programId, programErrorCode: number, programErrorName: known.name,
+            });
+        }
+        // Token program 1 / System program 1 are both "insufficient funds".
+        if (number === 1 && (TOKEN_PROGRAM_IDS.includes(programId) || programId === SYSTEM_PROGRAM_ID)) {
+            return typed('INSUFFICIENT_FUNDS', 'Insufficient funds for this trade.', error, logs, { programId, programErrorCode: number });
+        }
+        // Anchor's AccountNotInitialized
+        if (number === 3012) {
+            return typed('ACCOUNT_NOT_FOUND', 'A required account does not exist.', error, logs, { programId, programErrorCode: number });
+        }
+        return typed('PROGRAM_ERROR', `Program error ${number}${programId ? ` in ${programId}` : ''}.`, error, logs, {
+            programId, programErrorCode: number,
+        });
+    }
+
+    if (txErrName === 'AccountNotFound' || txErrName === 'ProgramAccountNotFound'
+        || /could not find account|account does not exist|AccountNotInitialized/i.test(text)) {
+        return typed('ACCOUNT_NOT_FOUND', 'A required account does not exist.', error, logs);
+    }
+    if (/Transaction simulation failed|Simulation failed/i.test(message)) {
+        return typed('SIMULATION_FAILED', 'Transaction simulation failed.', error, logs);
+    }
+    return typed('UNKNOWN', message || 'Unknown RPC error occurred', error, logs);
+};
+
 export const handleRpcError = (error) => {
     console.error('RPC Error:', error);
-    
+    const decoded = decodeSolanaError(error);
+
     // Check for rate limit errors
-    if (error.message && (
-      error.message.includes('429 Too Many Requests') || 
-      error.message.includes('rate limit') || 
-      error.message.includes('Too many requests')
-    )) {
+    if (decoded.code === 'RATE_LIMITED') {
       return {
         isRateLimit: true,
-        message: 'Rate limit exceeded. Please try again in a few seconds.'
+        code: decoded.code,
+        retryable: decoded.retryable,
+        message: decoded.message
       };
     }
-    
+
     // Check for simulation failures
-    if (error.message && error.message.includes('Transaction simulation failed')) {
+    if (decoded.code === 'SIMULATION_FAILED') {
       return {
         isSimulationFailure: true,
+        code: decoded.code,
+        retryable: decoded.retryable,
         message: 'Transaction simulation failed. You may have insufficient funds or the transaction is invalid.'
       };
     }
-    
+
+    if (decoded.code !== 'UNKNOWN') {
+      return {
+        code: decoded.code,
+        retryable: decoded.retryable,
+        decoded,
+        message: decoded.message
+      };
+    }
+
     return {
       isUnknown: true,
+      code: decoded.code,
+      retryable: decoded.retryable,
       originalError: error,
       message: error.message || 'Unknown RPC error occurred'
     };
-  };
\ No newline at end of file
+  };
@@ -0,0 +1,63 @@
+// src/utils/selfTradeGuard.ts
+// Detects a managed bot wallet trading against another managed wallet on the
+// same token (one buys while another sells) inside a short window. BotContext
+// keeps the recent fills and the audit log; the worker's trade API checks
+// every trade against them and blocks unless the call passes `allowSelfTrade`.
+
+export interface SelfTradeGuardConfig {
+    enabled: boolean;
+    /** How long after a fill an opposing trade by another managed wallet is blocked. */
+    windowSec: number;
+}
+
+export const DEFAULT_SELF_TRADE_GUARD: SelfTradeGuardConfig = {
+    enabled: true,
+    windowSec: 60,
+};
+
+export interface SelfTradeFill {
+    token: string;
+    wallet: string;
+    side: 'buy' | 'sell';
+    timestamp: number;
+}
+
+export interface SelfTradeAuditEntry {
+    timestamp: number;
+    token: string;
+    wallet: string;
+    side: 'buy' | 'sell';
+    amount: number;
+    /** Managed wallet whose earlier opposing fill triggered the guard. */
+    counterparty: string;
+    counterpartyAt: number;
+    /** 'overridden' when the strategy passed `allowSelfTrade` and the trade went ahead. */
+    action: 'blocked' | 'overridden';
+}
+
+/** Most audit entries kept per network. */
+export const MAX_SELF_TRADE_AUDIT_ENTRIES = 500;
+
+/**
+ * Latest opposing fill on the same token by another managed wallet within the
+ * window, or null when the trade does not cross one.
+ */
+export function findSelfTrade(
+    fills: SelfTradeFill[],
+    trade: { token: string; wallet: string; side: 'buy' | 'sell'; now: number },
+    managedWallets: string[],
+    windowSec: number
+): SelfTradeFill | null {
+    const since = trade.now - windowSec * 1000;
+    let match: SelfTradeFill | null = null;
+    for (const fill of fills) {
+        if (fill.token !== trade.token || fill.side === trade.side || fill.wallet === trade.wallet) continue;
+        if (fill.timestamp < since || !managedWallets.includes(fill.wallet)) continue;
+        if (!match || fill.timestamp > match.timestamp) match = fill;
+    }
+    return match;
+}
+
+/** Fills still inside the window. */
+export const pruneSelfTradeFills = (fills: SelfTradeFill[], now: number, windowSec: number): SelfTradeFill[] =>
+    fills.filter((f) => f.timestamp >= now - windowSec * 1000);
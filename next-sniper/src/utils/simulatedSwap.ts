@@ -0,0 +1,64 @@
+// src/utils/simulatedSwap.ts
+// Fills a swap against an in-memory constant-product pool. Shared by the
+// backtester and paper trading so both price trades the same way.
+import { NATIVE_MINT } from '@solana/spl-token';
+import { calculateStandardAmmSwapQuote, DEFAULT_CPMM_FEE_CONFIG, UiPoolReserves } from './ammSwapCalculator';
+
+// Trade fee of the fee config calculateStandardAmmSwapQuote defaults to
+export const SIM_POOL_FEE_RATE =
+    DEFAULT_CPMM_FEE_CONFIG.tradeFee.numerator.toNumber() / DEFAULT_CPMM_FEE_CONFIG.tradeFee.denominator.toNumber();
+
+export interface SimPool {
+    sol: number;
+    token: number;
+}
+
+export interface SimulatedFill {
+    side: 'buy' | 'sell';
+    /** SOL spent on buys, tokens sold on sells. */
+    amountIn: number;
+    amountOut: number;
+    /** Execution price in SOL per token. */
+    price: number;
+    /** Pool fee in SOL. */
+    poolFeeSol: number;
+    /** Pool reserves after the fill. */
+    pool: SimPool;
+}
+
+export const toUiPoolReserves = (pool: SimPool, tokenDecimals: number): UiPoolReserves => ({
+    priceFromPool: pool.token > 0 ? pool.sol / pool.token : 0,
+    uiSolReserve: pool.sol,
+    uiTokenReserve: pool.token,
+    solMintAddress: NATIVE_MINT.toBase58(),
+    solDecimals: 9,
+    pairedTokenMintAddress: 'simulated',
+    pairedTokenDecimals: tokenDecimals,
+});
+
+/** Returns null when the pool cannot fill the order. */
+export function simulateSwap(
+    pool: SimPool,
+    side: 'buy' | 'sell',
+    amount: number,
+    tokenDecimals: number,
+    slippagePercent: number
+): SimulatedFill | null {
+    if (!(amount > 0) || !(pool.sol > 0) || !(pool.token > 0)) return null;
+    const isBuy = side === 'buy';
+    const quote = calculateStandardAmmSwapQuote(amount, isBuy, toUiPoolReserves(pool, tokenDecimals), slippagePercent);
+    const out = quote ? quote.estimatedOutputUi.toNumber() : 0;
+    if (!quote || !(out > 0)) return null;
+
+    const spotPrice = pool.sol / pool.token;
+    return {
+        side,
+        amountIn: amount,
+        amountOut: out,
+        price: isBuy ? amount / out : out / amount,
+        poolFeeSol: (isBuy ? amount : amount * spotPrice) * SIM_POOL_FEE_RATE,
+        pool: isBuy
+            ? { sol: pool.sol + amount, token: pool.token - out }
+            : { sol: pool.sol - out, token: pool.token + amount },
+    };
+}
@@ -1,4 +1,5 @@
 import { UserStrategy } from '@/context/BotLogicContext';
+import { withRevisionHistory } from './strategyRevisions';
 
 const LOCAL_STORAGE_KEY = 'userTradingStrategies';
 
@@ -6,7 +7,7 @@ export const loadStrategiesFromLocalStorage = (): UserStrategy[] => {
   if (typeof window === 'undefined') return [];
   try {
     const savedStrategies = window.localStorage.getItem(LOCAL_STORAGE_KEY);
-    return savedStrategies ? JSON.parse(savedStrategies) : [];
+    return savedStrategies ? (JSON.parse(savedStrategies) as UserStrategy[]).map(withRevisionHistory) : [];
   } catch (error) {
     console.error('Failed to load strategies from LocalStorage', error);
     return [];
@@ -0,0 +1,125 @@
+// src/utils/strategyParams.ts
+// Tunable strategy parameters. A strategy declares them with
+// `exports.params = { spread: { type: 'number', default: 0.05, min: 0, max: 0.5 } }`;
+// Global Bot Controls renders a form from the declaration and runs receive the
+// values as `context.params`, with defaults filled in.
+import type { NetworkType } from '@/context/NetworkContext';
+
+interface ParamBase {
+    label?: string;
+    description?: string;
+}
+
+export type StrategyParamSpec =
+    | (ParamBase & { type: 'number'; default: number; min?: number; max?: number; step?: number; integer?: boolean })
+    | (ParamBase & { type: 'boolean'; default: boolean })
+    | (ParamBase & { type: 'string'; default: string })
+    | (ParamBase & { type: 'select'; default: string; options: string[] });
+
+export type StrategyParamSchema = Record<string, StrategyParamSpec>;
+export type StrategyParamValue = number | boolean | string;
+export type StrategyParamValues = Record<string, StrategyParamValue>;
+
+/** A normalized declaration and the problems found in it. */
+export interface StrategyParamDeclaration {
+    schema: StrategyParamSchema;
+    errors: string[];
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const optionalNumber = (v: unknown) => v === undefined || isNumber(v);
+
+/** Checks a value against its declaration; returns the problem or null. */
+export function validateStrategyParam(spec: StrategyParamSpec, value: unknown): string | null {
+    switch (spec.type) {
+        case 'number':
+            if (!isNumber(value)) return 'must be a number';
+            if (spec.integer && !Number.isInteger(value)) return 'must be a whole number';
+            if (spec.min !== undefined && value < spec.min) return `must be at least ${spec.min}`;
+            if (spec.max !== undefined && value > spec.max) return `must be at most ${spec.max}`;
+            return null;
+        case 'boolean':
+            return typeof value === 'boolean' ? null : 'must be true or false';
+        case 'string':
+            return typeof value === 'string' ? null : 'must be text';
+        case 'select':
+            return spec.options.includes(value as string) ? null : `must be one of ${spec.options.join(', ')}`;
+    }
+}
+
+/**
+ * Normalizes an `exports.params` declaration. Entries that are not a valid
+ * declaration (unknown type, default outside its own bounds, ...) are dropped
+ * and reported in `errors`.
+ */
+export function parseStrategyParamSchema(raw: unknown): StrategyParamDeclaration {
+    const schema: StrategyParamSchema = {};
+    const errors: string[] = [];
+    if (raw === undefined || raw === null) return { schema, errors };
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        return { schema, errors: ['exports.params must be an object of parameter declarations'] };
+    }
+    for (const [name, decl] of Object.entries(raw as Record<string, any>)) {
+        if (!decl || typeof decl !== 'object') {
+            errors.push(`${name}: declaration must be an object`);
+            continue;
+        }
+        const base: ParamBase = {
+            ...(typeof decl.label === 'string' ? { label: decl.label } : {}),
+            ...(typeof decl.description === 'string' ? { description: decl.description } : {}),
+        };
+        let spec: StrategyParamSpec;
+        if (decl.type === 'number') {
+            if (!optionalNumber(decl.min) || !optionalNumber(decl.max) || !optionalNumber(decl.step)) {
+                errors.push(`${name}: min, max and step must be numbers`);
+                continue;
+            }
+            spec = { ...base, type: 'number', default: decl.default, min: decl.min, max: decl.max, step: decl.step, integer: !!decl.integer };
+        } else if (decl.type === 'boolean' || decl.type === 'string') {
+            spec = { ...base, type: decl.type, default: decl.default };
+        } else if (decl.type === 'select') {
+            if (!Array.isArray(decl.options) || decl.options.length === 0 || !decl.options.every((o: unknown) => typeof o === 'string')) {
+                errors.push(`${name}: select needs a non-empty options array of strings`);
+                continue;
+            }
+            spec = { ...base, type: 'select', default: decl.default, options: decl.options };
+        } else {
+            errors.push(`${name}: unknown type ${JSON.stringify(decl.type)} (use number, boolean, string or select)`);
+            continue;
+        }
+        const problem = validateStrategyParam(spec, spec.default);
+        if (problem) {
+            errors.push(`${name}: default ${problem}`);
+            continue;
+        }
+        schema[name] = spec;
+    }
+    return { schema, errors };
+}
+
+/** Stored values valid for `schema`, with defaults for missing or invalid ones. */
+export function resolveStrategyParams(schema: StrategyParamSchema, stored: StrategyParamValues | null | undefined): StrategyParamValues {
+    return Object.fromEntries(
+        Object.entries(schema).map(([name, spec]) => {
+            const value = stored?.[name];
+            return [name, value !== undefined && validateStrategyParam(spec, value) === null ? value : spec.default];
+        })
+    );
+}
+
+const paramsKey = (network: NetworkType, strategyId: string) => `strategyParams-${network}-${strategyId}`;
+
+/** Values saved for a strategy on a network; may hold keys the current declaration no longer has. */
+export function loadStrategyParams(network: NetworkType, strategyId: string): StrategyParamValues {
+    if (typeof window === 'undefined') return {};
+    try {
+        return JSON.parse(window.localStorage.getItem(paramsKey(network, strategyId)) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+export function saveStrategyParams(network: NetworkType, strategyId: string, values: StrategyParamValues): void {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(paramsKey(network, strategyId), JSON.stringify(values));
+}
@@ -0,0 +1,122 @@
+// src/utils/strategyRevisions.ts
+// Version history of saved strategies. Every save appends a revision with a
+// timestamp and note; restoring an old revision appends a copy of it, so
+// history is never rewritten and ledger entries keep pointing at the code
+// that made them.
+import type { UserStrategy } from '@/context/BotLogicContext';
+
+export interface StrategyRevision {
+    /** `r1`, `r2`, ... unique within the strategy. */
+    id: string;
+    code: string;
+    note: string;
+    /** Null for the revision created from a strategy saved before history was kept. */
+    createdAt: number | null;
+}
+
+const nextRevisionId = (revisions: StrategyRevision[]) => `r${revisions.length + 1}`;
+
+/** Gives strategies saved before revisions existed their code as `r1`. */
+export function withRevisionHistory(strategy: UserStrategy): UserStrategy {
+    if (strategy.revisions && strategy.revisions.length > 0) return strategy;
+    return { ...strategy, revisions: [{ id: 'r1', code: strategy.code, note: 'Saved before revision history', createdAt: null }] };
+}
+
+export function createUserStrategy(name: string, code: string, note: string, now = Date.now()): UserStrategy {
+    return { id: crypto.randomUUID(), name, code, revisions: [{ id: 'r1', code, note, createdAt: now }] };
+}
+
+/** Appends a revision and makes it the strategy's current code. */
+export function addStrategyRevision(strategy: UserStrategy, code: string, note: string, now = Date.now()): UserStrategy {
+    const revisions = withRevisionHistory(strategy).revisions!;
+    return { ...strategy, code, revisions: [...revisions, { id: nextRevisionId(revisions), code, note, createdAt: now }] };
+}
+
+/** Rolls back by appending a copy of an older revision; throws when it does not exist. */
+export function restoreStrategyRevision(strategy: UserStrategy, revisionId: string, now = Date.now()): UserStrategy {
+    const revision = withRevisionHistory(strategy).revisions!.find((r) => r.id === revisionId);
+    if (!revision) throw new Error(`Strategy ${strategy.name} has no revision ${revisionId}`);
+    return addStrategyRevision(strategy, revision.code, `Restored ${revisionId}`, now);
+}
+
+/** A new strategy starting from this one's current code; parameter sets are copied. */
+export function duplicateStrategy(strategy: UserStrategy, name: string, now = Date.now()): UserStrategy {
+    const current = latestRevision(strategy);
+    return {
+        ...createUserStrategy(name, strategy.code, `Duplicated from ${strategy.name} ${current.id}`, now),
+        ...(strategy.params ? { params: strategy.params } : {}),
+    };
+}
+
+export function latestRevision(strategy: UserStrategy): StrategyRevision {
+    const revisions = withRevisionHistory(strategy).revisions!;
+    return revisions[revisions.length - 1];
+}
+
+/** The newest revision with exactly this code, or null when the code has unsaved edits. */
+export function revisionOfCode(strategy: UserStrategy, code: string): StrategyRevision | null {
+    const revisions = withRevisionHistory(strategy).revisions!;
+    for (let i = revisions.length - 1; i >= 0; i--) {
+        if (revisions[i].code === code) return revisions[i];
+    }
+    return null;
+}
+
+/** One row of a side-by-side diff; `left` is the older text. */
+export interface DiffRow {
+    kind: 'same' | 'removed' | 'added' | 'changed';
+    left: string | null;
+    right: string | null;
+    leftLine: number | null;
+    rightLine: number | null;
+}
+
+/**
+ * Line diff of two texts (longest common subsequence). Removed and added runs
+ * at the same spot are paired into `changed` rows so they line up side by side.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    // lcs[i][j] = common lines of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const rows: DiffRow[] = [];
+    let removed: number[] = [];
+    let added: number[] = [];
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            const l = removed[k];
+            const r = added[k];
+            rows.push({
+                kind: l !== undefined && r !== undefined ? 'changed' : l !== undefined ? 'removed' : 'added',
+                left: l !== undefined ? a[l] : null,
+                right: r !== undefined ? b[r] : null,
+                leftLine: l !== undefined ? l + 1 : null,
+                rightLine: r !== undefined ? r + 1 : null,
+            });
+        }
+        removed = [];
+        added = [];
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            flush();
+            rows.push({ kind: 'same', left: a[i], right: b[j], leftLine: i + 1, rightLine: j + 1 });
+            i++;
+            j++;
+        } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            removed.push(i++);
+        } else {
+            added.push(j++);
+        }
+    }
+    flush();
+    return rows;
+}
@@ -0,0 +1,54 @@
+// src/utils/strategyStateStore.ts
+import type { NetworkType } from '@/context/NetworkContext';
+import { idbDelete, idbGet, idbPut, STORES } from './indexedDb';
+
+/**
+ * Key/value state a strategy keeps between runs. `strategy` is shared by every
+ * bot running the strategy; `bots` holds one scope per bot public key.
+ */
+export interface StrategyStateSnapshot {
+    strategy: Record<string, unknown>;
+    bots: Record<string, Record<string, unknown>>;
+}
+
+interface StoredStrategyState extends StrategyStateSnapshot {
+    network: NetworkType;
+    strategyId: string;
+    updatedAt: number;
+}
+
+export const emptyStrategyState = (): StrategyStateSnapshot => ({ strategy: {}, bots: {} });
+
+const stateKey = (network: NetworkType, strategyId: string) => `${network}:${strategyId}`;
+
+export async function loadStrategyState(network: NetworkType, strategyId: string): Promise<StrategyStateSnapshot> {
+    try {
+        const stored = await idbGet<StoredStrategyState>(STORES.strategyState, stateKey(network, strategyId));
+        if (!stored) return emptyStrategyState();
+        return { strategy: stored.strategy || {}, bots: stored.bots || {} };
+    } catch (error) {
+        console.error('[StrategyStateStore] Failed to load strategy state', error);
+        return emptyStrategyState();
+    }
+}
+
+export async function saveStrategyState(
+    network: NetworkType,
+    strategyId: string,
+    snapshot: StrategyStateSnapshot
+): Promise<void> {
+    const record: StoredStrategyState = { ...snapshot, network, strategyId, updatedAt: Date.now() };
+    try {
+        await idbPut(STORES.strategyState, stateKey(network, strategyId), record);
+    } catch (error) {
+        console.error('[StrategyStateStore] Failed to save strategy state', error);
+    }
+}
+
+export async function clearStrategyState(network: NetworkType, strategyId: string): Promise<void> {
+    try {
+        await idbDelete(STORES.strategyState, stateKey(network, strategyId));
+    } catch (error) {
+        console.error('[StrategyStateStore] Failed to clear strategy state', error);
+    }
+}
@@ -0,0 +1,129 @@
+// src/utils/swapRouter.ts
+// One entry point for every swap venue. Call sites describe the trade as a
+// SwapRequest and get a router for the network (or an explicit `route`);
+// adding a venue means adding a module under ./swapRouters and registering it
+// in ROUTERS below.
+import { Connection, Signer, Transaction, VersionedTransaction } from '@solana/web3.js';
+import BN from 'bn.js';
+import type { PriorityOption } from './priorityFee';
+import { jupiterRouter } from './swapRouters/jupiterRouter';
+import { raydiumRouter } from './swapRouters/raydiumRouter';
+import { mirrorOnSimulatedPool, simulatedPoolId, simulatedRouter } from './swapRouters/simulatedRouter';
+
+export { swapMints } from './swapRouters/common';
+
+export type SwapRouteName = 'jupiter' | 'raydium' | 'simulated';
+export type SwapSide = 'buy' | 'sell';
+
+export interface SwapRequest {
+    /** Signer adapter (`publicKey` + `signTransaction`); quotes only need `publicKey`. */
+    wallet: any;
+    connection: Connection;
+    side: SwapSide;
+    tokenMint: string;
+    tokenDecimals: number;
+    /** Raw input amount: lamports on buys, token base units on sells. */
+    amount: BN;
+    slippageBps: number;
+    /** Fee level or micro-lamports per CU; 'medium' when omitted. */
+    priority?: PriorityOption;
+    /** Cap on the priority fee of one transaction, in SOL. */
+    maxPriorityFeeSol?: number;
+    /** Raydium only: pool to trade against. */
+    poolId?: string;
+    /** Raydium only: pool kind from poolFinder ('cpmm' | 'standard' | 'concentrated'). */
+    poolType?: string;
+    /** Raydium CLMM only: limit price in SOL per token. */
+    priceLimit?: number;
+    /** Simulate before sending and refuse when the output would be below the quote's minimum. */
+    preflight?: boolean;
+}
+
+export interface SwapQuote {
+    route: SwapRouteName;
+    inputMint: string;
+    outputMint: string;
+    /** Raw amounts in the input/output mint's base units. */
+    amountIn: BN;
+    amountOut: BN;
+    minAmountOut: BN;
+    /** Price impact in percent (1 = 1%). */
+    priceImpactPercent: number;
+    /** Estimated pool/venue fees in SOL, excluding network fees; null when unknown. */
+    feeSol: number | null;
+    /** Venue-specific payload, e.g. the Jupiter quote response. */
+    raw?: unknown;
+}
+
+export interface BuiltSwap {
+    route: SwapRouteName;
+    transaction: Transaction | VersionedTransaction;
+    /** Extra keypairs that must co-sign before the wallet. */
+    signers: Signer[];
+    quote?: SwapQuote;
+}
+
+export interface SwapRouter {
+    name: SwapRouteName;
+    quote(request: SwapRequest): Promise<SwapQuote>;
+    /** Builds the unsigned transaction for the swap. */
+    buildTx(request: SwapRequest): Promise<BuiltSwap>;
+    /**
+     * Builds, signs and sends the swap; resolves to the transaction signature.
+     * With `request.preflight` the signed swap is simulated first (see swapSimulation).
+     */
+    execute(request: SwapRequest): Promise<string>;
+}
+
+export interface SwapRouteOptions {
+    route?: SwapRouteName;
+    /** Quote for display only; off mainnet previews come from the simulated pool store. */
+    preview?: boolean;
+}
+
+const ROUTERS: Record<SwapRouteName, SwapRouter> = {
+    jupiter: jupiterRouter,
+    raydium: raydiumRouter,
+    simulated: simulatedRouter,
+};
+
+export const SWAP_ROUTE_NAMES = Object.keys(ROUTERS) as SwapRouteName[];
+
+const isMainnet = (network: string) => network.startsWith('mainnet');
+
+export const defaultRouteForNetwork = (network: string): SwapRouteName =>
+    isMainnet(network) ? 'jupiter' : 'raydium';
+
+export const previewRouteForNetwork = (network: string): SwapRouteName =>
+    isMainnet(network) ? 'jupiter' : 'simulated';
+
+// Off mainnet the app trades the devnet pool tracked by the simulated pool
+// store: Raydium requests default to that pool and landed swaps are mirrored on it.
+function tradingSimulatedPool(router: SwapRouter): SwapRouter {
+    const withPool = (request: SwapRequest): SwapRequest => {
+        if (request.poolId) return request;
+        const poolId = simulatedPoolId();
+        if (!poolId) throw new Error('[SwapRouter] No devnet pool available.');
+        return { ...request, poolId };
+    };
+    return {
+        name: router.name,
+        quote: (request) => router.quote(withPool(request)),
+        buildTx: (request) => router.buildTx(withPool(request)),
+        execute: async (request) => {
+            const pooled = withPool(request);
+            const signature = await router.execute(pooled);
+            mirrorOnSimulatedPool(pooled);
+            return signature;
+        },
+    };
+}
+
+export function getSwapRouter(network: string, options: SwapRouteOptions = {}): SwapRouter {
+    const name = options.route ?? (options.preview ? previewRouteForNetwork(network) : defaultRouteForNetwork(network));
+    const router = ROUTERS[name];
+    if (!router) {
+        throw new Error(`[SwapRouter] Unknown route "${name}". Available: ${SWAP_ROUTE_NAMES.join(', ')}`);
+    }
+    return name === 'raydium' && !isMainnet(network) ? tradingSimulatedPool(router) : router;
+}
@@ -0,0 +1,31 @@
+// src/utils/swapRouters/common.ts
+import { NATIVE_MINT } from '@solana/spl-token';
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import type { SwapRequest } from '../swapRouter';
+
+/** Input and output mints of a request; the SOL side is always wrapped SOL. */
+export function swapMints(request: Pick<SwapRequest, 'side' | 'tokenMint'>): { inputMint: string; outputMint: string } {
+    const sol = NATIVE_MINT.toBase58();
+    return request.side === 'buy'
+        ? { inputMint: sol, outputMint: request.tokenMint }
+        : { inputMint: request.tokenMint, outputMint: sol };
+}
+
+/**
+ * SOL value of a raw amount of either side of the pair, priced at the quote's
+ * own execution price. Null for mints outside the pair.
+ */
+export function solValueOf(
+    request: Pick<SwapRequest, 'side' | 'tokenMint'>,
+    mint: string,
+    raw: BN,
+    amountIn: BN,
+    amountOut: BN
+): number | null {
+    if (mint === NATIVE_MINT.toBase58()) return new Decimal(raw.toString()).div(1e9).toNumber();
+    if (mint !== request.tokenMint) return null;
+    const [solRaw, tokenRaw] = request.side === 'buy' ? [amountIn, amountOut] : [amountOut, amountIn];
+    if (tokenRaw.isZero()) return null;
+    return new Decimal(raw.toString()).mul(solRaw.toString()).div(tokenRaw.toString()).div(1e9).toNumber();
+}
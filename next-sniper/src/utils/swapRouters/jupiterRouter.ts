@@ -0,0 +1,80 @@
+// src/utils/swapRouters/jupiterRouter.ts
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import BN from 'bn.js';
+import type { BuiltSwap, SwapQuote, SwapRequest, SwapRouter } from '../swapRouter';
+import { solValueOf, swapMints } from './common';
+import { buildJupiterSwapTransaction, sendJupiterSwapTransaction } from '../jupiterSwapUtil';
+import { getJupiterQuote, JupiterQuoteResponse } from '../quoteFetcher';
+import { assertPreflight } from '../swapSimulation';
+import { computeUnitLimitOf, DEFAULT_MAX_PRIORITY_FEE_SOL, resolvePriorityFee } from '../priorityFee';
+
+async function fetchQuote(request: SwapRequest): Promise<{ swapQuote: SwapQuote; response: JupiterQuoteResponse }> {
+    const { inputMint, outputMint } = swapMints(request);
+    const response = await getJupiterQuote(
+        new PublicKey(inputMint),
+        new PublicKey(outputMint),
+        request.amount,
+        request.slippageBps
+    );
+    if (!response) throw new Error('[jupiterRouter] No Jupiter route found.');
+    const amountIn = new BN(response.inAmount);
+    const amountOut = new BN(response.outAmount);
+    // LP fees of every leg, valued in SOL; legs charging a third mint are skipped
+    let feeSol: number | null = null;
+    for (const leg of response.routePlan || []) {
+        const info = leg.swapInfo;
+        if (!info?.feeAmount || !info.feeMint) continue;
+        const value = solValueOf(request, info.feeMint, new BN(info.feeAmount), amountIn, amountOut);
+        if (value !== null) feeSol = (feeSol ?? 0) + value;
+    }
+    const swapQuote: SwapQuote = {
+        route: 'jupiter',
+        inputMint,
+        outputMint,
+        amountIn,
+        amountOut,
+        minAmountOut: new BN(response.otherAmountThreshold),
+        priceImpactPercent: Number(response.priceImpactPct) * 100,
+        feeSol,
+        raw: response,
+    };
+    return { swapQuote, response };
+}
+
+async function quote(request: SwapRequest): Promise<SwapQuote> {
+    return (await fetchQuote(request)).swapQuote;
+}
+
+async function buildTx(request: SwapRequest): Promise<BuiltSwap> {
+    if (!request.wallet?.publicKey) throw new Error("Wallet not connected.");
+    const { swapQuote, response } = await fetchQuote(request);
+    // Fees are estimated from the AMMs the route writes to
+    const ammAccounts = (response.routePlan || [])
+        .map((leg) => leg.swapInfo?.ammKey)
+        .filter(Boolean)
+        .map((key) => new PublicKey(key));
+    const maxFeeSol = request.maxPriorityFeeSol ?? DEFAULT_MAX_PRIORITY_FEE_SOL;
+    const price = await resolvePriorityFee(request.connection, request.priority ?? 'medium', {
+        accounts: ammAccounts,
+        maxFeeSol: Infinity,
+    });
+    let transaction: VersionedTransaction = await buildJupiterSwapTransaction(response, request.wallet.publicKey, price);
+    // The cap depends on the limit Jupiter chose, so it is applied after building
+    const limit = computeUnitLimitOf(transaction);
+    if (limit) {
+        const capped = await resolvePriorityFee(request.connection, price, { computeUnits: limit, maxFeeSol });
+        if (capped < price) {
+            transaction = await buildJupiterSwapTransaction(response, request.wallet.publicKey, capped);
+        }
+    }
+    return { route: 'jupiter', transaction, signers: [], quote: swapQuote };
+}
+
+async function execute(request: SwapRequest): Promise<string> {
+    console.log('[jupiterRouter] Starting swap via Jupiter Aggregator...');
+    const built = await buildTx(request);
+    if (request.preflight) await assertPreflight(jupiterRouter, request, built);
+    return sendJupiterSwapTransaction(request.wallet, request.connection, built.transaction);
+}
+
+export const jupiterRouter: SwapRouter = { name: 'jupiter', quote, buildTx, execute };
@@ -0,0 +1,64 @@
+// src/utils/swapRouters/raydiumRouter.ts
+import Decimal from 'decimal.js';
+import type { BuiltSwap, SwapQuote, SwapRequest, SwapRouter } from '../swapRouter';
+import { solValueOf, swapMints } from './common';
+import {
+    buildRaydiumSwapTransaction,
+    quoteRaydiumSwap,
+    sendRaydiumSwapTransaction,
+} from '../raydiumSdkAdapter';
+import { assertPreflight } from '../swapSimulation';
+
+const requirePoolId = (request: SwapRequest): string => {
+    if (!request.poolId) throw new Error('[raydiumRouter] poolId required');
+    return request.poolId;
+};
+
+const poolOptions = (request: SwapRequest) => ({ poolType: request.poolType, priceLimit: request.priceLimit });
+
+async function quote(request: SwapRequest): Promise<SwapQuote> {
+    const { inputMint, outputMint } = swapMints(request);
+    const q = await quoteRaydiumSwap(
+        request.wallet,
+        request.connection,
+        requirePoolId(request),
+        inputMint,
+        request.amount,
+        request.slippageBps / 10000,
+        poolOptions(request)
+    );
+    return {
+        route: 'raydium',
+        inputMint,
+        outputMint,
+        amountIn: q.amountIn,
+        amountOut: q.amountOut,
+        minAmountOut: q.minAmountOut,
+        priceImpactPercent: new Decimal(q.priceImpact).mul(100).toNumber(),
+        feeSol: q.fee ? solValueOf(request, inputMint, q.fee, q.amountIn, q.amountOut) : null,
+        raw: q,
+    };
+}
+
+async function buildTx(request: SwapRequest): Promise<BuiltSwap> {
+    const { inputMint } = swapMints(request);
+    const { transaction, signers } = await buildRaydiumSwapTransaction(
+        request.wallet,
+        request.connection,
+        requirePoolId(request),
+        inputMint,
+        request.amount,
+        request.slippageBps / 10000,
+        request.priority ?? 'medium',
+        { ...poolOptions(request), maxPriorityFeeSol: request.maxPriorityFeeSol }
+    );
+    return { route: 'raydium', transaction, signers };
+}
+
+async function execute(request: SwapRequest): Promise<string> {
+    const built = await buildTx(request);
+    if (request.preflight) await assertPreflight(raydiumRouter, request, built);
+    return sendRaydiumSwapTransaction(request.connection, request.wallet, built);
+}
+
+export const raydiumRouter: SwapRouter = { name: 'raydium', quote, buildTx, execute };
@@ -0,0 +1,89 @@
+// src/utils/swapRouters/simulatedRouter.ts
+// Fills against the shared simulated pool store instead of a real venue.
+// Nothing is signed or sent; `execute` moves the store's reserves. The store
+// also tracks the devnet pool the app trades, see `simulatedPoolId`.
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import type { BuiltSwap, SwapQuote, SwapRequest, SwapRouter } from '../swapRouter';
+import { swapMints } from './common';
+import { calculateStandardAmmSwapQuote } from '../ammSwapCalculator';
+import { SIM_POOL_FEE_RATE } from '../simulatedSwap';
+import { getSimulatedPool, updateSimulatedPoolAfterTrade } from '../simulatedPoolStore';
+
+let simulatedFillCount = 0;
+
+function fill(request: SwapRequest) {
+    const pool = getSimulatedPool();
+    if (!pool) throw new Error('[simulatedRouter] No simulated pool available.');
+    const tokenDecimals = pool.tokenDecimals || request.tokenDecimals;
+    const isBuy = request.side === 'buy';
+    const inDecimals = isBuy ? 9 : tokenDecimals;
+    const outDecimals = isBuy ? tokenDecimals : 9;
+    const amountUi = new Decimal(request.amount.toString()).div(new Decimal(10).pow(inDecimals));
+    const q = calculateStandardAmmSwapQuote(amountUi.toNumber(), isBuy, {
+        priceFromPool: pool.price,
+        uiSolReserve: pool.solAmount,
+        uiTokenReserve: pool.tokenAmount,
+        solMintAddress: NATIVE_MINT.toBase58(),
+        solDecimals: 9,
+        pairedTokenMintAddress: pool.tokenAddress,
+        pairedTokenDecimals: tokenDecimals,
+    }, request.slippageBps / 100);
+    if (!q) throw new Error('[simulatedRouter] Simulated pool cannot fill this amount.');
+    const feeSol = amountUi.mul(SIM_POOL_FEE_RATE).mul(isBuy ? 1 : pool.price).toNumber();
+    return { q, amountUi, outDecimals, feeSol };
+}
+
+async function quote(request: SwapRequest): Promise<SwapQuote> {
+    const { q, outDecimals, feeSol } = fill(request);
+    return {
+        route: 'simulated',
+        ...swapMints(request),
+        amountIn: request.amount,
+        amountOut: new BN(q.estimatedOutputUi.mul(new Decimal(10).pow(outDecimals)).floor().toFixed(0)),
+        minAmountOut: q.minAmountOutRaw,
+        priceImpactPercent: q.priceImpactPercent.toNumber(),
+        feeSol,
+        raw: q,
+    };
+}
+
+async function buildTx(): Promise<BuiltSwap> {
+    throw new Error('[simulatedRouter] Simulated swaps have no transaction to build.');
+}
+
+function applyFill(request: SwapRequest): void {
+    const { q, amountUi } = fill(request);
+    const out = q.estimatedOutputUi.toNumber();
+    if (!(out > 0)) throw new Error("Swap calculation resulted in zero output tokens. Amount may be too small.");
+    if (request.side === 'buy') {
+        updateSimulatedPoolAfterTrade(-out, amountUi.toNumber());
+    } else {
+        updateSimulatedPoolAfterTrade(amountUi.toNumber(), -out);
+    }
+}
+
+async function execute(request: SwapRequest): Promise<string> {
+    applyFill(request);
+    return `sim-${++simulatedFillCount}`;
+}
+
+export const simulatedRouter: SwapRouter = { name: 'simulated', quote, buildTx, execute };
+
+/** Raydium id of the devnet pool the store tracks; null when none is loaded. */
+export function simulatedPoolId(): string | null {
+    const pool = getSimulatedPool();
+    return pool ? pool.raydiumPoolId || pool.id || null : null;
+}
+
+/** Replays a landed swap on the store when it traded the tracked pool, so the store's reserves follow it. */
+export function mirrorOnSimulatedPool(request: SwapRequest): void {
+    const pool = getSimulatedPool();
+    if (!pool || !request.poolId || (request.poolId !== pool.id && request.poolId !== pool.raydiumPoolId)) return;
+    try {
+        applyFill(request);
+    } catch (err: any) {
+        console.warn(`[simulatedRouter] Could not mirror the ${request.side} on the simulated pool: ${err?.message || err}`);
+    }
+}
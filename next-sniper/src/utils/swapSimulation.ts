@@ -0,0 +1,171 @@
+// src/utils/swapSimulation.ts
+// Dry runs and preflight checks for routed swaps. The swap is built exactly as
+// for a real send and an unsigned copy is handed to `simulateTransaction`
+// (signatures are not verified), so no wallet prompt is needed; the wallet's
+// SOL and token account states before and after give the expected balance
+// changes.
+import { Connection, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import type { BuiltSwap, SwapQuote, SwapRequest, SwapRouteName, SwapRouter } from './swapRouter';
+import { decodeSolanaError, SolanaTradeError } from './rpcErrorHandler';
+
+export interface SwapSimulation {
+    route: SwapRouteName;
+    side: SwapRequest['side'];
+    /** True when the simulated transaction returned an error. */
+    wouldFail: boolean;
+    /** Decoded simulation error, null on success. */
+    error: { code: string; message: string; retryable: boolean } | null;
+    /** Expected wallet SOL change (network fee included) and token change, in UI units. */
+    solChange: number | null;
+    tokenChange: number | null;
+    /**
+     * Raw amount the wallet would receive (lamports on sells, base units on buys), network
+     * fee added back. A sell that closes the token account does not count its rent refund.
+     */
+    amountOut: BN | null;
+    unitsConsumed: number | null;
+    logs: string[];
+    quote: SwapQuote | null;
+}
+
+// Base units held by an SPL token account (amount is the u64 at offset 64).
+const tokenAmountOf = (data: Buffer | null | undefined): BN =>
+    data && data.length >= 72 ? new BN(data.subarray(64, 72), 'le') : new BN(0);
+
+async function walletTokenAccount(connection: Connection, owner: PublicKey, mint: string): Promise<PublicKey> {
+    const mintKey = new PublicKey(mint);
+    const mintInfo = await connection.getAccountInfo(mintKey);
+    if (!mintInfo) throw new Error(`[swapSimulation] Mint ${mint} not found.`);
+    return getAssociatedTokenAddressSync(mintKey, owner, true, mintInfo.owner);
+}
+
+// Unsigned copy of a built swap on `blockhash`; the built transaction is left
+// untouched for the sender. The config-style simulateTransaction overload only
+// takes versioned transactions.
+function unsignedCopy(feePayer: PublicKey, built: BuiltSwap, blockhash: string): VersionedTransaction {
+    const { transaction } = built;
+    if (transaction instanceof VersionedTransaction) {
+        const copy = new VersionedTransaction(VersionedTransaction.deserialize(transaction.serialize()).message);
+        copy.message.recentBlockhash = blockhash;
+        return copy;
+    }
+    const legacy = new Transaction().add(...transaction.instructions);
+    legacy.recentBlockhash = blockhash;
+    legacy.feePayer = transaction.feePayer ?? feePayer;
+    return new VersionedTransaction(legacy.compileMessage());
+}
+
+/** Simulates an unsigned copy of the built swap instead of sending it. */
+export async function simulateBuiltSwap(request: SwapRequest, built: BuiltSwap): Promise<SwapSimulation> {
+    const { connection, wallet } = request;
+    const owner: PublicKey = wallet.publicKey;
+    const tokenAccount = await walletTokenAccount(connection, owner, request.tokenMint);
+    const addresses = [owner, tokenAccount];
+
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const unsigned = unsignedCopy(owner, built, blockhash);
+    const [before, fee] = await Promise.all([
+        connection.getMultipleAccountsInfo(addresses, 'confirmed'),
+        connection.getFeeForMessage(unsigned.message, 'confirmed'),
+    ]);
+    const { value } = await connection.simulateTransaction(unsigned, {
+        sigVerify: false,
+        commitment: 'confirmed',
+        accounts: { encoding: 'base64', addresses: addresses.map((a) => a.toBase58()) },
+    });
+
+    const logs = value.logs ?? [];
+    if (value.err) {
+        const decoded = decodeSolanaError({ message: 'Transaction simulation failed', err: value.err, logs });
+        return {
+            route: built.route,
+            side: request.side,
+            wouldFail: true,
+            error: { code: decoded.code, message: decoded.message, retryable: decoded.retryable },
+            solChange: null,
+            tokenChange: null,
+            amountOut: null,
+            unitsConsumed: value.unitsConsumed ?? null,
+            logs,
+            quote: built.quote ?? null,
+        };
+    }
+
+    const [solAfter, tokenAfter] = value.accounts ?? [];
+    const lamportsChange = new BN(solAfter?.lamports ?? 0).sub(new BN(before[0]?.lamports ?? 0));
+    const tokenChangeRaw = tokenAmountOf(tokenAfter ? Buffer.from(tokenAfter.data[0], 'base64') : null)
+        .sub(tokenAmountOf(before[1]?.data));
+    const feeLamports = new BN(fee.value ?? 0);
+    // Selling the whole balance may close the token account, refunding its rent to the wallet
+    const closedRent = before[1] && !(tokenAfter && tokenAfter.lamports > 0) ? new BN(before[1].lamports) : new BN(0);
+    return {
+        route: built.route,
+        side: request.side,
+        wouldFail: false,
+        error: null,
+        solChange: new Decimal(lamportsChange.toString()).div(1e9).toNumber(),
+        tokenChange: new Decimal(tokenChangeRaw.toString()).div(new Decimal(10).pow(request.tokenDecimals)).toNumber(),
+        amountOut: request.side === 'buy' ? tokenChangeRaw : lamportsChange.add(feeLamports).sub(closedRent),
+        unitsConsumed: value.unitsConsumed ?? null,
+        logs,
+        quote: built.quote ?? null,
+    };
+}
+
+/**
+ * Dry run through any router. Routes without a transaction (the simulated
+ * pool) report the quote's expected fill instead.
+ */
+export async function dryRunSwap(router: SwapRouter, request: SwapRequest): Promise<SwapSimulation> {
+    if (router.name === 'simulated') {
+        const quote = await router.quote(request);
+        const inRaw = new Decimal(quote.amountIn.toString());
+        const outRaw = new Decimal(quote.amountOut.toString());
+        const tokenScale = new Decimal(10).pow(request.tokenDecimals);
+        const isBuy = request.side === 'buy';
+        return {
+            route: router.name,
+            side: request.side,
+            wouldFail: false,
+            error: null,
+            solChange: (isBuy ? inRaw.neg() : outRaw).div(1e9).toNumber(),
+            tokenChange: (isBuy ? outRaw : inRaw.neg()).div(tokenScale).toNumber(),
+            amountOut: quote.amountOut,
+            unitsConsumed: null,
+            logs: [],
+            quote,
+        };
+    }
+    const built = await router.buildTx(request);
+    if (!built.quote) built.quote = await router.quote(request);
+    return simulateBuiltSwap(request, built);
+}
+
+/**
+ * Simulates a built swap before it is sent and throws a SLIPPAGE_EXCEEDED
+ * SolanaTradeError when the simulated output is below the quote's minimum
+ * (or the decoded simulation error when it would fail outright).
+ */
+export async function assertPreflight(router: SwapRouter, request: SwapRequest, built: BuiltSwap): Promise<SwapSimulation> {
+    const quote = built.quote ?? await router.quote(request);
+    const simulation = await simulateBuiltSwap(request, { ...built, quote });
+    if (simulation.wouldFail && simulation.error) {
+        throw new SolanaTradeError({
+            ...simulation.error,
+            message: `Preflight simulation failed: ${simulation.error.message}`,
+            logs: simulation.logs,
+        });
+    }
+    if (simulation.amountOut && simulation.amountOut.lt(quote.minAmountOut)) {
+        throw new SolanaTradeError({
+            code: 'SLIPPAGE_EXCEEDED',
+            message: `Preflight: simulated output ${simulation.amountOut.toString()} is below the quote's minimum ${quote.minAmountOut.toString()}.`,
+            retryable: true,
+            logs: simulation.logs,
+        });
+    }
+    return simulation;
+}
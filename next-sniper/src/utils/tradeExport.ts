@@ -0,0 +1,160 @@
+// src/utils/tradeExport.ts
+// Trade history exports for tax and accounting, built from the trade ledger.
+// `detailed` CSV/JSON carry every field; the `tax` CSV follows the universal
+// import layout most crypto tax tools accept (Koinly, CoinLedger, ...).
+import type { SolUsdPoint } from '@/context/ChartDataContext';
+import { TradeRecord, TradeSource, realizedGainsByTrade } from './tradeLedger';
+
+export interface TradeExportFilter {
+    /** Inclusive range, in ms since epoch; null for open-ended. */
+    from: number | null;
+    to: number | null;
+    /** Only this bot's trades; null for the whole fleet. */
+    bot: string | null;
+}
+
+export interface TradeExportRow {
+    timestamp: string;
+    signature: string;
+    wallet: string;
+    network: string;
+    tokenMint: string;
+    side: 'buy' | 'sell';
+    source: TradeSource;
+    requestedIn: number;
+    sentAmount: number | null;
+    sentCurrency: string;
+    receivedAmount: number | null;
+    receivedCurrency: string;
+    feeSol: number | null;
+    priorityFeeSol: number | null;
+    solUsdPrice: number | null;
+    feeUsd: number | null;
+    /** Sells only: FIFO cost of the tokens sold and the gain after fees; USD at the rates of the buys and the sell. */
+    costBasisSol: number | null;
+    realizedGainSol: number | null;
+    costBasisUsd: number | null;
+    realizedGainUsd: number | null;
+    /** Saved strategy revision that made the trade, when recorded. */
+    strategyId: string | null;
+    strategyRevisionId: string | null;
+}
+
+// Samples further than this from a trade are not used to price it
+const MAX_PRICE_DISTANCE_MS = 60 * 60 * 1000;
+
+/** SOL/USD recorded with the trade, else the nearest history sample within an hour. */
+export function solUsdAt(record: TradeRecord, history: SolUsdPoint[]): number | null {
+    if (record.solUsdPrice) return record.solUsdPrice;
+    let best: SolUsdPoint | null = null;
+    for (const point of history) {
+        if (!best || Math.abs(point.timestamp - record.timestamp) < Math.abs(best.timestamp - record.timestamp)) {
+            best = point;
+        }
+    }
+    return best && Math.abs(best.timestamp - record.timestamp) <= MAX_PRICE_DISTANCE_MS ? best.price : null;
+}
+
+const times = (a: number | null, b: number | null) => (a === null || b === null ? null : a * b);
+
+/**
+ * Rows for the trades in `records` (oldest first) matching `filter`. Realized
+ * gains are computed over the full history so sells in the range use lots
+ * bought before it.
+ */
+export function buildTradeExportRows(
+    records: TradeRecord[],
+    filter: TradeExportFilter,
+    solUsdHistory: SolUsdPoint[]
+): TradeExportRow[] {
+    const gains = realizedGainsByTrade(records, (r) => solUsdAt(r, solUsdHistory));
+    return records
+        .filter((r) => (filter.from === null || r.timestamp >= filter.from)
+            && (filter.to === null || r.timestamp <= filter.to)
+            && (filter.bot === null || r.bot === filter.bot))
+        .map((r) => {
+            const isBuy = r.side === 'buy';
+            const solUsdPrice = solUsdAt(r, solUsdHistory);
+            const gain = gains[r.id];
+            return {
+                timestamp: new Date(r.timestamp).toISOString(),
+                signature: r.signature,
+                wallet: r.bot,
+                network: r.network,
+                tokenMint: r.token,
+                side: r.side,
+                source: r.source,
+                requestedIn: r.requestedIn,
+                sentAmount: r.actualIn,
+                sentCurrency: isBuy ? 'SOL' : r.token,
+                receivedAmount: r.actualOut,
+                receivedCurrency: isBuy ? r.token : 'SOL',
+                feeSol: r.feeSol,
+                priorityFeeSol: r.priorityFeeSol,
+                solUsdPrice,
+                feeUsd: times(r.feeSol, solUsdPrice),
+                costBasisSol: gain ? gain.costBasisSol : null,
+                realizedGainSol: gain ? gain.realizedSol : null,
+                costBasisUsd: gain ? gain.costBasisUsd : null,
+                realizedGainUsd: gain ? gain.realizedUsd : null,
+                strategyId: r.strategyId ?? null,
+                strategyRevisionId: r.strategyRevisionId ?? null,
+            };
+        });
+}
+
+const csvCell = (value: unknown) => {
+    if (value === null || value === undefined) return '';
+    // Drop float noise (0.0022500000000000003) without losing lamport precision
+    const text = typeof value === 'number' ? String(Number(value.toFixed(12))) : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+    [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const DETAILED_COLUMNS: (keyof TradeExportRow)[] = [
+    'timestamp', 'signature', 'wallet', 'network', 'tokenMint', 'side', 'source', 'requestedIn',
+    'sentAmount', 'sentCurrency', 'receivedAmount', 'receivedCurrency', 'feeSol', 'priorityFeeSol',
+    'solUsdPrice', 'feeUsd', 'costBasisSol', 'realizedGainSol', 'costBasisUsd', 'realizedGainUsd', 'strategyId', 'strategyRevisionId',
+];
+
+export function tradesToDetailedCsv(rows: TradeExportRow[]): string {
+    return toCsv(DETAILED_COLUMNS, rows.map((row) => DETAILED_COLUMNS.map((c) => row[c])));
+}
+
+// "2024-05-01 13:45:00 UTC", the date format tax tools parse without a timezone setting
+const taxDate = (iso: string) => `${iso.slice(0, 19).replace('T', ' ')} UTC`;
+
+/**
+ * Universal tax-tool layout: one trade per row with sent/received legs, the
+ * network fee in SOL and the trade's USD value (its SOL leg at SOL/USD).
+ * Tokens are identified by mint address.
+ */
+export function tradesToTaxCsv(rows: TradeExportRow[]): string {
+    const header = [
+        'Date', 'Sent Amount', 'Sent Currency', 'Received Amount', 'Received Currency',
+        'Fee Amount', 'Fee Currency', 'Net Worth Amount', 'Net Worth Currency', 'Label', 'Description', 'TxHash',
+    ];
+    return toCsv(header, rows.map((row) => {
+        const solLeg = row.side === 'buy' ? row.sentAmount : row.receivedAmount;
+        return [
+            taxDate(row.timestamp),
+            row.sentAmount,
+            row.sentCurrency,
+            row.receivedAmount,
+            row.receivedCurrency,
+            row.feeSol,
+            row.feeSol === null ? '' : 'SOL',
+            times(solLeg, row.solUsdPrice),
+            row.solUsdPrice === null ? '' : 'USD',
+            '',
+            `${row.source === 'manual' ? 'Manual' : 'Bot'} ${row.side} by ${row.wallet} on ${row.network}`,
+            row.signature,
+        ];
+    }));
+}
+
+export function tradesToJson(rows: TradeExportRow[]): string {
+    return JSON.stringify(rows, null, 2);
+}
@@ -0,0 +1,345 @@
+// src/utils/tradeLedger.ts
+// Persisted record of every real bot trade, with the amounts that actually
+// moved (read back from the landed transaction's balance changes) and a FIFO
+// cost basis for realized/unrealized PnL.
+import { Connection, PublicKey } from '@solana/web3.js';
+import type { NetworkType } from '@/context/NetworkContext';
+import { idbDelete, idbGetAll, idbPut, STORES } from './indexedDb';
+
+/** 'strategy' for strategy runs, 'order' for exit order and limit/DCA fills, 'manual' for trades from a bot card. */
+export type TradeSource = 'strategy' | 'order' | 'manual';
+
+export interface TradeRecord {
+    /** `${network}:${signature}` */
+    id: string;
+    network: NetworkType;
+    bot: string;
+    token: string;
+    side: 'buy' | 'sell';
+    signature: string;
+    source: TradeSource;
+    /** Amount the trade asked for: SOL on buys, tokens on sells. */
+    requestedIn: number;
+    /** What actually left and reached the wallet, excluding the network fee. Null when the transaction could not be read. */
+    actualIn: number | null;
+    actualOut: number | null;
+    /** Wallet balance changes, network fee included. */
+    solChange: number | null;
+    tokenChange: number | null;
+    /** Total network fee and its priority part, in SOL. */
+    feeSol: number | null;
+    priorityFeeSol: number | null;
+    /** SOL/USD when the trade was recorded; null when no price was available. */
+    solUsdPrice?: number | null;
+    /**
+     * Saved strategy and revision whose code made the trade. Null for manual
+     * trades, order fills and editor code with unsaved changes.
+     */
+    strategyId?: string | null;
+    strategyRevisionId?: string | null;
+    timestamp: number;
+}
+
+export interface TradeFill {
+    solChange: number;
+    tokenChange: number;
+    feeSol: number;
+    priorityFeeSol: number;
+}
+
+const LAMPORTS_PER_SOL = 1e9;
+const BASE_FEE_LAMPORTS_PER_SIGNATURE = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const tokenAmountOf = (
+    balances: { owner?: string; mint: string; uiTokenAmount: { uiAmount: number | null } }[] | null | undefined,
+    owner: string,
+    mint: string
+) =>
+    (balances ?? [])
+        .filter((b) => b.owner === owner && b.mint === mint)
+        .reduce((sum, b) => sum + (b.uiTokenAmount.uiAmount ?? 0), 0);
+
+/**
+ * Reads the wallet's SOL and token changes and the fees paid from a landed
+ * transaction. The RPC can lag confirmation by a moment, so a missing
+ * transaction is retried a few times before giving up with null.
+ */
+export async function fetchTradeFill(
+    connection: Connection,
+    signature: string,
+    owner: PublicKey,
+    mint: string
+): Promise<TradeFill | null> {
+    for (let attempt = 0; attempt < 4; attempt++) {
+        try {
+            const tx = await connection.getTransaction(signature, {
+                maxSupportedTransactionVersion: 0,
+                commitment: 'confirmed',
+            });
+            if (tx?.meta) {
+                const { meta } = tx;
+                // Signers are always static keys, so the index lines up with pre/postBalances
+                const index = tx.transaction.message.staticAccountKeys.findIndex((k) => k.equals(owner));
+                if (index === -1) return null;
+                const ownerKey = owner.toBase58();
+                const signatures = tx.transaction.signatures.length;
+                return {
+                    solChange: (meta.postBalances[index] - meta.preBalances[index]) / LAMPORTS_PER_SOL,
+                    tokenChange: tokenAmountOf(meta.postTokenBalances, ownerKey, mint)
+                        - tokenAmountOf(meta.preTokenBalances, ownerKey, mint),
+                    feeSol: meta.fee / LAMPORTS_PER_SOL,
+                    priorityFeeSol: Math.max(0, meta.fee - signatures * BASE_FEE_LAMPORTS_PER_SIGNATURE) / LAMPORTS_PER_SOL,
+                };
+            }
+        } catch (error) {
+            console.warn(`[tradeLedger] Could not read ${signature}:`, error);
+        }
+        await sleep(1000);
+    }
+    return null;
+}
+
+/** Builds a ledger record from a trade and its fill (null when the transaction could not be read). */
+export function createTradeRecord(
+    trade: Pick<
+        TradeRecord,
+        'network' | 'bot' | 'token' | 'side' | 'signature' | 'source' | 'requestedIn' | 'strategyId' | 'strategyRevisionId'
+    >,
+    fill: TradeFill | null,
+    timestamp = Date.now()
+): TradeRecord {
+    const isBuy = trade.side === 'buy';
+    return {
+        ...trade,
+        id: `${trade.network}:${trade.signature}`,
+        // SOL changes include the fee; the fee is reported separately
+        actualIn: fill ? (isBuy ? -(fill.solChange + fill.feeSol) : -fill.tokenChange) : null,
+        actualOut: fill ? (isBuy ? fill.tokenChange : fill.solChange + fill.feeSol) : null,
+        solChange: fill?.solChange ?? null,
+        tokenChange: fill?.tokenChange ?? null,
+        feeSol: fill?.feeSol ?? null,
+        priorityFeeSol: fill?.priorityFeeSol ?? null,
+        timestamp,
+    };
+}
+
+/** SOL per token the trade actually got; null when its amounts could not be read. */
+export function executedPrice(record: Pick<TradeRecord, 'side' | 'actualIn' | 'actualOut'>): number | null {
+    const sol = record.side === 'buy' ? record.actualIn : record.actualOut;
+    const tokens = record.side === 'buy' ? record.actualOut : record.actualIn;
+    return sol !== null && tokens !== null && sol > 0 && tokens > 0 ? sol / tokens : null;
+}
+
+export async function saveTradeRecord(record: TradeRecord): Promise<void> {
+    try {
+        await idbPut(STORES.tradeLedger, record.id, record);
+    } catch (error) {
+        console.error('[tradeLedger] Failed to save trade', error);
+    }
+}
+
+/** Trades on `network`, oldest first. */
+export async function loadTradeRecords(network: NetworkType): Promise<TradeRecord[]> {
+    try {
+        const all = await idbGetAll<TradeRecord>(STORES.tradeLedger);
+        return all.filter((r) => r.network === network).sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+        console.error('[tradeLedger] Failed to load trades', error);
+        return [];
+    }
+}
+
+export async function clearTradeRecords(network: NetworkType): Promise<void> {
+    try {
+        const all = await idbGetAll<TradeRecord>(STORES.tradeLedger);
+        await Promise.all(all.filter((r) => r.network === network).map((r) => idbDelete(STORES.tradeLedger, r.id)));
+    } catch (error) {
+        console.error('[tradeLedger] Failed to clear trades', error);
+    }
+}
+
+export interface LedgerPnl {
+    trades: number;
+    /** Tokens still held from ledger buys, and what they cost (fees included). */
+    positionTokens: number;
+    costBasisSol: number;
+    realizedSol: number;
+    /** Open position at the given prices minus its cost; null when no price is known for a held token. */
+    unrealizedSol: number | null;
+    feesSol: number;
+    priorityFeesSol: number;
+}
+
+interface Lot {
+    tokens: number;
+    costSol: number;
+    /** Cost at the SOL/USD rate of the buy; null when that rate is unknown. */
+    costUsd: number | null;
+}
+
+const emptyPnl = (): LedgerPnl => ({
+    trades: 0,
+    positionTokens: 0,
+    costBasisSol: 0,
+    realizedSol: 0,
+    unrealizedSol: 0,
+    feesSol: 0,
+    priorityFeesSol: 0,
+});
+
+// Takes `tokens` from the oldest lots and returns their cost; the USD cost is
+// null when any lot used has none.
+function consumeLots(open: Lot[], tokens: number): { costSol: number; costUsd: number | null } {
+    let remaining = tokens;
+    let costSol = 0;
+    let costUsd: number | null = 0;
+    while (remaining > 0 && open.length > 0) {
+        const lot = open[0];
+        const share = Math.min(lot.tokens, remaining) / lot.tokens;
+        const usedSol = lot.costSol * share;
+        const usedUsd = lot.costUsd === null ? null : lot.costUsd * share;
+        costSol += usedSol;
+        costUsd = costUsd === null || usedUsd === null ? null : costUsd + usedUsd;
+        remaining -= lot.tokens * share;
+        lot.tokens -= lot.tokens * share;
+        lot.costSol -= usedSol;
+        if (lot.costUsd !== null && usedUsd !== null) lot.costUsd -= usedUsd;
+        if (lot.tokens <= 1e-12) open.shift();
+    }
+    return { costSol, costUsd };
+}
+
+/**
+ * FIFO cost basis over `records` (oldest first). Buy fees are added to the
+ * lot's cost and sell fees taken from the proceeds. Tokens sold beyond the
+ * ledger's lots (e.g. bought outside the app) have no cost basis.
+ * `prices` maps token mint to SOL per token.
+ */
+export function computeLedgerPnl(records: TradeRecord[], prices: Record<string, number>): LedgerPnl {
+    const pnl = emptyPnl();
+    const lots = new Map<string, Lot[]>();
+    for (const r of records) {
+        pnl.trades++;
+        pnl.feesSol += r.feeSol ?? 0;
+        pnl.priorityFeesSol += r.priorityFeeSol ?? 0;
+        if (r.actualIn === null || r.actualOut === null) continue;
+        const open = lots.get(r.token) ?? [];
+        lots.set(r.token, open);
+        if (r.side === 'buy') {
+            open.push({ tokens: r.actualOut, costSol: r.actualIn + (r.feeSol ?? 0), costUsd: null });
+            continue;
+        }
+        pnl.realizedSol += r.actualOut - (r.feeSol ?? 0) - consumeLots(open, r.actualIn).costSol;
+    }
+    for (const [token, open] of lots) {
+        const tokens = open.reduce((sum, l) => sum + l.tokens, 0);
+        const cost = open.reduce((sum, l) => sum + l.costSol, 0);
+        pnl.positionTokens += tokens;
+        pnl.costBasisSol += cost;
+        if (tokens <= 0 || pnl.unrealizedSol === null) continue;
+        const price = prices[token];
+        pnl.unrealizedSol = price > 0 ? pnl.unrealizedSol + tokens * price - cost : null;
+    }
+    return pnl;
+}
+
+/** PnL per bot and for all bots together. */
+export function computeLedgerPnlByBot(
+    records: TradeRecord[],
+    prices: Record<string, number>
+): { byBot: Record<string, LedgerPnl>; total: LedgerPnl } {
+    const grouped: Record<string, TradeRecord[]> = {};
+    for (const r of records) (grouped[r.bot] ??= []).push(r);
+    const byBot = Object.fromEntries(
+        Object.entries(grouped).map(([bot, rs]) => [bot, computeLedgerPnl(rs, prices)])
+    );
+    const total = Object.values(byBot).reduce<LedgerPnl>((sum, p) => ({
+        trades: sum.trades + p.trades,
+        positionTokens: sum.positionTokens + p.positionTokens,
+        costBasisSol: sum.costBasisSol + p.costBasisSol,
+        realizedSol: sum.realizedSol + p.realizedSol,
+        unrealizedSol: sum.unrealizedSol === null || p.unrealizedSol === null ? null : sum.unrealizedSol + p.unrealizedSol,
+        feesSol: sum.feesSol + p.feesSol,
+        priorityFeesSol: sum.priorityFeesSol + p.priorityFeesSol,
+    }), emptyPnl());
+    return { byBot, total };
+}
+
+export interface RealizedGain {
+    costBasisSol: number;
+    realizedSol: number;
+    /** Lots at the SOL/USD rate of their buys, proceeds at the rate of the sell; null when a rate is unknown. */
+    costBasisUsd: number | null;
+    realizedUsd: number | null;
+}
+
+/**
+ * Cost basis and realized gain of every sell in `records` (oldest first), by
+ * record id, using the same FIFO lots per bot and token as computeLedgerPnl.
+ * `solUsdOf` gives the SOL/USD rate of a trade. Sells whose transaction could
+ * not be read are left out.
+ */
+export function realizedGainsByTrade(
+    records: TradeRecord[],
+    solUsdOf: (record: TradeRecord) => number | null = (r) => r.solUsdPrice ?? null
+): Record<string, RealizedGain> {
+    const lots = new Map<string, Lot[]>();
+    const gains: Record<string, RealizedGain> = {};
+    for (const r of records) {
+        if (r.actualIn === null || r.actualOut === null) continue;
+        const key = `${r.bot}:${r.token}`;
+        const open = lots.get(key) ?? [];
+        lots.set(key, open);
+        const rate = solUsdOf(r);
+        if (r.side === 'buy') {
+            const costSol = r.actualIn + (r.feeSol ?? 0);
+            open.push({ tokens: r.actualOut, costSol, costUsd: rate === null ? null : costSol * rate });
+            continue;
+        }
+        const cost = consumeLots(open, r.actualIn);
+        const proceedsSol = r.actualOut - (r.feeSol ?? 0);
+        gains[r.id] = {
+            costBasisSol: cost.costSol,
+            realizedSol: proceedsSol - cost.costSol,
+            costBasisUsd: cost.costUsd,
+            realizedUsd: rate === null || cost.costUsd === null ? null : proceedsSol * rate - cost.costUsd,
+        };
+    }
+    return gains;
+}
+
+export interface RevisionPerformance {
+    strategyId: string;
+    revisionId: string;
+    trades: number;
+    /** Realized gain of the sells this revision made, FIFO against every earlier buy. */
+    realizedSol: number;
+    firstTrade: number;
+    lastTrade: number;
+}
+
+/** Trades and realized PnL per strategy revision, for trades that recorded one. */
+export function computeRevisionPerformance(records: TradeRecord[]): RevisionPerformance[] {
+    const gains = realizedGainsByTrade(records);
+    const byRevision = new Map<string, RevisionPerformance>();
+    for (const r of records) {
+        if (!r.strategyId || !r.strategyRevisionId) continue;
+        const key = `${r.strategyId}:${r.strategyRevisionId}`;
+        const perf = byRevision.get(key) ?? {
+            strategyId: r.strategyId,
+            revisionId: r.strategyRevisionId,
+            trades: 0,
+            realizedSol: 0,
+            firstTrade: r.timestamp,
+            lastTrade: r.timestamp,
+        };
+        perf.trades += 1;
+        perf.realizedSol += gains[r.id]?.realizedSol ?? 0;
+        perf.firstTrade = Math.min(perf.firstTrade, r.timestamp);
+        perf.lastTrade = Math.max(perf.lastTrade, r.timestamp);
+        byRevision.set(key, perf);
+    }
+    return [...byRevision.values()];
+}
@@ -1,11 +1,18 @@
+import type { MarketIndicators } from './marketIndicators';
+
 export interface StrategyContext {
   rpcUrl: string;
+  /**
+   * Pool snapshot plus rolling indicators computed from the price history
+   * (see `computeMarketIndicators`). Indicators are `null` until enough ticks
+   * have been collected.
+   */
   market?: {
     lastPrice: number;
     currentMarketCap: number;
     currentLpValue: number;
     solUsdPrice: number | null;
-  };
+  } & MarketIndicators;
   [key: string]: any;
 }
 
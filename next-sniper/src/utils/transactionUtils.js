@@ -1,28 +1,247 @@
 // src/utils/transactionUtils.js
-import { sendAndConfirmRawTransaction } from '@solana/web3.js';
-
-export const sendAndConfirmWithRetry = async (connection, signedTransaction, maxRetries = 5, initBackoff = 250) => {
-  let signature = null;
-  let retries = 0;
-  let backoff = initBackoff;
-  
-  const txid = await connection.sendRawTransaction(signedTransaction);
-  console.log(`Transaction submitted: ${txid}`);
-  
-  while (retries < maxRetries) {
+import { VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2000;
+const DEFAULT_POLL_INTERVAL_MS = 500;
+// Expiry costs an RPC call of its own, so it is checked on every Nth status poll.
+const EXPIRY_CHECK_EVERY_POLLS = 4;
+// How long expiry may go unchecked because of RPC errors before a sent
+// transaction is given up as unconfirmed.
+const MAX_RPC_OUTAGE_MS = 90_000;
+
+// Higher rank = further along; a status satisfies any commitment at or below it.
+const COMMITMENT_RANK = { processed: 0, confirmed: 1, finalized: 2 };
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Thrown when a transaction lands with an error, expires unconfirmed, or was
+// sent but could not be followed (`result.err === 'Unconfirmed'`).
+// `result` carries the same fields a successful send resolves to.
+export class TransactionSendError extends Error {
+  constructor(message, result) {
+    super(message);
+    this.name = 'TransactionSendError';
+    this.result = result;
+  }
+}
+
+const recentBlockhashOf = (transaction) =>
+  transaction instanceof VersionedTransaction
+    ? transaction.message.recentBlockhash
+    : transaction.recentBlockhash;
+
+const signatureOf = (transaction) => {
+  const raw = transaction instanceof VersionedTransaction
+    ? transaction.signatures[0]
+    : transaction.signature;
+  if (!raw) throw new Error('[sendTransaction] Transaction is not signed by its fee payer.');
+  return bs58.encode(raw);
+};
+
+async function hasExpired(connection, blockhash, lastValidBlockHeight, commitment) {
+  if (lastValidBlockHeight) {
+    return (await connection.getBlockHeight(commitment)) > lastValidBlockHeight;
+  }
+  const valid = await connection.isBlockhashValid(blockhash, { commitment });
+  return !valid.value;
+}
+
+// Fee, compute units and logs of a landed transaction. The RPC can lag the
+// signature status by a moment, so a missing transaction is retried briefly.
+async function fetchExecutionDetails(connection, signature, commitment) {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const tx = await connection.getTransaction(signature, {
+        maxSupportedTransactionVersion: 0,
+        commitment: commitment === 'processed' ? 'confirmed' : commitment,
+      });
+      if (tx) {
+        return {
+          feeLamports: tx.meta?.fee ?? null,
+          computeUnitsConsumed: tx.meta?.computeUnitsConsumed ?? null,
+          logs: tx.meta?.logMessages ?? [],
+        };
+      }
+    } catch (err) {
+      console.warn(`[sendTransaction] Could not fetch details for ${signature}: ${err.message}`);
+    }
+    await sleep(DEFAULT_POLL_INTERVAL_MS);
+  }
+  return { feeLamports: null, computeUnitsConsumed: null, logs: [] };
+}
+
+// Broadcasts one signed transaction and keeps rebroadcasting the same bytes
+// until it lands or its blockhash expires. RPC errors while polling are logged
+// and polled through. Resolves to the landed status, to `{ expired: true }`, or
+// to `{ unconfirmed: reason }` when the RPC failed for too long to tell.
+async function broadcastUntilSettled(connection, signedTransaction, options) {
+  const {
+    lastValidBlockHeight,
+    commitment,
+    skipPreflight,
+    rebroadcastIntervalMs,
+    pollIntervalMs,
+  } = options;
+  const raw = signedTransaction.serialize();
+  const signature = signatureOf(signedTransaction);
+  const blockhash = recentBlockhashOf(signedTransaction);
+
+  // Preflight only on the first send; a simulation failure surfaces here.
+  await connection.sendRawTransaction(raw, { skipPreflight, maxRetries: 0, preflightCommitment: commitment });
+  console.log(`[sendTransaction] Sent ${signature}.`);
+  let broadcasts = 1;
+  let lastBroadcast = Date.now();
+  let lastExpiryCheck = Date.now();
+  let polls = 0;
+
+  while (true) {
+    polls++;
     try {
-      signature = await connection.confirmTransaction(txid, 'confirmed');
-      console.log(`Transaction confirmed: ${txid}`);
-      return signature;
+      const { value: [status] } = await connection.getSignatureStatuses([signature]);
+      if (status?.err) {
+        return { signature, blockhash, lastValidBlockHeight, broadcasts, slot: status.slot, err: status.err };
+      }
+      if (status?.confirmationStatus && COMMITMENT_RANK[status.confirmationStatus] >= COMMITMENT_RANK[commitment]) {
+        return { signature, blockhash, lastValidBlockHeight, broadcasts, slot: status.slot, err: null };
+      }
     } catch (err) {
-      console.log(`Confirmation failed, retrying (${retries+1}/${maxRetries}): ${err.message}`);
-      retries++;
-      
-      // Exponential backoff
-      await new Promise(resolve => setTimeout(resolve, backoff));
-      backoff *= 1.5;
+      console.warn(`[sendTransaction] Status poll for ${signature} failed: ${err.message}`);
+    }
+
+    if (polls % EXPIRY_CHECK_EVERY_POLLS === 0) {
+      let expired = false;
+      try {
+        expired = await hasExpired(connection, blockhash, lastValidBlockHeight, commitment);
+        lastExpiryCheck = Date.now();
+      } catch (err) {
+        console.warn(`[sendTransaction] Expiry check for ${signature} failed: ${err.message}`);
+      }
+      if (expired) {
+        // One last look: the transaction may have landed right at the edge.
+        try {
+          const { value: [finalStatus] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+          if (finalStatus?.confirmationStatus) {
+            return { signature, blockhash, lastValidBlockHeight, broadcasts, slot: finalStatus.slot, err: finalStatus.err ?? null };
+          }
+          return { signature, blockhash, lastValidBlockHeight, broadcasts, expired: true };
+        } catch (err) {
+          return { signature, blockhash, lastValidBlockHeight, broadcasts, unconfirmed: `final status check failed: ${err.message}` };
+        }
+      }
+    }
+    if (Date.now() - lastExpiryCheck >= MAX_RPC_OUTAGE_MS) {
+      return { signature, blockhash, lastValidBlockHeight, broadcasts, unconfirmed: `RPC unavailable for ${MAX_RPC_OUTAGE_MS / 1000} s` };
+    }
+
+    if (Date.now() - lastBroadcast >= rebroadcastIntervalMs) {
+      try {
+        await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+        broadcasts++;
+      } catch (err) {
+        console.warn(`[sendTransaction] Rebroadcast of ${signature} failed: ${err.message}`);
+      }
+      lastBroadcast = Date.now();
+    }
+    await sleep(pollIntervalMs);
+  }
+}
+
+/**
+ * Signs, sends and tracks a transaction until it is confirmed.
+ *
+ * `sign({ blockhash, lastValidBlockHeight })` must return the transaction
+ * signed with that blockhash. The signed bytes are rebroadcast every
+ * `rebroadcastIntervalMs` until they land or the blockhash passes its
+ * `lastValidBlockHeight`; after an expiry `sign` is called again with a fresh
+ * blockhash, up to `maxResigns` times.
+ *
+ * Resolves to `{ signature, slot, blockhash, lastValidBlockHeight, feeLamports,
+ * computeUnitsConsumed, logs, broadcasts, resigns }`. A transaction that fails
+ * on chain or expires without re-signing rejects with TransactionSendError, as
+ * does one whose outcome the RPC could not report (`result.err` is
+ * 'Unconfirmed'); that one may still land, so it is never re-signed.
+ */
+export async function signAndSendTransactionWithRetry(connection, sign, options = {}) {
+  const {
+    commitment = 'confirmed',
+    skipPreflight = false,
+    maxResigns = 1,
+    rebroadcastIntervalMs = DEFAULT_REBROADCAST_INTERVAL_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  } = options;
+
+  let resigns = 0;
+  while (true) {
+    const latest = await connection.getLatestBlockhash(commitment);
+    const signedTransaction = await sign(latest);
+    const outcome = await broadcastUntilSettled(connection, signedTransaction, {
+      lastValidBlockHeight: latest.lastValidBlockHeight,
+      commitment,
+      // Re-signed attempts already passed simulation once.
+      skipPreflight: skipPreflight || resigns > 0,
+      rebroadcastIntervalMs,
+      pollIntervalMs,
+    });
+    if (outcome.expired && resigns < maxResigns) {
+      resigns++;
+      console.warn(`[sendTransaction] ${outcome.signature} expired unconfirmed; re-signing (${resigns}/${maxResigns}).`);
+      continue;
     }
+    return finishSend(connection, outcome, commitment, resigns);
+  }
+}
+
+/**
+ * Tracks an already signed transaction (its blockhash cannot be changed).
+ * Pass `lastValidBlockHeight` when known; otherwise expiry is detected by
+ * asking the RPC whether the transaction's blockhash is still valid.
+ */
+export async function sendSignedTransactionWithRetry(connection, signedTransaction, options = {}) {
+  const {
+    commitment = 'confirmed',
+    skipPreflight = false,
+    lastValidBlockHeight,
+    rebroadcastIntervalMs = DEFAULT_REBROADCAST_INTERVAL_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  } = options;
+  const outcome = await broadcastUntilSettled(connection, signedTransaction, {
+    lastValidBlockHeight,
+    commitment,
+    skipPreflight,
+    rebroadcastIntervalMs,
+    pollIntervalMs,
+  });
+  return finishSend(connection, outcome, commitment, 0);
+}
+
+async function finishSend(connection, outcome, commitment, resigns) {
+  const { expired, unconfirmed, ...sent } = outcome;
+  if (unconfirmed) {
+    throw new TransactionSendError(
+      `Transaction ${sent.signature} was sent but could not be confirmed (${unconfirmed}); check the wallet before sending it again.`,
+      { ...sent, slot: null, feeLamports: null, computeUnitsConsumed: null, logs: [], err: 'Unconfirmed', resigns }
+    );
+  }
+  if (expired) {
+    throw new TransactionSendError(
+      `Transaction ${sent.signature} expired before it was confirmed (last valid block height ${sent.lastValidBlockHeight ?? 'unknown'}).`,
+      { ...sent, slot: null, feeLamports: null, computeUnitsConsumed: null, logs: [], err: 'BlockhashExpired', resigns }
+    );
   }
-  
-  throw new Error(`Failed to confirm transaction after ${maxRetries} attempts`);
-};
\ No newline at end of file
+  const details = await fetchExecutionDetails(connection, sent.signature, commitment);
+  const result = { ...sent, ...details, resigns };
+  if (sent.err) {
+    console.error(`[sendTransaction] ${sent.signature} failed:`, sent.err, '\n' + details.logs.join('\n'));
+    throw new TransactionSendError(`Transaction ${sent.signature} failed: ${JSON.stringify(sent.err)}`, result);
+  }
+  console.log(`[sendTransaction] ✅ ${sent.signature} confirmed in slot ${sent.slot} (fee ${details.feeLamports ?? '?'} lamports, ${details.computeUnitsConsumed ?? '?'} CU).`);
+  return result;
+}
+
+// Sends serialized, signed transaction bytes and waits for confirmation,
+// rebroadcasting them until they land or their blockhash expires.
+export const sendAndConfirmWithRetry = async (connection, signedTransaction, options = {}) => {
+  const transaction = VersionedTransaction.deserialize(signedTransaction);
+  return sendSignedTransactionWithRetry(connection, transaction, options);
+};
@@ -0,0 +1,174 @@
+// src/utils/walletBackup.ts
+import { Keypair } from '@solana/web3.js';
+import { NetworkType } from '@/context/NetworkContext';
+import {
+    BotWalletRecord,
+    loadBotWalletRecords,
+    saveBotWalletRecordsByNetwork,
+} from './botWalletManager';
+import {
+    createKdfParams,
+    decryptBytes,
+    deriveVaultKey,
+    encryptBytes,
+    isKdfParams,
+    EncryptedBlob,
+    VaultKdfParams,
+} from './walletVault';
+
+// Portable, password protected export of the bot wallets of every network.
+// The backup password is independent of the local vault password, and each
+// secret key is bound to its network and public key through the AES-GCM AAD.
+
+const BACKUP_TYPE = 'sniperlab-bot-wallet-backup';
+const BACKUP_VERSION = 1;
+const NETWORKS: NetworkType[] = ['devnet', 'mainnet-beta'];
+
+interface BackupWalletEntry extends EncryptedBlob {
+    network: NetworkType;
+    publicKey: string;
+    label: string;
+    createdAt: number;
+}
+
+interface WalletBackupFile {
+    type: typeof BACKUP_TYPE;
+    version: typeof BACKUP_VERSION;
+    createdAt: number;
+    kdf: VaultKdfParams;
+    wallets: BackupWalletEntry[];
+}
+
+export interface WalletImportResult {
+    imported: number;
+    skipped: number;
+}
+
+const entryAad = (network: NetworkType, publicKey: string) => `backup:${network}:${publicKey}`;
+
+const isNetwork = (value: any): value is NetworkType => NETWORKS.includes(value);
+
+export const backupFileName = (date = new Date()) =>
+    `bot-wallets-backup-${date.toISOString().replace(/[:.]/g, '-')}.json`;
+
+/** Serialize every network's bot wallets into an encrypted backup document. */
+export async function exportWalletBackup(backupPassword: string): Promise<string> {
+    if (!backupPassword) throw new Error('Backup password not provided');
+
+    const kdf = createKdfParams();
+    const key = await deriveVaultKey(backupPassword, kdf);
+    const wallets: BackupWalletEntry[] = [];
+
+    for (const network of NETWORKS) {
+        const records = await loadBotWalletRecords(network);
+        for (const [idx, record] of records.entries()) {
+            const publicKey = record.keypair.publicKey.toBase58();
+            wallets.push({
+                network,
+                publicKey,
+                label: record.label ?? `Bot ${idx + 1}`,
+                createdAt: record.createdAt,
+                ...(await encryptBytes(key, record.keypair.secretKey, entryAad(network, publicKey))),
+            });
+        }
+    }
+
+    const backup: WalletBackupFile = {
+        type: BACKUP_TYPE,
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        kdf,
+        wallets,
+    };
+    console.log(`[WalletBackup] Exported ${wallets.length} bot wallet(s).`);
+    return JSON.stringify(backup, null, 2);
+}
+
+function parseBackup(text: string): WalletBackupFile {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Backup file is not valid JSON.');
+    }
+    if (parsed?.type !== BACKUP_TYPE) {
+        throw new Error('File is not a bot wallet backup.');
+    }
+    if (parsed.version !== BACKUP_VERSION) {
+        throw new Error(`Unsupported backup version ${String(parsed.version)}.`);
+    }
+    if (!isKdfParams(parsed.kdf) || !Array.isArray(parsed.wallets)) {
+        throw new Error('Backup file is malformed.');
+    }
+    for (const entry of parsed.wallets) {
+        if (!isNetwork(entry?.network) || typeof entry.publicKey !== 'string') {
+            throw new Error('Backup file contains an invalid wallet entry.');
+        }
+    }
+    return parsed as WalletBackupFile;
+}
+
+/**
+ * Decrypt a backup and merge it into the local wallet store. Every entry is
+ * decrypted and validated before anything is written, and all networks are
+ * then saved in one write that is rolled back as a whole if it fails; wallets
+ * whose public key already exists locally are skipped.
+ */
+export async function importWalletBackup(text: string, backupPassword: string): Promise<WalletImportResult> {
+    if (!backupPassword) throw new Error('Backup password not provided');
+    const backup = parseBackup(text);
+    const key = await deriveVaultKey(backupPassword, backup.kdf);
+
+    const incoming: Record<NetworkType, BotWalletRecord[]> = { 'devnet': [], 'mainnet-beta': [] };
+    for (const entry of backup.wallets) {
+        let secretKey: Uint8Array;
+        try {
+            secretKey = await decryptBytes(key, entry, entryAad(entry.network, entry.publicKey));
+        } catch {
+            throw new Error('Incorrect backup password or corrupted backup file.');
+        }
+        if (secretKey.length !== 64) {
+            throw new Error(`Backup entry ${entry.publicKey} does not contain a 64-byte secret key.`);
+        }
+        const keypair = Keypair.fromSecretKey(secretKey);
+        if (keypair.publicKey.toBase58() !== entry.publicKey) {
+            throw new Error(`Backup entry ${entry.publicKey} does not match its secret key.`);
+        }
+        incoming[entry.network].push({
+            keypair,
+            label: typeof entry.label === 'string' ? entry.label : undefined,
+            createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+        });
+    }
+
+    // Load both networks before writing so a bad local password aborts cleanly.
+    const existing: Record<NetworkType, BotWalletRecord[]> = { 'devnet': [], 'mainnet-beta': [] };
+    for (const network of NETWORKS) {
+        existing[network] = await loadBotWalletRecords(network);
+    }
+
+    const result: WalletImportResult = { imported: 0, skipped: 0 };
+    const updates: Partial<Record<NetworkType, BotWalletRecord[]>> = {};
+    for (const network of NETWORKS) {
+        if (incoming[network].length === 0) continue;
+        const known = new Set(existing[network].map(r => r.keypair.publicKey.toBase58()));
+        const additions: BotWalletRecord[] = [];
+        for (const record of incoming[network]) {
+            const pk = record.keypair.publicKey.toBase58();
+            if (known.has(pk)) {
+                result.skipped++;
+                continue;
+            }
+            known.add(pk);
+            additions.push(record);
+        }
+        if (additions.length > 0) {
+            updates[network] = [...existing[network], ...additions];
+            result.imported += additions.length;
+        }
+    }
+    if (result.imported > 0) await saveBotWalletRecordsByNetwork(updates);
+
+    console.log(`[WalletBackup] Imported ${result.imported} bot wallet(s), skipped ${result.skipped} duplicate(s).`);
+    return result;
+}
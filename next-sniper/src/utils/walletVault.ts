@@ -0,0 +1,115 @@
+// src/utils/walletVault.ts
+import { Buffer } from 'buffer';
+
+// Password based authenticated encryption shared by the bot wallet store and
+// the wallet backup files. Keys are derived with PBKDF2 (WebCrypto) from the
+// password and a per-vault salt, and every secret is sealed with AES-GCM under
+// its own random IV so tampering is detected on decrypt.
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface VaultKdfParams {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string; // base64
+}
+
+export interface EncryptedBlob {
+    iv: string; // base64
+    data: string; // base64 ciphertext including the GCM tag
+}
+
+const getSubtle = (): SubtleCrypto => {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+        throw new Error('WebCrypto is not available in this environment.');
+    }
+    return subtle;
+};
+
+export const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
+
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+    const decoded = Buffer.from(value, 'base64');
+    const bytes = new Uint8Array(decoded.length);
+    bytes.set(decoded);
+    return bytes;
+};
+
+const randomBytes = (length: number): Uint8Array<ArrayBuffer> => {
+    const bytes = new Uint8Array(length);
+    globalThis.crypto.getRandomValues(bytes);
+    return bytes;
+};
+
+const encodeAad = (aad?: string) => (aad ? new TextEncoder().encode(aad) : undefined);
+
+export function createKdfParams(): VaultKdfParams {
+    return {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(randomBytes(SALT_BYTES)),
+    };
+}
+
+export function isKdfParams(value: any): value is VaultKdfParams {
+    return (
+        value?.name === 'PBKDF2' &&
+        value?.hash === 'SHA-256' &&
+        Number.isInteger(value?.iterations) &&
+        value.iterations > 0 &&
+        typeof value?.salt === 'string'
+    );
+}
+
+export async function deriveVaultKey(password: string, kdf: VaultKdfParams): Promise<CryptoKey> {
+    if (!password) throw new Error('Encryption password not provided');
+    const subtle = getSubtle();
+    const baseKey = await subtle.importKey(
+        'raw',
+        new TextEncoder().encode(password),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return subtle.deriveKey(
+        { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: fromBase64(kdf.salt) },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+/**
+ * Encrypt `plaintext` with AES-GCM. `aad` binds the ciphertext to its context
+ * (e.g. the storage key) so it cannot be moved elsewhere without detection.
+ */
+export async function encryptBytes(key: CryptoKey, plaintext: Uint8Array, aad?: string): Promise<EncryptedBlob> {
+    const iv = randomBytes(IV_BYTES);
+    const input = new Uint8Array(plaintext.length);
+    input.set(plaintext);
+    const ciphertext = await getSubtle().encrypt(
+        { name: 'AES-GCM', iv, additionalData: encodeAad(aad) },
+        key,
+        input
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/** Decrypt a blob produced by `encryptBytes`. Throws if the data or password is wrong. */
+export async function decryptBytes(key: CryptoKey, blob: EncryptedBlob, aad?: string): Promise<Uint8Array> {
+    if (typeof blob?.iv !== 'string' || typeof blob?.data !== 'string') {
+        throw new Error('Malformed encrypted entry.');
+    }
+    const plaintext = await getSubtle().decrypt(
+        { name: 'AES-GCM', iv: fromBase64(blob.iv), additionalData: encodeAad(aad) },
+        key,
+        fromBase64(blob.data)
+    );
+    return new Uint8Array(plaintext);
+}
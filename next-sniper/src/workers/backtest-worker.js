@@ -0,0 +1,24 @@
+import { Buffer } from 'buffer';
+import { runBacktest } from '../utils/backtester';
+import { lockFunctionConstructors } from './strategySandbox.js';
+
+globalThis.Buffer = globalThis.Buffer || Buffer;
+lockFunctionConstructors();
+
+const PROGRESS_EVERY = 25;
+
+self.onmessage = async (ev) => {
+  const { ticks = [], config } = ev.data || {};
+  try {
+    const report = await runBacktest(ticks, config, (done, total) => {
+      if (done % PROGRESS_EVERY === 0 || done === total) {
+        self.postMessage({ progress: { done, total } });
+      }
+    });
+    self.postMessage({ report });
+  } catch (err) {
+    self.postMessage({ error: err?.message || String(err) });
+  }
+};
+
+export {};
@@ -1,137 +1,506 @@
 
 import { Buffer } from 'buffer';
 import BN from 'bn.js';
-import { NATIVE_MINT } from '@solana/spl-token';
 import * as web3 from '@solana/web3.js';
-import { swapRaydiumTokens } from '../utils/raydiumSdkAdapter.js';
-import { executeJupiterSwap } from '../utils/jupiterSwapUtil';
-import { getOptimalPriorityFee } from '../utils/priorityFee';
+import { getSwapRouter } from '../utils/swapRouter';
+import { compareSwapQuotes } from '../utils/bestExecution';
 import { toLamports } from '../utils/solanaUtils';
 import { createWalletAdapter } from '../utils/walletAdapter.js';
+import { simulateSwap } from '../utils/simulatedSwap';
+import { decodeSolanaError } from '../utils/rpcErrorHandler';
+import { dryRunSwap } from '../utils/swapSimulation';
+import { checkRiskLimits, pruneRiskTrades } from '../utils/riskPolicy';
+import { findSelfTrade, pruneSelfTradeFills } from '../utils/selfTradeGuard';
+import { fetchTradeFill, createTradeRecord, executedPrice } from '../utils/tradeLedger';
+import { createExitOrder, describeExitOrder } from '../utils/exitOrders';
+import { parseStrategyParamSchema, resolveStrategyParams } from '../utils/strategyParams';
+import {
+  loadStrategy,
+  createRunController,
+  raceSignal,
+  throwIfAborted,
+  StrategyAbortError,
+  lockFunctionConstructors,
+} from './strategySandbox.js';
+import { createStrategyState } from './strategyState.js';
 
 globalThis.Buffer = globalThis.Buffer || Buffer;
+lockFunctionConstructors();
 
 const pausedWallets = {};
+const DEFAULT_RUN_TIMEOUT_MS = 30000;
+// Flat fee charged per paper trade so paper PnL is comparable to real fills
+const PAPER_NETWORK_FEE_SOL = 0.00001;
+let paperFillCount = 0;
+// runId -> run controller for strategies that are still in flight
+const activeRuns = new Map();
+// Risk trades and self-trade fills per network, shared by every run and order
+// trade in this worker so concurrent ones count each other's reservations.
+// Each message carries the app's persisted copy, which is merged in rather than
+// replacing the list, so reservations of trades still in flight are kept.
+const sharedRiskTrades = {};
+const sharedSelfTradeFills = {};
 
-function createTradeApi(wallet, ctx, log) {
+const guardEntryKey = (e) => `${e.wallet}|${e.side}|${e.timestamp}`;
+
+// The list is updated in place; trade APIs of running strategies hold on to it.
+function mergeGuardEntries(store, network, incoming, prune) {
+  const list = store[network] || (store[network] = []);
+  const known = new Set(list.map(guardEntryKey));
+  for (const entry of incoming || []) {
+    if (!known.has(guardEntryKey(entry))) list.push(entry);
+  }
+  list.splice(0, list.length, ...prune(list));
+  return list;
+}
+
+// Points the context's risk and self-trade state at the worker's shared lists.
+function shareGuardState(ctx) {
+  const now = Date.now();
+  if (ctx.risk) {
+    const trades = mergeGuardEntries(sharedRiskTrades, ctx.network, ctx.risk.trades, (list) => pruneRiskTrades(list, now));
+    ctx.risk = { ...ctx.risk, trades };
+  }
+  if (ctx.selfTrade) {
+    const windowSec = ctx.selfTrade.config.windowSec;
+    const fills = mergeGuardEntries(sharedSelfTradeFills, ctx.network, ctx.selfTrade.fills, (list) => pruneSelfTradeFills(list, now, windowSec));
+    ctx.selfTrade = { ...ctx.selfTrade, fills };
+  }
+  return ctx;
+}
+
+// `source` is recorded on ledger entries: 'strategy' for runs, 'order' for exit and limit/DCA orders.
+function createTradeApi(wallet, ctx, log, post, signal, source = 'strategy') {
    const buildAmount = (amt) => {
     const decimals = ctx.token?.decimals || 0;
    return new BN(toLamports(amt, decimals).toString());
   };
 
+  // Paper mode: fill against the virtual pool and balances, never sign anything.
+  const paperSwap = (side, amount, opts) => {
+    const key = wallet.publicKey.toBase58();
+    const paper = ctx.paper;
+    if (!paper.pool) {
+      log(`[paper] ${side} skipped: no live pool reserves tracked yet`);
+      return undefined;
+    }
+    const bal = paper.balances[key] || (paper.balances[key] = { sol: 0, token: 0 });
+    const insufficient = side === 'buy'
+      ? bal.sol < amount + PAPER_NETWORK_FEE_SOL
+      : bal.token < amount || bal.sol < PAPER_NETWORK_FEE_SOL;
+    if (insufficient) {
+      log(`[paper] ${key} ${side} of ${amount} rejected: insufficient paper balance`);
+      return undefined;
+    }
+    const slippageBps = opts.slippageBps || 50;
+    const fill = simulateSwap(paper.pool, side, amount, ctx.token?.decimals ?? 9, slippageBps / 100);
+    if (!fill) {
+      log(`[paper] ${key} ${side} of ${amount} rejected: pool cannot fill`);
+      return undefined;
+    }
+    paper.pool = fill.pool;
+    if (side === 'buy') {
+      bal.sol -= amount;
+      bal.token += fill.amountOut;
+    } else {
+      bal.token -= amount;
+      bal.sol += fill.amountOut;
+    }
+    bal.sol -= PAPER_NETWORK_FEE_SOL;
+    post({
+      paperFill: {
+        network: ctx.network,
+        wallet: key,
+        side,
+        amountIn: amount,
+        amountOut: fill.amountOut,
+        price: fill.price,
+        networkFeeSol: PAPER_NETWORK_FEE_SOL,
+      },
+    });
+    log(`[paper] ${side} ${amount} -> ${fill.amountOut.toFixed(6)} @ ${fill.price.toExponential(4)}`);
+    return `paper-${++paperFillCount}`;
+  };
+
+  const swapRequest = (side, amountBn, opts) => ({
+    wallet,
+    connection: ctx.connection,
+    side,
+    tokenMint: ctx.token.address,
+    tokenDecimals: ctx.token?.decimals || 0,
+    amount: amountBn,
+    slippageBps: opts.slippageBps || 50,
+    // 'low' | 'medium' | 'high' | 'p90' or micro-lamports; `priorityFeeMicroLamports` is the older spelling
+    priority: opts.priority ?? opts.priorityFeeMicroLamports,
+    maxPriorityFeeSol: opts.maxPriorityFeeSol,
+    poolId: opts.poolId || ctx.poolId,
+    poolType: opts.poolType,
+    priceLimit: opts.priceLimit,
+    preflight: opts.preflight ?? !!ctx.preflight,
+  });
+
+  // Failures are rethrown as SolanaTradeError so strategies can branch on `err.code`.
+  const decodeAndThrow = (side) => (err) => {
+    const decoded = decodeSolanaError(err);
+    log(`[trade] ${side} failed (${decoded.code}${decoded.retryable ? ', retryable' : ''}): ${decoded.message}`);
+    throw decoded;
+  };
+
+  // Routed by network unless the strategy picks a venue with `opts.route`.
+  const routedSwap = (side, amountBn, opts) =>
+    getSwapRouter(ctx.network, { route: opts.route })
+      .execute(swapRequest(side, amountBn, opts))
+      .catch(decodeAndThrow(side));
+
+  // Reads what the landed swap actually moved, then reports the balance change
+  // (the requested amount when the transaction cannot be read) and the ledger record.
+  // Simulated-route fills have no transaction and stay out of the ledger.
+  const settleTrade = async (side, amount, signature, opts) => {
+    const key = wallet.publicKey.toBase58();
+    const onChain = opts.route !== 'simulated';
+    const fill = onChain ? await fetchTradeFill(ctx.connection, signature, wallet.publicKey, ctx.token.address) : null;
+    post({
+      balanceUpdate: fill
+        ? { wallet: key, solChange: fill.solChange, tokenChange: fill.tokenChange }
+        : { wallet: key, ...(side === 'buy' ? { solChange: -amount } : { tokenChange: -amount }) },
+    });
+    if (!onChain) return;
+    if (!fill) log(`[trade] ${side} ${signature}: could not read the landed transaction, recording the requested amount`);
+    post({
+      ledgerTrade: createTradeRecord({
+        network: ctx.network,
+        bot: key,
+        token: ctx.token.address,
+        side,
+        signature,
+        source,
+        requestedIn: amount,
+        strategyId: ctx.strategyRevision?.strategyId ?? null,
+        strategyRevisionId: ctx.strategyRevision?.revisionId ?? null,
+      }, fill),
+    });
+  };
+
+  // Dry run: build and sign as usual, then simulate instead of sending.
+  const dryRun = async (side, amountBn, opts) => {
+    const router = getSwapRouter(ctx.network, { route: opts.route });
+    const sim = await dryRunSwap(router, swapRequest(side, amountBn, opts)).catch(decodeAndThrow(side));
+    log(sim.wouldFail
+      ? `[dry-run] ${side} via ${sim.route} would fail (${sim.error.code}): ${sim.error.message}`
+      : `[dry-run] ${side} via ${sim.route}: SOL ${sim.solChange}, tokens ${sim.tokenChange}, ${sim.unitsConsumed ?? '?'} CU`);
+    return { dryRun: true, ...sim };
+  };
+  const isDryRun = (opts) => opts.dryRun ?? !!ctx.simulateOnly;
+
+  // Quote used by the price impact and position limits; paper runs price against the virtual pool.
+  const riskQuote = async (side, amount, opts) => {
+    const decimals = ctx.token?.decimals ?? 9;
+    if (ctx.paper) {
+      const pool = ctx.paper.pool;
+      const fill = pool && simulateSwap(pool, side, amount, decimals, (opts.slippageBps || 50) / 100);
+      if (!fill) return null;
+      const spot = pool.sol / pool.token;
+      return { tokensOut: side === 'buy' ? fill.amountOut : 0, priceImpactPercent: Math.abs(fill.price / spot - 1) * 100 };
+    }
+    const quote = await getSwapRouter(ctx.network, { route: opts.route }).quote(swapRequest(side, buildAmount(amount), opts));
+    return {
+      tokensOut: side === 'buy' ? Number(quote.amountOut.toString()) / 10 ** decimals : 0,
+      priceImpactPercent: quote.priceImpactPercent,
+    };
+  };
+
+  // Risk limits from Global Bot Controls. Returns the trade reserved in
+  // `ctx.risk.trades`, or null when a limit rejects it. The check and the
+  // reservation happen without an await between them, so concurrent trades
+  // count each other against the limits.
+  const reserveRiskTrade = async (side, amount, opts) => {
+    const risk = ctx.risk;
+    if (!risk) return undefined;
+    const { limits } = risk;
+    const key = wallet.publicKey.toBase58();
+    const needsQuote = limits.maxPriceImpactPercent !== null || (side === 'buy' && limits.maxPositionTokens !== null);
+    let quoted = null;
+    if (needsQuote) {
+      quoted = await riskQuote(side, amount, opts).catch((err) => {
+        log(`[risk] quote for ${side} of ${amount} failed: ${err?.message || err}`);
+        return null;
+      });
+      if (!quoted) {
+        log(`[risk] ${key} ${side} of ${amount} rejected: no quote to check price impact / position against`);
+        return null;
+      }
+    }
+    const balances = ctx.paper ? ctx.paper.balances : ctx.walletBalances;
+    const violation = checkRiskLimits(limits, {
+      wallet: key,
+      side,
+      amount,
+      positionTokens: balances?.[key]?.token ?? 0,
+      expectedTokensOut: quoted ? quoted.tokensOut : null,
+      priceImpactPercent: quoted ? quoted.priceImpactPercent : null,
+      dailyLossSol: risk.dailyLossSol,
+      trades: risk.trades,
+      now: Date.now(),
+    });
+    if (violation) {
+      log(`[risk] ${key} ${side} of ${amount} rejected by ${violation.rule}: ${violation.message}`);
+      if (violation.rule === 'maxDailyLossSol') post({ riskHalt: violation });
+      return null;
+    }
+    const trade = { wallet: key, side, sol: side === 'buy' ? amount : 0, timestamp: Date.now() };
+    risk.trades.push(trade);
+    return trade;
+  };
+
+  const releaseRiskTrade = (trade) => {
+    const trades = ctx.risk?.trades;
+    const i = trades ? trades.indexOf(trade) : -1;
+    if (i !== -1) trades.splice(i, 1);
+  };
+
+  // Blocks a trade against another managed wallet's opposing fill on the same
+  // token. Returns the fill reserved for this trade, or null when blocked.
+  // The reservation is made up front so concurrent group-mode trades see it.
+  const reserveSelfTrade = (side, amount, opts) => {
+    const guard = ctx.selfTrade;
+    const token = ctx.token?.address;
+    if (!guard?.config.enabled || !token) return undefined;
+    const key = wallet.publicKey.toBase58();
+    const now = Date.now();
+    const conflict = findSelfTrade(guard.fills, { token, wallet: key, side, now }, guard.managedWallets, guard.config.windowSec);
+    if (conflict) {
+      const overridden = !!opts.allowSelfTrade;
+      const entry = {
+        timestamp: now,
+        token,
+        wallet: key,
+        side,
+        amount,
+        counterparty: conflict.wallet,
+        counterpartyAt: conflict.timestamp,
+        action: overridden ? 'overridden' : 'blocked',
+      };
+      post({ selfTradeAudit: { network: ctx.network, entry } });
+      const ago = ((now - conflict.timestamp) / 1000).toFixed(1);
+      if (!overridden) {
+        log(`[self-trade] ${key} ${side} of ${amount} blocked: ${conflict.wallet} ${conflict.side} ${ago}s ago (pass allowSelfTrade to override)`);
+        return null;
+      }
+      log(`[self-trade] ${key} ${side} of ${amount} crosses ${conflict.wallet} ${conflict.side} ${ago}s ago; allowed by override`);
+    }
+    const fill = { token, wallet: key, side, timestamp: now };
+    guard.fills.push(fill);
+    return fill;
+  };
+
+  const releaseSelfTrade = (fill) => {
+    const fills = ctx.selfTrade?.fills;
+    const i = fills ? fills.indexOf(fill) : -1;
+    if (i !== -1) fills.splice(i, 1);
+  };
+
+  // Dry runs are checked against the limits but never count towards them.
+  const guardedSwap = async (side, amount, opts, run) => {
+    const riskTrade = await reserveRiskTrade(side, amount, opts);
+    if (riskTrade === null) return undefined;
+    const fill = reserveSelfTrade(side, amount, opts);
+    const release = () => {
+      if (riskTrade) releaseRiskTrade(riskTrade);
+      if (fill) releaseSelfTrade(fill);
+    };
+    if (fill === null) {
+      release();
+      return undefined;
+    }
+    let result;
+    try {
+      result = await run();
+    } catch (err) {
+      release();
+      throw err;
+    }
+    if (result === undefined || result?.dryRun) {
+      release();
+      return result;
+    }
+    // Stamped in place so the app's copy matches the shared entry when it comes back
+    if (riskTrade) {
+      riskTrade.timestamp = Date.now();
+      post({ riskTrade: { network: ctx.network, trade: riskTrade } });
+    }
+    if (fill) {
+      fill.timestamp = Date.now();
+      post({ selfTradeFill: { network: ctx.network, fill } });
+    }
+    return result;
+  };
+
   return {
     buy: async (amount, opts = {}) => {
+       throwIfAborted(signal);
        log(`[trade] buy request: amount=${amount}`);
-       const key = wallet.publicKey.toBase58();
-      const bal = ctx.walletBalances?.[key];
-      const fee = 0.00001;
-      if (bal && bal.sol < amount + fee) {
-        if (!pausedWallets[key]) {
-          pausedWallets[key] = true;
-          log(`Wallet ${key} balance too low, bot paused`);
-        }
-        return;
-      }
-      pausedWallets[key] = false;
-      const amountBn = buildAmount(amount);
-      const slippageBps = opts.slippageBps || 50;
-       let sig;
-      if (ctx.network.startsWith('mainnet')) {
-        sig = await executeJupiterSwap({
-          wallet,
-          connection: ctx.connection,
-          inputMint: NATIVE_MINT,
-          outputMint: new web3.PublicKey(ctx.token.address),
-          amount: amountBn,
-          slippageBps,
-          priorityFeeMicroLamports: opts.priorityFeeMicroLamports || 1000,
-        });
-         } else {
-        const poolId = opts.poolId || ctx.poolId;
-        if (!poolId) {
-          log('[trade] Missing poolId for Raydium buy');
-          throw new Error('poolId required');
+      return guardedSwap('buy', amount, opts, async () => {
+        if (ctx.paper) return paperSwap('buy', amount, opts);
+        const key = wallet.publicKey.toBase58();
+        const bal = ctx.walletBalances?.[key];
+        const fee = 0.00001;
+        if (bal && bal.sol < amount + fee) {
+          if (!pausedWallets[key]) {
+            pausedWallets[key] = true;
+            log(`Wallet ${key} balance too low, bot paused`);
+          }
+          return;
         }
-        const devPriority = await getOptimalPriorityFee(ctx.connection);
-        sig = await swapRaydiumTokens(
-          wallet,
-          ctx.connection,
-          poolId,
-          NATIVE_MINT.toBase58(),
-          amountBn,
-          slippageBps / 10000,
-          devPriority
-        );
-      }
-      self.postMessage({ balanceUpdate: { wallet: key, solChange: -amount } });
-      return sig;
-
+        pausedWallets[key] = false;
+        const amountBn = buildAmount(amount);
+        if (isDryRun(opts)) return dryRun('buy', amountBn, opts);
+        const sig = await routedSwap('buy', amountBn, opts);
+        await settleTrade('buy', amount, sig, opts);
+        return sig;
+      });
     },
     sell: async (amount, opts = {}) => {
+      throwIfAborted(signal);
       log(`[trade] sell request: amount=${amount}`);
-       const key = wallet.publicKey.toBase58();
-      const bal = ctx.walletBalances?.[key];
-      if (bal && bal.token < amount) {
-        if (!pausedWallets[key]) {
-          pausedWallets[key] = true;
-          log(`Wallet ${key} balance too low, bot paused`);
-        }
-        return;
-      }
-      pausedWallets[key] = false;
-      const amountBn = buildAmount(amount);
-      const slippageBps = opts.slippageBps || 50;
-      let sig;
-      if (ctx.network.startsWith('mainnet')) {
-       sig = await executeJupiterSwap({
-          wallet,
-          connection: ctx.connection,
-          inputMint: new web3.PublicKey(ctx.token.address),
-          outputMint: NATIVE_MINT,
-          amount: amountBn,
-          slippageBps,
-          priorityFeeMicroLamports: opts.priorityFeeMicroLamports || 1000,
-        });
-         } else {
-        const poolId = opts.poolId || ctx.poolId;
-        if (!poolId) {
-          log('[trade] Missing poolId for Raydium sell');
-          throw new Error('poolId required');
+      return guardedSwap('sell', amount, opts, async () => {
+        if (ctx.paper) return paperSwap('sell', amount, opts);
+        const key = wallet.publicKey.toBase58();
+        const bal = ctx.walletBalances?.[key];
+        if (bal && bal.token < amount) {
+          if (!pausedWallets[key]) {
+            pausedWallets[key] = true;
+            log(`Wallet ${key} balance too low, bot paused`);
+          }
+          return;
         }
-        const devPriority = await getOptimalPriorityFee(ctx.connection);
-        sig = await swapRaydiumTokens(
-          wallet,
-          ctx.connection,
-          poolId,
-          ctx.token.address,
-          amountBn,
-          slippageBps / 10000,
-          devPriority
-        );
-      }
-    self.postMessage({ balanceUpdate: { wallet: key, tokenChange: -amount } });
-      return sig;
+        pausedWallets[key] = false;
+        const amountBn = buildAmount(amount);
+        if (isDryRun(opts)) return dryRun('sell', amountBn, opts);
+        const sig = await routedSwap('sell', amountBn, opts);
+        await settleTrade('sell', amount, sig, opts);
+        return sig;
+      });
+    },
+    // Exit orders are kept and evaluated by the app, so they outlive this run.
+    placeExit: (spec) => {
+      const order = createExitOrder(spec, {
+        network: ctx.network,
+        bot: wallet.publicKey.toBase58(),
+        token: ctx.token?.address,
+        source: 'strategy',
+      });
+      post({ exitOrderPlace: order });
+      log(`[exit] placed ${describeExitOrder(order)} (${order.id})`);
+      return order.id;
+    },
+    cancelExit: (id) => {
+      post({ exitOrderCancel: { network: ctx.network, bot: wallet.publicKey.toBase58(), id } });
+    },
+  };
+}
+
+// Side-by-side venue quotes for strategies; `amount` is SOL on buys, tokens on sells.
+function createQuoteApi(ctx, signal) {
+  return (amount, side = 'buy', opts = {}) => {
+    throwIfAborted(signal);
+    if (side !== 'buy' && side !== 'sell') throw new Error(`quote side must be 'buy' or 'sell', got ${side}`);
+    const decimals = ctx.token?.decimals || 0;
+    const poolId = opts.poolId || ctx.poolId;
+    return raceSignal(compareSwapQuotes(ctx.network, {
+      // Quotes never sign, so any public key will do
+      wallet: { publicKey: web3.PublicKey.default },
+      connection: ctx.connection,
+      side,
+      tokenMint: ctx.token.address,
+      tokenDecimals: decimals,
+      amount: new BN(toLamports(amount, side === 'buy' ? 9 : decimals).toString()),
+      slippageBps: opts.slippageBps || 50,
+      poolId,
+      poolType: opts.poolType,
+    }, opts.routes), signal);
+  };
+}
+
+// Only public keys leave the trade layer; strategies never see secret keys.
+const publicView = (wallet) => Object.freeze({ publicKey: wallet.publicKey });
+
+// Read-only snapshot for strategy code, detached from the trade API's copy.
+function frozenCopy(value) {
+  const freeze = (v) => {
+    if (v && typeof v === 'object' && !Object.isFrozen(v)) {
+      Object.values(v).forEach(freeze);
+      Object.freeze(v);
     }
+    return v;
   };
+  return freeze(structuredClone(value));
 }
 
-self.onmessage = async (ev) => {
- const { code, bots = [], context = {}, mode = 'per-bot' } = ev.data || {};
+const sanitizeSystemState = (systemState) => ({
+  ...systemState,
+  allBots: (systemState.allBots || []).map((b) => ({
+    id: b.id,
+    publicKey: new web3.PublicKey(Uint8Array.from(b.secretKey).slice(32)).toBase58(),
+  })),
+});
+
+async function runStrategy({ runId, code, bots = [], context = {}, mode = 'per-bot', timeoutMs = DEFAULT_RUN_TIMEOUT_MS, state = null }) {
+  const post = (msg) => self.postMessage({ runId, ...msg });
+  const log = (msg) => post({ log: msg });
+  const run = createRunController(timeoutMs);
+  // Without a snapshot (state not loaded yet) the run gets a scratch store that is not synced back.
+  const stateStore = createStrategyState(state);
+  activeRuns.set(runId, run);
+  const startedAt = Date.now();
+  let status = 'completed';
+
   try {
-     self.postMessage({ log: `[worker] Received message: mode=${mode}, bots=${bots.length}` });
+     log(`[worker] Run #${runId}: mode=${mode}, bots=${bots.length}, timeout=${timeoutMs}ms`);
     // Provide window polyfill similar to walletCreator
     globalThis.window = self;
     if (!globalThis.Buffer) {
       globalThis.Buffer = Buffer;
     }
-        const { rpcUrl, network, isAdvancedMode, systemState, token, market, walletBalances, ...restContext } = context;
+        const { rpcUrl, network, isAdvancedMode, systemState, token, market, walletBalances, paper, params, risk, selfTrade, ...restContext } = context;
     const connection = new web3.Connection(rpcUrl, 'confirmed');
     const detectedNetwork = network || (rpcUrl.includes('mainnet') ? 'mainnet-beta' : 'devnet');
-    const workerContext = { ...restContext, rpcUrl, network: detectedNetwork, connection, web3, token, market, isAdvancedMode, walletBalances };
-    if (systemState) workerContext.systemState = systemState;
+    // Full context used by the trade API; strategies only get `strategyContext`.
+    // The risk and self-trade settings the trade API checks are private copies;
+    // strategies see frozen snapshots, so they cannot loosen a limit or turn the guard off.
+    const tradeContext = shareGuardState({
+      ...restContext,
+      rpcUrl,
+      network: detectedNetwork,
+      connection,
+      token,
+      market,
+      walletBalances,
+      paper,
+      risk: structuredClone(risk),
+      selfTrade: structuredClone(selfTrade),
+    });
+    const strategyContext = {
+      ...restContext,
+      risk: frozenCopy(risk),
+      selfTrade: frozenCopy(selfTrade),
+      rpcUrl,
+      network: detectedNetwork,
+      web3: { PublicKey: web3.PublicKey, LAMPORTS_PER_SOL: web3.LAMPORTS_PER_SOL },
+      token,
+      market,
+      isAdvancedMode,
+      // In paper mode strategies see their virtual balances
+      walletBalances: paper ? paper.balances : walletBalances,
+      paperTrading: !!paper,
+      runId,
+      signal: run.signal,
+      state: stateStore.scope(),
+      quote: createQuoteApi(tradeContext, run.signal),
+    };
+    if (systemState) strategyContext.systemState = sanitizeSystemState(systemState);
 
     if (!token?.address) {
-      self.postMessage({ log: '[worker] Warning: no token configured in context' });
+      log('[worker] Warning: no token configured in context');
     }
     
     const wallets = bots.map((sk, i) => {
@@ -139,34 +508,27 @@ self.onmessage = async (ev) => {
         const kp = web3.Keypair.fromSecretKey(Uint8Array.from(sk));
        return createWalletAdapter(kp, connection);
       } catch (err) {
-        self.postMessage({ log: `[worker] Failed to load bot ${i}: ${err?.message || err}` });
+        log(`[worker] Failed to load bot ${i}: ${err?.message || err}`);
         return null;
       }
     }).filter(Boolean);
 
-    const log = (msg) => {
-      self.postMessage({ log: msg });
-    };
-
-    const tradeApis = wallets.map((w) => createTradeApi(w, workerContext, log));
+    const tradeApis = wallets.map((w) => createTradeApi(w, tradeContext, log, post, run.signal));
 
-    const exports = {};
-   let fn;
+    let exports;
     try {
-      // Compile the strategy code first so syntax errors are reported clearly
-      fn = new Function('exports', 'context', code);
+      // Compile and initialise the strategy first so syntax errors are reported clearly
+      exports = loadStrategy(code, strategyContext);
     } catch (compileErr) {
-      log(`[worker] Failed to compile strategy: ${compileErr?.message || compileErr}`);
-      self.postMessage({ error: compileErr?.message || String(compileErr) });
-      return;
-    }
-    try {
-      fn(exports, workerContext);
-    } catch (execErr) {
-      log(`[worker] Error during strategy initialization: ${execErr?.message || execErr}`);
-      self.postMessage({ error: execErr?.message || String(execErr) });
+      log(`[worker] Failed to load strategy: ${compileErr?.message || compileErr}`);
+      post({ error: compileErr?.message || String(compileErr) });
+      status = 'error';
       return;
     }
+    // Saved values the declaration no longer accepts fall back to its defaults
+    const paramSchema = parseStrategyParamSchema(exports.params);
+    paramSchema.errors.forEach((e) => log(`[worker] exports.params ${e}`));
+    strategyContext.params = resolveStrategyParams(paramSchema.schema, params);
 
     log(`[worker] Preparing to run strategy (${mode}), wallets=${wallets.length}`);
 
@@ -183,40 +545,129 @@ self.onmessage = async (ev) => {
     if (mode === 'group') {
        log('[worker] Running group mode strategy');
       const botContexts = wallets.map((wallet, i) => ({
-        wallet,
+        wallet: publicView(wallet),
         publicKey: wallet.publicKey,
-        market: workerContext.market,
+        market: strategyContext.market,
+        state: stateStore.scope(wallet.publicKey.toBase58()).bot,
         buy: tradeApis[i].buy,
         sell: tradeApis[i].sell,
+        placeExit: tradeApis[i].placeExit,
+        cancelExit: tradeApis[i].cancelExit,
         log: (m) => log(`[${wallet.publicKey.toBase58()}] ${m}`)
       }));
-      const groupCtx = { ...workerContext, bots: botContexts };
+      const groupCtx = { ...strategyContext, bots: botContexts };
       try {
-        await exports.strategy(log, groupCtx);
+        await raceSignal(exports.strategy(log, groupCtx), run.signal);
         log('[worker] Group strategy complete');
       } catch (err) {
+        if (err instanceof StrategyAbortError) throw err;
          log(`[worker] Error in group strategy: ${err?.message || err}`);
       }
     } else {
       for (let i = 0; i < wallets.length; i++) {
+        throwIfAborted(run.signal);
         const wallet = wallets[i];
         log(`[worker] Running per-bot strategy for bot ${wallet.publicKey.toBase58()}`);
         try {
-          const ctxWithApi = { ...workerContext, buy: tradeApis[i].buy, sell: tradeApis[i].sell };
-          await exports.strategy(wallet, log, ctxWithApi);
+          const ctxWithApi = {
+            ...strategyContext,
+            state: stateStore.scope(wallet.publicKey.toBase58()),
+            buy: tradeApis[i].buy,
+            sell: tradeApis[i].sell,
+            placeExit: tradeApis[i].placeExit,
+            cancelExit: tradeApis[i].cancelExit,
+          };
+          await raceSignal(exports.strategy(publicView(wallet), log, ctxWithApi), run.signal);
         } catch (err) {
+          if (err instanceof StrategyAbortError) throw err;
           log(`[worker] Error in bot ${wallet.publicKey.toBase58()}: ${err?.message || err}`);
         }
       }
     }
   } catch (err) {
+    if (err instanceof StrategyAbortError) {
+      status = err.reason;
+      log(`[worker] Run #${runId} ${err.reason === 'timeout' ? `timed out after ${timeoutMs}ms` : 'cancelled'}`);
+      return;
+    }
+    status = 'error';
     const msg = err?.message || err;
-    self.postMessage({ log: `[worker] Unhandled error: ${msg}` });
+    log(`[worker] Unhandled error: ${msg}`);
     if (err?.stack) {
-      self.postMessage({ log: err.stack });
+      log(err.stack);
     }
-    self.postMessage({ error: msg || String(err) });
+    post({ error: msg || String(err) });
+  } finally {
+    run.dispose();
+    activeRuns.delete(runId);
+    if (state) post({ stateUpdate: stateStore.snapshot() });
+    post({ done: { status, durationMs: Date.now() - startedAt } });
+  }
+}
+
+// Trades for a fired exit order or one slice of a limit/DCA order, through the
+// same trade API (risk limits, self-trade guard, paper fills, ledger) as strategy trades.
+// There is no run timeout: a sent transaction is tracked until it confirms, fails
+// or expires, so a `failed` result always means nothing landed and is safe to retry.
+async function runOrderTrade({ runId, bot, context, order }) {
+  // Price the trade actually got, read from its ledger record or paper fill
+  let price = null;
+  const post = (msg) => {
+    if (msg.ledgerTrade) price = executedPrice(msg.ledgerTrade);
+    if (msg.paperFill) price = msg.paperFill.price;
+    self.postMessage({ runId, ...msg });
+  };
+  const log = (msg) => post({ log: msg });
+  globalThis.window = self;
+  try {
+    const connection = new web3.Connection(context.rpcUrl, 'confirmed');
+    const wallet = createWalletAdapter(web3.Keypair.fromSecretKey(Uint8Array.from(bot)), connection);
+    const api = createTradeApi(wallet, shareGuardState({ ...context, connection }), log, post, null, 'order');
+    log(`[order] ${order.id} for ${wallet.publicKey.toBase58()}: ${order.side} ${order.amount}`);
+    const opts = order.slippageBps ? { slippageBps: order.slippageBps } : {};
+    const signature = await api[order.side](order.amount, opts);
+    post({ orderResult: signature === undefined
+      ? { id: order.id, status: 'rejected', error: `${order.side} was rejected (see log)` }
+      : { id: order.id, status: signature?.dryRun ? 'rejected' : 'filled',
+        signature: typeof signature === 'string' ? signature : null,
+        price,
+        error: signature?.dryRun ? 'simulate-only mode is on' : null } });
+  } catch (err) {
+    log(`[order] ${order.id} failed: ${err?.message || err}`);
+    // A send that may still land is reported as unknown so the order is not retried.
+    const status = err?.code === 'UNCONFIRMED' ? 'unknown' : 'failed';
+    post({ orderResult: { id: order.id, status, error: err?.message || String(err) } });
+  }
+}
+
+// Reads `exports.params` for the parameter form. Only the normalized declaration
+// goes back; the app never loads strategy code on its own thread.
+function describeStrategy({ runId, code }) {
+  let exports;
+  try {
+    exports = loadStrategy(code, {});
+  } catch (err) {
+    self.postMessage({ runId, describe: { schema: {}, errors: [`Could not load strategy: ${err?.message || String(err)}`] } });
+    return;
+  }
+  self.postMessage({ runId, describe: parseStrategyParamSchema(exports.params) });
+}
+
+self.onmessage = (ev) => {
+  const data = ev.data || {};
+  if (data.type === 'cancel') {
+    activeRuns.get(data.runId)?.cancel();
+    return;
+  }
+  if (data.type === 'order') {
+    runOrderTrade(data);
+    return;
+  }
+  if (data.type === 'describe') {
+    describeStrategy(data);
+    return;
   }
+  runStrategy(data);
 };
 
 export {};
@@ -0,0 +1,150 @@
+// src/workers/strategySandbox.js
+// Helpers for compiling and running user strategies in a restricted scope.
+
+// Globals a strategy must not reach directly. They are shadowed by parameters
+// of the function wrapping the strategy, so a plain reference such as
+// `fetch(...)` resolves to `undefined` instead of the worker global. Strategy
+// code runs in strict mode with an undefined `this`, and the worker disables
+// the Function constructors (see lockFunctionConstructors), so the global
+// object cannot be recovered either.
+const SHADOWED_GLOBALS = [
+  'self',
+  'globalThis',
+  'window',
+  'eval',
+  'Function',
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'Request',
+  'Response',
+  'Headers',
+  'importScripts',
+  'postMessage',
+  'onmessage',
+  'addEventListener',
+  'removeEventListener',
+  'dispatchEvent',
+  'close',
+  'Worker',
+  'SharedWorker',
+  'BroadcastChannel',
+  'indexedDB',
+  'caches',
+  'navigator',
+  'location',
+];
+
+// Timers evaluate a string handler in worker global scope, so strategies get
+// versions that only take functions.
+const functionOnlyTimer = (name) => (handler, ...args) => {
+  if (typeof handler !== 'function') throw new TypeError(`${name} only accepts a function in strategies`);
+  return globalThis[name](handler, ...args);
+};
+
+// Globals replaced by a restricted version rather than hidden.
+const RESTRICTED_GLOBALS = {
+  setTimeout: functionOnlyTimer('setTimeout'),
+  setInterval: functionOnlyTimer('setInterval'),
+};
+
+export class StrategyAbortError extends Error {
+  constructor(reason) {
+    super(reason === 'timeout' ? 'Strategy run timed out' : 'Strategy run cancelled');
+    this.name = 'StrategyAbortError';
+    this.reason = reason;
+  }
+}
+
+// `import()` loads modules from any URL and cannot be shadowed like a global.
+// Comments may sit between `import` and `(`, so the word itself is refused
+// anywhere in the code, strings and comments included.
+const IMPORT_KEYWORD = /\bimport\b/;
+
+/**
+ * Compile strategy source into a function of `(exports, context)`.
+ * Throws on syntax errors so the caller can report them.
+ */
+export function compileStrategy(code) {
+  if (IMPORT_KEYWORD.test(code)) throw new SyntaxError('import is not available to strategies; the word may not appear in strategy code');
+  // Parse on its own first: code that is a valid function body cannot close
+  // the wrapper below early and run outside strict mode.
+  new Function('exports', 'context', `'use strict';\n${code}`);
+  // The outer function is sloppy so it can shadow `eval`; the strategy itself is strict.
+  const wrap = new Function(
+    ...SHADOWED_GLOBALS,
+    ...Object.keys(RESTRICTED_GLOBALS),
+    `return function (exports, context) {'use strict';\n${code}\n};`
+  );
+  const fn = wrap.call(undefined, ...SHADOWED_GLOBALS.map(() => undefined), ...Object.values(RESTRICTED_GLOBALS));
+  return (exports, context) => fn.call(undefined, exports, context);
+}
+
+/**
+ * Make `fn.constructor` of every function kind throw, so strategy code cannot
+ * build a sloppy-mode function (`(() => {}).constructor('return this')()`) to
+ * reach the global object. Call once at the top of a worker that runs strategies.
+ */
+export function lockFunctionConstructors() {
+  const kinds = [function () {}, async function () {}, function* () {}, async function* () {}];
+  for (const kind of kinds) {
+    Object.defineProperty(Object.getPrototypeOf(kind), 'constructor', {
+      value: function disabledFunctionConstructor() {
+        throw new Error('Function constructors are disabled in the strategy worker');
+      },
+      writable: false,
+      configurable: false,
+    });
+  }
+}
+
+/**
+ * Load a strategy module: compile it, run its top level and return `exports`.
+ */
+export function loadStrategy(code, context) {
+  const exports = {};
+  compileStrategy(code)(exports, context);
+  return exports;
+}
+
+/**
+ * Create the abort controller for one run. The signal aborts with reason
+ * 'timeout' once `timeoutMs` elapses or with 'cancelled' via `cancel()`.
+ */
+export function createRunController(timeoutMs) {
+  const controller = new AbortController();
+  const timer = timeoutMs > 0 ? setTimeout(() => controller.abort('timeout'), timeoutMs) : null;
+  return {
+    signal: controller.signal,
+    cancel: () => controller.abort('cancelled'),
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
+
+/** Reject with a StrategyAbortError as soon as `signal` aborts. */
+export function raceSignal(promise, signal) {
+  if (signal.aborted) return Promise.reject(new StrategyAbortError(signal.reason));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new StrategyAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    Promise.resolve(promise).then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+/** Throw if the run has been aborted; used before any side effect. */
+export function throwIfAborted(signal) {
+  if (signal?.aborted) throw new StrategyAbortError(signal.reason);
+}
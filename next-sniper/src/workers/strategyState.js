@@ -0,0 +1,71 @@
+// src/workers/strategyState.js
+// In-memory `context.state` for one strategy run. The snapshot comes from the
+// app, is mutated by the strategy and is posted back once the run finishes.
+
+// Values are stored as plain JSON so they survive IndexedDB and postMessage.
+const toStorable = (key, value) => {
+  if (typeof key !== 'string' || key === '') {
+    throw new Error('State keys must be non-empty strings');
+  }
+  if (value === undefined || typeof value === 'function') {
+    throw new Error(`State value for "${key}" must be JSON serializable`);
+  }
+  return JSON.parse(JSON.stringify(value));
+};
+
+function createScope(values) {
+  return Object.freeze({
+    get: (key, fallback) => (Object.hasOwn(values, key) ? values[key] : fallback),
+    set: (key, value) => {
+      values[key] = toStorable(key, value);
+      return values[key];
+    },
+    delete: (key) => {
+      delete values[key];
+    },
+    has: (key) => Object.hasOwn(values, key),
+    keys: () => Object.keys(values),
+    clear: () => {
+      for (const key of Object.keys(values)) delete values[key];
+    },
+  });
+}
+
+/**
+ * Build the state store for a run. `scope()` returns the strategy-wide scope
+ * with a `bot` property bound to `botKey` when given, and `forBot(key)` for
+ * group strategies that address bots explicitly.
+ */
+export function createStrategyState(snapshot) {
+  // Null-prototype maps, so keys such as `__proto__` or `constructor` are plain entries
+  const data = {
+    strategy: Object.assign(Object.create(null), snapshot?.strategy),
+    bots: Object.assign(
+      Object.create(null),
+      Object.fromEntries(
+        Object.entries(snapshot?.bots || {}).map(([key, values]) => [key, Object.assign(Object.create(null), values)])
+      )
+    ),
+  };
+
+  const botScope = (botKey) => {
+    if (!Object.hasOwn(data.bots, botKey)) data.bots[botKey] = Object.create(null);
+    return createScope(data.bots[botKey]);
+  };
+
+  return {
+    scope: (botKey) => {
+      const strategyScope = createScope(data.strategy);
+      return Object.freeze({
+        ...strategyScope,
+        forBot: botScope,
+        ...(botKey ? { bot: botScope(botKey) } : {}),
+      });
+    },
+    snapshot: () => ({
+      strategy: data.strategy,
+      // Drop empty bot scopes created by lookups
+      bots: Object.fromEntries(Object.entries(data.bots).filter(([, v]) => Object.keys(v).length > 0)),
+    }),
+  };
+}
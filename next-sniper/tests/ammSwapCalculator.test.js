@@ -0,0 +1,106 @@
+// Raw CPMM and AMM v4 quote math, checked against the Raydium SDK on fixed reserve vectors.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import BN from 'bn.js';
+import Decimal from 'decimal.js';
+import { CurveCalculator } from '@raydium-io/raydium-sdk-v2';
+import cpmmModule from '@raydium-io/raydium-sdk-v2/lib/raydium/cpmm/cpmm.js';
+import liquidityModule from '@raydium-io/raydium-sdk-v2/lib/raydium/liquidity/liquidity.js';
+import { DEFAULT_AMM_V4_FEE_CONFIG, cpmmFeeConfig, quoteExactIn, quoteExactOut } from '../src/utils/ammSwapCalculator.ts';
+
+// The SDK's quote helpers are module methods that only read their arguments
+const CpmmModule = cpmmModule.default;
+const LiquidityModule = liquidityModule.default;
+
+const MINT_A = { address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+const MINT_B = { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+
+// [reserveIn, reserveOut, amountIn], raw base units
+const VECTORS = [
+    ['5000000000', '7000000000000', '1000000'],
+    ['123456789012', '987654321', '50000000'],
+    ['1000000', '1000000', '999999'],
+    ['85000000000000', '3100000000', '12345678901'],
+].map((v) => v.map((n) => new BN(n)));
+
+const CPMM_FEE_RATES = [2500, 10000, 100];
+
+test('CPMM exact-in matches CurveCalculator.swap', () => {
+    for (const [reserveIn, reserveOut, amountIn] of VECTORS) {
+        for (const rate of CPMM_FEE_RATES) {
+            const quote = quoteExactIn(amountIn, reserveIn, reserveOut, cpmmFeeConfig(rate));
+            const sdk = CurveCalculator.swap(amountIn, reserveIn, reserveOut, new BN(rate));
+            assert.equal(quote.amountOut.toString(), sdk.destinationAmountSwapped.toString());
+            assert.equal(quote.tradeFee.toString(), sdk.tradeFee.toString());
+            assert.equal(quote.newReserveOut.toString(), reserveOut.sub(sdk.destinationAmountSwapped).toString());
+        }
+    }
+});
+
+test('CPMM exact-in matches computeSwapAmount', () => {
+    for (const [reserveIn, reserveOut, amountIn] of VECTORS) {
+        const pool = {
+            mintA: MINT_A,
+            mintB: MINT_B,
+            baseReserve: reserveIn,
+            quoteReserve: reserveOut,
+            configInfo: { tradeFeeRate: new BN(2500) },
+            poolPrice: new Decimal(reserveOut.toString()).div(reserveIn.toString()),
+        };
+        const sdk = CpmmModule.prototype.computeSwapAmount.call(null, {
+            pool,
+            amountIn,
+            outputMint: MINT_B.address,
+            slippage: 0,
+        });
+        const quote = quoteExactIn(amountIn, reserveIn, reserveOut, cpmmFeeConfig(2500));
+        assert.equal(quote.amountOut.toString(), sdk.amountOut.toString());
+        assert.equal(quote.tradeFee.toString(), sdk.fee.toString());
+    }
+});
+
+test('CPMM exact-out matches CurveCalculator.swapBaseOut', () => {
+    for (const [reserveIn, reserveOut, amountIn] of VECTORS) {
+        for (const rate of CPMM_FEE_RATES) {
+            const amountOut = quoteExactIn(amountIn, reserveIn, reserveOut, cpmmFeeConfig(rate)).amountOut.divn(3).addn(1);
+            const quote = quoteExactOut(amountOut, reserveIn, reserveOut, cpmmFeeConfig(rate));
+            const sdk = CurveCalculator.swapBaseOut({
+                poolMintA: MINT_A,
+                poolMintB: MINT_B,
+                tradeFeeRate: new BN(rate),
+                baseReserve: reserveIn,
+                quoteReserve: reserveOut,
+                outputMint: MINT_B.address,
+                outputAmount: amountOut,
+            });
+            assert.equal(quote.amountIn.toString(), sdk.amountIn.toString());
+            assert.equal(quote.tradeFee.toString(), sdk.tradeFee.toString());
+            // The input it asks for is enough, and one unit less is not
+            assert.ok(quoteExactIn(quote.amountIn, reserveIn, reserveOut, cpmmFeeConfig(rate)).amountOut.gte(amountOut));
+            assert.ok(quoteExactIn(quote.amountIn.subn(1), reserveIn, reserveOut, cpmmFeeConfig(rate)).amountOut.lt(amountOut));
+        }
+    }
+});
+
+test('AMM v4 exact-in matches the liquidity module', () => {
+    for (const [reserveIn, reserveOut, amountIn] of VECTORS) {
+        const quote = quoteExactIn(amountIn, reserveIn, reserveOut, DEFAULT_AMM_V4_FEE_CONFIG);
+        const sdk = LiquidityModule.prototype.computeAmountOut.call(null, {
+            poolInfo: { version: 4, mintA: MINT_A, mintB: MINT_B, baseReserve: reserveIn, quoteReserve: reserveOut },
+            amountIn,
+            mintIn: MINT_A.address,
+            mintOut: MINT_B.address,
+            slippage: 0,
+        });
+        assert.equal(quote.amountOut.toString(), sdk.amountOut.toString());
+        assert.equal(quote.tradeFee.toString(), sdk.fee.toString());
+    }
+});
+
+test('quotes are null when the pool cannot fill them', () => {
+    const fees = cpmmFeeConfig(2500);
+    assert.equal(quoteExactIn(new BN(0), new BN(100), new BN(100), fees), null);
+    assert.equal(quoteExactIn(new BN(10), new BN(0), new BN(100), fees), null);
+    assert.equal(quoteExactOut(new BN(100), new BN(100), new BN(100), fees), null);
+    assert.equal(quoteExactOut(new BN(10), new BN(100), new BN(100), cpmmFeeConfig(1_000_000)), null);
+});
@@ -0,0 +1,74 @@
+// AMM v4 quotes from on-chain pool state: direction, the pool's own swap fee and slippage.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import BN from 'bn.js';
+import liquidityModule from '@raydium-io/raydium-sdk-v2/lib/raydium/liquidity/liquidity.js';
+import { quoteRaydiumAmmV4Swap } from '../src/utils/raydiumSdkAdapter.js';
+
+const LiquidityModule = liquidityModule.default;
+
+const POOL_ID = '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2';
+const BASE = { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const QUOTE = { address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+// Stands in for the SDK instance: only getPoolInfoFromRpc is used by the quote
+const fakeRaydium = ({ version = 4, baseReserve, quoteReserve, swapFeeNumerator = new BN(25), swapFeeDenominator = new BN(10000) }) => ({
+    liquidity: {
+        getPoolInfoFromRpc: async () => ({
+            poolRpcData: { baseReserve, quoteReserve, swapFeeNumerator, swapFeeDenominator },
+            poolInfo: { id: POOL_ID, version, mintA: BASE, mintB: QUOTE },
+            poolKeys: { id: POOL_ID },
+        }),
+    },
+});
+
+const sdkAmountOut = (baseReserve, quoteReserve, amountIn, mintIn, mintOut) =>
+    LiquidityModule.prototype.computeAmountOut.call(null, {
+        poolInfo: { version: 4, mintA: BASE, mintB: QUOTE, baseReserve, quoteReserve },
+        amountIn,
+        mintIn,
+        mintOut,
+        slippage: 0,
+    }).amountOut;
+
+test('quotes both directions like the SDK liquidity module', async () => {
+    const baseReserve = new BN('3100000000000');
+    const quoteReserve = new BN('85000000000000');
+    const raydium = fakeRaydium({ baseReserve, quoteReserve });
+    const amountIn = new BN('2500000000');
+
+    const buy = await quoteRaydiumAmmV4Swap(raydium, POOL_ID, QUOTE.address, amountIn, 0.01);
+    assert.equal(buy.amountOut.toString(), sdkAmountOut(baseReserve, quoteReserve, amountIn, QUOTE.address, BASE.address).toString());
+
+    const sell = await quoteRaydiumAmmV4Swap(raydium, POOL_ID, BASE.address, amountIn, 0.01);
+    assert.equal(sell.amountOut.toString(), sdkAmountOut(baseReserve, quoteReserve, amountIn, BASE.address, QUOTE.address).toString());
+    assert.equal(sell.minAmountOut.toString(), sell.amountOut.muln(99).divn(100).toString());
+    assert.ok(sell.priceImpact.gt(0) && sell.priceImpact.lt(1));
+});
+
+test("uses the pool's swap fee", async () => {
+    const baseReserve = new BN('1000000000');
+    const quoteReserve = new BN('1000000000');
+    const amountIn = new BN('1000000');
+    const standard = await quoteRaydiumAmmV4Swap(fakeRaydium({ baseReserve, quoteReserve }), POOL_ID, BASE.address, amountIn, 0);
+    const higherFee = await quoteRaydiumAmmV4Swap(
+        fakeRaydium({ baseReserve, quoteReserve, swapFeeNumerator: new BN(1), swapFeeDenominator: new BN(100) }),
+        POOL_ID,
+        BASE.address,
+        amountIn,
+        0
+    );
+    assert.equal(standard.tradeFee.toString(), '2500');
+    assert.equal(higherFee.tradeFee.toString(), '10000');
+    assert.ok(higherFee.amountOut.lt(standard.amountOut));
+});
+
+test('rejects pools that are not AMM v4 and mints not in the pool', async () => {
+    const reserves = { baseReserve: new BN(1000), quoteReserve: new BN(1000) };
+    await assert.rejects(quoteRaydiumAmmV4Swap(fakeRaydium({ ...reserves, version: 5 }), POOL_ID, BASE.address, new BN(10), 0), /not an AMM v4 pool/);
+    await assert.rejects(quoteRaydiumAmmV4Swap(fakeRaydium(reserves), POOL_ID, POOL_ID, new BN(10), 0), /is not in pool/);
+    await assert.rejects(
+        quoteRaydiumAmmV4Swap(fakeRaydium({ baseReserve: new BN(0), quoteReserve: new BN(1000) }), POOL_ID, BASE.address, new BN(10), 0),
+        /no liquidity/
+    );
+});
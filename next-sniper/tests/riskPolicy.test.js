@@ -0,0 +1,100 @@
+// Risk limits checked before a bot trade: rolling spend windows, trade counts, position, impact and daily loss.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RISK_LIMITS, checkRiskLimits, pruneRiskTrades, tradingPnlSol } from '../src/utils/riskPolicy.ts';
+
+const NOW = Date.UTC(2024, 4, 1, 12);
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const limits = (overrides) => ({ ...DEFAULT_RISK_LIMITS, ...overrides });
+
+const check = (overrides) => ({
+    wallet: 'bot-a',
+    side: 'buy',
+    amount: 0.1,
+    positionTokens: 0,
+    expectedTokensOut: null,
+    priceImpactPercent: null,
+    dailyLossSol: null,
+    trades: [],
+    now: NOW,
+    ...overrides,
+});
+
+const buy = (wallet, sol, ago) => ({ wallet, side: 'buy', sol, timestamp: NOW - ago });
+const sell = (wallet, ago) => ({ wallet, side: 'sell', sol: 0, timestamp: NOW - ago });
+
+const ruleOf = (violation) => violation?.rule ?? null;
+
+test('passes every trade with the default limits', () => {
+    assert.equal(checkRiskLimits(DEFAULT_RISK_LIMITS, check({ amount: 1000, priceImpactPercent: 99, dailyLossSol: 50 })), null);
+});
+
+test('caps a single buy but not a sell', () => {
+    const l = limits({ maxSolPerTrade: 0.5 });
+    assert.equal(ruleOf(checkRiskLimits(l, check({ amount: 0.6 }))), 'maxSolPerTrade');
+    assert.equal(checkRiskLimits(l, check({ amount: 0.5 })), null);
+    assert.equal(checkRiskLimits(l, check({ side: 'sell', amount: 10_000 })), null);
+});
+
+test("counts only this bot's buys inside the rolling hour and day", () => {
+    const trades = [
+        buy('bot-a', 0.4, 10 * MINUTE),
+        buy('bot-a', 0.3, 2 * HOUR),
+        buy('bot-b', 5, 5 * MINUTE),
+        buy('bot-a', 9, 25 * HOUR),
+    ];
+    const hourly = limits({ maxSolPerBotPerHour: 0.5 });
+    assert.equal(checkRiskLimits(hourly, check({ amount: 0.1, trades })), null);
+    assert.equal(ruleOf(checkRiskLimits(hourly, check({ amount: 0.2, trades }))), 'maxSolPerBotPerHour');
+    assert.equal(checkRiskLimits(hourly, check({ wallet: 'bot-c', amount: 0.5, trades })), null);
+
+    const daily = limits({ maxSolPerBotPerDay: 1 });
+    assert.equal(checkRiskLimits(daily, check({ amount: 0.3, trades })), null);
+    assert.equal(ruleOf(checkRiskLimits(daily, check({ amount: 0.31, trades }))), 'maxSolPerBotPerDay');
+});
+
+test('limits trades of either side per window', () => {
+    const l = limits({ maxTradesPerInterval: 2, tradeWindowSec: 60 });
+    const trades = [buy('bot-a', 0.1, 10 * 1000), sell('bot-a', 30 * 1000), buy('bot-a', 0.1, 2 * MINUTE)];
+    assert.equal(ruleOf(checkRiskLimits(l, check({ side: 'sell', trades }))), 'maxTradesPerInterval');
+    assert.equal(checkRiskLimits(l, check({ trades: trades.slice(1) })), null);
+});
+
+test('keeps the position under the cap when the buy output is known', () => {
+    const l = limits({ maxPositionTokens: 1000 });
+    assert.equal(ruleOf(checkRiskLimits(l, check({ positionTokens: 800, expectedTokensOut: 250 }))), 'maxPositionTokens');
+    assert.equal(checkRiskLimits(l, check({ positionTokens: 800, expectedTokensOut: 200 })), null);
+    assert.equal(checkRiskLimits(l, check({ positionTokens: 800, expectedTokensOut: null })), null);
+});
+
+test('rejects quotes above the price impact limit on both sides', () => {
+    const l = limits({ maxPriceImpactPercent: 2 });
+    assert.equal(ruleOf(checkRiskLimits(l, check({ side: 'sell', priceImpactPercent: 2.5 }))), 'maxPriceImpactPercent');
+    assert.equal(checkRiskLimits(l, check({ priceImpactPercent: 2 })), null);
+    assert.equal(checkRiskLimits(l, check({ priceImpactPercent: null })), null);
+});
+
+test('stops all trading once the daily loss is reached, before other rules', () => {
+    const l = limits({ maxDailyLossSol: 1, maxSolPerTrade: 0.01 });
+    assert.equal(ruleOf(checkRiskLimits(l, check({ side: 'sell', dailyLossSol: 1 }))), 'maxDailyLossSol');
+    assert.equal(ruleOf(checkRiskLimits(l, check({ amount: 5, dailyLossSol: 1.2 }))), 'maxDailyLossSol');
+    assert.equal(checkRiskLimits(l, check({ side: 'sell', dailyLossSol: -3 })), null);
+});
+
+test('prunes trades older than a day', () => {
+    const trades = [buy('bot-a', 1, 23 * HOUR), buy('bot-a', 1, 25 * HOUR)];
+    assert.deepEqual(pruneRiskTrades(trades, NOW), [trades[0]]);
+});
+
+test('values trading PnL from the ledger trades alone, skipping unreadable ones', () => {
+    const trades = [
+        { solChange: -1.001, tokenChange: 1000 },
+        { solChange: 0.599, tokenChange: -500 },
+        { solChange: null, tokenChange: null },
+    ];
+    // 500 tokens left at 0.0008 SOL: -1.001 + 0.599 + 0.4
+    assert.ok(Math.abs(tradingPnlSol(trades, 0.0008) - -0.002) < 1e-9);
+    assert.equal(tradingPnlSol([], 0.0008), 0);
+});
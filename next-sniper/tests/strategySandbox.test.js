@@ -0,0 +1,36 @@
+// Strategy sandbox: shadowed globals, refused dynamic imports and function-only timers.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { compileStrategy, loadStrategy } from '../src/workers/strategySandbox.js';
+
+test('network and messaging globals are hidden', () => {
+    const exports = loadStrategy('exports.kinds = [typeof fetch, typeof globalThis, typeof self, typeof postMessage, typeof eval];');
+    assert.deepEqual(exports.kinds, ['undefined', 'undefined', 'undefined', 'undefined', 'undefined']);
+});
+
+test('refuses import however it is written', () => {
+    for (const code of [
+        "exports.p = import('data:text/javascript,export default 42');",
+        "exports.p = import/**/('data:text/javascript,export default 42');",
+        "exports.p = import\n('data:text/javascript,export default 42');",
+        "exports.p = import /* ( */ ('https://example.com/x.js');",
+        "// import\nexports.p = 1;",
+    ]) {
+        assert.throws(() => compileStrategy(code), /import is not available to strategies/, code);
+    }
+    assert.equal(loadStrategy('exports.importance = 1;').importance, 1);
+});
+
+test('timers only accept functions', async () => {
+    const exports = loadStrategy(`
+        exports.kind = typeof setTimeout;
+        exports.fromString = () => setTimeout('globalThis.escaped = true', 0);
+        exports.fromInterval = () => setInterval('globalThis.escaped = true', 0);
+        exports.later = () => new Promise((resolve) => setTimeout(resolve, 1, 'done'));
+    `);
+    assert.equal(exports.kind, 'function');
+    assert.throws(() => exports.fromString(), /setTimeout only accepts a function/);
+    assert.throws(() => exports.fromInterval(), /setInterval only accepts a function/);
+    assert.equal(await exports.later(), 'done');
+    assert.equal(globalThis.escaped, undefined);
+});
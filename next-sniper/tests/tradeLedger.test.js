@@ -0,0 +1,76 @@
+// FIFO cost basis and PnL over ledger records built from landed trade fills.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { computeLedgerPnl, computeLedgerPnlByBot, createTradeRecord } from '../src/utils/tradeLedger.ts';
+
+const TOKEN = 'TokenMint1111111111111111111111111111111111';
+const OTHER = 'TokenMint2222222222222222222222222222222222';
+const FEE = 0.01;
+
+let seq = 0;
+// A landed trade: `sol` is what the swap itself moved, the fee comes on top
+const trade = (side, sol, tokens, { bot = 'bot-a', token = TOKEN } = {}) =>
+    createTradeRecord(
+        { network: 'devnet', bot, token, side, signature: `sig-${++seq}`, source: 'strategy', requestedIn: side === 'buy' ? sol : tokens },
+        side === 'buy'
+            ? { solChange: -sol - FEE, tokenChange: tokens, feeSol: FEE, priorityFeeSol: 0.002 }
+            : { solChange: sol - FEE, tokenChange: -tokens, feeSol: FEE, priorityFeeSol: 0.002 },
+        seq
+    );
+
+const close = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+test('sells consume the oldest lots first, fees included in cost and proceeds', () => {
+    const records = [trade('buy', 1, 1000), trade('buy', 2, 1000), trade('sell', 2.4, 1500)];
+    const pnl = computeLedgerPnl(records, { [TOKEN]: 0.003 });
+    // 1000 tokens of the 1.01 SOL lot and half of the 2.01 SOL lot
+    close(pnl.realizedSol, 2.4 - FEE - (1.01 + 2.01 / 2));
+    close(pnl.positionTokens, 500);
+    close(pnl.costBasisSol, 2.01 / 2);
+    close(pnl.unrealizedSol, 500 * 0.003 - 2.01 / 2);
+    assert.equal(pnl.trades, 3);
+    close(pnl.feesSol, 3 * FEE);
+    close(pnl.priorityFeesSol, 3 * 0.002);
+});
+
+test('a later buy does not change the cost of tokens already sold', () => {
+    const early = computeLedgerPnl([trade('buy', 1, 1000), trade('sell', 0.6, 500)], {});
+    const withLaterBuy = computeLedgerPnl([trade('buy', 1, 1000), trade('sell', 0.6, 500), trade('buy', 5, 1000)], {});
+    close(withLaterBuy.realizedSol, early.realizedSol);
+    close(early.realizedSol, 0.6 - FEE - 1.01 / 2);
+});
+
+test('tokens sold beyond the ledger lots have no cost basis', () => {
+    const pnl = computeLedgerPnl([trade('buy', 1, 100), trade('sell', 3, 300)], {});
+    close(pnl.realizedSol, 3 - FEE - 1.01);
+    close(pnl.positionTokens, 0);
+    close(pnl.costBasisSol, 0);
+});
+
+test('unreadable trades count and are left out of the cost basis', () => {
+    const unreadable = createTradeRecord(
+        { network: 'devnet', bot: 'bot-a', token: TOKEN, side: 'buy', signature: 'sig-unread', source: 'strategy', requestedIn: 1 },
+        null
+    );
+    const pnl = computeLedgerPnl([trade('buy', 1, 1000), unreadable], { [TOKEN]: 0.002 });
+    assert.equal(pnl.trades, 2);
+    close(pnl.positionTokens, 1000);
+    close(pnl.costBasisSol, 1.01);
+});
+
+test('unrealized PnL is null while a held token has no price', () => {
+    const records = [trade('buy', 1, 1000), trade('buy', 1, 1000, { token: OTHER })];
+    assert.equal(computeLedgerPnl(records, { [TOKEN]: 0.002 }).unrealizedSol, null);
+    close(computeLedgerPnl(records, { [TOKEN]: 0.002, [OTHER]: 0.001 }).unrealizedSol, 2 + 1 - 2 * 1.01);
+});
+
+test('lots are kept per bot, and the total adds the bots up', () => {
+    const records = [trade('buy', 1, 1000), trade('buy', 4, 1000, { bot: 'bot-b' }), trade('sell', 2, 1000)];
+    const { byBot, total } = computeLedgerPnlByBot(records, { [TOKEN]: 0.004 });
+    // bot-a sells its own 1.01 SOL lot, not bot-b's
+    close(byBot['bot-a'].realizedSol, 2 - FEE - 1.01);
+    close(byBot['bot-b'].unrealizedSol, 4 - 4.01);
+    close(total.realizedSol, byBot['bot-a'].realizedSol);
+    close(total.costBasisSol, 4.01);
+    assert.equal(total.trades, 3);
+});
@@ -0,0 +1,89 @@
+// Shared sender: polling through RPC errors, expiry checks and the unconfirmed outcome.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { TransactionSendError, sendSignedTransactionWithRetry, signAndSendTransactionWithRetry } from '../src/utils/transactionUtils.js';
+import { decodeSolanaError } from '../src/utils/rpcErrorHandler.js';
+
+const signedTransaction = () => ({
+    signature: new Uint8Array(64).fill(7),
+    recentBlockhash: 'hash',
+    serialize: () => new Uint8Array([1, 2, 3]),
+});
+
+// `statuses` yields one entry per status poll: a status object, null, or an Error to throw.
+const fakeConnection = ({ statuses = [], blockHeight = () => 10 } = {}) => {
+    const calls = { statuses: 0, blockHeight: 0, latestBlockhash: 0 };
+    return {
+        calls,
+        sendRawTransaction: async () => 'sig',
+        getLatestBlockhash: async () => {
+            calls.latestBlockhash++;
+            return { blockhash: 'hash', lastValidBlockHeight: 100 };
+        },
+        getSignatureStatuses: async () => {
+            const next = statuses[calls.statuses++] ?? null;
+            if (next instanceof Error) throw next;
+            return { value: [next] };
+        },
+        getBlockHeight: async () => {
+            calls.blockHeight++;
+            return blockHeight();
+        },
+        getTransaction: async () => ({ meta: { fee: 5000, computeUnitsConsumed: 1, logMessages: [] } }),
+    };
+};
+
+const confirmed = { confirmationStatus: 'confirmed', slot: 42, err: null };
+const options = { lastValidBlockHeight: 100, pollIntervalMs: 1, rebroadcastIntervalMs: 60_000 };
+
+test('polls through transient RPC errors until the transaction confirms', async (t) => {
+    t.mock.method(console, 'warn', () => {});
+    t.mock.method(console, 'log', () => {});
+    const connection = fakeConnection({ statuses: [new Error('fetch failed'), new Error('503'), confirmed] });
+    const result = await sendSignedTransactionWithRetry(connection, signedTransaction(), options);
+    assert.equal(result.slot, 42);
+    assert.equal(result.feeLamports, 5000);
+});
+
+test('checks the block height on every fourth poll only', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const connection = fakeConnection({ statuses: [null, null, null, null, null, null, null, null, confirmed] });
+    await sendSignedTransactionWithRetry(connection, signedTransaction(), options);
+    assert.equal(connection.calls.statuses, 9);
+    assert.equal(connection.calls.blockHeight, 2);
+});
+
+test('reports a send the RPC cannot follow as unconfirmed and does not re-sign it', async (t) => {
+    t.mock.method(console, 'warn', () => {});
+    t.mock.method(console, 'log', () => {});
+    let now = 0;
+    t.mock.method(Date, 'now', () => (now += 5_000));
+    const down = new Error('fetch failed');
+    const connection = fakeConnection({
+        statuses: Array.from({ length: 100 }, () => down),
+        blockHeight: () => { throw down; },
+    });
+    const sign = async () => signedTransaction();
+    const err = await signAndSendTransactionWithRetry(connection, sign, { ...options, maxResigns: 3 }).then(
+        () => assert.fail('expected the send to reject'),
+        (e) => e,
+    );
+    assert.ok(err instanceof TransactionSendError);
+    assert.equal(err.result.err, 'Unconfirmed');
+    assert.equal(connection.calls.latestBlockhash, 1);
+    const decoded = decodeSolanaError(err);
+    assert.equal(decoded.code, 'UNCONFIRMED');
+    assert.equal(decoded.retryable, false);
+});
+
+test('still reports an expired blockhash when the final status check succeeds', async (t) => {
+    t.mock.method(console, 'warn', () => {});
+    t.mock.method(console, 'log', () => {});
+    const connection = fakeConnection({ blockHeight: () => 101 });
+    const err = await sendSignedTransactionWithRetry(connection, signedTransaction(), options).then(
+        () => assert.fail('expected the send to reject'),
+        (e) => e,
+    );
+    assert.equal(err.result.err, 'BlockhashExpired');
+    assert.equal(decodeSolanaError(err).code, 'BLOCKHASH_EXPIRED');
+});
@@ -0,0 +1,82 @@
+// Encrypted wallet backups: export/import round trip, tamper rejection and all-or-nothing import.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { exportWalletBackup, importWalletBackup } from '../src/utils/walletBackup.ts';
+import { loadBotWalletRecords, saveBotWalletRecords } from '../src/utils/botWalletManager.ts';
+
+// The local vault password; the backup modules read it from here too
+process.env.NEXT_PUBLIC_WALLET_PASSWORD = 'local';
+
+const storage = new Map();
+let failingKey = null;
+globalThis.localStorage = {
+    getItem: (key) => storage.get(key) ?? null,
+    setItem: (key, value) => {
+        if (key === failingKey) throw new Error('QuotaExceededError');
+        storage.set(key, String(value));
+    },
+    removeItem: (key) => storage.delete(key),
+};
+
+const publicKeys = async (network) => (await loadBotWalletRecords(network)).map((r) => r.keypair.publicKey.toBase58());
+
+// Local wallets on both networks, exported and then wiped
+async function backupOfFreshWallets() {
+    storage.clear();
+    failingKey = null;
+    const devnet = [{ keypair: Keypair.generate(), label: 'Dev 1', createdAt: 10 }];
+    const mainnet = [{ keypair: Keypair.generate(), label: 'Main 1', createdAt: 20 }];
+    await saveBotWalletRecords('devnet', devnet);
+    await saveBotWalletRecords('mainnet-beta', mainnet);
+    const backup = await exportWalletBackup('backup password');
+    storage.clear();
+    return { backup, devnet, mainnet };
+}
+
+test('imports every network from an export and skips wallets already present', async () => {
+    const { backup, devnet, mainnet } = await backupOfFreshWallets();
+    const existing = Keypair.generate();
+    await saveBotWalletRecords('devnet', [{ keypair: existing, createdAt: 1 }]);
+
+    assert.deepEqual(await importWalletBackup(backup, 'backup password'), { imported: 2, skipped: 0 });
+    assert.deepEqual(await publicKeys('devnet'), [existing.publicKey.toBase58(), devnet[0].keypair.publicKey.toBase58()]);
+    assert.deepEqual(await publicKeys('mainnet-beta'), [mainnet[0].keypair.publicKey.toBase58()]);
+    assert.equal((await loadBotWalletRecords('mainnet-beta'))[0].label, 'Main 1');
+
+    assert.deepEqual(await importWalletBackup(backup, 'backup password'), { imported: 0, skipped: 2 });
+});
+
+test('a wrong password or tampered entry imports nothing', async () => {
+    const { backup } = await backupOfFreshWallets();
+    await assert.rejects(importWalletBackup(backup, 'guess'), /Incorrect backup password or corrupted backup file/);
+
+    // Entries are bound to their network and public key
+    const moved = JSON.parse(backup);
+    moved.wallets[1].network = 'devnet';
+    await assert.rejects(importWalletBackup(JSON.stringify(moved), 'backup password'), /Incorrect backup password or corrupted backup file/);
+
+    const relabelled = JSON.parse(backup);
+    relabelled.wallets[0].publicKey = Keypair.generate().publicKey.toBase58();
+    await assert.rejects(importWalletBackup(JSON.stringify(relabelled), 'backup password'), /Incorrect backup password or corrupted backup file/);
+
+    assert.equal(storage.size, 0);
+});
+
+test('rejects files that are not a backup', async () => {
+    await assert.rejects(importWalletBackup('not json', 'pw'), /not valid JSON/);
+    await assert.rejects(importWalletBackup('{"type":"other"}', 'pw'), /not a bot wallet backup/);
+    await assert.rejects(importWalletBackup('{"type":"sniperlab-bot-wallet-backup","version":9}', 'pw'), /Unsupported backup version 9/);
+});
+
+test('a failed write leaves every network as it was', async () => {
+    const { backup } = await backupOfFreshWallets();
+    const kept = Keypair.generate();
+    await saveBotWalletRecords('devnet', [{ keypair: kept, createdAt: 1 }]);
+    const devnetBefore = storage.get('bot-wallets-devnet');
+
+    failingKey = 'bot-wallets-mainnet';
+    await assert.rejects(importWalletBackup(backup, 'backup password'), /Failed to save bot wallets/);
+    assert.equal(storage.get('bot-wallets-devnet'), devnetBefore);
+    assert.ok(!storage.has('bot-wallets-mainnet'));
+});
@@ -0,0 +1,97 @@
+// AES-GCM wallet vault: round trips, tamper rejection and the legacy XOR migration.
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { createKdfParams, decryptBytes, deriveVaultKey, encryptBytes, fromBase64, isKdfParams, toBase64 } from '../src/utils/walletVault.ts';
+import { loadBotWalletRecords, saveBotWalletRecords, setEncryptionPassword } from '../src/utils/botWalletManager.ts';
+
+const storage = new Map();
+globalThis.localStorage = {
+    getItem: (key) => storage.get(key) ?? null,
+    setItem: (key, value) => storage.set(key, String(value)),
+    removeItem: (key) => storage.delete(key),
+};
+
+// Few iterations keep the tests fast; the format is the same
+const fastKdf = () => ({ ...createKdfParams(), iterations: 1000 });
+
+const flipByte = (base64, index) => {
+    const bytes = fromBase64(base64);
+    bytes[index] ^= 0x01;
+    return toBase64(bytes);
+};
+
+test('encrypts and decrypts a secret key', async () => {
+    const key = await deriveVaultKey('correct horse', fastKdf());
+    const secret = Keypair.generate().secretKey;
+    const blob = await encryptBytes(key, secret, 'bot-wallets-devnet');
+    assert.notEqual(blob.data, toBase64(secret));
+    assert.deepEqual(await decryptBytes(key, blob, 'bot-wallets-devnet'), secret);
+});
+
+test('every encryption uses a fresh IV and every KDF a fresh salt', async () => {
+    const kdf = fastKdf();
+    const key = await deriveVaultKey('pw', kdf);
+    const secret = new Uint8Array(64).fill(7);
+    const [a, b] = [await encryptBytes(key, secret), await encryptBytes(key, secret)];
+    assert.notEqual(a.iv, b.iv);
+    assert.notEqual(a.data, b.data);
+    assert.notEqual(createKdfParams().salt, createKdfParams().salt);
+    assert.ok(isKdfParams(kdf));
+    assert.ok(!isKdfParams({ ...kdf, iterations: 0 }));
+});
+
+test('rejects tampered ciphertext, IV, context and password', async () => {
+    const kdf = fastKdf();
+    const key = await deriveVaultKey('pw', kdf);
+    const blob = await encryptBytes(key, Keypair.generate().secretKey, 'bot-wallets-devnet');
+
+    await assert.rejects(decryptBytes(key, { ...blob, data: flipByte(blob.data, 3) }, 'bot-wallets-devnet'));
+    // The GCM tag is the last 16 bytes of the data
+    await assert.rejects(decryptBytes(key, { ...blob, data: flipByte(blob.data, fromBase64(blob.data).length - 1) }, 'bot-wallets-devnet'));
+    await assert.rejects(decryptBytes(key, { ...blob, iv: flipByte(blob.iv, 0) }, 'bot-wallets-devnet'));
+    await assert.rejects(decryptBytes(key, blob, 'bot-wallets-mainnet'));
+    await assert.rejects(decryptBytes(await deriveVaultKey('wrong', kdf), blob, 'bot-wallets-devnet'));
+    await assert.rejects(decryptBytes(key, { iv: blob.iv }, 'bot-wallets-devnet'), /Malformed encrypted entry/);
+});
+
+test('bot wallets survive a save and load, and a wrong password is refused', async () => {
+    storage.clear();
+    setEncryptionPassword('local password');
+    const records = [
+        { keypair: Keypair.generate(), label: 'Sniper 1', createdAt: 1 },
+        { keypair: Keypair.generate(), createdAt: 2 },
+    ];
+    await saveBotWalletRecords('devnet', records);
+    const stored = storage.get('bot-wallets-devnet');
+    for (const r of records) assert.ok(!stored.includes(toBase64(r.keypair.secretKey)));
+
+    const loaded = await loadBotWalletRecords('devnet');
+    assert.deepEqual(loaded.map((r) => r.keypair.secretKey), records.map((r) => r.keypair.secretKey));
+    assert.deepEqual(loaded.map((r) => [r.label, r.createdAt]), [['Sniper 1', 1], [undefined, 2]]);
+
+    // Entries are bound to their network's storage key
+    storage.set('bot-wallets-mainnet', stored);
+    setEncryptionPassword('local password');
+    await assert.rejects(loadBotWalletRecords('mainnet-beta'), /Incorrect password or corrupted wallet data/);
+
+    setEncryptionPassword('not the password');
+    await assert.rejects(loadBotWalletRecords('devnet'), /Incorrect password or corrupted wallet data/);
+});
+
+test('legacy XOR payloads are read once and rewritten as a vault', async () => {
+    storage.clear();
+    const password = 'legacy';
+    const xor = (bytes) => Array.from(bytes, (b, i) => b ^ password.charCodeAt(i % password.length));
+    const keypair = Keypair.generate();
+    storage.set('bot-wallets-devnet', JSON.stringify({
+        marker: xor(new TextEncoder().encode('wallets_v1')),
+        wallets: [xor(keypair.secretKey)],
+    }));
+
+    setEncryptionPassword(password);
+    const [migrated] = await loadBotWalletRecords('devnet');
+    assert.deepEqual(migrated.keypair.secretKey, keypair.secretKey);
+    assert.equal(JSON.parse(storage.get('bot-wallets-devnet')).version, 2);
+    assert.deepEqual((await loadBotWalletRecords('devnet'))[0].keypair.secretKey, keypair.secretKey);
+});